@@ -0,0 +1,6 @@
+-- Purchase order goods receipt
+-- Allows partial receipts; per-line received quantities live in items JSONB (received_quantity)
+
+ALTER TABLE purchase_orders DROP CONSTRAINT IF EXISTS purchase_orders_status_check;
+ALTER TABLE purchase_orders ADD CONSTRAINT purchase_orders_status_check
+    CHECK (status IN ('draft', 'sent', 'confirmed', 'partially_received', 'received', 'cancelled'));
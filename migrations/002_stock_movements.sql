@@ -0,0 +1,74 @@
+-- Stock movements ledger
+-- Every stock change is one row; apply_stock_movement() locks the product row so concurrent sales cannot lose updates
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('sale', 'purchase', 'adjustment', 'return', 'damage')),
+    quantity_change INTEGER NOT NULL,
+    quantity_after INTEGER NOT NULL,
+    reference_type TEXT,
+    reference_id TEXT,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON stock_movements(user_id, product_id, created_at);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage stock_movements" ON stock_movements
+    FOR ALL TO service_role USING (true);
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+    p_user_id UUID,
+    p_product_id UUID,
+    p_quantity INTEGER,
+    p_operation TEXT,
+    p_reason TEXT DEFAULT 'adjustment',
+    p_reference_type TEXT DEFAULT NULL,
+    p_reference_id TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS products AS $$
+DECLARE
+    v_product products;
+    v_change INTEGER;
+BEGIN
+    SELECT * INTO v_product FROM products
+    WHERE id = p_product_id AND user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    v_change := CASE p_operation
+        WHEN 'add' THEN p_quantity
+        WHEN 'subtract' THEN -p_quantity
+        WHEN 'set' THEN p_quantity - v_product.quantity
+        ELSE NULL
+    END;
+
+    IF v_change IS NULL THEN
+        RAISE EXCEPTION 'Invalid stock operation: %', p_operation;
+    END IF;
+
+    UPDATE products SET quantity = quantity + v_change
+    WHERE id = p_product_id
+    RETURNING * INTO v_product;
+
+    INSERT INTO stock_movements (user_id, product_id, reason, quantity_change, quantity_after, reference_type, reference_id, notes)
+    VALUES (p_user_id, p_product_id, p_reason, v_change, v_product.quantity, p_reference_type, p_reference_id, p_notes);
+
+    RETURN v_product;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Opening balance so existing stock levels are explained by the ledger
+INSERT INTO stock_movements (user_id, product_id, reason, quantity_change, quantity_after, notes, created_at)
+SELECT user_id, id, 'adjustment', quantity, quantity, 'Opening balance', NOW()
+FROM products
+WHERE quantity <> 0
+  AND NOT EXISTS (SELECT 1 FROM stock_movements m WHERE m.product_id = products.id);
@@ -0,0 +1,68 @@
+-- Canonical invoice model
+-- Line items live in invoices.items (JSONB) and totals in total/tax_amount for every creation path.
+-- Older conversational orders wrote total_amount/gst_amount and a separate invoice_items table;
+-- this backfills those invoices into the canonical columns. Safe to run more than once.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS customer_name TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS customer_phone TEXT;
+
+DO $$
+BEGIN
+    -- Totals from the legacy columns, where they exist
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'invoices' AND column_name = 'total_amount') THEN
+        EXECUTE 'UPDATE invoices SET total = total_amount WHERE total_amount IS NOT NULL AND (total IS NULL OR total = 0)';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'invoices' AND column_name = 'gst_amount') THEN
+        EXECUTE 'UPDATE invoices SET tax_amount = gst_amount WHERE gst_amount IS NOT NULL AND (tax_amount IS NULL OR tax_amount = 0)';
+    END IF;
+
+    -- Line items from invoice_items; legacy item totals excluded GST, canonical totals include it
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'invoice_items') THEN
+        EXECUTE $sql$
+            UPDATE invoices i
+            SET items = legacy.items
+            FROM (
+                SELECT ii.invoice_id,
+                       jsonb_agg(jsonb_build_object(
+                           'product_id', ii.product_id,
+                           'name', ii.product_name,
+                           'quantity', ii.quantity,
+                           'unit', 'pcs',
+                           'unit_price', ii.price,
+                           'discount', 0,
+                           'gst_rate', ii.gst_rate,
+                           'total', ROUND((ii.price * ii.quantity * (1 + ii.gst_rate / 100))::numeric, 2)
+                       )) AS items
+                FROM invoice_items ii
+                GROUP BY ii.invoice_id
+            ) legacy
+            WHERE i.id = legacy.invoice_id
+              AND (i.items IS NULL OR i.items = '[]'::jsonb)
+        $sql$;
+    END IF;
+END $$;
+
+-- Daily sales aggregation for forecasting now reads invoices.items
+CREATE OR REPLACE FUNCTION aggregate_daily_sales()
+RETURNS void AS $$
+BEGIN
+    DELETE FROM sales_history_daily;
+
+    INSERT INTO sales_history_daily (user_id, product_id, date, quantity_sold)
+    SELECT i.user_id,
+           (item->>'product_id')::uuid,
+           i.created_at::date,
+           SUM((item->>'quantity')::numeric)
+    FROM invoices i
+    CROSS JOIN LATERAL jsonb_array_elements(i.items) AS item
+    WHERE i.invoice_type = 'invoice'
+      AND i.status <> 'cancelled'
+      AND item->>'product_id' IS NOT NULL
+    GROUP BY i.user_id, (item->>'product_id')::uuid, i.created_at::date;
+END;
+$$ LANGUAGE plpgsql;
+
+-- invoice_items is no longer written. Drop it once the backfill has been checked:
+-- DROP TABLE invoice_items;
+-- ALTER TABLE invoices DROP COLUMN total_amount, DROP COLUMN gst_amount, DROP COLUMN payment_method;
@@ -0,0 +1,22 @@
+-- Payments against invoices
+-- Each payment is a transaction linked by invoice_id; invoices keep a running amount_paid and balance_due
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS balance_due DECIMAL(12, 2);
+
+-- Existing invoices: paid ones are settled in full, partial ones from their linked transactions
+UPDATE invoices SET amount_paid = total WHERE status = 'paid';
+
+UPDATE invoices i
+SET amount_paid = LEAST(i.total, paid.amount)
+FROM (
+    SELECT invoice_id, SUM(amount) AS amount
+    FROM transactions
+    WHERE invoice_id IS NOT NULL AND payment_status = 'completed' AND payment_type <> 'credit'
+    GROUP BY invoice_id
+) paid
+WHERE i.id = paid.invoice_id AND i.status = 'partial';
+
+UPDATE invoices SET balance_due = total - amount_paid WHERE balance_due IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_invoice_id ON transactions(invoice_id);
@@ -0,0 +1,10 @@
+-- Credit notes (sales returns)
+-- A credit note is an invoice row of type credit_note that points at the invoice it reverses
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_invoice_type_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_invoice_type_check
+    CHECK (invoice_type IN ('invoice', 'quotation', 'proforma', 'delivery_challan', 'credit_note'));
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS original_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_original_invoice_id ON invoices(original_invoice_id);
@@ -0,0 +1,10 @@
+-- Document conversion (quotation -> proforma/invoice, invoice -> delivery challan)
+-- Converted documents link back to their source; accepted quotations get their own status
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+    CHECK (status IN ('draft', 'sent', 'accepted', 'paid', 'partial', 'overdue', 'cancelled'));
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS source_document_id UUID REFERENCES invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_source_document_id ON invoices(source_document_id);
@@ -0,0 +1,60 @@
+-- Numbering series
+-- Document numbers come from per-series counters that restart each financial year (INV/25-26/0001).
+-- Invoices numbered before this keep their old numbers; the new format cannot collide with them.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS branch TEXT;
+
+CREATE TABLE IF NOT EXISTS numbering_series (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'quotation', 'proforma', 'delivery_challan', 'credit_note')),
+    branch TEXT NOT NULL DEFAULT '',
+    prefix TEXT NOT NULL,
+    padding INTEGER NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 8),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, document_type, branch)
+);
+
+CREATE TABLE IF NOT EXISTS document_sequences (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    document_type TEXT NOT NULL,
+    branch TEXT NOT NULL DEFAULT '',
+    financial_year TEXT NOT NULL,
+    last_number INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, document_type, branch, financial_year)
+);
+
+ALTER TABLE numbering_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage numbering_series" ON numbering_series
+    FOR ALL TO service_role USING (true);
+
+CREATE POLICY "Service role can manage document_sequences" ON document_sequences
+    FOR ALL TO service_role USING (true);
+
+CREATE TRIGGER update_numbering_series_updated_at
+    BEFORE UPDATE ON numbering_series
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION next_document_number(
+    p_user_id UUID,
+    p_document_type TEXT,
+    p_branch TEXT,
+    p_financial_year TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_number INTEGER;
+BEGIN
+    INSERT INTO document_sequences (user_id, document_type, branch, financial_year, last_number)
+    VALUES (p_user_id, p_document_type, p_branch, p_financial_year, 1)
+    ON CONFLICT (user_id, document_type, branch, financial_year)
+    DO UPDATE SET last_number = document_sequences.last_number + 1, updated_at = NOW()
+    RETURNING last_number INTO v_number;
+
+    RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,9 @@
+-- Place of supply
+-- Invoices record where the supply is made and split their GST into CGST/SGST (intra-state) or IGST (inter-state).
+-- Existing invoices keep a single tax figure; their place of supply is unknown and left NULL.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS place_of_supply TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS is_interstate BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
@@ -0,0 +1,33 @@
+-- Input tax credit
+-- Expenses and purchase orders record the GST charged by the supplier so it can be claimed in GSTR-3B.
+-- Existing purchase orders are treated as intra-state: their tax is split equally into CGST and SGST.
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS supplier_gstin TEXT;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS taxable_value DECIMAL(12, 2);
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS itc_eligible BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS is_interstate BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS supplier_gstin TEXT;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS supplier_invoice_number TEXT;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS supplier_invoice_date DATE;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS received_at TIMESTAMPTZ;
+
+UPDATE purchase_orders
+SET cgst_amount = ROUND(tax_amount / 2, 2),
+    sgst_amount = tax_amount - ROUND(tax_amount / 2, 2)
+WHERE cgst_amount = 0 AND sgst_amount = 0 AND igst_amount = 0 AND tax_amount > 0;
+
+UPDATE purchase_orders po
+SET supplier_gstin = s.gst_number
+FROM suppliers s
+WHERE po.supplier_id = s.id AND po.supplier_gstin IS NULL AND s.gst_number IS NOT NULL;
+
+UPDATE purchase_orders
+SET received_at = updated_at
+WHERE received_at IS NULL AND status IN ('partially_received', 'received');
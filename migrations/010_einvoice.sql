@@ -0,0 +1,9 @@
+-- E-invoicing
+-- Invoices and credit notes registered with the IRP keep their IRN, acknowledgement and signed QR code.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS irn TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS irn_ack_number TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS irn_ack_date TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS irn_signed_qr TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_irn ON invoices(irn) WHERE irn IS NOT NULL;
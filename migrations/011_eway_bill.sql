@@ -0,0 +1,12 @@
+-- E-way bills
+-- Invoices and delivery challans record how the goods travel and the e-way bill number once the portal issues it.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS transport_mode TEXT CHECK (transport_mode IN ('road', 'rail', 'air', 'ship'));
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS transport_distance_km INTEGER;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS transporter_name TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS transporter_id TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS vehicle_number TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS transport_doc_number TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS transport_doc_date DATE;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS eway_bill_number TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS eway_bill_date TIMESTAMPTZ;
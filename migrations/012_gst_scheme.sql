@@ -0,0 +1,10 @@
+-- GST registration schemes
+-- Users are regular taxpayers, composition dealers or unregistered; documents record the scheme they were issued under.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS gst_scheme TEXT NOT NULL DEFAULT 'regular'
+    CHECK (gst_scheme IN ('regular', 'composition', 'unregistered'));
+ALTER TABLE users ADD COLUMN IF NOT EXISTS composition_category TEXT
+    CHECK (composition_category IN ('trader', 'manufacturer', 'restaurant', 'services'));
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS seller_scheme TEXT
+    CHECK (seller_scheme IN ('regular', 'composition', 'unregistered'));
@@ -0,0 +1,4 @@
+-- GST-inclusive prices
+-- Products can be priced MRP-style with GST included; invoice lines record the flag in their items JSON.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT FALSE;
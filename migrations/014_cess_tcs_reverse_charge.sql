@@ -0,0 +1,19 @@
+-- Compensation cess, TCS and reverse charge
+-- Cess rates and amounts per line are kept in the items JSON; documents carry the totals.
+-- Under reverse charge the tax is recorded but left out of the total, as the recipient pays it.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS cess_rate DECIMAL(6, 2);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS cess_per_unit DECIMAL(12, 4);
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tcs_rate DECIMAL(5, 3);
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cess_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS reverse_charge BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS tcs_rate DECIMAL(5, 3);
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS tcs_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS cess_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS reverse_charge BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS cess_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS reverse_charge BOOLEAN NOT NULL DEFAULT FALSE;
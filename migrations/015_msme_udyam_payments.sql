@@ -0,0 +1,7 @@
+-- Udyam registration numbers and supplier payment dates
+-- MSMED Act payment deadlines run from receipt of the goods until paid_at.
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS udyam_number TEXT;
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS udyam_number TEXT;
+
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS paid_at DATE;
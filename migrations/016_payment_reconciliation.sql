@@ -0,0 +1,35 @@
+-- Payment reconciliation from bank and UPI statements
+-- Matched credits are ordinary transactions keyed by their UTR in upi_transaction_id; the rest wait in payment_reviews.
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS upi_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_upi_transaction_id ON transactions(user_id, upi_transaction_id);
+
+CREATE TABLE IF NOT EXISTS payment_reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reference TEXT NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    value_date DATE,
+    payer_name TEXT,
+    payer_vpa TEXT,
+    narration TEXT NOT NULL DEFAULT '',
+    reason TEXT NOT NULL,
+    candidates JSONB NOT NULL DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'matched', 'dismissed')),
+    transaction_ids JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, reference)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reviews_status ON payment_reviews(user_id, status);
+
+ALTER TABLE payment_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage payment_reviews" ON payment_reviews
+    FOR ALL TO service_role USING (true);
+
+CREATE TRIGGER update_payment_reviews_updated_at
+    BEFORE UPDATE ON payment_reviews
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,24 @@
+-- Expiring per-invoice payment links, served publicly at /pay/:token
+
+CREATE TABLE IF NOT EXISTS payment_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paid', 'expired', 'cancelled')),
+    last_viewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_links_invoice ON payment_links(user_id, invoice_id, status);
+
+ALTER TABLE payment_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage payment_links" ON payment_links
+    FOR ALL TO service_role USING (true);
+
+CREATE TRIGGER update_payment_links_updated_at
+    BEFORE UPDATE ON payment_links
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,31 @@
+-- WhatsApp messages sent through the messaging provider, with delivery statuses from its webhook
+
+CREATE TABLE IF NOT EXISTS outbound_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    provider_message_id TEXT,
+    to_phone TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('text', 'document', 'template')),
+    template_name TEXT,
+    body TEXT,
+    document_filename TEXT,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'accepted' CHECK (status IN ('accepted', 'sent', 'delivered', 'read', 'failed')),
+    error TEXT,
+    status_updated_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_provider_id ON outbound_messages(provider_message_id);
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_invoice ON outbound_messages(user_id, invoice_id);
+
+ALTER TABLE outbound_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage outbound_messages" ON outbound_messages
+    FOR ALL TO service_role USING (true);
+
+CREATE TRIGGER update_outbound_messages_updated_at
+    BEFORE UPDATE ON outbound_messages
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
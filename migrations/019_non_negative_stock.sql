@@ -0,0 +1,53 @@
+-- Non-negative stock
+-- apply_stock_movement() refuses a change that would take a product's quantity below zero,
+-- so oversold invoices fail instead of leaving the ledger negative.
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+    p_user_id UUID,
+    p_product_id UUID,
+    p_quantity INTEGER,
+    p_operation TEXT,
+    p_reason TEXT DEFAULT 'adjustment',
+    p_reference_type TEXT DEFAULT NULL,
+    p_reference_id TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS products AS $$
+DECLARE
+    v_product products;
+    v_change INTEGER;
+BEGIN
+    SELECT * INTO v_product FROM products
+    WHERE id = p_product_id AND user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    v_change := CASE p_operation
+        WHEN 'add' THEN p_quantity
+        WHEN 'subtract' THEN -p_quantity
+        WHEN 'set' THEN p_quantity - v_product.quantity
+        ELSE NULL
+    END;
+
+    IF v_change IS NULL THEN
+        RAISE EXCEPTION 'Invalid stock operation: %', p_operation;
+    END IF;
+
+    -- Stock cannot go below zero; a sale of goods not on hand is refused rather than recorded
+    IF v_product.quantity + v_change < 0 THEN
+        RAISE EXCEPTION 'Not enough stock of %: only % % available', v_product.name, v_product.quantity, v_product.unit;
+    END IF;
+
+    UPDATE products SET quantity = quantity + v_change
+    WHERE id = p_product_id
+    RETURNING * INTO v_product;
+
+    INSERT INTO stock_movements (user_id, product_id, reason, quantity_change, quantity_after, reference_type, reference_id, notes)
+    VALUES (p_user_id, p_product_id, p_reason, v_change, v_product.quantity, p_reference_type, p_reference_id, p_notes);
+
+    RETURN v_product;
+END;
+$$ LANGUAGE plpgsql;
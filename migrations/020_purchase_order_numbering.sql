@@ -0,0 +1,7 @@
+-- Purchase order numbering
+-- Purchase orders are numbered from their own series (PO/25-26/0001) like sales documents, instead of a count of
+-- existing orders. Orders numbered before this keep their PO-<n> numbers; the new format cannot collide with them.
+
+ALTER TABLE numbering_series DROP CONSTRAINT IF EXISTS numbering_series_document_type_check;
+ALTER TABLE numbering_series ADD CONSTRAINT numbering_series_document_type_check
+    CHECK (document_type IN ('invoice', 'quotation', 'proforma', 'delivery_challan', 'credit_note', 'purchase_order'));
@@ -7,27 +7,54 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import express from 'express';
 
+import { CodeScanService } from './services/code-scan-service.js';
 import { ConversationalOrdersService } from './services/conversational-orders-service.js';
+import { EInvoiceService } from './services/einvoice-service.js';
+import { EWayBillService } from './services/eway-bill-service.js';
 import { ForecastingService } from './services/forecasting-service.js';
+import { GstReturnService } from './services/gst-return-service.js';
+import { InMemoryService } from './services/in-memory-service.js';
+import { InvoiceService } from './services/invoice-service.js';
+import { createIRNProvider } from './services/irn-provider.js';
+import { createMessagingProvider } from './services/messaging-provider.js';
+import { MessagingService } from './services/messaging-service.js';
 import { MSMEProductivityService } from './services/msme-productivity-service.js';
+import { NumberingService } from './services/numbering-service.js';
 import { OCRService } from './services/ocr-service.js';
+import { acceptsPaymentLink, PaymentLinkService, paymentLinksArePublic } from './services/payment-link-service.js';
+import { PaymentReconciliationService } from './services/payment-reconciliation-service.js';
+import { PurchaseOrderService } from './services/purchase-order-service.js';
 import { SupabaseService } from './services/supabase-service.js';
+import * as codeScanTools from './tools/code-scan.js';
+import * as einvoiceTools from './tools/einvoice.js';
+import * as ewayBillTools from './tools/eway-bill.js';
+import * as gstReturnTools from './tools/gst-returns.js';
 import * as tools from './tools/index.js';
+import * as messagingTools from './tools/messaging.js';
 import * as msmeTools from './tools/msme-productivity.js';
+import * as numberingTools from './tools/numbering.js';
+import * as paymentLinkTools from './tools/payment-links.js';
+import * as paymentReconciliationTools from './tools/payment-reconciliation.js';
+import * as purchaseOrderTools from './tools/purchase-orders.js';
+import type { DatabaseService } from './types/service.js';
+import { toISTDate } from './utils/analytics.js';
+import { transportDetails } from './utils/eway-bill.js';
 import {
   calculateBaseFromGSTInclusive,
   calculateGST,
+  decodeGSTIN,
+  determinePlaceOfSupply,
   formatGSTBreakdown,
-  getStateFromGSTIN,
   isValidGSTIN,
-  suggestGSTRate,
+  splitGSTFromInclusive,
 } from './utils/gst.js';
+import { HSN_MASTER_VERSION, hsnType, rateForValue, searchHSN, suggestRate, validateHSNCode } from './utils/hsn.js';
 import {
-  calculateInvoiceTotals,
   formatInvoiceForWhatsApp,
   generateInvoicePDF,
 } from './utils/invoice.js';
 import { generateMarkdownPDF } from './utils/markdown-pdf.js';
+import { renderPaymentLinkStatusPage, renderPaymentPage } from './utils/payment-page.js';
 import { generateUPIQRCode, isValidUPIId, parseUPIString } from './utils/qrcode.js';
 import { generateReportPDF } from './utils/report.js';
 import {
@@ -39,36 +66,56 @@ import {
 
 
 // Initialize services
-let dbService: SupabaseService | null = null;
+let dbService: DatabaseService | null = null;
+let invoiceService: InvoiceService | null = null;
 let conversationalOrdersService: ConversationalOrdersService | null = null;
 let forecastingService: ForecastingService | null = null;
 let msmeProductivityService: MSMEProductivityService | null = null;
 let ocrService: OCRService | null = null;
-
-function getDbService(): SupabaseService {
+let purchaseOrderService: PurchaseOrderService | null = null;
+let numberingService: NumberingService | null = null;
+let gstReturnService: GstReturnService | null = null;
+let einvoiceService: EInvoiceService | null = null;
+let ewayBillService: EWayBillService | null = null;
+let paymentLinkService: PaymentLinkService | null = null;
+let paymentReconciliationService: PaymentReconciliationService | null = null;
+let codeScanService: CodeScanService | null = null;
+let messagingService: MessagingService | null = null;
+
+function getDbService(): DatabaseService {
   if (!dbService) {
-    dbService = new SupabaseService();
+    // DB_BACKEND=memory runs every tool without a Supabase project
+    dbService = process.env.DB_BACKEND === 'memory'
+      ? InMemoryService.fromSeedFile(process.env.MEMORY_SEED_FILE)
+      : new SupabaseService();
   }
   return dbService;
 }
 
+function getInvoiceService(): InvoiceService {
+  if (!invoiceService) {
+    invoiceService = new InvoiceService(getDbService());
+  }
+  return invoiceService;
+}
+
 function getConversationalOrdersService(): ConversationalOrdersService {
   if (!conversationalOrdersService) {
-    conversationalOrdersService = new ConversationalOrdersService(getDbService().supabase);
+    conversationalOrdersService = new ConversationalOrdersService(getDbService());
   }
   return conversationalOrdersService;
 }
 
 function getForecastingService(): ForecastingService {
   if (!forecastingService) {
-    forecastingService = new ForecastingService(getDbService().supabase);
+    forecastingService = new ForecastingService(getDbService());
   }
   return forecastingService;
 }
 
 function getMSMEProductivityService(): MSMEProductivityService {
   if (!msmeProductivityService) {
-    msmeProductivityService = new MSMEProductivityService(getDbService().supabase);
+    msmeProductivityService = new MSMEProductivityService(getDbService());
   }
   return msmeProductivityService;
 }
@@ -80,6 +127,81 @@ function getOCRService(): OCRService {
   return ocrService;
 }
 
+function getCodeScanService(): CodeScanService {
+  if (!codeScanService) {
+    codeScanService = new CodeScanService(getDbService());
+  }
+  return codeScanService;
+}
+
+function getPaymentLinkService(): PaymentLinkService {
+  if (!paymentLinkService) {
+    paymentLinkService = new PaymentLinkService(getDbService());
+  }
+  return paymentLinkService;
+}
+
+function getMessagingService(): MessagingService {
+  if (!messagingService) {
+    messagingService = new MessagingService(getDbService(), createMessagingProvider());
+  }
+  return messagingService;
+}
+
+function getPaymentReconciliationService(): PaymentReconciliationService {
+  if (!paymentReconciliationService) {
+    paymentReconciliationService = new PaymentReconciliationService(getDbService());
+  }
+  return paymentReconciliationService;
+}
+
+function getPurchaseOrderService(): PurchaseOrderService {
+  if (!purchaseOrderService) {
+    purchaseOrderService = new PurchaseOrderService(getDbService());
+  }
+  return purchaseOrderService;
+}
+
+function getNumberingService(): NumberingService {
+  if (!numberingService) {
+    numberingService = new NumberingService(getDbService());
+  }
+  return numberingService;
+}
+
+function getGstReturnService(): GstReturnService {
+  if (!gstReturnService) {
+    gstReturnService = new GstReturnService(getDbService());
+  }
+  return gstReturnService;
+}
+
+function getEInvoiceService(): EInvoiceService {
+  if (!einvoiceService) {
+    // EINVOICE_PROVIDER chooses how invoices are registered for an IRN
+    einvoiceService = new EInvoiceService(getDbService(), createIRNProvider());
+  }
+  return einvoiceService;
+}
+
+function getEWayBillService(): EWayBillService {
+  if (!ewayBillService) {
+    ewayBillService = new EWayBillService(getDbService());
+  }
+  return ewayBillService;
+}
+
+// Transport fields shared by create_invoice and generate_eway_bill_json
+const TRANSPORT_PROPERTIES = {
+  transport_mode: { type: 'string', enum: ['road', 'rail', 'air', 'ship'], description: 'Mode of transport' },
+  transport_distance_km: { type: 'number', description: 'Approximate distance in km (0 lets the e-way bill portal calculate it)' },
+  transporter_name: { type: 'string', description: 'Transporter name' },
+  transporter_id: { type: 'string', description: 'Transporter GSTIN or TRANSIN' },
+  vehicle_number: { type: 'string', description: 'Vehicle registration number, e.g. MH12AB1234' },
+  transport_doc_number: { type: 'string', description: 'Lorry receipt, railway receipt, airway bill or bill of lading number' },
+  transport_doc_date: { type: 'string', description: 'Transport document date (YYYY-MM-DD)' },
+};
+
 // Define all available tools
 const TOOLS: Tool[] = [
   // ============ INVENTORY TOOLS ============
@@ -121,13 +243,16 @@ const TOOLS: Tool[] = [
         hindi_name: { type: 'string', description: 'Name in Hindi' },
         category: { type: 'string' },
         price: { type: 'number', description: 'Selling price' },
+        price_includes_tax: { type: 'boolean', default: false, description: 'The selling price includes GST (MRP-style)' },
         cost_price: { type: 'number', description: 'Cost price' },
         quantity: { type: 'number', description: 'Current stock' },
         unit: { type: 'string', default: 'pcs' },
         low_stock_threshold: { type: 'number', default: 10 },
         barcode: { type: 'string' },
-        hsn_code: { type: 'string' },
-        gst_rate: { type: 'number', default: 18 },
+        hsn_code: { type: 'string', description: 'HSN code (goods) or SAC code (services): 4, 6 or 8 digits' },
+        gst_rate: { type: 'number', description: 'GST rate percentage; defaults to the HSN rate, else 18' },
+        cess_rate: { type: 'number', description: 'Compensation cess percentage; defaults to the HSN cess' },
+        cess_per_unit: { type: 'number', description: 'Specific cess in rupees per unit sold (e.g. per cigarette)' },
       },
       required: ['user_id', 'name', 'category', 'price', 'quantity'],
     },
@@ -142,10 +267,28 @@ const TOOLS: Tool[] = [
         product_id: { type: 'string' },
         quantity: { type: 'number', description: 'Amount to add/subtract/set' },
         operation: { type: 'string', enum: ['add', 'subtract', 'set'] },
+        reason: { type: 'string', enum: ['sale', 'purchase', 'adjustment', 'return', 'damage'], default: 'adjustment' },
+        notes: { type: 'string', description: 'Note recorded in the stock history' },
       },
       required: ['user_id', 'product_id', 'quantity', 'operation'],
     },
   },
+  {
+    name: 'get_stock_history',
+    description: 'Get the stock movement history of a product (sales, purchases, adjustments, returns, damage) showing how it reached its current quantity.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        product_id: { type: 'string' },
+        reason: { type: 'string', enum: ['sale', 'purchase', 'adjustment', 'return', 'damage'] },
+        start_date: { type: 'string' },
+        end_date: { type: 'string' },
+        limit: { type: 'number', default: 100 },
+      },
+      required: ['user_id', 'product_id'],
+    },
+  },
   {
     name: 'get_inventory_alerts',
     description: 'Get list of products that are low in stock or out of stock.',
@@ -197,6 +340,9 @@ const TOOLS: Tool[] = [
         address: { type: 'string' },
         gst_number: { type: 'string' },
         credit_limit: { type: 'number' },
+        tcs_rate: { type: 'number', description: 'TCS percentage collected on every sale to this customer (e.g. 0.1)' },
+        udyam_number: { type: 'string', description: 'Udyam registration number if the customer is an MSME (UDYAM-XX-00-0000000)' },
+        upi_id: { type: 'string', description: 'VPA the customer pays from, used to match statement credits to their invoices' },
       },
       required: ['user_id', 'name', 'phone'],
     },
@@ -261,8 +407,8 @@ const TOOLS: Tool[] = [
       type: 'object',
       properties: {
         user_id: { type: 'string' },
-        status: { type: 'string', enum: ['draft', 'sent', 'paid', 'partial', 'overdue', 'cancelled'] },
-        type: { type: 'string', enum: ['invoice', 'quotation', 'proforma', 'delivery_challan'] },
+        status: { type: 'string', enum: ['draft', 'sent', 'accepted', 'paid', 'partial', 'overdue', 'cancelled'] },
+        type: { type: 'string', enum: ['invoice', 'quotation', 'proforma', 'delivery_challan', 'credit_note'] },
         customer_id: { type: 'string' },
         start_date: { type: 'string' },
         end_date: { type: 'string' },
@@ -285,7 +431,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'create_invoice',
-    description: 'Create a new invoice or quotation with line items. Automatically calculates totals and GST.',
+    description: 'Create a new invoice or quotation with line items. Automatically calculates totals and GST: IGST when the customer\'s state (from their GSTIN or address) differs from the shop\'s, otherwise CGST + SGST.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -303,8 +449,11 @@ const TOOLS: Tool[] = [
               quantity: { type: 'number' },
               unit: { type: 'string', default: 'pcs' },
               unit_price: { type: 'number' },
+              price_includes_tax: { type: 'boolean', description: 'unit_price includes GST; defaults to the product\'s setting' },
               discount: { type: 'number', default: 0 },
               gst_rate: { type: 'number', default: 18 },
+              cess_rate: { type: 'number', description: 'Compensation cess percentage; defaults to the product\'s' },
+              cess_per_unit: { type: 'number', description: 'Specific cess in rupees per unit; defaults to the product\'s' },
             },
             required: ['name', 'quantity', 'unit_price'],
           },
@@ -314,23 +463,109 @@ const TOOLS: Tool[] = [
         due_date: { type: 'string' },
         notes: { type: 'string' },
         terms: { type: 'string' },
+        deduct_stock: { type: 'boolean', default: false, description: 'Deduct item quantities from stock' },
+        branch: { type: 'string', description: 'Branch code; numbers come from that branch\'s series if one is configured' },
+        place_of_supply: { type: 'string', description: 'State name or GST state code where goods are delivered (defaults to the customer\'s state)' },
+        reverse_charge: { type: 'boolean', default: false, description: 'The customer pays the GST under reverse charge; it is shown but not added to the total' },
+        tcs_rate: { type: 'number', description: 'TCS percentage on the amount billed (defaults to the customer\'s)' },
+        ...TRANSPORT_PROPERTIES,
       },
       required: ['user_id', 'items'],
     },
   },
   {
     name: 'update_invoice_status',
-    description: 'Update the status of an invoice.',
+    description: 'Update the status of an invoice. Marking it paid records a payment for the balance due; cancelled invoices cannot be reopened.',
     inputSchema: {
       type: 'object',
       properties: {
         user_id: { type: 'string' },
         invoice_id: { type: 'string' },
-        status: { type: 'string', enum: ['draft', 'sent', 'paid', 'partial', 'overdue', 'cancelled'] },
+        status: { type: 'string', enum: ['draft', 'sent', 'accepted', 'paid', 'partial', 'overdue', 'cancelled'] },
+        payment_type: { type: 'string', enum: ['cash', 'upi', 'bank_transfer', 'cheque'], default: 'cash', description: 'How the balance was paid, when marking paid' },
       },
       required: ['user_id', 'invoice_id', 'status'],
     },
   },
+  {
+    name: 'record_invoice_payment',
+    description: 'Record a payment against an invoice, or split one payment across a customer\'s open invoices (oldest first unless allocations are given). Updates amount paid, balance due, invoice status and the customer\'s outstanding balance.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        invoice_id: { type: 'string', description: 'Invoice being paid' },
+        customer_id: { type: 'string', description: 'Customer paying several invoices (instead of invoice_id)' },
+        amount: { type: 'number' },
+        payment_type: { type: 'string', enum: ['cash', 'upi', 'bank_transfer', 'cheque'] },
+        allocations: {
+          type: 'array',
+          description: 'Optional split across invoices; must add up to amount',
+          items: {
+            type: 'object',
+            properties: {
+              invoice_id: { type: 'string' },
+              amount: { type: 'number' },
+            },
+            required: ['invoice_id', 'amount'],
+          },
+        },
+        upi_transaction_id: { type: 'string' },
+        notes: { type: 'string' },
+      },
+      required: ['user_id', 'amount', 'payment_type'],
+    },
+  },
+  {
+    name: 'convert_document',
+    description: 'Convert a quotation into a proforma or tax invoice, a proforma into a tax invoice, or an invoice into a delivery challan. Copies the items, numbers the new document in its own series and links it to the source. Converted quotations and proformas are marked accepted.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        document_id: { type: 'string', description: 'Quotation, proforma or invoice to convert' },
+        target_type: { type: 'string', enum: ['proforma', 'invoice', 'delivery_challan'] },
+        status: { type: 'string', enum: ['draft', 'sent'], default: 'draft' },
+        due_date: { type: 'string', description: 'Due date (ISO format)' },
+        notes: { type: 'string', description: 'Defaults to the source document notes' },
+        deduct_stock: { type: 'boolean', default: false, description: 'Deduct item quantities from stock when creating a tax invoice' },
+      },
+      required: ['user_id', 'document_id', 'target_type'],
+    },
+  },
+  {
+    name: 'create_sales_return',
+    description: 'Record goods returned against an invoice. Issues a credit note with the GST reversed at the original rates, restocks the items, and either reduces what the customer owes or records a refund.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        invoice_id: { type: 'string', description: 'Invoice the goods were sold on' },
+        items: {
+          type: 'array',
+          description: 'Items returned (omit to return everything on the invoice)',
+          items: {
+            type: 'object',
+            properties: {
+              product_id: { type: 'string' },
+              name: { type: 'string', description: 'Item name as on the invoice (if no product_id)' },
+              quantity: { type: 'number' },
+            },
+            required: ['quantity'],
+          },
+        },
+        restock: { type: 'boolean', default: true, description: 'Put returned goods back into stock' },
+        settlement: {
+          type: 'string',
+          enum: ['adjust_balance', 'refund'],
+          description: 'adjust_balance credits the customer account (default when the invoice has a customer); refund pays back what was already collected',
+        },
+        refund_payment_type: { type: 'string', enum: ['cash', 'upi', 'bank_transfer', 'cheque'], default: 'cash' },
+        reason: { type: 'string' },
+      },
+      required: ['user_id', 'invoice_id'],
+    },
+  },
   {
     name: 'generate_invoice_pdf',
     description: 'Generate a PDF for an invoice. Returns base64 encoded PDF that can be downloaded or shared.',
@@ -348,7 +583,7 @@ const TOOLS: Tool[] = [
   // ============ UPI/PAYMENT TOOLS ============
   {
     name: 'generate_upi_qr',
-    description: 'Generate a UPI payment QR code for receiving payments. Returns QR image as base64 and UPI deep link.',
+    description: 'Generate a UPI payment QR code for receiving payments, as a upi://pay link or a BharatQR (EMVCo) payload. Supports the NPCI merchant parameters (mc, tid, url, mam, mode, orgid, sign). Returns QR image as base64 and UPI deep link.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -357,21 +592,44 @@ const TOOLS: Tool[] = [
         amount: { type: 'number', description: 'Amount to receive' },
         transaction_note: { type: 'string', description: 'Payment description' },
         transaction_ref: { type: 'string', description: 'Reference (invoice number)' },
+        merchant_code: { type: 'string', description: '4-digit merchant category code (mc)' },
+        transaction_id: { type: 'string', description: 'PSP transaction ID (tid)' },
+        url: { type: 'string', description: 'Reference link shown in the UPI app' },
+        min_amount: { type: 'number', description: 'Minimum amount the payer may enter (mam)' },
+        mode: { type: 'string', description: '2-digit initiation mode, e.g. 01 for static QR' },
+        org_id: { type: 'string', description: 'Organisation ID (orgid)' },
+        sign: { type: 'string', description: 'Signature from your PSP over the other parameters' },
+        merchant_city: { type: 'string', description: 'City, for BharatQR' },
+        postal_code: { type: 'string', description: 'PIN code, for BharatQR' },
+        format: { type: 'string', enum: ['upi', 'bharatqr'], default: 'upi' },
       },
       required: ['payee_upi_id', 'payee_name', 'amount'],
     },
   },
   {
     name: 'parse_upi_qr',
-    description: 'Parse a UPI QR code string and extract payment details.',
+    description: 'Parse a UPI QR code string and extract payment details. Reads upi://pay links with all NPCI parameters and BharatQR (EMVCo) payloads, checking their CRC.',
     inputSchema: {
       type: 'object',
       properties: {
-        qr_string: { type: 'string', description: 'UPI QR string starting with upi://pay?' },
+        qr_string: { type: 'string', description: 'UPI QR string starting with upi://pay?, or a BharatQR payload starting with 000201' },
       },
       required: ['qr_string'],
     },
   },
+  {
+    name: 'scan_qr_image',
+    description: 'Decode every QR code and barcode in a photo, such as a supplier\'s UPI standee or product packaging. UPI and BharatQR codes are parsed into payment details; product barcodes are matched to products by their barcode. Decoding runs locally.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        image_url: { type: 'string', description: 'Supabase Storage URL or public URL of the image' },
+        image_base64: { type: 'string', description: 'Base64 encoded image data' },
+      },
+      required: ['user_id'],
+    },
+  },
   {
     name: 'validate_upi_id',
     description: 'Validate if a UPI ID is in correct format.',
@@ -383,11 +641,68 @@ const TOOLS: Tool[] = [
       required: ['upi_id'],
     },
   },
+  {
+    name: 'create_payment_link',
+    description: 'Create a short, expiring link to a payment page for an invoice, showing the shop, invoice summary, amount due, a UPI QR and buttons that open UPI apps. The link stops working once it expires or the invoice is paid. Returns the active link instead if the invoice already has one.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        invoice_id: { type: 'string' },
+        expires_in_hours: { type: 'number', default: 72, description: 'Hours until the link expires (1-720)' },
+      },
+      required: ['user_id', 'invoice_id'],
+    },
+  },
+
+  // ============ PAYMENT RECONCILIATION TOOLS ============
+  {
+    name: 'import_payment_statement',
+    description: 'Import a bank or UPI PSP statement (CSV, tab-separated text from Excel, or MT940) and match its credits to open invoices by invoice number, payer VPA and amount. Matched credits are recorded as payments with the UTR as upi_transaction_id; unclear ones go to the review queue. Re-importing the same file skips entries already imported.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        content: { type: 'string', description: 'Statement file contents' },
+        format: { type: 'string', enum: ['auto', 'csv', 'mt940'], default: 'auto' },
+      },
+      required: ['user_id', 'content'],
+    },
+  },
+  {
+    name: 'get_payment_review_queue',
+    description: 'List statement credits that could not be matched automatically, with the candidate invoices for each.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        status: { type: 'string', enum: ['pending', 'matched', 'dismissed', 'all'], default: 'pending' },
+        limit: { type: 'number', default: 50 },
+      },
+      required: ['user_id'],
+    },
+  },
+  {
+    name: 'resolve_payment_review',
+    description: "Settle a queued statement credit against an invoice (or a customer's oldest open invoices), or dismiss it.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        review_id: { type: 'string' },
+        action: { type: 'string', enum: ['match', 'dismiss'] },
+        invoice_id: { type: 'string', description: 'Invoice the credit pays' },
+        customer_id: { type: 'string', description: 'Customer whose oldest open invoices the credit settles' },
+        notes: { type: 'string' },
+      },
+      required: ['user_id', 'review_id', 'action'],
+    },
+  },
 
   // ============ WHATSAPP TOOLS ============
   {
     name: 'share_invoice_whatsapp',
-    description: 'Prepare invoice for sharing via WhatsApp. Returns formatted message and WhatsApp deep link.',
+    description: 'Prepare invoice for sharing via WhatsApp. Returns formatted message and WhatsApp deep link; with send, delivers it (and the PDF) through the messaging provider.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -395,13 +710,15 @@ const TOOLS: Tool[] = [
         invoice_id: { type: 'string' },
         phone: { type: 'string', description: 'Customer phone number' },
         include_image: { type: 'boolean', default: true },
+        include_payment_link: { type: 'boolean', default: true, description: 'Add a payment page link (created or reused) for unpaid invoices when PUBLIC_BASE_URL is set' },
+        send: { type: 'boolean', default: false, description: 'Send through MESSAGING_PROVIDER; include_image attaches the invoice PDF' },
       },
       required: ['user_id', 'invoice_id', 'phone'],
     },
   },
   {
     name: 'send_payment_reminder',
-    description: 'Prepare a payment reminder message for WhatsApp.',
+    description: 'Prepare a payment reminder message for WhatsApp. Pass user_id and invoice_id to include a payment page link instead of the bare UPI ID when PUBLIC_BASE_URL is set and the invoice has something due.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -411,6 +728,9 @@ const TOOLS: Tool[] = [
         phone: { type: 'string' },
         due_date: { type: 'string' },
         upi_id: { type: 'string' },
+        user_id: { type: 'string' },
+        invoice_id: { type: 'string', description: 'Invoice to link a payment page for' },
+        send: { type: 'boolean', default: false, description: 'Send through MESSAGING_PROVIDER (needs user_id)' },
       },
       required: ['customer_name', 'invoice_number', 'amount', 'phone'],
     },
@@ -467,17 +787,51 @@ const TOOLS: Tool[] = [
       required: ['supplier_name', 'items', 'phone'],
     },
   },
+  {
+    name: 'send_whatsapp_template',
+    description: 'Send an approved WhatsApp template through the messaging provider, optionally with an invoice PDF as its document header. Templates reach customers outside the 24-hour reply window.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        phone: { type: 'string', description: 'Recipient phone number' },
+        template_name: { type: 'string', description: 'Approved template name' },
+        language: { type: 'string', default: 'en', description: 'Template language code (e.g. en, hi)' },
+        parameters: { type: 'array', items: { type: 'string' }, description: 'Values for the body placeholders {{1}}, {{2}}, ... in order' },
+        invoice_id: { type: 'string', description: 'Invoice whose PDF fills the document header' },
+      },
+      required: ['user_id', 'phone', 'template_name'],
+    },
+  },
+  {
+    name: 'get_whatsapp_messages',
+    description: 'List WhatsApp messages sent through the messaging provider with their delivery status (accepted, sent, delivered, read, failed).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        invoice_id: { type: 'string', description: 'Only messages about this invoice' },
+        status: { type: 'string', enum: ['accepted', 'sent', 'delivered', 'read', 'failed'] },
+        limit: { type: 'number', default: 50 },
+      },
+      required: ['user_id'],
+    },
+  },
 
   // ============ GST TOOLS ============
   {
     name: 'calculate_gst',
-    description: 'Calculate GST (CGST/SGST or IGST) for a given amount. Returns detailed breakdown.',
+    description: 'Calculate GST (CGST/SGST or IGST) and any compensation cess for a given amount. Returns detailed breakdown.',
     inputSchema: {
       type: 'object',
       properties: {
         base_amount: { type: 'number', description: 'Amount before GST' },
         gst_rate: { type: 'number', description: 'GST rate (e.g., 18 for 18%)' },
         is_interstate: { type: 'boolean', default: false, description: 'Is transaction interstate?' },
+        cess_rate: { type: 'number', description: 'Compensation cess percentage (e.g. 12 for aerated drinks)' },
+        cess_per_unit: { type: 'number', description: 'Specific cess in rupees per unit' },
+        quantity: { type: 'number', default: 1, description: 'Units the specific cess is charged on' },
+        reverse_charge: { type: 'boolean', default: false, description: 'The recipient pays the tax under reverse charge' },
       },
       required: ['base_amount', 'gst_rate'],
     },
@@ -496,18 +850,32 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'suggest_gst_rate',
-    description: 'Suggest appropriate GST rate for a product category.',
+    description: 'Suggest the GST rate (and any cess) for a product or service from its HSN/SAC code, or by matching its name or category against the HSN master.',
     inputSchema: {
       type: 'object',
       properties: {
         category: { type: 'string' },
+        hsn_code: { type: 'string', description: 'HSN/SAC code; takes precedence over name and category' },
+        name: { type: 'string', description: 'Product or service name' },
+        price: { type: 'number', description: 'Selling price per piece, for items whose rate depends on value' },
       },
-      required: ['category'],
+    },
+  },
+  {
+    name: 'lookup_hsn',
+    description: 'Search the bundled HSN/SAC master by code or keyword. Returns descriptions, GST rates, compensation cess and reverse charge flags.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'HSN/SAC code (or its first digits) or keywords such as "ghee" or "courier"' },
+        limit: { type: 'number', default: 10 },
+      },
+      required: ['query'],
     },
   },
   {
     name: 'validate_gstin',
-    description: 'Validate GSTIN format and extract state information.',
+    description: 'Validate a GSTIN, including its check character, and decode the state, PAN, entity number and registration type.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -583,7 +951,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'create_expense',
-    description: 'Record a new business expense.',
+    description: 'Record a new business expense, with the GST on the bill for input tax credit.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -593,6 +961,15 @@ const TOOLS: Tool[] = [
         description: { type: 'string' },
         payment_type: { type: 'string', enum: ['cash', 'upi', 'bank_transfer', 'cheque'] },
         date: { type: 'string', description: 'Date in YYYY-MM-DD' },
+        supplier_gstin: { type: 'string', description: 'GSTIN on the bill; needed to claim input tax credit' },
+        gst_rate: { type: 'number', description: 'GST rate included in the amount; splits out CGST/SGST or IGST' },
+        taxable_value: { type: 'number', description: 'Taxable value as printed on the bill' },
+        cgst_amount: { type: 'number' },
+        sgst_amount: { type: 'number' },
+        igst_amount: { type: 'number' },
+        cess_amount: { type: 'number' },
+        reverse_charge: { type: 'boolean', default: false, description: 'No GST on the bill (e.g. GTA freight, legal fees): we pay it at gst_rate on the amount under reverse charge' },
+        itc_eligible: { type: 'boolean', default: true, description: 'False for blocked credit such as food or personal use' },
       },
       required: ['user_id', 'category', 'amount', 'description', 'payment_type', 'date'],
     },
@@ -625,12 +1002,221 @@ const TOOLS: Tool[] = [
         email: { type: 'string' },
         address: { type: 'string' },
         gst_number: { type: 'string' },
-        payment_terms: { type: 'string' },
+        payment_terms: { type: 'string', description: 'Credit terms such as "Net 30"' },
+        udyam_number: { type: 'string', description: 'Udyam registration number if the supplier is an MSME (UDYAM-XX-00-0000000); payments to it are tracked against the 45-day limit' },
       },
       required: ['user_id', 'name', 'phone'],
     },
   },
 
+  // ============ PURCHASE ORDER TOOLS ============
+  {
+    name: 'create_purchase_order',
+    description: 'Create a purchase order for a supplier. Totals and GST are calculated automatically.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        supplier_id: { type: 'string' },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              product_id: { type: 'string', description: 'Inventory product ID (needed to add stock on receipt)' },
+              name: { type: 'string' },
+              quantity: { type: 'number' },
+              unit: { type: 'string', default: 'pcs' },
+              unit_price: { type: 'number', description: 'Purchase price per unit' },
+              gst_rate: { type: 'number', default: 18 },
+              cess_rate: { type: 'number', description: 'Compensation cess percentage' },
+            },
+            required: ['name', 'quantity', 'unit_price'],
+          },
+        },
+        expected_date: { type: 'string', description: 'Expected delivery date (YYYY-MM-DD)' },
+        notes: { type: 'string' },
+        status: { type: 'string', enum: ['draft', 'sent'], default: 'draft' },
+        reverse_charge: { type: 'boolean', default: false, description: 'Goods under reverse charge: we pay the GST to the government, not the supplier' },
+      },
+      required: ['user_id', 'supplier_id', 'items'],
+    },
+  },
+  {
+    name: 'get_purchase_orders',
+    description: 'Get purchase orders, optionally filtered by status or supplier.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        status: { type: 'string', enum: ['draft', 'sent', 'confirmed', 'partially_received', 'received', 'cancelled'] },
+        supplier_id: { type: 'string' },
+        limit: { type: 'number', default: 50 },
+      },
+      required: ['user_id'],
+    },
+  },
+  {
+    name: 'update_purchase_order_status',
+    description: 'Move a purchase order to sent, confirmed, received or cancelled, or record the date the supplier was paid. Marking it received adds all outstanding quantities to stock.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        purchase_order_id: { type: 'string' },
+        status: { type: 'string', enum: ['draft', 'sent', 'confirmed', 'received', 'cancelled'] },
+        paid_at: { type: 'string', description: 'Date the supplier was paid in full (YYYY-MM-DD)' },
+      },
+      required: ['user_id', 'purchase_order_id'],
+    },
+  },
+  {
+    name: 'receive_purchase_order',
+    description: 'Record goods received against a purchase order and add them to stock. Supports partial receipts; omit items to receive everything outstanding.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        purchase_order_id: { type: 'string' },
+        items: {
+          type: 'array',
+          description: 'Lines received now (match by product_id or name)',
+          items: {
+            type: 'object',
+            properties: {
+              product_id: { type: 'string' },
+              name: { type: 'string' },
+              quantity: { type: 'number' },
+            },
+            required: ['quantity'],
+          },
+        },
+        supplier_invoice_number: { type: 'string', description: 'Supplier\'s tax invoice number for the goods' },
+        supplier_invoice_date: { type: 'string', description: 'Supplier\'s invoice date (YYYY-MM-DD); input tax credit is claimed in its period' },
+        notes: { type: 'string' },
+      },
+      required: ['user_id', 'purchase_order_id'],
+    },
+  },
+
+  // ============ NUMBERING SERIES TOOLS ============
+  {
+    name: 'get_numbering_series',
+    description: 'List document numbering series (invoice, quotation, proforma, delivery challan, credit note, purchase order; per branch if configured) with the next number each will issue. Numbers restart every financial year (April-March).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+      },
+      required: ['user_id'],
+    },
+  },
+  {
+    name: 'configure_numbering_series',
+    description: 'Set the number prefix for a document type, optionally for one branch. Numbers look like PREFIX/25-26/0001 and must fit the 16-character GST limit.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        document_type: { type: 'string', enum: ['invoice', 'quotation', 'proforma', 'delivery_challan', 'credit_note', 'purchase_order'] },
+        branch: { type: 'string', description: 'Branch code (omit for the default series)' },
+        prefix: { type: 'string', description: 'Letters, digits and "-", e.g. INV or MUM' },
+        padding: { type: 'number', default: 4, description: 'Digits in the running number' },
+      },
+      required: ['user_id', 'document_type', 'prefix'],
+    },
+  },
+
+  // ============ GST RETURN TOOLS ============
+  {
+    name: 'generate_gstr1',
+    description: 'Prepare GSTR-1 data for a month or quarter: B2B, B2C Large, B2C Small, credit/debit notes (registered and unregistered), HSN summary and documents issued. Returns GST portal JSON plus CSV sheets for the offline tool. Requires a GSTIN in the shop profile.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        period: { type: 'string', description: 'Return month YYYY-MM (for quarterly returns, the last month of the quarter)' },
+        frequency: { type: 'string', enum: ['monthly', 'quarterly'], default: 'monthly' },
+      },
+      required: ['user_id', 'period'],
+    },
+  },
+  {
+    name: 'generate_gstr3b',
+    description: 'Prepare GSTR-3B for a month or quarter: outward tax from invoices (net of credit notes) against eligible input tax credit from expenses and received purchase orders, in the portal table layout, with the GST payable in cash after set-off. Requires a GSTIN in the shop profile.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        period: { type: 'string', description: 'Return month YYYY-MM (for quarterly returns, the last month of the quarter)' },
+        frequency: { type: 'string', enum: ['monthly', 'quarterly'], default: 'monthly' },
+      },
+      required: ['user_id', 'period'],
+    },
+  },
+  {
+    name: 'generate_cmp08',
+    description: 'Prepare the CMP-08 quarterly statement for a composition dealer: turnover from bills of supply (net of credit notes) and the composition tax on it, split into CGST and SGST. Requires gst_scheme "composition" and a GSTIN in the shop profile.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        period: { type: 'string', description: 'Last month of the quarter, YYYY-MM (June, September, December or March)' },
+      },
+      required: ['user_id', 'period'],
+    },
+  },
+
+  // ============ E-INVOICE TOOLS ============
+  {
+    name: 'generate_einvoice_json',
+    description: 'Build the NIC e-invoice (INV-01) JSON for a tax invoice or credit note to a registered buyer and list anything the IRP would reject. Can register it through the configured IRN provider, or save IRN details obtained from the portal; the invoice PDF then prints the IRN and signed QR code.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        invoice_id: { type: 'string' },
+        register: { type: 'boolean', default: false, description: 'Register with the configured IRN provider and save the IRN' },
+        irn_response: {
+          type: 'object',
+          description: 'IRN details from the e-invoice portal, to save on the invoice',
+          properties: {
+            irn: { type: 'string' },
+            ack_number: { type: 'string' },
+            ack_date: { type: 'string' },
+            signed_qr_code: { type: 'string' },
+          },
+          required: ['irn', 'ack_number', 'ack_date', 'signed_qr_code'],
+        },
+      },
+      required: ['user_id', 'invoice_id'],
+    },
+  },
+
+  // ============ E-WAY BILL TOOLS ============
+  {
+    name: 'generate_eway_bill_json',
+    description: 'Build the e-way bill JSON (bulk upload format) for a tax invoice or delivery challan, checking the mandatory fields and whether the ₹50,000 threshold makes it compulsory. Transport details given are saved on the document; pass eway_bill_number once the portal issues it to print it on the document.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        invoice_id: { type: 'string', description: 'Tax invoice or delivery challan' },
+        ...TRANSPORT_PROPERTIES,
+        sub_supply_type: {
+          type: 'string',
+          enum: ['supply', 'export', 'job_work', 'own_use', 'others', 'skd_ckd', 'line_sales', 'recipient_not_known', 'exhibition'],
+          default: 'supply',
+          description: 'Reason for the movement',
+        },
+        sub_supply_description: { type: 'string', description: 'Reason when sub_supply_type is "others"' },
+        eway_bill_number: { type: 'string', description: '12-digit e-way bill number from the portal' },
+        eway_bill_date: { type: 'string', description: 'When the e-way bill was generated (defaults to now)' },
+      },
+      required: ['user_id', 'invoice_id'],
+    },
+  },
+
   // ============ USER TOOLS ============
   {
     name: 'get_user',
@@ -657,6 +1243,16 @@ const TOOLS: Tool[] = [
         email: { type: 'string' },
         address: { type: 'string' },
         gst_number: { type: 'string' },
+        gst_scheme: {
+          type: 'string',
+          enum: ['regular', 'composition', 'unregistered'],
+          description: 'GST registration: regular (tax invoices), composition (bills of supply) or unregistered (plain bills)',
+        },
+        composition_category: {
+          type: 'string',
+          enum: ['trader', 'manufacturer', 'restaurant', 'services'],
+          description: 'Composition category, which sets the tax rate on turnover',
+        },
         language: { type: 'string', enum: ['en', 'hi', 'hinglish'] },
       },
       required: ['user_id'],
@@ -717,7 +1313,8 @@ const TOOLS: Tool[] = [
         product_name: { type: 'string', description: 'Product name for fuzzy search' },
         quantity: { type: 'number' },
         unit_price: { type: 'number', description: 'Override price (uses product price if not provided)' },
-        gst_rate: { type: 'number', default: 18 },
+        price_includes_tax: { type: 'boolean', description: 'The price includes GST; defaults to the product\'s setting' },
+        gst_rate: { type: 'number', description: 'GST rate percentage; defaults to the product\'s, or 18' },
       },
       required: ['user_id', 'session_id', 'product_name', 'quantity'],
     },
@@ -775,6 +1372,7 @@ const TOOLS: Tool[] = [
         customer_phone: { type: 'string' },
         payment_method: { type: 'string', enum: ['Cash', 'UPI', 'Credit', 'Card'], default: 'Cash' },
         notes: { type: 'string' },
+        branch: { type: 'string', description: 'Branch code for the numbering series' },
       },
       required: ['user_id', 'session_id'],
     },
@@ -950,6 +1548,21 @@ const TOOLS: Tool[] = [
       required: ['user_id'],
     },
   },
+  {
+    name: 'get_msme_payment_compliance',
+    description: 'MSMED Act payment compliance: flags customer invoices and MSME supplier bills unpaid past the agreed terms, 15 days without an agreement or 45 days at most, with section 16 interest at 3x the RBI bank rate, Samadhaan claims per buyer and section 43B(h) deduction risk.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string' },
+        side: { type: 'string', enum: ['receivables', 'payables', 'all'], default: 'all', description: 'receivables: what customers owe us; payables: what we owe MSME suppliers' },
+        bank_rate: { type: 'number', description: 'RBI bank rate in per cent (defaults to the rate built in)' },
+        as_of: { type: 'string', description: 'Date to assess on (YYYY-MM-DD, default today)' },
+        include_within_limit: { type: 'boolean', default: false, description: 'Also list dues still within their limit' },
+      },
+      required: ['user_id'],
+    },
+  },
   {
     name: 'get_customer_insights',
     description: 'Get customer behavior insights: top customers, purchase frequency, average order value',
@@ -1027,18 +1640,38 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     case 'create_product': {
       const parsed = tools.createProductSchema.parse(args);
+      let hsnCode = parsed.hsn_code;
+      let gstRate = parsed.gst_rate;
+      let cessRate = parsed.cess_rate;
+      if (hsnCode) {
+        const hsn = validateHSNCode(hsnCode);
+        if (!hsn.valid) {
+          throw new Error(hsn.error);
+        }
+        hsnCode = hsn.code;
+        if (gstRate === undefined && hsn.entry) {
+          gstRate = rateForValue(hsn.entry, parsed.price);
+        }
+        // Specific cess in the master is per thousand sticks or per tonne, so only the percentage carries over
+        if (cessRate === undefined && hsn.entry?.cess_rate) {
+          cessRate = hsn.entry.cess_rate;
+        }
+      }
       return await db.createProduct(parsed.user_id, {
         name: parsed.name,
         hindi_name: parsed.hindi_name,
         category: parsed.category,
         price: parsed.price,
+        price_includes_tax: parsed.price_includes_tax,
         cost_price: parsed.cost_price,
         quantity: parsed.quantity,
         unit: parsed.unit,
         low_stock_threshold: parsed.low_stock_threshold,
         barcode: parsed.barcode,
-        hsn_code: parsed.hsn_code,
-        gst_rate: parsed.gst_rate,
+        hsn_code: hsnCode,
+        gst_rate: gstRate ?? 18,
+        cess_rate: cessRate,
+        cess_per_unit: parsed.cess_per_unit,
       });
     }
 
@@ -1048,10 +1681,38 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         parsed.user_id,
         parsed.product_id,
         parsed.quantity,
-        parsed.operation
+        parsed.operation,
+        { reason: parsed.reason, notes: parsed.notes }
       );
     }
 
+    case 'get_stock_history': {
+      const parsed = tools.getStockHistorySchema.parse(args);
+      const [product, movements] = await Promise.all([
+        db.getProduct(parsed.user_id, parsed.product_id),
+        db.getStockMovements(parsed.user_id, parsed.product_id, {
+          reason: parsed.reason,
+          startDate: parsed.start_date,
+          endDate: parsed.end_date,
+          limit: parsed.limit,
+        }),
+      ]);
+
+      const totals: Record<string, number> = {};
+      for (const movement of movements) {
+        totals[movement.reason] = (totals[movement.reason] || 0) + movement.quantity_change;
+      }
+
+      return {
+        product_id: product.id,
+        product_name: product.name,
+        unit: product.unit,
+        current_quantity: product.quantity,
+        totals_by_reason: totals,
+        movements,
+      };
+    }
+
     case 'get_inventory_alerts':
       return await db.getInventoryAlerts(args.user_id as string);
 
@@ -1067,6 +1728,9 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     case 'create_customer': {
       const parsed = tools.createCustomerSchema.parse(args);
+      if (parsed.upi_id && !isValidUPIId(parsed.upi_id)) {
+        throw new Error(`Invalid UPI ID: ${parsed.upi_id}`);
+      }
       return await db.createCustomer(parsed.user_id, {
         name: parsed.name,
         phone: parsed.phone,
@@ -1074,6 +1738,9 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         address: parsed.address,
         gst_number: parsed.gst_number,
         credit_limit: parsed.credit_limit,
+        tcs_rate: parsed.tcs_rate,
+        udyam_number: parsed.udyam_number,
+        upi_id: parsed.upi_id?.toLowerCase(),
         outstanding_balance: 0,
       });
     }
@@ -1145,41 +1812,22 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     case 'create_invoice': {
       const parsed = tools.createInvoiceSchema.parse(args);
-
-      // Calculate totals
-      const itemsWithTotals = parsed.items.map(item => ({
-        ...item,
-        total: item.quantity * item.unit_price * (1 - (item.discount || 0) / 100) * (1 + item.gst_rate / 100),
-      }));
-
-      const totals = calculateInvoiceTotals(
-        parsed.items.map(i => ({
-          quantity: i.quantity,
-          unit_price: i.unit_price,
-          discount: i.discount,
-          gst_rate: i.gst_rate,
-        })),
-        parsed.discount_amount,
-        parsed.discount_type
-      );
-
-      // Get next invoice number
-      const invoiceNumber = await db.getNextInvoiceNumber(parsed.user_id, parsed.invoice_type);
-
-      const invoice = await db.createInvoice(parsed.user_id, {
+      const invoice = await getInvoiceService().createInvoice(parsed.user_id, {
         customer_id: parsed.customer_id,
-        invoice_number: invoiceNumber,
         invoice_type: parsed.invoice_type,
-        items: itemsWithTotals,
-        subtotal: totals.subtotal,
-        discount_amount: totals.discount_amount,
+        items: parsed.items,
+        discount_amount: parsed.discount_amount,
         discount_type: parsed.discount_type,
-        tax_amount: totals.tax_amount,
-        total: totals.total,
         status: 'draft',
         due_date: parsed.due_date,
         notes: parsed.notes,
         terms: parsed.terms,
+        deduct_stock: parsed.deduct_stock,
+        branch: parsed.branch,
+        place_of_supply: parsed.place_of_supply,
+        reverse_charge: parsed.reverse_charge,
+        tcs_rate: parsed.tcs_rate,
+        transport: transportDetails(parsed),
       });
 
       const user = await db.getUser(parsed.user_id);
@@ -1202,7 +1850,25 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     case 'update_invoice_status': {
       const parsed = tools.updateInvoiceStatusSchema.parse(args);
-      return await db.updateInvoiceStatus(parsed.user_id, parsed.invoice_id, parsed.status);
+      return await getInvoiceService().updateStatus(parsed.user_id, parsed.invoice_id, parsed.status, parsed.payment_type);
+    }
+
+    case 'record_invoice_payment': {
+      const parsed = tools.recordInvoicePaymentSchema.parse(args);
+      const { user_id, ...payment } = parsed;
+      return await getInvoiceService().recordPayment(user_id, payment);
+    }
+
+    case 'convert_document': {
+      const parsed = tools.convertDocumentSchema.parse(args);
+      const { user_id, ...conversion } = parsed;
+      return await getInvoiceService().convertDocument(user_id, conversion);
+    }
+
+    case 'create_sales_return': {
+      const parsed = tools.createSalesReturnSchema.parse(args);
+      const { user_id, ...salesReturn } = parsed;
+      return await getInvoiceService().createSalesReturn(user_id, salesReturn);
     }
 
     case 'generate_invoice_pdf': {
@@ -1218,10 +1884,16 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         customer = await db.getCustomer(parsed.user_id, invoice.customer_id) || undefined;
       }
 
+      let originalInvoice;
+      if (invoice.original_invoice_id) {
+        originalInvoice = await db.getInvoice(parsed.user_id, invoice.original_invoice_id).catch(() => undefined);
+      }
+
       const pdfBase64 = await generateInvoicePDF({
         invoice,
         seller: user,
         customer,
+        originalInvoice,
         includeQR: parsed.include_qr,
       });
 
@@ -1243,7 +1915,7 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
       let reportData;
       if (parsed.type === 'daily') {
-        reportData = await db.getDailyReport(parsed.user_id, parsed.date || new Date().toISOString().split('T')[0]);
+        reportData = await db.getDailyReport(parsed.user_id, parsed.date || toISTDate());
       } else if (parsed.type === 'analytics') {
         reportData = await db.getSalesAnalytics(parsed.user_id, parsed.period || 'week');
       } else {
@@ -1271,8 +1943,8 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     // ============ UPI/PAYMENTS ============
     case 'generate_upi_qr': {
-      const parsed = tools.generateUPIQRSchema.parse(args);
-      return await generateUPIQRCode(parsed);
+      const { format, ...request } = tools.generateUPIQRSchema.parse(args);
+      return await generateUPIQRCode(request, format);
     }
 
     case 'parse_upi_qr': {
@@ -1282,6 +1954,11 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       return result;
     }
 
+    case 'scan_qr_image': {
+      const parsed = codeScanTools.scanQRImageSchema.parse(args);
+      return await getCodeScanService().scanImage(parsed);
+    }
+
     case 'validate_upi_id': {
       const parsed = tools.validateUPIIdSchema.parse(args);
       return {
@@ -1290,6 +1967,27 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       };
     }
 
+    case 'create_payment_link': {
+      const parsed = paymentLinkTools.createPaymentLinkSchema.parse(args);
+      return await getPaymentLinkService().createLink(parsed);
+    }
+
+    // ============ PAYMENT RECONCILIATION ============
+    case 'import_payment_statement': {
+      const parsed = paymentReconciliationTools.importPaymentStatementSchema.parse(args);
+      return await getPaymentReconciliationService().importStatement(parsed);
+    }
+
+    case 'get_payment_review_queue': {
+      const parsed = paymentReconciliationTools.getPaymentReviewQueueSchema.parse(args);
+      return await getPaymentReconciliationService().getReviewQueue(parsed);
+    }
+
+    case 'resolve_payment_review': {
+      const parsed = paymentReconciliationTools.resolvePaymentReviewSchema.parse(args);
+      return await getPaymentReconciliationService().resolveReview(parsed);
+    }
+
     // ============ WHATSAPP ============
     case 'share_invoice_whatsapp': {
       const parsed = tools.shareInvoiceWhatsAppSchema.parse(args);
@@ -1304,20 +2002,61 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         customer = await db.getCustomer(parsed.user_id, invoice.customer_id) || undefined;
       }
 
-      const message = formatInvoiceForWhatsApp({ invoice, seller: user, customer });
-      return prepareWhatsAppShare(parsed.phone, message);
+      let originalInvoice;
+      if (invoice.original_invoice_id) {
+        originalInvoice = await db.getInvoice(parsed.user_id, invoice.original_invoice_id).catch(() => undefined);
+      }
+
+      let paymentLink;
+      if (parsed.include_payment_link && paymentLinksArePublic() && user.upi_id && acceptsPaymentLink(invoice)) {
+        paymentLink = (await getPaymentLinkService().createLink({
+          user_id: parsed.user_id,
+          invoice_id: invoice.id,
+          expires_in_hours: 72,
+        })).url;
+      }
+
+      const message = formatInvoiceForWhatsApp({ invoice, seller: user, customer, originalInvoice, paymentLink });
+      const share = prepareWhatsAppShare(parsed.phone, message);
+      if (!parsed.send) return share;
+
+      const messages = parsed.include_image
+        ? await getMessagingService().sendInvoice(parsed.user_id, invoice.id, parsed.phone, message)
+        : [await getMessagingService().sendText(parsed.user_id, parsed.phone, message, invoice.id)];
+      return { ...share, sent: true, messages };
     }
 
     case 'send_payment_reminder': {
       const parsed = tools.sendPaymentReminderSchema.parse(args);
+      // Without a link (no public address, no UPI ID, or nothing due) the reminder shows the UPI ID
+      let paymentLink;
+      if (parsed.user_id && parsed.invoice_id && paymentLinksArePublic()) {
+        const [user, invoice] = await Promise.all([
+          db.getUser(parsed.user_id),
+          db.getInvoice(parsed.user_id, parsed.invoice_id),
+        ]);
+        if (user.upi_id && acceptsPaymentLink(invoice)) {
+          paymentLink = (await getPaymentLinkService().createLink({
+            user_id: parsed.user_id,
+            invoice_id: parsed.invoice_id,
+            expires_in_hours: 72,
+          })).url;
+        }
+      }
+
       const message = formatPaymentReminder(
         parsed.customer_name,
         parsed.invoice_number,
         parsed.amount,
         parsed.due_date,
-        parsed.upi_id
+        parsed.upi_id,
+        paymentLink
       );
-      return prepareWhatsAppShare(parsed.phone, message);
+      const share = prepareWhatsAppShare(parsed.phone, message);
+      if (!parsed.send) return share;
+
+      const sent = await getMessagingService().sendText(parsed.user_id!, parsed.phone, message, parsed.invoice_id);
+      return { ...share, sent: true, messages: [sent] };
     }
 
     case 'send_order_confirmation': {
@@ -1338,10 +2077,23 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       return prepareWhatsAppShare(parsed.phone, message);
     }
 
+    case 'send_whatsapp_template': {
+      const parsed = messagingTools.sendWhatsAppTemplateSchema.parse(args);
+      return await getMessagingService().sendTemplate(parsed);
+    }
+
+    case 'get_whatsapp_messages': {
+      const parsed = messagingTools.getWhatsAppMessagesSchema.parse(args);
+      return await getMessagingService().getMessages(parsed);
+    }
+
     // ============ GST ============
     case 'calculate_gst': {
       const parsed = tools.calculateGSTSchema.parse(args);
-      const result = calculateGST(parsed.base_amount, parsed.gst_rate, parsed.is_interstate);
+      const result = calculateGST(parsed.base_amount, parsed.gst_rate, parsed.is_interstate, {
+        cess: { rate: parsed.cess_rate, per_unit: parsed.cess_per_unit, quantity: parsed.quantity },
+        reverse_charge: parsed.reverse_charge,
+      });
       return {
         ...result,
         formatted: formatGSTBreakdown(result),
@@ -1355,22 +2107,33 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     case 'suggest_gst_rate': {
       const parsed = tools.suggestGSTRateSchema.parse(args);
+      const suggestion = suggestRate(parsed);
       return {
         category: parsed.category,
-        suggested_rate: suggestGSTRate(parsed.category),
+        suggested_rate: suggestion.gst_rate,
+        ...suggestion,
       };
     }
 
-    case 'validate_gstin': {
-      const parsed = tools.validateGSTINSchema.parse(args);
-      const isValid = isValidGSTIN(parsed.gstin);
+    case 'lookup_hsn': {
+      const parsed = tools.lookupHSNSchema.parse(args);
+      const results = searchHSN(parsed.query, parsed.limit);
       return {
-        gstin: parsed.gstin,
-        is_valid: isValid,
-        state: isValid ? getStateFromGSTIN(parsed.gstin) : null,
+        query: parsed.query,
+        master_version: HSN_MASTER_VERSION,
+        count: results.length,
+        results: results.map((entry) => ({
+          ...entry,
+          type: hsnType(entry.code),
+        })),
       };
     }
 
+    case 'validate_gstin': {
+      const parsed = tools.validateGSTINSchema.parse(args);
+      return decodeGSTIN(parsed.gstin);
+    }
+
     // ============ ANALYTICS ============
     case 'get_daily_report': {
       const parsed = tools.getDailyReportSchema.parse(args);
@@ -1401,34 +2164,12 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     case 'get_business_summary': {
       const userId = args.user_id as string;
-      const [products, customers, transactions, invoices] = await Promise.all([
-        db.getProducts(userId, { limit: 1000 }),
-        db.getCustomers(userId, { limit: 1000 }),
-        db.getTransactions(userId, { limit: 1000, status: 'completed' }),
-        db.getInvoices(userId, { limit: 1000 }),
+      const [reportData, user] = await Promise.all([
+        db.getBusinessSummary(userId),
+        db.getUser(userId),
       ]);
-
-      const totalRevenue = transactions.reduce((sum: number, t: any) => sum + t.amount, 0);
-      const outstandingCustomers = customers.filter(c => c.outstanding_balance > 0);
-      const totalOutstanding = outstandingCustomers.reduce((sum: number, c: any) => sum + c.outstanding_balance, 0);
-      const lowStockProducts = products.filter(p => p.quantity <= p.low_stock_threshold);
-
-      const user = await db.getUser(userId);
-
-      const result = {
-        total_products: products.length,
-        total_customers: customers.length,
-        total_revenue: totalRevenue,
-        total_transactions: transactions.length,
-        total_invoices: invoices.length,
-        outstanding_amount: totalOutstanding,
-        customers_with_outstanding: outstandingCustomers.length,
-        low_stock_products: lowStockProducts.length,
-        inventory_value: products.reduce((sum: number, p: any) => sum + (p.cost_price || p.price) * p.quantity, 0),
-      };
-
       return {
-        data: result,
+        data: reportData,
         user,
         isDocument: true,
         docType: 'report',
@@ -1443,14 +2184,14 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         db.getUser(userId),
       ]);
       const data = customers
-        .filter(c => c.outstanding_balance > 0)
-        .map(c => ({
+        .filter((c: any) => c.outstanding_balance > 0)
+        .map((c: any) => ({
           customer_id: c.id,
           customer_name: c.name,
           phone: c.phone,
           outstanding_balance: c.outstanding_balance,
         }))
-        .sort((a, b) => b.outstanding_balance - a.outstanding_balance);
+        .sort((a: any, b: any) => b.outstanding_balance - a.outstanding_balance);
 
       return {
         data,
@@ -1472,12 +2213,51 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     case 'create_expense': {
       const parsed = tools.createExpenseSchema.parse(args);
+      if (parsed.supplier_gstin && !isValidGSTIN(parsed.supplier_gstin)) {
+        throw new Error(`Invalid supplier GSTIN: ${parsed.supplier_gstin}`);
+      }
+
+      // GST as printed on the bill, or split out of the amount at the given rate
+      let tax = {
+        taxable_value: parsed.taxable_value,
+        cgst_amount: parsed.cgst_amount || 0,
+        sgst_amount: parsed.sgst_amount || 0,
+        igst_amount: parsed.igst_amount || 0,
+      };
+      const taxGiven = [parsed.cgst_amount, parsed.sgst_amount, parsed.igst_amount].some((a) => a !== undefined);
+      if (!taxGiven && parsed.gst_rate !== undefined) {
+        const user = await db.getUser(parsed.user_id);
+        const supply = determinePlaceOfSupply({ gst_number: parsed.supplier_gstin }, user);
+        if (parsed.reverse_charge) {
+          // Under reverse charge the bill carries no tax; we owe it on top of the amount paid
+          const gst = calculateGST(parsed.amount, parsed.gst_rate, supply.is_interstate);
+          const cgst = Math.round(gst.cgst_amount * 100) / 100;
+          tax = {
+            taxable_value: parsed.amount,
+            cgst_amount: cgst,
+            sgst_amount: supply.is_interstate ? 0 : Math.round((gst.total_gst - cgst) * 100) / 100,
+            igst_amount: Math.round(gst.igst_amount * 100) / 100,
+          };
+        } else {
+          tax = splitGSTFromInclusive(parsed.amount, parsed.gst_rate, supply.is_interstate);
+        }
+      } else if (parsed.reverse_charge && tax.taxable_value === undefined) {
+        tax.taxable_value = parsed.amount;
+      } else if (taxGiven && tax.taxable_value === undefined) {
+        tax.taxable_value = Math.round((parsed.amount - tax.cgst_amount - tax.sgst_amount - tax.igst_amount - (parsed.cess_amount || 0)) * 100) / 100;
+      }
+
       return await db.createExpense(parsed.user_id, {
         category: parsed.category,
         amount: parsed.amount,
         description: parsed.description,
         payment_type: parsed.payment_type,
         date: parsed.date,
+        supplier_gstin: parsed.supplier_gstin?.toUpperCase(),
+        ...tax,
+        cess_amount: parsed.cess_amount || 0,
+        reverse_charge: parsed.reverse_charge,
+        itc_eligible: parsed.itc_eligible,
       });
     }
 
@@ -1498,9 +2278,70 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         address: parsed.address,
         gst_number: parsed.gst_number,
         payment_terms: parsed.payment_terms,
+        udyam_number: parsed.udyam_number,
       });
     }
 
+    // ============ PURCHASE ORDERS ============
+    case 'create_purchase_order': {
+      const parsed = purchaseOrderTools.createPurchaseOrderSchema.parse(args);
+      return await getPurchaseOrderService().createPurchaseOrder(parsed);
+    }
+
+    case 'get_purchase_orders': {
+      const parsed = purchaseOrderTools.getPurchaseOrdersSchema.parse(args);
+      return await getPurchaseOrderService().getPurchaseOrders(parsed);
+    }
+
+    case 'update_purchase_order_status': {
+      const parsed = purchaseOrderTools.updatePurchaseOrderStatusSchema.parse(args);
+      return await getPurchaseOrderService().updateStatus(parsed);
+    }
+
+    case 'receive_purchase_order': {
+      const parsed = purchaseOrderTools.receivePurchaseOrderSchema.parse(args);
+      return await getPurchaseOrderService().receivePurchaseOrder(parsed);
+    }
+
+    // ============ NUMBERING SERIES ============
+    case 'get_numbering_series': {
+      const parsed = numberingTools.getNumberingSeriesSchema.parse(args);
+      return await getNumberingService().getSeries(parsed);
+    }
+
+    case 'configure_numbering_series': {
+      const parsed = numberingTools.configureNumberingSeriesSchema.parse(args);
+      return await getNumberingService().configureSeries(parsed);
+    }
+
+    // ============ GST RETURNS ============
+    case 'generate_gstr1': {
+      const parsed = gstReturnTools.generateGSTR1Schema.parse(args);
+      return await getGstReturnService().generateGSTR1(parsed);
+    }
+
+    case 'generate_gstr3b': {
+      const parsed = gstReturnTools.generateGSTR3BSchema.parse(args);
+      return await getGstReturnService().generateGSTR3B(parsed);
+    }
+
+    case 'generate_cmp08': {
+      const parsed = gstReturnTools.generateCMP08Schema.parse(args);
+      return await getGstReturnService().generateCMP08(parsed);
+    }
+
+    // ============ E-INVOICE ============
+    case 'generate_einvoice_json': {
+      const parsed = einvoiceTools.generateEInvoiceJSONSchema.parse(args);
+      return await getEInvoiceService().generateEInvoiceJSON(parsed);
+    }
+
+    // ============ E-WAY BILL ============
+    case 'generate_eway_bill_json': {
+      const parsed = ewayBillTools.generateEWayBillJSONSchema.parse(args);
+      return await getEWayBillService().generateEWayBillJSON(parsed);
+    }
+
     // ============ USER ============
     case 'get_user':
       return await db.getUser(args.user_id as string);
@@ -1508,6 +2349,16 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
     case 'update_user': {
       const parsed = tools.updateUserSchema.parse(args);
       const { user_id, ...updates } = parsed;
+      // Registered schemes need a GSTIN; composition dealers default to the trader rate
+      if (updates.gst_scheme === 'regular' || updates.gst_scheme === 'composition') {
+        const current = await db.getUser(user_id);
+        if (!updates.gst_number && !current?.gst_number) {
+          throw new Error(`A ${updates.gst_scheme} taxpayer needs a GSTIN; pass gst_number as well`);
+        }
+        if (updates.gst_scheme === 'composition' && !updates.composition_category && !current?.composition_category) {
+          updates.composition_category = 'trader';
+        }
+      }
       return await db.updateUser(user_id, updates);
     }
 
@@ -1531,7 +2382,8 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         product_name: args.product_name as string,
         quantity: args.quantity as number,
         unit_price: args.unit_price as number | undefined,
-        gst_rate: (args.gst_rate as number) || 18,
+        price_includes_tax: args.price_includes_tax as boolean | undefined,
+        gst_rate: args.gst_rate as number | undefined,
       });
     }
 
@@ -1573,6 +2425,7 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         customer_phone: args.customer_phone as string | undefined,
         payment_method: (args.payment_method as any) || 'Cash',
         notes: args.notes as string | undefined,
+        branch: args.branch as string | undefined,
       });
     }
 
@@ -1738,6 +2591,12 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       return await service.getPendingPayments(parsed);
     }
 
+    case 'get_msme_payment_compliance': {
+      const service = getMSMEProductivityService();
+      const parsed = msmeTools.getMSMEPaymentComplianceSchema.parse(args);
+      return await service.getMSMEPaymentCompliance(parsed);
+    }
+
     case 'get_customer_insights': {
       const service = getMSMEProductivityService();
       const parsed = msmeTools.getCustomerInsightsSchema.parse(args);
@@ -1816,13 +2675,19 @@ if (isHTTPMode) {
     authMiddleware,
     rateLimitMiddleware,
     corsMiddleware,
+    trustsBearerUserId,
   }) => {
     // HTTP/SSE mode for remote hosting
     const app = express();
     const port = parseInt(process.env.PORT || '3000', 10);
 
     // Apply global middleware
-    app.use(express.json());
+    app.use(express.json({
+      // Webhook signatures are computed over the exact bytes received
+      verify: (req, _res, buf) => {
+        (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+      },
+    }));
     app.use(corsMiddleware);
     app.use(rateLimitMiddleware);
 
@@ -1997,6 +2862,59 @@ if (isHTTPMode) {
       res.json({ status: 'ok', service: 'vyapar-mcp', version: '1.0.0', tools_count: TOOLS.length });
     });
 
+    // Payment page for a link from create_payment_link - public, the token is the credential
+    app.get('/pay/:token', async (req, res) => {
+      res.setHeader('Cache-Control', 'no-store');
+      try {
+        const result = await getPaymentLinkService().getPaymentPage(req.params.token);
+        if (result.status === 'active') {
+          res.send(renderPaymentPage(result.page));
+          return;
+        }
+
+        const shop = result.shop_name ? ` ${result.shop_name}` : ' the shop';
+        const pages = {
+          not_found: { code: 404, title: 'Link not found', message: 'Check the link you were sent, or ask the shop for a new one.' },
+          paid: { code: 410, title: 'Already paid', message: 'This invoice has been paid. Thank you!' },
+          expired: { code: 410, title: 'Link expired', message: `Ask${shop} to send a new payment link.` },
+          cancelled: { code: 410, title: 'Link no longer valid', message: `This invoice can no longer be paid here. Please contact${shop}.` },
+        };
+        const page = pages[result.status];
+        res.status(page.code).send(renderPaymentLinkStatusPage(page.title, page.message));
+      } catch (error) {
+        console.error('Payment page error:', error);
+        res.status(500).send(renderPaymentLinkStatusPage('Something went wrong', 'Please try again in a moment.'));
+      }
+    });
+
+    // WhatsApp webhook: subscription handshake
+    app.get('/webhooks/whatsapp', (req, res) => {
+      const challenge = getMessagingService().verifyWebhookSubscription(req.query);
+      if (challenge === null) {
+        res.sendStatus(403);
+        return;
+      }
+      res.type('text/plain').send(challenge);
+    });
+
+    // WhatsApp webhook: delivery and read statuses of sent messages
+    app.post('/webhooks/whatsapp', async (req, res) => {
+      const messaging = getMessagingService();
+      const rawBody = (req as express.Request & { rawBody?: Buffer }).rawBody || Buffer.alloc(0);
+      if (!messaging.isConfigured || !messaging.verifyWebhookSignature(rawBody, req.get('X-Hub-Signature-256'))) {
+        res.sendStatus(401);
+        return;
+      }
+
+      try {
+        res.json(await messaging.applyStatusWebhook(req.body));
+      } catch (error) {
+        // A non-2xx response makes Meta retry the delivery later
+        console.error('WhatsApp webhook error:', error);
+        res.sendStatus(500);
+      }
+    });
+
     // MCP endpoint (SSE) - requires auth
     app.get('/mcp', authMiddleware, async (req, res) => {
       res.setHeader('Content-Type', 'text/event-stream');
@@ -2063,7 +2981,13 @@ if (isHTTPMode) {
       console.log(`Vyapar MCP server running on port ${port}`);
       console.log(`Health check: http://localhost:${port}/health`);
       console.log(`Tools: http://localhost:${port}/mcp/tools`);
-      console.log(`Auth: Supabase JWT token required for tool calls`);
+      if (trustsBearerUserId()) {
+        console.warn('WARNING: MEMORY_TRUST_BEARER_USER_ID is on; any bearer token is accepted as a user ID. Do not expose this server.');
+      } else if (process.env.DB_BACKEND === 'memory') {
+        console.log('Auth: tool calls are refused; the memory backend has no sign-in (see MEMORY_TRUST_BEARER_USER_ID)');
+      } else {
+        console.log(`Auth: Supabase JWT token required for tool calls`);
+      }
     });
   });
 } else {
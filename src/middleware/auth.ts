@@ -1,11 +1,19 @@
 import { NextFunction, Request, Response } from 'express';
-import { supabase } from '../services/supabase.js';
+import { getSupabaseClient } from '../services/supabase.js';
 
 export interface AuthenticatedRequest extends Request {
   userId?: string;
   userEmail?: string;
 }
 
+/**
+ * With the in-memory backend, whether HTTP callers are taken at their word: the bearer token is used as the user ID.
+ * Anyone who can reach the server can then act as any user, so it has to be switched on explicitly.
+ */
+export function trustsBearerUserId(): boolean {
+  return process.env.DB_BACKEND === 'memory' && process.env.MEMORY_TRUST_BEARER_USER_ID === 'true';
+}
+
 /**
  * Authentication middleware that validates Firebase ID tokens
  * Expects Authorization header: Bearer <access_token>
@@ -45,9 +53,21 @@ export async function authMiddleware(
 
   const token = parts[1];
 
+  // Offline in-memory backend has no auth provider: the bearer token is the user ID, but only when asked for
+  if (process.env.DB_BACKEND === 'memory') {
+    if (!trustsBearerUserId()) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'The in-memory backend has no sign-in. Set MEMORY_TRUST_BEARER_USER_ID=true to use the bearer token as the user ID (local demos only)',
+      });
+    }
+    req.userId = token;
+    return next();
+  }
+
   try {
     // Verify the JWT with Supabase
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+    const { data: { user }, error } = await getSupabaseClient().auth.getUser(token);
 
     if (error || !user) throw new Error('Invalid token');
 
@@ -94,12 +114,12 @@ export async function optionalAuthMiddleware(
   const token = parts[1];
 
   try {
-    const { data: { user } } = await supabase.auth.getUser(token);
+    const { data: { user } } = await getSupabaseClient().auth.getUser(token);
     if (user) {
       req.userId = user.id;
       req.userEmail = user.email;
     }
-  } catch (err) {
+  } catch {
     // Ignore errors for optional auth
   }
 
@@ -0,0 +1,111 @@
+import axios from 'axios';
+import type { ScanQRImageInput } from '../tools/code-scan.js';
+import type { ParsedPaymentQR, Product } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { decodeImageCodes, DecodedCode } from '../utils/barcode.js';
+import { parseUPIString } from '../utils/qrcode.js';
+
+// Large enough for a full-resolution phone photo
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// What a decoded code turned out to be
+type ScannedCode = Omit<DecodedCode, 'kind'> & (
+  | { type: 'upi_payment'; payment: ParsedPaymentQR }
+  | { type: 'upi_payment'; error: string }
+  | { type: 'product'; product: Pick<Product, 'id' | 'name' | 'price' | 'quantity' | 'unit' | 'barcode'> }
+  | { type: 'unknown_barcode' }
+  | { type: 'text'; is_url: boolean }
+);
+
+/**
+ * Code Scan Service
+ * Reads the QR codes and barcodes in a photo and says what each one is
+ */
+export class CodeScanService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Decode an image, parse UPI payloads and match barcodes to products
+   */
+  async scanImage(input: ScanQRImageInput) {
+    const image = input.image_base64 ? decodeBase64Image(input.image_base64) : await downloadImage(input.image_url!);
+    const codes = await decodeImageCodes(image).catch((error) => {
+      throw new Error(`Could not read the image: ${error instanceof Error ? error.message : error}`);
+    });
+
+    const lookups = codes.filter((code) => !isUPIPayload(code.text)).flatMap((code) => barcodeVariants(code.text));
+    const products: Product[] = lookups.length > 0
+      ? (await this.db.getProducts(input.user_id, { barcodes: [...new Set(lookups)] })) || []
+      : [];
+
+    const scanned = codes.map((code) => classify(code, products));
+    const count = (type: ScannedCode['type']) => scanned.filter((s) => s.type === type).length;
+
+    return {
+      codes_found: scanned.length,
+      codes: scanned,
+      message: scanned.length === 0
+        ? 'No QR code or barcode found. Try a sharper, closer photo with the code flat and well lit.'
+        : `Found ${scanned.length} ${scanned.length === 1 ? 'code' : 'codes'}: ${count('upi_payment')} UPI, ` +
+          `${count('product')} in inventory, ${count('unknown_barcode')} unknown barcodes, ${count('text')} other`,
+    };
+  }
+}
+
+function classify(code: DecodedCode, products: Product[]): ScannedCode {
+  const { kind, ...decoded } = code;
+
+  if (isUPIPayload(code.text)) {
+    try {
+      const payment = parseUPIString(code.text);
+      if (payment) return { ...decoded, type: 'upi_payment', payment };
+      return { ...decoded, type: 'upi_payment', error: 'UPI link is missing the payee address (pa) or name (pn)' };
+    } catch (error) {
+      return { ...decoded, type: 'upi_payment', error: error instanceof Error ? error.message : 'Unreadable UPI QR' };
+    }
+  }
+
+  const variants = barcodeVariants(code.text);
+  const product = products.find((p) => p.barcode && variants.includes(p.barcode));
+  if (product) {
+    const { id, name, price, quantity, unit, barcode } = product;
+    return { ...decoded, type: 'product', product: { id, name, price, quantity, unit, barcode } };
+  }
+  if (kind === 'product') return { ...decoded, type: 'unknown_barcode' };
+
+  return { ...decoded, type: 'text', is_url: /^https?:\/\//i.test(code.text) };
+}
+
+// upi://pay links, and BharatQR payloads (EMVCo, opening 000201)
+function isUPIPayload(text: string): boolean {
+  return /^upi:\/\//i.test(text.trim()) || text.trim().startsWith('000201');
+}
+
+// A UPC-A code is also printed and stored as the EAN-13 with a leading zero
+function barcodeVariants(text: string): string[] {
+  const code = text.trim();
+  if (/^\d{12}$/.test(code)) return [code, `0${code}`];
+  if (/^0\d{12}$/.test(code)) return [code, code.slice(1)];
+  return [code];
+}
+
+function decodeBase64Image(data: string): Buffer {
+  const image = Buffer.from(data.replace(/^data:[^,]*,/, ''), 'base64');
+  if (image.length === 0) {
+    throw new Error('image_base64 is empty or not valid base64');
+  }
+  return image;
+}
+
+async function downloadImage(imageUrl: string): Promise<Buffer> {
+  try {
+    const response = await axios.get(imageUrl, {
+      responseType: 'arraybuffer',
+      maxContentLength: MAX_IMAGE_BYTES,
+      timeout: 30000,
+    });
+    return Buffer.from(response.data);
+  } catch (error) {
+    throw new Error(`Failed to download image: ${error instanceof Error ? error.message : error}`);
+  }
+}
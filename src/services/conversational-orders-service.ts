@@ -1,5 +1,7 @@
-import { SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
+import type { Product, Transaction } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { InvoiceService } from './invoice-service.js';
 import {
   InitDraftInvoiceInput,
   AddInvoiceItemInput,
@@ -15,6 +17,8 @@ interface DraftItem {
   product_name: string;
   quantity: number;
   price: number;
+  // The price includes GST, so the tax is backed out of it on the invoice
+  price_includes_tax?: boolean;
   gst_rate: number;
   total: number;
 }
@@ -31,8 +35,19 @@ interface DraftInvoice {
   updated_at: string;
 }
 
+// How each counter payment method is recorded as a transaction
+const PAYMENT_METHODS: Record<'Cash' | 'UPI' | 'Card', { payment_type: Transaction['payment_type']; notes?: string }> = {
+  Cash: { payment_type: 'cash' },
+  UPI: { payment_type: 'upi' },
+  Card: { payment_type: 'bank_transfer', notes: 'Card' },
+};
+
 export class ConversationalOrdersService {
-  constructor(private supabase: SupabaseClient) {}
+  private invoiceService: InvoiceService;
+
+  constructor(private db: DatabaseService) {
+    this.invoiceService = new InvoiceService(db);
+  }
 
   /**
    * Initialize a new draft invoice session
@@ -40,51 +55,31 @@ export class ConversationalOrdersService {
   async initDraftInvoice(input: InitDraftInvoiceInput): Promise<DraftInvoice> {
     const sessionId = input.session_id || `session-${Date.now()}-${uuidv4().substring(0, 8)}`;
 
-    const { data, error } = await this.supabase
-      .from('invoice_drafts')
-      .insert({
-        user_id: input.user_id,
+    try {
+      const data = await this.db.createInvoiceDraft(input.user_id, {
         session_id: sessionId,
         customer_id: input.customer_id,
         customer_name: input.customer_name,
         items: [],
-      })
-      .select()
-      .single();
-
-    if (error) throw new Error(`Failed to create draft invoice: ${error.message}`);
-
-    return data as DraftInvoice;
+      });
+      return data as DraftInvoice;
+    } catch (error: any) {
+      throw new Error(`Failed to create draft invoice: ${error.message}`);
+    }
   }
 
   /**
    * Fuzzy search for a product by name
    */
   private async fuzzySearchProduct(userId: string, productName: string) {
-    // First try exact match
-    const { data: exactMatch } = await this.supabase
-      .from('products')
-      .select('id, name, hindi_name, price')
-      .eq('user_id', userId)
-      .or(`name.ilike.%${productName}%,hindi_name.ilike.%${productName}%`)
-      .limit(1)
-      .single();
-
-    if (exactMatch) return exactMatch;
-
-    // Fall back to fuzzy search function
-    const { data: fuzzyMatches, error } = await this.supabase
-      .rpc('fuzzy_search_products', {
-        p_user_id: userId,
-        p_query: productName,
-        p_limit: 1,
-      });
+    // Name match first, falling back to similarity search
+    const matches = await this.db.searchProducts(userId, productName, 1).catch(() => []);
 
-    if (error || !fuzzyMatches || fuzzyMatches.length === 0) {
+    if (!matches || matches.length === 0) {
       throw new Error(`Product "${productName}" not found in inventory`);
     }
 
-    return fuzzyMatches[0];
+    return matches[0];
   }
 
   /**
@@ -92,41 +87,35 @@ export class ConversationalOrdersService {
    */
   async addInvoiceItem(input: AddInvoiceItemInput): Promise<DraftInvoice> {
     // Get the draft
-    const { data: draft, error: fetchError } = await this.supabase
-      .from('invoice_drafts')
-      .select('*')
-      .eq('session_id', input.session_id)
-      .eq('user_id', input.user_id)
-      .single();
-
-    if (fetchError || !draft) {
+    const draft = await this.db.getInvoiceDraft(input.user_id, input.session_id);
+
+    if (!draft) {
       throw new Error('Draft invoice not found. Please start a new order.');
     }
 
     let productId = input.product_id;
     let unitPrice = input.unit_price;
+    let product: Product | null = null;
 
     // If product_id not provided, search for it
     if (!productId) {
-      const product = await this.fuzzySearchProduct(input.user_id, input.product_name);
-      productId = product.id;
+      const match = await this.fuzzySearchProduct(input.user_id, input.product_name);
+      product = match;
+      productId = match.id;
       if (!unitPrice) {
-        unitPrice = product.price;
+        unitPrice = match.price;
       }
     }
 
-    // If still no price, fetch product price
-    if (!unitPrice) {
-      const { data: product } = await this.supabase
-        .from('products')
-        .select('price')
-        .eq('id', productId)
-        .single();
+    // If still no price (or no tax-inclusive setting or GST rate), fetch the product
+    if (!unitPrice || input.price_includes_tax === undefined || input.gst_rate === undefined) {
+      product = product || await this.db.getProduct(input.user_id, productId!).catch(() => null);
 
-      unitPrice = product?.price || 0;
+      unitPrice = unitPrice || product?.price || 0;
     }
 
-    const gstRate = input.gst_rate || 18;
+    // An inclusive price is backed out at the product's own rate; 0% is a rate, not a missing one
+    const gstRate = input.gst_rate ?? product?.gst_rate ?? 18;
     const finalUnitPrice = unitPrice || 0; // Ensure it's never undefined
     const total = finalUnitPrice * input.quantity;
 
@@ -135,6 +124,7 @@ export class ConversationalOrdersService {
       product_name: input.product_name,
       quantity: input.quantity,
       price: finalUnitPrice,
+      price_includes_tax: input.price_includes_tax ?? !!product?.price_includes_tax,
       gst_rate: gstRate,
       total,
     };
@@ -155,30 +145,16 @@ export class ConversationalOrdersService {
     }
 
     // Update draft
-    const { data: updated, error: updateError } = await this.supabase
-      .from('invoice_drafts')
-      .update({ items, updated_at: new Date().toISOString() })
-      .eq('id', draft.id)
-      .select()
-      .single();
-
-    if (updateError) throw new Error(`Failed to update draft: ${updateError.message}`);
-
-    return updated as DraftInvoice;
+    return await this.saveDraftItems(input.user_id, draft.id, items);
   }
 
   /**
    * Update an existing item in the draft
    */
   async updateInvoiceItem(input: UpdateInvoiceItemInput): Promise<DraftInvoice> {
-    const { data: draft, error: fetchError } = await this.supabase
-      .from('invoice_drafts')
-      .select('*')
-      .eq('session_id', input.session_id)
-      .eq('user_id', input.user_id)
-      .single();
-
-    if (fetchError || !draft) {
+    const draft = await this.db.getInvoiceDraft(input.user_id, input.session_id);
+
+    if (!draft) {
       throw new Error('Draft invoice not found');
     }
 
@@ -201,30 +177,16 @@ export class ConversationalOrdersService {
 
     items[itemIndex].total = items[itemIndex].price * items[itemIndex].quantity;
 
-    const { data: updated, error: updateError } = await this.supabase
-      .from('invoice_drafts')
-      .update({ items, updated_at: new Date().toISOString() })
-      .eq('id', draft.id)
-      .select()
-      .single();
-
-    if (updateError) throw new Error(`Failed to update draft: ${updateError.message}`);
-
-    return updated as DraftInvoice;
+    return await this.saveDraftItems(input.user_id, draft.id, items);
   }
 
   /**
    * Remove an item from the draft
    */
   async removeInvoiceItem(input: RemoveInvoiceItemInput): Promise<DraftInvoice> {
-    const { data: draft, error: fetchError } = await this.supabase
-      .from('invoice_drafts')
-      .select('*')
-      .eq('session_id', input.session_id)
-      .eq('user_id', input.user_id)
-      .single();
-
-    if (fetchError || !draft) {
+    const draft = await this.db.getInvoiceDraft(input.user_id, input.session_id);
+
+    if (!draft) {
       throw new Error('Draft invoice not found');
     }
 
@@ -237,30 +199,16 @@ export class ConversationalOrdersService {
       throw new Error(`Item "${input.product_name}" not found in draft`);
     }
 
-    const { data: updated, error: updateError } = await this.supabase
-      .from('invoice_drafts')
-      .update({ items: filteredItems, updated_at: new Date().toISOString() })
-      .eq('id', draft.id)
-      .select()
-      .single();
-
-    if (updateError) throw new Error(`Failed to update draft: ${updateError.message}`);
-
-    return updated as DraftInvoice;
+    return await this.saveDraftItems(input.user_id, draft.id, filteredItems);
   }
 
   /**
    * Get the current state of the draft invoice
    */
   async getDraftInvoice(input: GetDraftInvoiceInput): Promise<DraftInvoice> {
-    const { data: draft, error } = await this.supabase
-      .from('invoice_drafts')
-      .select('*')
-      .eq('session_id', input.session_id)
-      .eq('user_id', input.user_id)
-      .single();
-
-    if (error || !draft) {
+    const draft = await this.db.getInvoiceDraft(input.user_id, input.session_id);
+
+    if (!draft) {
       throw new Error('Draft invoice not found');
     }
 
@@ -271,14 +219,9 @@ export class ConversationalOrdersService {
    * Finalize the draft and create an actual invoice
    */
   async finalizeDraftInvoice(input: FinalizeDraftInvoiceInput) {
-    const { data: draft, error: fetchError } = await this.supabase
-      .from('invoice_drafts')
-      .select('*')
-      .eq('session_id', input.session_id)
-      .eq('user_id', input.user_id)
-      .single();
-
-    if (fetchError || !draft) {
+    const draft = await this.db.getInvoiceDraft(input.user_id, input.session_id);
+
+    if (!draft) {
       throw new Error('Draft invoice not found');
     }
 
@@ -288,103 +231,64 @@ export class ConversationalOrdersService {
       throw new Error('Cannot create invoice: no items in draft');
     }
 
-    // Calculate totals
-    const subtotal = items.reduce((sum, item) => sum + item.total, 0);
-    const gstAmount = items.reduce((sum, item) => sum + (item.total * item.gst_rate) / 100, 0);
-    const totalAmount = subtotal + gstAmount;
-
-    // Generate invoice number
-    const { count } = await this.supabase
-      .from('invoices')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', input.user_id);
-
-    const invoiceCount = (count || 0) + 1;
-    const date = new Date();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const year = String(date.getFullYear()).slice(-2);
-    const invoiceNumber = `INV-${year}${month}-${String(invoiceCount).padStart(4, '0')}`;
-
-    // Create invoice
-    const { data: invoice, error: invoiceError } = await this.supabase
-      .from('invoices')
-      .insert({
-        user_id: input.user_id,
-        invoice_number: invoiceNumber,
-        customer_id: input.customer_id || draft.customer_id,
+    const customerId = input.customer_id || draft.customer_id;
+    const paymentMethod = input.payment_method || 'Cash';
+
+    let invoice;
+    try {
+      invoice = await this.invoiceService.createInvoice(input.user_id, {
+        customer_id: customerId,
         customer_name: input.customer_name || draft.customer_name,
         customer_phone: input.customer_phone,
-        subtotal,
-        gst_amount: gstAmount,
-        total_amount: totalAmount,
-        payment_method: input.payment_method || 'Cash',
+        items: items.map((item) => ({
+          product_id: item.product_id,
+          name: item.product_name,
+          quantity: item.quantity,
+          unit_price: item.price,
+          price_includes_tax: !!item.price_includes_tax,
+          gst_rate: item.gst_rate,
+        })),
         notes: input.notes || draft.notes,
-        status: 'paid',
-      })
-      .select()
-      .single();
-
-    if (invoiceError) throw new Error(`Failed to create invoice: ${invoiceError.message}`);
-
-    // Create invoice items
-    const invoiceItems = items.map((item) => ({
-      invoice_id: invoice.id,
-      product_id: item.product_id,
-      product_name: item.product_name,
-      quantity: item.quantity,
-      price: item.price,
-      cost_price: 0, // TODO: Fetch from products table
-      gst_rate: item.gst_rate,
-      total: item.total,
-    }));
-
-    const { error: itemsError } = await this.supabase
-      .from('invoice_items')
-      .insert(invoiceItems);
-
-    if (itemsError) throw new Error(`Failed to create invoice items: ${itemsError.message}`);
-
-    // Update product stock for each item
-    for (const item of items) {
-      if (item.product_id) {
-        const { data: product } = await this.supabase
-          .from('products')
-          .select('quantity')
-          .eq('id', item.product_id)
-          .single();
-
-        if (product) {
-          await this.supabase
-            .from('products')
-            .update({ quantity: product.quantity - item.quantity })
-            .eq('id', item.product_id);
-        }
-      }
+        branch: input.branch,
+        // Credit sales stay open until paid; everything else is settled at the counter
+        status: 'sent',
+        deduct_stock: true,
+        payment: paymentMethod === 'Credit' ? undefined : PAYMENT_METHODS[paymentMethod],
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to create invoice: ${error.message}`);
     }
 
     // Delete the draft
-    await this.supabase
-      .from('invoice_drafts')
-      .delete()
-      .eq('id', draft.id);
+    await this.db.deleteInvoiceDraft(input.user_id, input.session_id);
 
     return {
       invoice,
-      message: `Invoice ${invoiceNumber} created successfully with ${items.length} items. Total: ₹${totalAmount.toFixed(2)}`,
+      message: `Invoice ${invoice.invoice_number} created successfully with ${items.length} items. Total: ₹${invoice.total.toFixed(2)}`,
     };
   }
 
+  /**
+   * Persist the draft's item list
+   */
+  private async saveDraftItems(userId: string, draftId: string, items: DraftItem[]): Promise<DraftInvoice> {
+    try {
+      const updated = await this.db.updateInvoiceDraft(userId, draftId, { items });
+      return updated as DraftInvoice;
+    } catch (error: any) {
+      throw new Error(`Failed to update draft: ${error.message}`);
+    }
+  }
+
   /**
    * Cancel and delete a draft invoice
    */
   async cancelDraftInvoice(input: CancelDraftInvoiceInput): Promise<{ message: string }> {
-    const { error } = await this.supabase
-      .from('invoice_drafts')
-      .delete()
-      .eq('session_id', input.session_id)
-      .eq('user_id', input.user_id);
-
-    if (error) throw new Error(`Failed to cancel draft: ${error.message}`);
+    try {
+      await this.db.deleteInvoiceDraft(input.user_id, input.session_id);
+    } catch (error: any) {
+      throw new Error(`Failed to cancel draft: ${error.message}`);
+    }
 
     return { message: 'Draft invoice cancelled successfully' };
   }
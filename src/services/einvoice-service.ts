@@ -0,0 +1,95 @@
+import type { GenerateEInvoiceJSONInput } from '../tools/einvoice.js';
+import type { Invoice } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { IRNDetails, buildEInvoice, checkIRNDetails } from '../utils/einvoice.js';
+import type { IRNProvider } from './irn-provider.js';
+
+/**
+ * E-Invoice Service
+ * Builds INV-01 payloads and records the IRN, acknowledgement and signed QR code on the invoice
+ */
+export class EInvoiceService {
+  constructor(private db: DatabaseService, private irnProvider: IRNProvider | null = null) {}
+
+  /**
+   * Validated INV-01 payload for an invoice or credit note; registers it, or saves an IRN obtained elsewhere, when asked
+   */
+  async generateEInvoiceJSON(input: GenerateEInvoiceJSONInput) {
+    const invoice: Invoice = await this.db.getInvoice(input.user_id, input.invoice_id);
+    if (!invoice) throw new Error('Invoice not found');
+
+    const seller = await this.db.getUser(input.user_id);
+    if (!seller) throw new Error('User not found');
+
+    const customer = invoice.customer_id
+      ? await this.db.getCustomer(input.user_id, invoice.customer_id).catch(() => undefined)
+      : undefined;
+    const originalInvoice = invoice.original_invoice_id
+      ? await this.db.getInvoice(input.user_id, invoice.original_invoice_id).catch(() => undefined)
+      : undefined;
+    const products = await this.db.getProducts(input.user_id);
+
+    const { payload, errors, warnings } = buildEInvoice({ invoice, seller, customer, products, originalInvoice });
+
+    let irn: IRNDetails | null = invoice.irn
+      ? {
+        irn: invoice.irn,
+        ack_number: invoice.irn_ack_number || '',
+        ack_date: invoice.irn_ack_date || '',
+        signed_qr_code: invoice.irn_signed_qr || '',
+      }
+      : null;
+    let message: string;
+
+    if (input.irn_response) {
+      if (invoice.irn && invoice.irn.toLowerCase() !== input.irn_response.irn.toLowerCase()) {
+        throw new Error(`${invoice.invoice_number} already has IRN ${invoice.irn}`);
+      }
+      const problems = checkIRNDetails(input.irn_response, invoice);
+      if (problems.length > 0) {
+        throw new Error(`IRN response does not fit ${invoice.invoice_number}: ${problems.join('; ')}`);
+      }
+      irn = input.irn_response;
+      await this.saveIRN(input.user_id, invoice.id, irn);
+      message = `IRN saved on ${invoice.invoice_number}; the invoice PDF now carries the signed QR code`;
+    } else if (input.register) {
+      if (invoice.irn) {
+        throw new Error(`${invoice.invoice_number} is already registered with IRN ${invoice.irn}`);
+      }
+      if (errors.length > 0) {
+        throw new Error(`Fix these before registering ${invoice.invoice_number}: ${errors.join('; ')}`);
+      }
+      if (!this.irnProvider) {
+        throw new Error('No IRN provider is configured (EINVOICE_PROVIDER); register the payload on the e-invoice portal and pass its response as irn_response');
+      }
+      irn = await this.irnProvider.generateIRN(payload);
+      await this.saveIRN(input.user_id, invoice.id, irn);
+      message = `${invoice.invoice_number} registered through the ${this.irnProvider.name} provider`;
+    } else if (errors.length > 0) {
+      message = `${errors.length} problem(s) to fix before ${invoice.invoice_number} can be registered`;
+    } else {
+      message = irn
+        ? `${invoice.invoice_number} is registered with IRN ${irn.irn}`
+        : `${invoice.invoice_number} is ready to register`;
+    }
+
+    return {
+      invoice_number: invoice.invoice_number,
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      irn,
+      message,
+      payload,
+    };
+  }
+
+  private async saveIRN(userId: string, invoiceId: string, irn: IRNDetails) {
+    await this.db.updateInvoice(userId, invoiceId, {
+      irn: irn.irn,
+      irn_ack_number: irn.ack_number,
+      irn_ack_date: irn.ack_date,
+      irn_signed_qr: irn.signed_qr_code,
+    });
+  }
+}
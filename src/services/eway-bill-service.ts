@@ -0,0 +1,76 @@
+import type { GenerateEWayBillJSONInput } from '../tools/eway-bill.js';
+import type { Invoice } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { buildEWayBill, transportDetails } from '../utils/eway-bill.js';
+
+/**
+ * E-Way Bill Service
+ * Builds e-way bill JSON for invoices and delivery challans and records the e-way bill number on them
+ */
+export class EWayBillService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Validated e-way bill JSON for a document, after saving any transport details or e-way bill number given
+   */
+  async generateEWayBillJSON(input: GenerateEWayBillJSONInput) {
+    let document: Invoice = await this.db.getInvoice(input.user_id, input.invoice_id);
+    if (!document) throw new Error('Invoice not found');
+
+    const seller = await this.db.getUser(input.user_id);
+    if (!seller) throw new Error('User not found');
+
+    const updates: Partial<Invoice> = transportDetails(input);
+    if (input.eway_bill_number) {
+      if (document.eway_bill_number && document.eway_bill_number !== input.eway_bill_number) {
+        throw new Error(`${document.invoice_number} already has e-way bill ${document.eway_bill_number}`);
+      }
+      updates.eway_bill_number = input.eway_bill_number;
+      updates.eway_bill_date = input.eway_bill_date || new Date().toISOString();
+    }
+    if (Object.keys(updates).length > 0) {
+      document = await this.db.updateInvoice(input.user_id, document.id, updates);
+    }
+
+    const customer = document.customer_id
+      ? await this.db.getCustomer(input.user_id, document.customer_id).catch(() => undefined)
+      : undefined;
+    const products = await this.db.getProducts(input.user_id);
+
+    const result = buildEWayBill({
+      document,
+      seller,
+      customer,
+      products,
+      subSupplyType: input.sub_supply_type,
+      subSupplyDescription: input.sub_supply_description,
+    });
+
+    let message: string;
+    if (input.eway_bill_number) {
+      message = `E-way bill ${input.eway_bill_number} saved on ${document.invoice_number}; it is printed on the document`;
+    } else if (result.errors.length > 0) {
+      message = `${result.errors.length} problem(s) to fix before the e-way bill for ${document.invoice_number} can be generated`;
+    } else if (document.eway_bill_number) {
+      message = `${document.invoice_number} already has e-way bill ${document.eway_bill_number}`;
+    } else {
+      message = result.required
+        ? `E-way bill JSON for ${document.invoice_number} is ready to upload`
+        : `E-way bill JSON for ${document.invoice_number} is ready, though the consignment is below the threshold`;
+    }
+
+    return {
+      document_number: document.invoice_number,
+      required: result.required,
+      consignment_value: result.consignment_value,
+      valid: result.errors.length === 0,
+      errors: result.errors,
+      warnings: result.warnings,
+      validity_days: result.validity_days,
+      eway_bill_number: document.eway_bill_number || null,
+      eway_bill_date: document.eway_bill_date || null,
+      message,
+      json: result.json,
+    };
+  }
+}
@@ -1,5 +1,5 @@
-import { SupabaseClient } from '@supabase/supabase-js';
-import { predictStockNeeds, generateRestockRecommendations, SalesDataPoint } from '../utils/time-series.js';
+import type { DatabaseService } from '../types/service.js';
+import { predictStockNeeds, SalesDataPoint } from '../utils/time-series.js';
 
 export interface StockForecast {
   product_id: string;
@@ -14,7 +14,7 @@ export interface StockForecast {
 }
 
 export class ForecastingService {
-  constructor(private supabase: SupabaseClient) {}
+  constructor(private db: DatabaseService) {}
 
   /**
    * Get sales history for a product
@@ -24,38 +24,31 @@ export class ForecastingService {
     startDate.setDate(startDate.getDate() - days);
 
     // Try to use pre-aggregated daily sales first
-    const { data: aggregated } = await this.supabase
-      .from('sales_history_daily')
-      .select('date, quantity_sold')
-      .eq('user_id', userId)
-      .eq('product_id', productId)
-      .gte('date', startDate.toISOString().split('T')[0])
-      .order('date', { ascending: true });
+    const aggregated = await this.db
+      .getDailySalesHistory(userId, productId, startDate.toISOString().split('T')[0])
+      .catch(() => null);
 
     if (aggregated && aggregated.length > 0) {
-      return aggregated.map((row) => ({
+      return aggregated.map((row: any) => ({
         date: new Date(row.date),
         quantity: row.quantity_sold,
       }));
     }
 
     // Fallback: Calculate from invoices
-    const { data: invoiceItems } = await this.supabase
-      .from('invoice_items')
-      .select(`
-        quantity,
-        invoices!inner(created_at, status, user_id)
-      `)
-      .eq('product_id', productId)
-      .eq('invoices.user_id', userId)
-      .eq('invoices.status', 'paid')
-      .gte('invoices.created_at', startDate.toISOString());
+    const invoiceItems = await this.db
+      .getSalesLineItems(userId, {
+        productId,
+        statuses: ['paid'],
+        startDate: startDate.toISOString(),
+      })
+      .catch(() => []);
 
     // Group by date
     const dailyMap = new Map<string, number>();
 
     (invoiceItems || []).forEach((item: any) => {
-      const date = new Date(item.invoices.created_at).toISOString().split('T')[0];
+      const date = new Date(item.created_at).toISOString().split('T')[0];
       dailyMap.set(date, (dailyMap.get(date) || 0) + item.quantity);
     });
 
@@ -71,17 +64,12 @@ export class ForecastingService {
   async predictSingleProduct(
     userId: string,
     productId: string,
-    daysAhead: number = 30
+    _daysAhead: number = 30
   ): Promise<StockForecast> {
     // Get product info
-    const { data: product, error: productError } = await this.supabase
-      .from('products')
-      .select('id, name, quantity')
-      .eq('id', productId)
-      .eq('user_id', userId)
-      .single();
-
-    if (productError || !product) {
+    const product = await this.db.getProduct(userId, productId).catch(() => null);
+
+    if (!product) {
       throw new Error('Product not found');
     }
 
@@ -89,12 +77,7 @@ export class ForecastingService {
     const salesHistory = await this.getSalesHistory(userId, productId, 30);
 
     // Get reorder rule if exists
-    const { data: reorderRule } = await this.supabase
-      .from('reorder_rules')
-      .select('lead_time_days, safety_stock')
-      .eq('user_id', userId)
-      .eq('product_id', productId)
-      .single();
+    const reorderRule = await this.db.getReorderRule(userId, productId).catch(() => null);
 
     const leadTimeDays = reorderRule?.lead_time_days || 7;
     const safetyStockDays = reorderRule?.safety_stock ? Math.ceil(reorderRule.safety_stock / 10) : 3;
@@ -148,18 +131,16 @@ export class ForecastingService {
     const daysAhead = timePeriod === 'week' ? 7 : 30;
 
     // Fetch products
-    const query = this.supabase
-      .from('products')
-      .select('id, name, quantity, low_stock_threshold')
-      .eq('user_id', userId);
-
-    const { data: allProducts, error } = await query;
-
-    if (error) throw new Error(`Failed to fetch products: ${error.message}`);
+    let allProducts: any[];
+    try {
+      allProducts = await this.db.getProducts(userId);
+    } catch (error: any) {
+      throw new Error(`Failed to fetch products: ${error.message}`);
+    }
 
     // Filter for low stock if requested
     const products = options.onlyLowStock
-      ? (allProducts || []).filter(p => p.quantity <= p.low_stock_threshold)
+      ? (allProducts || []).filter((p: any) => p.quantity <= p.low_stock_threshold)
       : allProducts;
 
     if (!products || products.length === 0) {
@@ -190,10 +171,8 @@ export class ForecastingService {
    * Save forecast to database
    */
   async saveForecast(userId: string, forecast: StockForecast): Promise<void> {
-    await this.supabase
-      .from('stock_predictions')
-      .insert({
-        user_id: userId,
+    await this.db
+      .createStockPrediction(userId, {
         product_id: forecast.product_id,
         predicted_date: forecast.predicted_runout_date,
         predicted_quantity: forecast.suggested_reorder_quantity,
@@ -202,7 +181,8 @@ export class ForecastingService {
           urgency: forecast.urgency,
           days_until_runout: forecast.days_until_runout,
         },
-      });
+      })
+      .catch(() => null);
   }
 
   /**
@@ -219,24 +199,22 @@ export class ForecastingService {
       lead_time_days?: number;
       safety_stock?: number;
     }
-  ): Promise<void> {
-    const { error } = await this.supabase
-      .from('reorder_rules')
-      .upsert({
-        user_id: userId,
-        product_id: productId,
-        ...rule,
-      });
-
-    if (error) throw new Error(`Failed to set reorder rule: ${error.message}`);
+  ): Promise<any> {
+    try {
+      return await this.db.upsertReorderRule(userId, productId, rule);
+    } catch (error: any) {
+      throw new Error(`Failed to set reorder rule: ${error.message}`);
+    }
   }
 
   /**
    * Aggregate daily sales (should be run as a cron job)
    */
   async aggregateDailySales(): Promise<void> {
-    const { error } = await this.supabase.rpc('aggregate_daily_sales');
-
-    if (error) throw new Error(`Failed to aggregate sales: ${error.message}`);
+    try {
+      await this.db.aggregateDailySales();
+    } catch (error: any) {
+      throw new Error(`Failed to aggregate sales: ${error.message}`);
+    }
   }
 }
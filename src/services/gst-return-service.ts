@@ -0,0 +1,119 @@
+import type { GenerateCMP08Input, GenerateGSTR1Input, GenerateGSTR3BInput } from '../tools/gst-returns.js';
+import type { Expense, Invoice, PurchaseOrder } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { buildCMP08 } from '../utils/cmp08.js';
+import { isValidGSTIN } from '../utils/gst.js';
+import { ReturnPeriod, buildGSTR1, getReturnPeriod } from '../utils/gstr1.js';
+import { buildGSTR3B } from '../utils/gstr3b.js';
+
+/**
+ * GST Return Service
+ * Collects a period's documents and lays them out as GST return data
+ */
+export class GstReturnService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * GSTR-1 sections (B2B, B2CL, B2CS, CDNR, CDNUR, HSN and document summary) as portal JSON and offline-tool CSV
+   */
+  async generateGSTR1(input: GenerateGSTR1Input) {
+    const gstin = await this.getGSTIN(input.user_id, 'GSTR-1');
+    const period = getReturnPeriod(input.period, input.frequency);
+    const documents = await this.getOutwardDocuments(input.user_id, period);
+
+    // Credit notes may be against invoices from earlier periods; B2CL classification needs their value
+    const loaded = new Set(documents.map((d) => d.id));
+    const originalIds = [
+      ...new Set(documents.map((d) => d.original_invoice_id).filter((id): id is string => !!id && !loaded.has(id))),
+    ];
+    const originals: Invoice[] = await Promise.all(originalIds.map((id) => this.db.getInvoice(input.user_id, id)));
+
+    const [customers, products] = await Promise.all([
+      this.db.getCustomers(input.user_id),
+      this.db.getProducts(input.user_id),
+    ]);
+
+    return buildGSTR1({ gstin, period, documents, originals, customers, products });
+  }
+
+  /**
+   * GSTR-3B tables with input tax credit from expenses and received purchase orders, and the GST payable in cash
+   */
+  async generateGSTR3B(input: GenerateGSTR3BInput) {
+    const gstin = await this.getGSTIN(input.user_id, 'GSTR-3B');
+    const period = getReturnPeriod(input.period, input.frequency);
+
+    const [documents, customers, expenses, purchaseOrders] = await Promise.all([
+      this.getOutwardDocuments(input.user_id, period),
+      this.db.getCustomers(input.user_id),
+      this.db.getExpenses(input.user_id, { startDate: period.first_day, endDate: period.last_day }),
+      this.getPurchasesInPeriod(input.user_id, period),
+    ]);
+
+    return buildGSTR3B({ gstin, period, documents, customers, expenses: expenses as Expense[], purchaseOrders });
+  }
+
+  /**
+   * CMP-08 for a composition dealer: turnover for the quarter and the composition tax on it
+   */
+  async generateCMP08(input: GenerateCMP08Input) {
+    const user = await this.db.getUser(input.user_id);
+    if (user?.gst_scheme !== 'composition') {
+      throw new Error('CMP-08 is filed by composition dealers; set gst_scheme to "composition" with update_user');
+    }
+    const gstin = await this.getGSTIN(input.user_id, 'CMP-08');
+    const period = getReturnPeriod(input.period, 'quarterly');
+
+    const [documents, products, expenses, purchaseOrders] = await Promise.all([
+      this.getOutwardDocuments(input.user_id, period),
+      this.db.getProducts(input.user_id),
+      this.db.getExpenses(input.user_id, { startDate: period.first_day, endDate: period.last_day }),
+      this.getPurchasesInPeriod(input.user_id, period),
+    ]);
+
+    return buildCMP08({
+      gstin,
+      period,
+      category: user.composition_category || 'trader',
+      documents,
+      products,
+      expenses: expenses as Expense[],
+      purchaseOrders,
+    });
+  }
+
+  private async getGSTIN(userId: string, form: string): Promise<string> {
+    const user = await this.db.getUser(userId);
+    if (!user.gst_number || !isValidGSTIN(user.gst_number)) {
+      throw new Error(`A valid GSTIN is required in your profile to prepare ${form}`);
+    }
+    if (user.gst_scheme === 'composition' && form !== 'CMP-08') {
+      throw new Error(`Composition dealers do not file ${form}; use generate_cmp08 for the quarterly statement`);
+    }
+    return user.gst_number.toUpperCase();
+  }
+
+  /**
+   * Received purchase orders whose tax falls in the period: the supplier's invoice date, or the receipt when no invoice date was recorded
+   */
+  private async getPurchasesInPeriod(userId: string, period: ReturnPeriod): Promise<PurchaseOrder[]> {
+    const orders: PurchaseOrder[] = await this.db.getPurchaseOrders(userId);
+    return orders.filter((order) => {
+      if (order.status !== 'received' && order.status !== 'partially_received') return false;
+      if (order.supplier_invoice_date) {
+        return order.supplier_invoice_date >= period.first_day && order.supplier_invoice_date <= period.last_day;
+      }
+      return !!order.received_at && order.received_at >= period.start && order.received_at <= period.end;
+    });
+  }
+
+  /**
+   * Tax invoices and credit notes dated in the period, oldest first
+   */
+  private async getOutwardDocuments(userId: string, period: ReturnPeriod): Promise<Invoice[]> {
+    const documents: Invoice[] = await this.db.getInvoices(userId, { startDate: period.start, endDate: period.end });
+    return documents
+      .filter((d) => d.invoice_type === 'invoice' || d.invoice_type === 'credit_note')
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+}
@@ -0,0 +1,654 @@
+import { readFileSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import type { StockMovementDetails } from '../types/index.js';
+import { DatabaseService } from '../types/service.js';
+import {
+    buildBusinessSummary,
+    buildDailyReport,
+    buildSalesAnalytics,
+    getDayRange,
+    getPeriodRange,
+    loadAnalyticsData,
+    toSalesLines,
+} from '../utils/analytics.js';
+import { withCheckedGSTIN } from '../utils/gst.js';
+import { formatDocumentNumber, getFinancialYear, resolveSeries } from '../utils/numbering.js';
+
+/**
+ * Tables held by the in-memory backend. Mirrors the Supabase schema.
+ */
+export type TableName =
+    | 'users'
+    | 'products'
+    | 'customers'
+    | 'transactions'
+    | 'payment_reviews'
+    | 'payment_links'
+    | 'outbound_messages'
+    | 'invoices'
+    | 'invoice_drafts'
+    | 'expenses'
+    | 'suppliers'
+    | 'purchase_orders'
+    | 'stock_movements'
+    | 'numbering_series'
+    | 'document_sequences'
+    | 'reorder_rules'
+    | 'sales_history_daily'
+    | 'stock_predictions';
+
+export type InMemorySeed = Partial<Record<TableName, any[]>>;
+
+const TABLES: TableName[] = [
+    'users',
+    'products',
+    'customers',
+    'transactions',
+    'payment_reviews',
+    'payment_links',
+    'outbound_messages',
+    'invoices',
+    'invoice_drafts',
+    'expenses',
+    'suppliers',
+    'purchase_orders',
+    'stock_movements',
+    'numbering_series',
+    'document_sequences',
+    'reorder_rules',
+    'sales_history_daily',
+    'stock_predictions',
+];
+
+// Column defaults applied on insert, matching supabase-schema.sql
+const DEFAULTS: Partial<Record<TableName, Record<string, any>>> = {
+    users: { language: 'en' },
+    products: { quantity: 0, unit: 'pcs', low_stock_threshold: 10, gst_rate: 18 },
+    customers: { outstanding_balance: 0 },
+    transactions: { payment_status: 'completed' },
+    payment_reviews: { candidates: [], status: 'pending' },
+    payment_links: { status: 'active' },
+    outbound_messages: { status: 'accepted' },
+    invoices: {
+        invoice_type: 'invoice',
+        items: [],
+        discount_amount: 0,
+        discount_type: 'fixed',
+        is_interstate: false,
+        tax_amount: 0,
+        cgst_amount: 0,
+        sgst_amount: 0,
+        igst_amount: 0,
+        amount_paid: 0,
+        status: 'draft',
+    },
+    invoice_drafts: { items: [] },
+    expenses: { cgst_amount: 0, sgst_amount: 0, igst_amount: 0, itc_eligible: true },
+    purchase_orders: {
+        items: [],
+        tax_amount: 0,
+        is_interstate: false,
+        cgst_amount: 0,
+        sgst_amount: 0,
+        igst_amount: 0,
+        status: 'draft',
+    },
+    numbering_series: { branch: '', padding: 4 },
+    document_sequences: { branch: '', last_number: 0 },
+};
+
+/**
+ * DatabaseService backed by plain in-process arrays.
+ * Selected with DB_BACKEND=memory for offline runs, demos and tests.
+ * Nothing is persisted; MEMORY_SEED_FILE can point at a JSON file of initial rows.
+ */
+export class InMemoryService implements DatabaseService {
+    private tables = {} as Record<TableName, any[]>;
+
+    constructor(seed: InMemorySeed = {}) {
+        for (const table of TABLES) {
+            this.tables[table] = (seed[table] || []).map((row) => this.newRow(table, row));
+        }
+    }
+
+    /**
+     * Create a backend preloaded from a JSON seed file ({ "users": [...], "products": [...] })
+     */
+    static fromSeedFile(path?: string): InMemoryService {
+        if (!path) return new InMemoryService();
+        return new InMemoryService(JSON.parse(readFileSync(path, 'utf-8')));
+    }
+
+    // ============ STORAGE HELPERS ============
+    private rows(table: TableName, userId?: string): any[] {
+        const rows = this.tables[table];
+        return userId === undefined ? rows : rows.filter((row) => row.user_id === userId);
+    }
+
+    private newRow(table: TableName, data: any): any {
+        const now = new Date().toISOString();
+        const values = Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined));
+        return structuredClone({ id: uuidv4(), ...DEFAULTS[table], created_at: now, updated_at: now, ...values });
+    }
+
+    private insert(table: TableName, data: any): any {
+        const now = new Date().toISOString();
+        const row = this.newRow(table, { ...data, created_at: now, updated_at: now });
+        this.tables[table].push(row);
+        return structuredClone(row);
+    }
+
+    private findOne(table: TableName, userId: string, id: string, label: string): any {
+        const row = this.tables[table].find((r) => r.id === id && r.user_id === userId);
+        if (!row) throw new Error(`${label} not found`);
+        return row;
+    }
+
+    private patch(row: any, updates: any): any {
+        const values = Object.fromEntries(Object.entries(updates).filter(([, v]) => v !== undefined));
+        // Always moves forward, even within a millisecond, so updated_at works as a version check
+        const updatedAt = Math.max(Date.now(), new Date(row.updated_at).getTime() + 1 || 0);
+        Object.assign(row, values, { updated_at: new Date(updatedAt).toISOString() });
+        return structuredClone(row);
+    }
+
+    private inDateRange(value: string, startDate?: string, endDate?: string): boolean {
+        const time = new Date(value).getTime();
+        if (startDate && time < new Date(startDate).getTime()) return false;
+        if (endDate && time > new Date(endDate).getTime()) return false;
+        return true;
+    }
+
+    private newestFirst(rows: any[]): any[] {
+        return [...rows].sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }
+
+    private limit(rows: any[], limit?: number): any[] {
+        return structuredClone(limit ? rows.slice(0, limit) : rows);
+    }
+
+    // ============ INVENTORY ============
+    async getProducts(userId: string, options: any = {}) {
+        let products = this.rows('products', userId);
+
+        if (options.category) products = products.filter((p) => p.category === options.category);
+        if (options.search) products = products.filter((p) => containsText(p.name, options.search));
+        if (options.barcodes) products = products.filter((p) => options.barcodes.includes(p.barcode));
+        if (options.lowStockOnly) products = products.filter((p) => p.quantity <= p.low_stock_threshold);
+
+        return this.limit(products, options.limit);
+    }
+
+    async getProduct(userId: string, productId: string) {
+        return structuredClone(this.findOne('products', userId, productId, 'Product'));
+    }
+
+    async searchProducts(userId: string, query: string, limit: number = 5) {
+        const products = this.rows('products', userId);
+
+        // Substring match on English or Hindi name first
+        const matches = products.filter(
+            (p) => containsText(p.name, query) || containsText(p.hindi_name, query)
+        );
+        if (matches.length > 0) return this.limit(matches, limit);
+
+        // Fall back to trigram similarity, like the fuzzy_search_products function
+        const ranked = products
+            .map((p) => ({ product: p, score: trigramSimilarity(p.name, query) }))
+            .filter((r) => r.score >= 0.3)
+            .sort((a, b) => b.score - a.score)
+            .map((r) => r.product);
+
+        return this.limit(ranked, limit);
+    }
+
+    async createProduct(userId: string, productData: any) {
+        const { quantity, ...product } = productData;
+        const created = this.insert('products', { ...product, quantity: 0, user_id: userId });
+        if (!quantity) return created;
+        return this.updateStock(userId, created.id, quantity, 'set', { reason: 'adjustment', notes: 'Opening stock' });
+    }
+
+    async updateStock(
+        userId: string,
+        productId: string,
+        quantity: number,
+        operation: 'add' | 'subtract' | 'set',
+        movement: StockMovementDetails = { reason: 'adjustment' }
+    ) {
+        // Single-threaded, so applying the change and writing the ledger row is already atomic
+        const product = this.findOne('products', userId, productId, 'Product');
+        let change = quantity - product.quantity;
+
+        if (operation === 'add') change = quantity;
+        if (operation === 'subtract') change = -quantity;
+        if (product.quantity + change < 0) {
+            throw new Error(`Not enough stock of ${product.name}: only ${product.quantity} ${product.unit} available`);
+        }
+
+        const updated = this.patch(product, { quantity: product.quantity + change });
+        this.insert('stock_movements', {
+            ...movement,
+            user_id: userId,
+            product_id: productId,
+            quantity_change: change,
+            quantity_after: updated.quantity,
+        });
+        return updated;
+    }
+
+    async getStockMovements(userId: string, productId: string, options: any = {}) {
+        let movements = this.rows('stock_movements', userId)
+            .filter((m) => m.product_id === productId)
+            .filter((m) => this.inDateRange(m.created_at, options.startDate, options.endDate));
+
+        if (options.reason) movements = movements.filter((m) => m.reason === options.reason);
+
+        // Reverse insertion order so same-millisecond movements stay correctly ordered
+        return this.limit([...movements].reverse(), options.limit);
+    }
+
+    async getInventoryAlerts(userId: string) {
+        return this.limit(
+            this.rows('products', userId).filter((p) => p.quantity <= (p.low_stock_threshold || 0))
+        );
+    }
+
+    // ============ CUSTOMERS ============
+    async getCustomers(userId: string, options: any = {}) {
+        let customers = this.rows('customers', userId);
+
+        if (options.search) {
+            customers = customers.filter(
+                (c) => containsText(c.name, options.search) || containsText(c.phone, options.search)
+            );
+        }
+
+        return this.limit(customers, options.limit);
+    }
+
+    async getCustomer(userId: string, customerId: string) {
+        return structuredClone(this.findOne('customers', userId, customerId, 'Customer'));
+    }
+
+    async createCustomer(userId: string, customerData: any) {
+        return this.insert('customers', { ...withCheckedGSTIN(customerData), user_id: userId });
+    }
+
+    async updateCustomerBalance(userId: string, customerId: string, amount: number, operation: 'add' | 'subtract') {
+        const customer = this.findOne('customers', userId, customerId, 'Customer');
+        let newBalance = customer.outstanding_balance || 0;
+
+        if (operation === 'add') newBalance += amount;
+        else newBalance -= amount;
+
+        return this.patch(customer, { outstanding_balance: newBalance });
+    }
+
+    // ============ TRANSACTIONS ============
+    async getTransactions(userId: string, options: any = {}) {
+        let transactions = this.rows('transactions', userId)
+            .filter((t) => this.inDateRange(t.created_at, options.startDate, options.endDate));
+
+        if (options.paymentType) transactions = transactions.filter((t) => t.payment_type === options.paymentType);
+        if (options.status) transactions = transactions.filter((t) => t.payment_status === options.status);
+        if (options.customerId) transactions = transactions.filter((t) => t.customer_id === options.customerId);
+        if (options.upiTransactionId) transactions = transactions.filter((t) => t.upi_transaction_id === options.upiTransactionId);
+
+        return this.limit(this.newestFirst(transactions), options.limit);
+    }
+
+    async createTransaction(userId: string, transactionData: any) {
+        return this.insert('transactions', { ...transactionData, user_id: userId });
+    }
+
+    // ============ PAYMENT LINKS ============
+    async getPaymentLinks(userId: string, options: any = {}) {
+        let links = this.rows('payment_links', userId);
+
+        if (options.invoiceId) links = links.filter((l) => l.invoice_id === options.invoiceId);
+        if (options.status) links = links.filter((l) => l.status === options.status);
+
+        return this.limit(this.newestFirst(links), options.limit);
+    }
+
+    async getPaymentLinkByToken(token: string) {
+        // Public lookup: the token alone identifies the link, whoever owns it
+        const link = this.tables.payment_links.find((l) => l.token === token);
+        return link ? structuredClone(link) : null;
+    }
+
+    async createPaymentLink(userId: string, linkData: any) {
+        return this.insert('payment_links', { ...linkData, user_id: userId });
+    }
+
+    async updatePaymentLink(userId: string, linkId: string, updates: any) {
+        return this.patch(this.findOne('payment_links', userId, linkId, 'Payment link'), updates);
+    }
+
+    // ============ OUTBOUND MESSAGES ============
+    async getOutboundMessages(userId: string, options: any = {}) {
+        let messages = this.rows('outbound_messages', userId);
+
+        if (options.invoiceId) messages = messages.filter((m) => m.invoice_id === options.invoiceId);
+        if (options.status) messages = messages.filter((m) => m.status === options.status);
+
+        return this.limit(this.newestFirst(messages), options.limit);
+    }
+
+    async getOutboundMessageByProviderId(providerMessageId: string) {
+        // Webhook lookup: status updates carry only the provider's message ID
+        const message = this.tables.outbound_messages.find((m) => m.provider_message_id === providerMessageId);
+        return message ? structuredClone(message) : null;
+    }
+
+    async createOutboundMessage(userId: string, messageData: any) {
+        return this.insert('outbound_messages', { ...messageData, user_id: userId });
+    }
+
+    async updateOutboundMessage(userId: string, messageId: string, updates: any) {
+        return this.patch(this.findOne('outbound_messages', userId, messageId, 'Message'), updates);
+    }
+
+    // ============ PAYMENT REVIEWS ============
+    async getPaymentReviews(userId: string, options: any = {}) {
+        let reviews = this.rows('payment_reviews', userId);
+
+        if (options.status) reviews = reviews.filter((r) => r.status === options.status);
+        if (options.reference) reviews = reviews.filter((r) => r.reference === options.reference);
+
+        return this.limit(this.newestFirst(reviews), options.limit);
+    }
+
+    async getPaymentReview(userId: string, reviewId: string) {
+        return structuredClone(this.findOne('payment_reviews', userId, reviewId, 'Payment review'));
+    }
+
+    async createPaymentReview(userId: string, reviewData: any) {
+        const duplicate = this.rows('payment_reviews', userId).some((r) => r.reference === reviewData.reference);
+        if (duplicate) throw new Error(`Statement entry ${reviewData.reference} is already in the review queue`);
+
+        return this.insert('payment_reviews', { ...reviewData, user_id: userId });
+    }
+
+    async updatePaymentReview(userId: string, reviewId: string, updates: any) {
+        return this.patch(this.findOne('payment_reviews', userId, reviewId, 'Payment review'), updates);
+    }
+
+    // ============ INVOICES ============
+    async getInvoices(userId: string, options: any = {}) {
+        let invoices = this.rows('invoices', userId)
+            .filter((i) => this.inDateRange(i.created_at, options.startDate, options.endDate));
+
+        if (options.status) invoices = invoices.filter((i) => i.status === options.status);
+        if (options.statuses) invoices = invoices.filter((i) => options.statuses.includes(i.status));
+        if (options.type) invoices = invoices.filter((i) => i.invoice_type === options.type);
+        if (options.customerId) invoices = invoices.filter((i) => i.customer_id === options.customerId);
+        if (options.originalInvoiceId) invoices = invoices.filter((i) => i.original_invoice_id === options.originalInvoiceId);
+        if (options.sourceDocumentId) invoices = invoices.filter((i) => i.source_document_id === options.sourceDocumentId);
+
+        return this.limit(this.newestFirst(invoices), options.limit);
+    }
+
+    async getInvoice(userId: string, invoiceId: string) {
+        return structuredClone(this.findOne('invoices', userId, invoiceId, 'Invoice'));
+    }
+
+    async getNextInvoiceNumber(userId: string, type: string, branch?: string) {
+        const series = resolveSeries(this.rows('numbering_series', userId), type, branch);
+        const financialYear = getFinancialYear();
+
+        let sequence = this.rows('document_sequences', userId).find((s) =>
+            s.document_type === type && s.branch === series.branch && s.financial_year === financialYear
+        );
+        if (!sequence) {
+            sequence = this.newRow('document_sequences', {
+                user_id: userId,
+                document_type: type,
+                branch: series.branch,
+                financial_year: financialYear,
+            });
+            this.tables.document_sequences.push(sequence);
+        }
+
+        // No await between read and write, so concurrent calls cannot draw the same number
+        sequence.last_number += 1;
+        sequence.updated_at = new Date().toISOString();
+        return formatDocumentNumber(series, financialYear, sequence.last_number);
+    }
+
+    async createInvoice(userId: string, invoiceData: any) {
+        const duplicate = this.rows('invoices', userId)
+            .some((i) => i.invoice_number === invoiceData.invoice_number);
+        if (duplicate) throw new Error(`Invoice number ${invoiceData.invoice_number} already exists`);
+
+        return this.insert('invoices', { ...invoiceData, user_id: userId });
+    }
+
+    async updateInvoiceStatus(userId: string, invoiceId: string, status: string) {
+        return this.patch(this.findOne('invoices', userId, invoiceId, 'Invoice'), { status });
+    }
+
+    async updateInvoice(userId: string, invoiceId: string, updates: any) {
+        return this.patch(this.findOne('invoices', userId, invoiceId, 'Invoice'), updates);
+    }
+
+    async getSalesLineItems(userId: string, options: any = {}) {
+        const [invoices, products] = await Promise.all([
+            this.getInvoices(userId, {
+                type: 'invoice',
+                statuses: options.statuses,
+                startDate: options.startDate,
+                endDate: options.endDate,
+            }),
+            this.getProducts(userId),
+        ]);
+        return toSalesLines(invoices, products, options.productId);
+    }
+
+    // ============ NUMBERING SERIES ============
+    async getNumberingSeries(userId: string) {
+        return this.limit([...this.rows('numbering_series', userId)]
+            .sort((a, b) => a.document_type.localeCompare(b.document_type)));
+    }
+
+    async upsertNumberingSeries(userId: string, series: any) {
+        const existing = this.rows('numbering_series', userId)
+            .find((s) => s.document_type === series.document_type && s.branch === (series.branch ?? ''));
+        if (existing) return this.patch(existing, series);
+        return this.insert('numbering_series', { ...series, user_id: userId });
+    }
+
+    async getDocumentSequences(userId: string, financialYear: string) {
+        return this.limit(this.rows('document_sequences', userId).filter((s) => s.financial_year === financialYear));
+    }
+
+    // ============ DRAFT INVOICES ============
+    async createInvoiceDraft(userId: string, draftData: any) {
+        return this.insert('invoice_drafts', { ...draftData, user_id: userId });
+    }
+
+    async getInvoiceDraft(userId: string, sessionId: string) {
+        const draft = this.rows('invoice_drafts', userId).find((d) => d.session_id === sessionId);
+        return draft ? structuredClone(draft) : null;
+    }
+
+    async updateInvoiceDraft(userId: string, draftId: string, updates: any) {
+        return this.patch(this.findOne('invoice_drafts', userId, draftId, 'Draft invoice'), updates);
+    }
+
+    async deleteInvoiceDraft(userId: string, sessionId: string) {
+        this.tables.invoice_drafts = this.tables.invoice_drafts.filter(
+            (d) => !(d.user_id === userId && d.session_id === sessionId)
+        );
+    }
+
+    // ============ USER/COMMON ============
+    async getUser(userId: string) {
+        const user = this.tables.users.find((u) => u.id === userId);
+        return user ? structuredClone(user) : null;
+    }
+
+    async updateUser(userId: string, userData: any) {
+        const user = this.tables.users.find((u) => u.id === userId);
+        if (!user) throw new Error('User not found');
+        return this.patch(user, withCheckedGSTIN(userData));
+    }
+
+    // ============ ANALYTICS ============
+    async getDailyReport(userId: string, date: string) {
+        const { start, end } = getDayRange(date);
+        const data = await loadAnalyticsData(this, userId, start, end);
+        return buildDailyReport(date, data);
+    }
+
+    async getSalesAnalytics(userId: string, period: 'week' | 'month' | 'year') {
+        // Load the previous window too so growth can be computed
+        const range = getPeriodRange(period);
+        const data = await loadAnalyticsData(this, userId, range.previousStart, range.end);
+        return buildSalesAnalytics(period, data);
+    }
+
+    async getBusinessSummary(userId: string) {
+        return buildBusinessSummary(await loadAnalyticsData(this, userId));
+    }
+
+    async getOutstandingPayments(userId: string) {
+        return this.limit(this.rows('customers', userId).filter((c) => c.outstanding_balance > 0));
+    }
+
+    // ============ FORECASTING ============
+    async getDailySalesHistory(userId: string, productId: string, startDate: string) {
+        // The same rows aggregate_daily_sales() writes: quantities on live tax invoices, per day of sale
+        const daily = new Map<string, number>();
+        for (const invoice of this.rows('invoices', userId)) {
+            if (invoice.invoice_type !== 'invoice' || invoice.status === 'cancelled') continue;
+            const date = invoice.created_at.split('T')[0];
+            if (date < startDate) continue;
+            for (const item of invoice.items || []) {
+                if (item.product_id !== productId) continue;
+                daily.set(date, (daily.get(date) || 0) + Number(item.quantity));
+            }
+        }
+
+        const history = [...daily.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([date, quantity_sold]) => ({ date, quantity_sold }));
+        return this.limit(history);
+    }
+
+    async getReorderRule(userId: string, productId: string) {
+        const rule = this.rows('reorder_rules', userId).find((r) => r.product_id === productId);
+        return rule ? structuredClone(rule) : null;
+    }
+
+    async upsertReorderRule(userId: string, productId: string, rule: any) {
+        const existing = this.rows('reorder_rules', userId).find((r) => r.product_id === productId);
+        if (existing) return this.patch(existing, rule);
+        return this.insert('reorder_rules', { ...rule, user_id: userId, product_id: productId });
+    }
+
+    async createStockPrediction(userId: string, predictionData: any) {
+        return this.insert('stock_predictions', { ...predictionData, user_id: userId });
+    }
+
+    async aggregateDailySales() {
+        // getDailySalesHistory adds up the stored invoices on every call; nothing to pre-aggregate
+    }
+
+    // ============ EXPENSES ============
+    async getExpenses(userId: string, options: any = {}) {
+        let expenses = this.rows('expenses', userId)
+            .filter((e) => this.inDateRange(e.date, options.startDate, options.endDate));
+
+        if (options.category) expenses = expenses.filter((e) => e.category === options.category);
+
+        const newestFirst = [...expenses].sort((a, b) => b.date.localeCompare(a.date));
+        return this.limit(newestFirst, options.limit);
+    }
+
+    async createExpense(userId: string, expenseData: any) {
+        return this.insert('expenses', { ...expenseData, user_id: userId });
+    }
+
+    // ============ SUPPLIERS ============
+    async getSuppliers(userId: string, options: any = {}) {
+        return this.limit(this.rows('suppliers', userId), options.limit);
+    }
+
+    async getSupplier(userId: string, supplierId: string) {
+        return structuredClone(this.findOne('suppliers', userId, supplierId, 'Supplier'));
+    }
+
+    async createSupplier(userId: string, supplierData: any) {
+        return this.insert('suppliers', { ...withCheckedGSTIN(supplierData), user_id: userId });
+    }
+
+    // ============ PURCHASE ORDERS ============
+    async getPurchaseOrders(userId: string, options: any = {}) {
+        let orders = this.rows('purchase_orders', userId);
+
+        if (options.status) orders = orders.filter((o) => o.status === options.status);
+        if (options.supplierId) orders = orders.filter((o) => o.supplier_id === options.supplierId);
+
+        const suppliers = this.rows('suppliers', userId);
+        const withSupplier = this.newestFirst(orders).map((order) => {
+            const supplier = suppliers.find((s) => s.id === order.supplier_id);
+            return { ...order, supplier: supplier ? { id: supplier.id, name: supplier.name, phone: supplier.phone } : null };
+        });
+
+        return this.limit(withSupplier, options.limit);
+    }
+
+    async getPurchaseOrder(userId: string, purchaseOrderId: string) {
+        return structuredClone(this.findOne('purchase_orders', userId, purchaseOrderId, 'Purchase order'));
+    }
+
+    async getNextPurchaseOrderNumber(userId: string) {
+        return this.getNextInvoiceNumber(userId, 'purchase_order');
+    }
+
+    async createPurchaseOrder(userId: string, purchaseOrderData: any) {
+        const duplicate = this.rows('purchase_orders', userId)
+            .some((o) => o.order_number === purchaseOrderData.order_number);
+        if (duplicate) throw new Error(`Purchase order number ${purchaseOrderData.order_number} already exists`);
+
+        return this.insert('purchase_orders', { ...purchaseOrderData, user_id: userId });
+    }
+
+    async updatePurchaseOrder(userId: string, purchaseOrderId: string, updates: any, expectedUpdatedAt?: string) {
+        const order = this.findOne('purchase_orders', userId, purchaseOrderId, 'Purchase order');
+        if (expectedUpdatedAt && order.updated_at !== expectedUpdatedAt) {
+            throw new Error(`Purchase order ${order.order_number} was changed by another update; reload it and try again`);
+        }
+        return this.patch(order, updates);
+    }
+
+    // ============ STORAGE ============
+    async uploadPDF(userId: string, fileName: string, pdfBuffer: Buffer): Promise<string> {
+        // No object storage offline; hand back the document inline
+        return `data:application/pdf;base64,${pdfBuffer.toString('base64')}`;
+    }
+}
+
+function containsText(value: string | undefined, search: string): boolean {
+    return !!value && value.toLowerCase().includes(search.toLowerCase());
+}
+
+/**
+ * Trigram similarity in the style of pg_trgm (shared trigrams / union of trigrams)
+ */
+function trigramSimilarity(a: string, b: string): number {
+    const trigrams = (text: string) => {
+        const padded = `  ${text.toLowerCase().trim()} `;
+        const set = new Set<string>();
+        for (let i = 0; i < padded.length - 2; i++) set.add(padded.substring(i, i + 3));
+        return set;
+    };
+
+    const left = trigrams(a);
+    const right = trigrams(b);
+    const shared = [...left].filter((t) => right.has(t)).length;
+    const union = new Set([...left, ...right]).size;
+    return union === 0 ? 0 : shared / union;
+}
@@ -0,0 +1,790 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { GSTScheme, Invoice, InvoiceItem, Product, StockMovementDetails, Transaction, TransportDetails } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { transportDetails } from '../utils/eway-bill.js';
+import { chargesGST, determinePlaceOfSupply } from '../utils/gst.js';
+import { calculateInvoiceTotals } from '../utils/invoice.js';
+
+export interface InvoiceLineInput {
+  product_id?: string;
+  name: string;
+  description?: string;
+  quantity: number;
+  unit?: string;
+  unit_price: number;
+  /** The price includes GST; defaults to the product's setting */
+  price_includes_tax?: boolean;
+  discount?: number;
+  gst_rate: number;
+  /** Compensation cess; both default to the product's */
+  cess_rate?: number;
+  cess_per_unit?: number;
+}
+
+export interface CreateInvoiceInput {
+  customer_id?: string;
+  customer_name?: string;
+  customer_phone?: string;
+  invoice_type?: Invoice['invoice_type'];
+  original_invoice_id?: string;
+  source_document_id?: string;
+  /** Branch whose numbering series the invoice is numbered in */
+  branch?: string;
+  /** State code or name; defaults to the customer's state from their GSTIN or address */
+  place_of_supply?: string;
+  /** The customer pays the GST under reverse charge; it is shown but not billed */
+  reverse_charge?: boolean;
+  /** TCS percentage on the amount billed; defaults to the customer's */
+  tcs_rate?: number;
+  /** Mode, vehicle and transporter for the e-way bill */
+  transport?: TransportDetails;
+  items: InvoiceLineInput[];
+  discount_amount?: number;
+  discount_type?: 'percentage' | 'fixed';
+  status?: Invoice['status'];
+  due_date?: string;
+  notes?: string;
+  terms?: string;
+  /** Deduct sold quantities from stock (recorded as sales in the stock ledger) */
+  deduct_stock?: boolean;
+  /** Record a payment against the new invoice */
+  payment?: {
+    payment_type: Transaction['payment_type'];
+    amount?: number;
+    notes?: string;
+  };
+}
+
+export interface RecordPaymentInput {
+  /** Pay a single invoice */
+  invoice_id?: string;
+  /** Spread the payment over this customer's open invoices */
+  customer_id?: string;
+  /** Explicit split; without it a customer payment settles the oldest invoices first */
+  allocations?: { invoice_id: string; amount: number }[];
+  amount: number;
+  payment_type: Transaction['payment_type'];
+  upi_transaction_id?: string;
+  notes?: string;
+}
+
+export interface SalesReturnInput {
+  /** Invoice the goods were sold on */
+  invoice_id: string;
+  /** Lines coming back; without it everything not yet returned is credited */
+  items?: { product_id?: string; name?: string; quantity: number }[];
+  /** Put the returned goods back into stock */
+  restock?: boolean;
+  /** adjust_balance credits the customer's account, refund pays the money back */
+  settlement?: 'adjust_balance' | 'refund';
+  refund_payment_type?: Transaction['payment_type'];
+  reason?: string;
+}
+
+export interface ConvertDocumentInput {
+  document_id: string;
+  target_type: Invoice['invoice_type'];
+  status?: Invoice['status'];
+  due_date?: string;
+  notes?: string;
+  /** Deduct stock when the conversion produces a tax invoice */
+  deduct_stock?: boolean;
+}
+
+// Which documents each type can be turned into
+const CONVERSIONS: Partial<Record<Invoice['invoice_type'], Invoice['invoice_type'][]>> = {
+  quotation: ['proforma', 'invoice'],
+  proforma: ['invoice'],
+  invoice: ['delivery_challan'],
+};
+
+// Invoices that can still receive payments
+export const OPEN_STATUSES: Invoice['status'][] = ['draft', 'sent', 'partial', 'overdue'];
+
+/**
+ * Invoice Service
+ * The single path for creating invoices, used by create_invoice, conversational orders and sales returns
+ */
+export class InvoiceService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Create an invoice in the canonical shape (line items in `items`, totals in `total`/`tax_amount`)
+   */
+  async createInvoice(userId: string, input: CreateInvoiceInput): Promise<Invoice> {
+    if (input.items.length === 0) {
+      throw new Error('Cannot create invoice: no items');
+    }
+    // Checked before anything is saved, so an oversold invoice is refused rather than issued with stock left wrong
+    if (input.deduct_stock) {
+      const problems = await this.stockProblems(userId, input.items, 'subtract');
+      if (problems.length > 0) {
+        throw new Error(`Cannot deduct stock: ${problems.join('; ')}. Update the stock first, or create the invoice without deducting stock`);
+      }
+    }
+
+    // IGST or CGST + SGST depends on whether the goods leave the seller's state
+    const seller = await this.db.getUser(userId);
+    const customer = input.customer_id ? await this.db.getCustomer(userId, input.customer_id).catch(() => null) : null;
+    const supply = determinePlaceOfSupply(seller, customer, input.place_of_supply);
+    const invoiceType = input.invoice_type || 'invoice';
+
+    // Composition dealers collect no tax and may only sell within their state (section 10(2)(d))
+    const scheme: GSTScheme = seller?.gst_scheme || 'regular';
+    if (scheme === 'composition' && invoiceType === 'invoice' && supply.is_interstate) {
+      throw new Error('Composition dealers cannot make inter-state supplies; the place of supply must be in your own state');
+    }
+    const reverseCharge = chargesGST(scheme) && !!input.reverse_charge;
+    if (reverseCharge && invoiceType === 'invoice' && !customer?.gst_number) {
+      throw new Error('Reverse charge applies to supplies to registered buyers; the customer needs a GSTIN');
+    }
+    const tcsRate = input.tcs_rate ?? customer?.tcs_rate;
+
+    // Lines without a unit, a tax-inclusive setting or cess take them from the inventory product
+    const products = new Map<string, Product | null>();
+    for (const item of input.items) {
+      if (!item.product_id || products.has(item.product_id)) continue;
+      if (item.unit && item.price_includes_tax !== undefined && item.cess_rate !== undefined && item.cess_per_unit !== undefined) continue;
+      products.set(item.product_id, await this.db.getProduct(userId, item.product_id).catch(() => null));
+    }
+    const lines = input.items.map((item) => {
+      const product = item.product_id ? products.get(item.product_id) : null;
+      return {
+        ...item,
+        unit: item.unit || product?.unit || 'pcs',
+        // Under reverse charge no tax is collected, so there is none in the price either
+        price_includes_tax: !reverseCharge && (item.price_includes_tax ?? !!product?.price_includes_tax),
+        cess_rate: chargesGST(scheme) ? item.cess_rate ?? product?.cess_rate ?? 0 : 0,
+        cess_per_unit: chargesGST(scheme) ? item.cess_per_unit ?? product?.cess_per_unit ?? 0 : 0,
+      };
+    });
+
+    const totals = calculateInvoiceTotals(
+      lines.map((item) => ({
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        discount: item.discount || 0,
+        gst_rate: item.gst_rate,
+        price_includes_tax: item.price_includes_tax,
+        cess_rate: item.cess_rate,
+        cess_per_unit: item.cess_per_unit,
+      })),
+      input.discount_amount,
+      input.discount_type,
+      supply.is_interstate,
+      scheme,
+      { reverseCharge, tcsRate }
+    );
+
+    const items: InvoiceItem[] = lines.map((item, index) => {
+      const discount = item.discount || 0;
+      const gst = totals.items[index];
+      const gstRate = chargesGST(scheme) ? item.gst_rate : 0;
+      const hasCess = item.cess_rate > 0 || item.cess_per_unit > 0;
+      return {
+        product_id: item.product_id,
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        // Inclusive prices are stored as their taxable value, which is what returns and GST reports work from
+        unit_price: item.price_includes_tax ? roundPrice(taxableUnitPrice({ ...item, gst_rate: gstRate })) : item.unit_price,
+        ...(item.price_includes_tax && { price_includes_tax: true, unit_price_incl_tax: item.unit_price }),
+        discount,
+        gst_rate: gstRate,
+        ...splitTax(gst.total_gst, supply.is_interstate),
+        ...(hasCess && { cess_rate: item.cess_rate, cess_per_unit: item.cess_per_unit, cess_amount: round(gst.cess_amount) }),
+        total: round(gst.total_with_gst),
+      };
+    });
+
+    const invoiceNumber = await this.db.getNextInvoiceNumber(userId, invoiceType, input.branch);
+
+    // Stock comes off before the invoice is saved and goes back if the save fails, so a sale that
+    // loses a race for the last units leaves neither a half-deducted invoice nor missing stock
+    const invoiceId = uuidv4();
+    const sale: StockMovementDetails = { reason: 'sale', reference_type: 'invoice', reference_id: invoiceId, notes: invoiceNumber };
+    const deducted = input.deduct_stock ? await this.applyStockMovements(userId, items, 'subtract', sale) : [];
+
+    let invoice: Invoice;
+    try {
+      invoice = await this.db.createInvoice(userId, {
+        id: invoiceId,
+        customer_id: input.customer_id,
+        customer_name: input.customer_name,
+        customer_phone: input.customer_phone,
+        invoice_number: invoiceNumber,
+        invoice_type: invoiceType,
+        original_invoice_id: input.original_invoice_id,
+        source_document_id: input.source_document_id,
+        branch: input.branch,
+        place_of_supply: supply.place_of_supply,
+        is_interstate: supply.is_interstate,
+        seller_scheme: scheme,
+        items,
+        subtotal: round(totals.subtotal),
+        discount_amount: round(totals.discount_amount),
+        discount_type: input.discount_type || 'fixed',
+        tax_amount: round(totals.tax_amount),
+        ...splitTax(totals.tax_amount - totals.cess_amount, supply.is_interstate),
+        cess_amount: round(totals.cess_amount),
+        reverse_charge: reverseCharge,
+        ...(totals.tcs_amount > 0 && { tcs_rate: tcsRate, tcs_amount: totals.tcs_amount }),
+        total: round(totals.total),
+        amount_paid: 0,
+        // Only tax invoices are collected against
+        balance_due: invoiceType === 'invoice' ? round(totals.total) : 0,
+        status: input.status || 'draft',
+        due_date: input.due_date,
+        notes: input.notes,
+        terms: input.terms,
+        ...transportDetails(input.transport || {}),
+      });
+    } catch (error) {
+      await this.reverseStockMovements(userId, deducted, 'subtract', sale);
+      throw error;
+    }
+
+    // A customer's invoice is owed until paid
+    if (isReceivable(invoice) && invoice.customer_id) {
+      await this.db.updateCustomerBalance(userId, invoice.customer_id, invoice.total, 'add');
+    }
+
+    if (input.payment) {
+      const payment = await this.recordPayment(userId, {
+        invoice_id: invoice.id,
+        amount: input.payment.amount ?? invoice.total,
+        payment_type: input.payment.payment_type,
+        notes: input.payment.notes,
+      });
+      return payment.invoices[0];
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Record a payment against one invoice, or split it across a customer's open invoices
+   */
+  async recordPayment(userId: string, input: RecordPaymentInput) {
+    if (input.amount <= 0) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+
+    const allocations = await this.allocatePayment(userId, input);
+    const allocated = round(allocations.reduce((sum, a) => sum + a.amount, 0));
+    if (allocated < round(input.amount)) {
+      throw new Error(`Payment of ₹${input.amount.toFixed(2)} exceeds the ₹${allocated.toFixed(2)} due on the selected invoices`);
+    }
+
+    const transactions: Transaction[] = [];
+    const invoices: Invoice[] = [];
+
+    for (const { invoice, amount } of allocations) {
+      transactions.push(await this.db.createTransaction(userId, {
+        customer_id: invoice.customer_id,
+        invoice_id: invoice.id,
+        amount,
+        payment_type: input.payment_type,
+        payment_status: 'completed',
+        upi_transaction_id: input.upi_transaction_id,
+        notes: input.notes,
+      }));
+
+      const remaining = round(balanceDue(invoice) - amount);
+      invoices.push(await this.db.updateInvoice(userId, invoice.id, {
+        amount_paid: round(paidSoFar(invoice) + amount),
+        balance_due: remaining,
+        status: remaining <= 0 ? 'paid' : 'partial',
+      }));
+
+      if (invoice.customer_id) {
+        await this.db.updateCustomerBalance(userId, invoice.customer_id, amount, 'subtract');
+      }
+    }
+
+    return {
+      amount: round(input.amount),
+      transactions,
+      invoices,
+      message: invoices
+        .map((invoice) => `${invoice.invoice_number}: ₹${invoice.amount_paid.toFixed(2)} paid, ₹${invoice.balance_due.toFixed(2)} due (${invoice.status})`)
+        .join('\n'),
+    };
+  }
+
+  /**
+   * Change an invoice's status; cancelling removes its unpaid balance from the customer,
+   * and marking it paid records a payment for what is still due
+   */
+  async updateStatus(
+    userId: string,
+    invoiceId: string,
+    status: Invoice['status'],
+    paymentType: Transaction['payment_type'] = 'cash'
+  ): Promise<Invoice> {
+    const invoice: Invoice = await this.db.getInvoice(userId, invoiceId);
+
+    if (invoice.invoice_type === 'credit_note' && status === 'cancelled') {
+      throw new Error('A credit note cannot be cancelled once its stock and balance changes are applied');
+    }
+    // Cancelling wrote the balance off the customer's account; reopening would leave it missing
+    if (invoice.invoice_type === 'invoice' && invoice.status === 'cancelled' && status !== 'cancelled') {
+      throw new Error(`Invoice ${invoice.invoice_number} is cancelled and cannot be reopened; issue a new invoice instead`);
+    }
+
+    if (status === 'paid' && invoice.invoice_type === 'invoice' && OPEN_STATUSES.includes(invoice.status) && balanceDue(invoice) > 0) {
+      const payment = await this.recordPayment(userId, {
+        invoice_id: invoice.id,
+        amount: balanceDue(invoice),
+        payment_type: paymentType,
+        notes: 'Marked as paid',
+      });
+      return payment.invoices[0];
+    }
+
+    if (status === 'cancelled' && invoice.status !== 'cancelled' && isReceivable(invoice) && invoice.customer_id) {
+      const balance = balanceDue(invoice);
+      if (balance > 0) {
+        await this.db.updateCustomerBalance(userId, invoice.customer_id, balance, 'subtract');
+      }
+    }
+
+    return await this.db.updateInvoiceStatus(userId, invoiceId, status);
+  }
+
+  /**
+   * Issue a credit note for goods returned against an invoice
+   * The credit first clears what is still owed on the invoice; the rest is refunded or kept as customer credit
+   */
+  async createSalesReturn(userId: string, input: SalesReturnInput) {
+    const original: Invoice = await this.db.getInvoice(userId, input.invoice_id);
+
+    if (original.invoice_type !== 'invoice') {
+      throw new Error(`Returns can only be made against invoices, not a ${original.invoice_type}`);
+    }
+    if (original.status === 'cancelled') {
+      throw new Error(`Invoice ${original.invoice_number} is cancelled`);
+    }
+
+    const settlement = input.settlement || (original.customer_id ? 'adjust_balance' : 'refund');
+    if (settlement === 'adjust_balance' && !original.customer_id) {
+      throw new Error(`Invoice ${original.invoice_number} has no customer account to credit; refund the return instead`);
+    }
+
+    // Quantities still returnable, net of earlier credit notes against this invoice
+    const returnable = new Map<string, { line: InvoiceItem; quantity: number }>();
+    for (const line of original.items) {
+      const entry = returnable.get(lineKey(line));
+      if (entry) entry.quantity += line.quantity;
+      else returnable.set(lineKey(line), { line, quantity: line.quantity });
+    }
+
+    const earlier: Invoice[] = await this.db.getInvoices(userId, { type: 'credit_note', originalInvoiceId: original.id });
+    for (const note of earlier.filter((n) => n.status !== 'cancelled')) {
+      for (const line of note.items) {
+        const entry = returnable.get(lineKey(line));
+        if (entry) entry.quantity -= line.quantity;
+      }
+    }
+
+    const requested = input.items && input.items.length > 0
+      ? input.items
+      : [...returnable.values()]
+        .filter((entry) => entry.quantity > 0)
+        .map((entry) => ({ product_id: entry.line.product_id, name: entry.line.name, quantity: entry.quantity }));
+
+    if (requested.length === 0) {
+      throw new Error(`Everything on ${original.invoice_number} has already been returned`);
+    }
+
+    // Returned lines are credited at the price and GST rate they were sold at
+    const lines: InvoiceLineInput[] = [];
+    for (const item of requested) {
+      const entry = [...returnable.values()].find(({ line }) =>
+        (item.product_id && line.product_id === item.product_id) ||
+        (item.name && line.name.toLowerCase() === item.name.toLowerCase())
+      );
+      if (!entry) {
+        throw new Error(`${item.name || item.product_id} is not on invoice ${original.invoice_number}`);
+      }
+      if (item.quantity > entry.quantity) {
+        throw new Error(`Only ${Math.max(0, entry.quantity)} ${entry.line.unit} of ${entry.line.name} can still be returned`);
+      }
+      entry.quantity -= item.quantity;
+      lines.push({
+        product_id: entry.line.product_id,
+        name: entry.line.name,
+        quantity: item.quantity,
+        unit: entry.line.unit,
+        ...linePrice(entry.line),
+        discount: entry.line.discount,
+        gst_rate: entry.line.gst_rate,
+        cess_rate: entry.line.cess_rate || 0,
+        cess_per_unit: entry.line.cess_per_unit || 0,
+      });
+    }
+
+    // An invoice-level discount is given back in proportion to the goods returned
+    const returnedSubtotal = lines.reduce((sum, line) => {
+      const price = line.price_includes_tax ? taxableUnitPrice(line) : line.unit_price;
+      return sum + line.quantity * price * (1 - (line.discount || 0) / 100);
+    }, 0);
+    const discount = Number(original.subtotal) > 0
+      ? round((Number(original.discount_amount) || 0) * returnedSubtotal / Number(original.subtotal))
+      : 0;
+
+    if (input.restock !== false) {
+      const problems = await this.stockProblems(userId, lines, 'add');
+      if (problems.length > 0) {
+        throw new Error(`Cannot restock: ${problems.join('; ')}. Record the return without restocking instead`);
+      }
+    }
+
+    const creditNote = await this.createInvoice(userId, {
+      customer_id: original.customer_id,
+      customer_name: original.customer_name,
+      customer_phone: original.customer_phone,
+      invoice_type: 'credit_note',
+      original_invoice_id: original.id,
+      branch: original.branch,
+      // Tax is reversed the way it was charged
+      place_of_supply: original.place_of_supply,
+      reverse_charge: original.reverse_charge,
+      tcs_rate: original.tcs_rate || 0,
+      items: lines,
+      discount_amount: discount,
+      discount_type: 'fixed',
+      status: 'sent',
+      notes: input.reason ? `Return against ${original.invoice_number}: ${input.reason}` : `Return against ${original.invoice_number}`,
+    });
+
+    if (input.restock !== false) {
+      for (const line of creditNote.items) {
+        if (!line.product_id) continue;
+        await this.db.updateStock(userId, line.product_id, line.quantity, 'add', {
+          reason: 'return',
+          reference_type: 'credit_note',
+          reference_id: creditNote.id,
+          notes: `${creditNote.invoice_number} against ${original.invoice_number}`,
+        });
+      }
+    }
+
+    const due = OPEN_STATUSES.includes(original.status) ? Math.max(0, balanceDue(original)) : 0;
+    const adjusted = round(Math.min(creditNote.total, due));
+    const remainder = round(creditNote.total - adjusted);
+
+    let updatedOriginal = original;
+    if (adjusted > 0) {
+      const remaining = round(due - adjusted);
+      updatedOriginal = await this.db.updateInvoice(userId, original.id, {
+        balance_due: remaining,
+        status: remaining <= 0 ? 'paid' : original.status,
+      });
+    }
+
+    // Whatever is not refunded stays with the customer as credit against future invoices
+    const credited = round(adjusted + (settlement === 'adjust_balance' ? remainder : 0));
+    if (original.customer_id && credited > 0) {
+      await this.db.updateCustomerBalance(userId, original.customer_id, credited, 'subtract');
+    }
+
+    let refund: Transaction | undefined;
+    if (settlement === 'refund' && remainder > 0) {
+      refund = await this.db.createTransaction(userId, {
+        customer_id: original.customer_id,
+        invoice_id: creditNote.id,
+        amount: remainder,
+        payment_type: input.refund_payment_type || 'cash',
+        payment_status: 'refunded',
+        notes: `Refund for ${creditNote.invoice_number} against ${original.invoice_number}`,
+      });
+    }
+
+    const settled: string[] = [];
+    if (adjusted > 0) settled.push(`₹${adjusted.toFixed(2)} adjusted against ${original.invoice_number}`);
+    if (refund) settled.push(`₹${remainder.toFixed(2)} refunded (${refund.payment_type})`);
+    else if (remainder > 0) settled.push(`₹${remainder.toFixed(2)} credited to the customer's account`);
+
+    return {
+      credit_note: creditNote,
+      original_invoice: updatedOriginal,
+      adjusted_amount: adjusted,
+      refund,
+      message: `Credit note ${creditNote.invoice_number} for ₹${creditNote.total.toFixed(2)} (GST ₹${creditNote.tax_amount.toFixed(2)}): ${settled.join(', ')}`,
+    };
+  }
+
+  /**
+   * Turn a quotation or proforma into the next document in the sale, or an invoice into its delivery challan
+   * The new document copies the items and links back to its source
+   */
+  async convertDocument(userId: string, input: ConvertDocumentInput) {
+    const source: Invoice = await this.db.getInvoice(userId, input.document_id);
+
+    if (!CONVERSIONS[source.invoice_type]?.includes(input.target_type)) {
+      throw new Error(`A ${source.invoice_type} cannot be converted into a ${input.target_type}`);
+    }
+    if (source.status === 'cancelled') {
+      throw new Error(`${source.invoice_number} is cancelled`);
+    }
+
+    // Any live document made from the source counts: a quote turned into a proforma must not also become an invoice
+    const existing: Invoice[] = await this.db.getInvoices(userId, { sourceDocumentId: source.id });
+    const converted = existing.find((document) => document.status !== 'cancelled');
+    if (converted) {
+      throw new Error(
+        `${source.invoice_number} has already been converted into ${converted.invoice_type.replace('_', ' ')} ${converted.invoice_number}` +
+        (converted.invoice_type === 'proforma' ? `; convert ${converted.invoice_number} instead` : '')
+      );
+    }
+
+    const document = await this.createInvoice(userId, {
+      customer_id: source.customer_id,
+      customer_name: source.customer_name,
+      customer_phone: source.customer_phone,
+      invoice_type: input.target_type,
+      source_document_id: source.id,
+      branch: source.branch,
+      place_of_supply: source.place_of_supply,
+      reverse_charge: source.reverse_charge,
+      tcs_rate: source.tcs_rate || 0,
+      // A challan or invoice for the same goods usually travels the same way
+      transport: transportDetails(source),
+      items: source.items.map((item) => ({
+        product_id: item.product_id,
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        ...linePrice(item),
+        discount: item.discount,
+        gst_rate: item.gst_rate,
+        cess_rate: item.cess_rate || 0,
+        cess_per_unit: item.cess_per_unit || 0,
+      })),
+      // The stored discount is already in rupees, whatever type it was entered as
+      discount_amount: Number(source.discount_amount) || 0,
+      discount_type: 'fixed',
+      status: input.status,
+      due_date: input.due_date,
+      notes: input.notes ?? source.notes,
+      terms: source.terms,
+      deduct_stock: input.target_type === 'invoice' && input.deduct_stock,
+    });
+
+    // A quote or proforma that turns into the next document has been accepted by the customer
+    let updatedSource = source;
+    if (source.invoice_type === 'quotation' || source.invoice_type === 'proforma') {
+      updatedSource = await this.db.updateInvoiceStatus(userId, source.id, 'accepted');
+    }
+
+    return {
+      document,
+      source: updatedSource,
+      message: `${source.invoice_number} converted into ${document.invoice_number} (${input.target_type.replace('_', ' ')}). Total: ₹${document.total.toFixed(2)}`,
+    };
+  }
+
+  /**
+   * Decide how much of a payment goes to each invoice
+   */
+  private async allocatePayment(userId: string, input: RecordPaymentInput) {
+    if (input.invoice_id) {
+      const invoice = await this.getPayableInvoice(userId, input.invoice_id);
+      return [{ invoice, amount: round(Math.min(input.amount, balanceDue(invoice))) }];
+    }
+
+    if (!input.customer_id) {
+      throw new Error('Either invoice_id or customer_id is required');
+    }
+
+    if (input.allocations && input.allocations.length > 0) {
+      const allocations = [];
+      for (const allocation of input.allocations) {
+        const invoice = await this.getPayableInvoice(userId, allocation.invoice_id);
+        if (invoice.customer_id !== input.customer_id) {
+          throw new Error(`Invoice ${invoice.invoice_number} does not belong to this customer`);
+        }
+        if (round(allocation.amount) > balanceDue(invoice)) {
+          throw new Error(`₹${allocation.amount.toFixed(2)} is more than the ₹${balanceDue(invoice).toFixed(2)} due on ${invoice.invoice_number}`);
+        }
+        allocations.push({ invoice, amount: round(allocation.amount) });
+      }
+      if (round(allocations.reduce((sum, a) => sum + a.amount, 0)) !== round(input.amount)) {
+        throw new Error('Allocations must add up to the payment amount');
+      }
+      return allocations;
+    }
+
+    // Oldest open invoices are settled first
+    const open: Invoice[] = await this.db.getInvoices(userId, {
+      customerId: input.customer_id,
+      type: 'invoice',
+      statuses: OPEN_STATUSES,
+    });
+
+    let remaining = round(input.amount);
+    const allocations = [];
+    for (const invoice of [...open].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+      if (remaining <= 0) break;
+      const amount = round(Math.min(remaining, balanceDue(invoice)));
+      if (amount <= 0) continue;
+      allocations.push({ invoice, amount });
+      remaining = round(remaining - amount);
+    }
+
+    if (allocations.length === 0) {
+      throw new Error('Customer has no open invoices');
+    }
+    return allocations;
+  }
+
+  /**
+   * Move each line's stock, undoing the lines already moved when one fails; returns the lines moved
+   */
+  private async applyStockMovements<T extends { product_id?: string; quantity: number }>(
+    userId: string,
+    lines: T[],
+    operation: 'add' | 'subtract',
+    movement: StockMovementDetails
+  ): Promise<T[]> {
+    const moved: T[] = [];
+    for (const line of lines) {
+      if (!line.product_id) continue;
+      try {
+        await this.db.updateStock(userId, line.product_id, line.quantity, operation, movement);
+      } catch (error) {
+        await this.reverseStockMovements(userId, moved, operation, movement);
+        throw error;
+      }
+      moved.push(line);
+    }
+    return moved;
+  }
+
+  /**
+   * Put back stock moved for a document that was not saved, recorded as an adjustment against the same reference
+   */
+  private async reverseStockMovements(
+    userId: string,
+    lines: { product_id?: string; quantity: number }[],
+    operation: 'add' | 'subtract',
+    movement: StockMovementDetails
+  ): Promise<void> {
+    for (const line of lines) {
+      await this.db.updateStock(userId, line.product_id!, line.quantity, operation === 'add' ? 'subtract' : 'add', {
+        ...movement,
+        reason: 'adjustment',
+        notes: `${movement.notes} not saved; ${movement.reason} reversed`,
+      });
+    }
+  }
+
+  /**
+   * Lines whose product is missing from inventory, or (when selling) short of stock; quantities of a product are summed across lines
+   */
+  private async stockProblems(
+    userId: string,
+    lines: { product_id?: string; name: string; quantity: number }[],
+    operation: 'add' | 'subtract'
+  ): Promise<string[]> {
+    const needed = new Map<string, { name: string; quantity: number }>();
+    for (const line of lines) {
+      if (!line.product_id) continue;
+      const entry = needed.get(line.product_id);
+      if (entry) entry.quantity += line.quantity;
+      else needed.set(line.product_id, { name: line.name, quantity: line.quantity });
+    }
+
+    const problems: string[] = [];
+    for (const [productId, { name, quantity }] of needed) {
+      const product: Product | null = await this.db.getProduct(userId, productId).catch(() => null);
+      if (!product) {
+        problems.push(`${name} is not in inventory`);
+      } else if (operation === 'subtract' && Number(product.quantity) < quantity) {
+        problems.push(`${product.name} needs ${quantity} ${product.unit}, only ${product.quantity} available`);
+      }
+    }
+    return problems;
+  }
+
+  private async getPayableInvoice(userId: string, invoiceId: string): Promise<Invoice> {
+    const invoice: Invoice = await this.db.getInvoice(userId, invoiceId);
+
+    if (invoice.invoice_type !== 'invoice') {
+      throw new Error(`Payments can only be recorded against invoices, not a ${invoice.invoice_type}`);
+    }
+    if (!OPEN_STATUSES.includes(invoice.status) || balanceDue(invoice) <= 0) {
+      throw new Error(`Invoice ${invoice.invoice_number} has nothing due (${invoice.status})`);
+    }
+    return invoice;
+  }
+}
+
+/**
+ * Tax invoices are owed by the customer; quotations, proformas, challans and credit notes are not
+ */
+function isReceivable(invoice: Invoice): boolean {
+  return invoice.invoice_type === 'invoice' && invoice.status !== 'cancelled';
+}
+
+/**
+ * Amount already paid, for invoices saved before payments were tracked
+ */
+function paidSoFar(invoice: Invoice): number {
+  if (invoice.amount_paid !== undefined && invoice.amount_paid !== null) return Number(invoice.amount_paid);
+  return invoice.status === 'paid' ? Number(invoice.total) : 0;
+}
+
+/**
+ * Amount still owed; credit notes can reduce it without a payment
+ */
+export function balanceDue(invoice: Invoice): number {
+  if (invoice.balance_due !== undefined && invoice.balance_due !== null) return round(Number(invoice.balance_due));
+  return round(Number(invoice.total) - paidSoFar(invoice));
+}
+
+/**
+ * Rounded GST components; CGST and SGST share the rounded total so they always add up to it
+ */
+function splitTax(tax: number, isInterstate: boolean) {
+  const total = round(tax);
+  if (isInterstate) {
+    return { cgst_amount: 0, sgst_amount: 0, igst_amount: total };
+  }
+  const cgst = round(total / 2);
+  return { cgst_amount: cgst, sgst_amount: round(total - cgst), igst_amount: 0 };
+}
+
+function lineKey(item: { product_id?: string; name: string }): string {
+  return item.product_id || item.name.toLowerCase();
+}
+
+/**
+ * The price a stored line was entered at, so a document made from it comes to the same amounts
+ */
+function linePrice(item: InvoiceItem): Pick<InvoiceLineInput, 'unit_price' | 'price_includes_tax'> {
+  if (item.price_includes_tax && item.unit_price_incl_tax !== undefined) {
+    return { unit_price: item.unit_price_incl_tax, price_includes_tax: true };
+  }
+  return { unit_price: item.unit_price, price_includes_tax: false };
+}
+
+/**
+ * Taxable value per unit of a price that includes GST and cess: specific cess comes off, then GST and cess at their combined rate
+ */
+function taxableUnitPrice(line: Pick<InvoiceLineInput, 'unit_price' | 'gst_rate' | 'cess_rate' | 'cess_per_unit'>): number {
+  const rate = line.gst_rate + (line.cess_rate || 0);
+  return ((line.unit_price - (line.cess_per_unit || 0)) * 100) / (100 + rate);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Unit prices backed out of inclusive prices keep four decimals, so quantity times price stays within paise of the quoted total
+function roundPrice(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,121 @@
+import { createHash, createHmac, randomInt } from 'crypto';
+import type { EInvoicePayload, IRNDetails } from '../utils/einvoice.js';
+import { getFinancialYear } from '../utils/numbering.js';
+
+/**
+ * IRN providers register an e-invoice payload with an Invoice Registration Portal (IRP) and return the IRN,
+ * acknowledgement and signed QR code. EINVOICE_PROVIDER picks one: "http" for a GSP or NIC endpoint,
+ * "stub" for local testing. Without one, IRN details have to be supplied by hand from the portal.
+ */
+export interface IRNProvider {
+  name: string;
+  generateIRN(payload: EInvoicePayload): Promise<IRNDetails>;
+}
+
+export function createIRNProvider(): IRNProvider | null {
+  switch (process.env.EINVOICE_PROVIDER) {
+    case 'http': {
+      const url = process.env.EINVOICE_API_URL;
+      if (!url) {
+        throw new Error('EINVOICE_PROVIDER=http needs EINVOICE_API_URL');
+      }
+      return new HttpIRNProvider(url, process.env.EINVOICE_API_KEY);
+    }
+    case 'stub':
+      return new StubIRNProvider();
+    case undefined:
+    case '':
+      return null;
+    default:
+      throw new Error(`Unknown EINVOICE_PROVIDER "${process.env.EINVOICE_PROVIDER}"; use "http" or "stub"`);
+  }
+}
+
+// The IRP's answer to a registration; GSPs may wrap it in "data"
+interface IRPResult {
+  Irn?: string;
+  AckNo?: number | string;
+  AckDt?: string;
+  SignedQRCode?: string;
+}
+
+interface IRPResponse extends IRPResult {
+  data?: IRPResult;
+  ErrorDetails?: { ErrorCode?: string; ErrorMessage: string }[];
+  message?: string;
+}
+
+/**
+ * Posts the payload as JSON and reads the IRP response fields (Irn, AckNo, AckDt, SignedQRCode),
+ * either at the top level or under "data" as most GSPs wrap them
+ */
+export class HttpIRNProvider implements IRNProvider {
+  name = 'http';
+
+  constructor(private url: string, private apiKey?: string) {}
+
+  async generateIRN(payload: EInvoicePayload): Promise<IRNDetails> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as IRPResponse;
+    const result = body.data || body;
+    if (!response.ok || !result.Irn || !result.AckDt || !result.SignedQRCode) {
+      const detail = body.ErrorDetails?.map((e) => e.ErrorMessage).join('; ') || body.message || response.statusText;
+      throw new Error(`IRP rejected ${payload.DocDtls.No}: ${detail}`);
+    }
+
+    return {
+      irn: result.Irn,
+      ack_number: String(result.AckNo),
+      ack_date: result.AckDt,
+      signed_qr_code: result.SignedQRCode,
+    };
+  }
+}
+
+/**
+ * Local stand-in for the IRP: the IRN is the hash the IRP uses (GSTIN, financial year, document type and number)
+ * and the QR code is signed with a local key, so it is not valid for filing
+ */
+export class StubIRNProvider implements IRNProvider {
+  name = 'stub';
+
+  async generateIRN(payload: EInvoicePayload): Promise<IRNDetails> {
+    const [day, month, year] = payload.DocDtls.Dt.split('/').map(Number);
+    const financialYear = getFinancialYear(new Date(Date.UTC(year, month - 1, day, 12)));
+    const irn = createHash('sha256')
+      .update(`${payload.SellerDtls.Gstin}${financialYear}${payload.DocDtls.Typ}${payload.DocDtls.No}`)
+      .digest('hex');
+    const ackDate = new Date().toISOString().replace('T', ' ').slice(0, 19);
+
+    const data = {
+      SellerGstin: payload.SellerDtls.Gstin,
+      BuyerGstin: payload.BuyerDtls.Gstin,
+      DocNo: payload.DocDtls.No,
+      DocTyp: payload.DocDtls.Typ,
+      DocDt: payload.DocDtls.Dt,
+      TotInvVal: payload.ValDtls.TotInvVal,
+      ItemCnt: payload.ItemList.length,
+      MainHsnCode: payload.ItemList[0]?.HsnCd,
+      Irn: irn,
+      IrnDt: ackDate,
+    };
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+    const claims = Buffer.from(JSON.stringify({ data: JSON.stringify(data), iss: 'LOCAL-STUB' })).toString('base64url');
+    const signature = createHmac('sha256', 'vyapar-local-irp').update(`${header}.${claims}`).digest('base64url');
+
+    return {
+      irn,
+      ack_number: `1${String(randomInt(0, 1e9)).padStart(9, '0')}${String(randomInt(0, 1e5)).padStart(5, '0')}`,
+      ack_date: ackDate,
+      signed_qr_code: `${header}.${claims}.${signature}`,
+    };
+  }
+}
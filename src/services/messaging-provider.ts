@@ -0,0 +1,246 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Messaging providers deliver WhatsApp messages and report their delivery status through a webhook.
+ * MESSAGING_PROVIDER picks one: "whatsapp_cloud" for the WhatsApp Business Cloud API, "stub" for local testing.
+ * Without one, the WhatsApp tools only prepare wa.me links for the user to send.
+ */
+
+export interface MessageDocument {
+  filename: string;
+  data: Buffer;
+  mime_type: string;
+}
+
+export type MessageContent =
+  | { type: 'text'; body: string }
+  | { type: 'document'; document: MessageDocument; caption?: string }
+  | {
+      type: 'template';
+      name: string;
+      language: string;
+      // Values for the template body's {{1}}, {{2}}, ... placeholders
+      body_parameters: string[];
+      // For templates with a document header, such as an invoice PDF
+      header_document?: MessageDocument;
+    };
+
+export interface StatusUpdate {
+  provider_message_id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: string;
+  error?: string;
+}
+
+export interface MessagingProvider {
+  name: string;
+  // `to` is the number in international format without "+", e.g. 919876543210
+  send(to: string, content: MessageContent): Promise<{ provider_message_id: string }>;
+  parseStatusUpdates(body: any): StatusUpdate[];
+  // Answers the webhook subscription handshake; returns the challenge to echo, or null to refuse
+  verifySubscription?(query: Record<string, any>): string | null;
+  // Checks the X-Hub-Signature-256 header; the webhook is public, so an unsigned body is never trusted
+  verifySignature(rawBody: Buffer, signature?: string): boolean;
+}
+
+export function createMessagingProvider(): MessagingProvider | null {
+  switch (process.env.MESSAGING_PROVIDER) {
+    case 'whatsapp_cloud': {
+      const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+      const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+      const appSecret = process.env.WHATSAPP_APP_SECRET;
+      if (!phoneNumberId || !accessToken || !appSecret) {
+        throw new Error('MESSAGING_PROVIDER=whatsapp_cloud needs WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN and WHATSAPP_APP_SECRET');
+      }
+      return new WhatsAppCloudProvider({
+        phoneNumberId,
+        accessToken,
+        apiVersion: process.env.WHATSAPP_API_VERSION || 'v21.0',
+        appSecret,
+        verifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN,
+      });
+    }
+    case 'stub':
+      return new StubMessagingProvider(process.env.MESSAGING_STUB_DIR, process.env.MESSAGING_STUB_WEBHOOK_SECRET);
+    case undefined:
+    case '':
+      return null;
+    default:
+      throw new Error(`Unknown MESSAGING_PROVIDER "${process.env.MESSAGING_PROVIDER}"; use "whatsapp_cloud" or "stub"`);
+  }
+}
+
+/**
+ * WhatsApp Business Cloud API (Graph API). Documents are uploaded to the media endpoint first and sent by ID.
+ * Outside the 24-hour customer service window only approved templates are delivered.
+ */
+export class WhatsAppCloudProvider implements MessagingProvider {
+  name = 'whatsapp_cloud';
+
+  constructor(private config: {
+    phoneNumberId: string;
+    accessToken: string;
+    apiVersion: string;
+    appSecret: string;
+    verifyToken?: string;
+  }) {}
+
+  async send(to: string, content: MessageContent): Promise<{ provider_message_id: string }> {
+    const message: Record<string, any> = { messaging_product: 'whatsapp', recipient_type: 'individual', to };
+
+    if (content.type === 'text') {
+      message.type = 'text';
+      message.text = { body: content.body, preview_url: /https?:\/\//.test(content.body) };
+    } else if (content.type === 'document') {
+      message.type = 'document';
+      message.document = {
+        id: await this.uploadMedia(content.document),
+        filename: content.document.filename,
+        ...(content.caption && { caption: content.caption }),
+      };
+    } else {
+      const components: any[] = [];
+      if (content.header_document) {
+        components.push({
+          type: 'header',
+          parameters: [{
+            type: 'document',
+            document: { id: await this.uploadMedia(content.header_document), filename: content.header_document.filename },
+          }],
+        });
+      }
+      if (content.body_parameters.length > 0) {
+        components.push({ type: 'body', parameters: content.body_parameters.map((text) => ({ type: 'text', text })) });
+      }
+      message.type = 'template';
+      message.template = { name: content.name, language: { code: content.language }, components };
+    }
+
+    const body = await this.request('messages', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    const id = body.messages?.[0]?.id;
+    if (!id) {
+      throw new Error('WhatsApp accepted the request but returned no message ID');
+    }
+    return { provider_message_id: id };
+  }
+
+  /**
+   * Statuses arrive under entry[].changes[].value.statuses[]; incoming customer messages are ignored here
+   */
+  parseStatusUpdates(body: any): StatusUpdate[] {
+    return parseCloudStatuses(body);
+  }
+
+  verifySubscription(query: Record<string, any>): string | null {
+    if (query['hub.mode'] !== 'subscribe' || !this.config.verifyToken) return null;
+    return query['hub.verify_token'] === this.config.verifyToken ? String(query['hub.challenge'] ?? '') : null;
+  }
+
+  /**
+   * Meta signs each webhook body with the app secret (X-Hub-Signature-256)
+   */
+  verifySignature(rawBody: Buffer, signature?: string): boolean {
+    return signatureMatches(this.config.appSecret, rawBody, signature);
+  }
+
+  private async uploadMedia(document: MessageDocument): Promise<string> {
+    const form = new FormData();
+    form.append('messaging_product', 'whatsapp');
+    form.append('type', document.mime_type);
+    form.append('file', new Blob([document.data], { type: document.mime_type }), document.filename);
+
+    const body = await this.request('media', { body: form });
+    return body.id;
+  }
+
+  private async request(path: string, init: { headers?: Record<string, string>; body: string | FormData }): Promise<any> {
+    const url = `https://graph.facebook.com/${this.config.apiVersion}/${this.config.phoneNumberId}/${path}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.config.accessToken}`, ...init.headers },
+      body: init.body,
+    });
+
+    const body: any = await response.json().catch(() => ({}));
+    if (!response.ok || body.error) {
+      const error = body.error || {};
+      const detail = error.error_data?.details || error.message || response.statusText;
+      throw new Error(`WhatsApp rejected the message${error.code ? ` (${error.code})` : ''}: ${detail}`);
+    }
+    return body;
+  }
+}
+
+/**
+ * Local stand-in: writes each message (and any document) to MESSAGING_STUB_DIR, or logs it to stderr.
+ * Its webhook takes the same status payload as the Cloud API, so delivery updates can be replayed by hand,
+ * signed like Meta's with MESSAGING_STUB_WEBHOOK_SECRET; without a secret every webhook call is refused.
+ */
+export class StubMessagingProvider implements MessagingProvider {
+  name = 'stub';
+
+  constructor(private outputDir?: string, private webhookSecret?: string) {}
+
+  async send(to: string, content: MessageContent): Promise<{ provider_message_id: string }> {
+    const id = `stub.${randomUUID()}`;
+    const document = content.type === 'document' ? content.document : content.type === 'template' ? content.header_document : undefined;
+    const record = {
+      id,
+      to,
+      ...content,
+      ...(content.type === 'document' && { document: document!.filename }),
+      ...(content.type === 'template' && document && { header_document: document.filename }),
+      sent_at: new Date().toISOString(),
+    };
+
+    if (this.outputDir) {
+      await mkdir(this.outputDir, { recursive: true });
+      await writeFile(join(this.outputDir, `${id}.json`), JSON.stringify(record, null, 2));
+      if (document) await writeFile(join(this.outputDir, `${id}-${document.filename}`), document.data);
+    } else {
+      // stdout carries the MCP protocol in stdio mode
+      console.error(`[messaging:stub] to ${to}: ${JSON.stringify(record)}`);
+    }
+    return { provider_message_id: id };
+  }
+
+  parseStatusUpdates(body: any): StatusUpdate[] {
+    return parseCloudStatuses(body);
+  }
+
+  verifySignature(rawBody: Buffer, signature?: string): boolean {
+    return signatureMatches(this.webhookSecret, rawBody, signature);
+  }
+}
+
+// "sha256=" followed by the hex HMAC-SHA256 of the raw body; nothing matches without a secret
+function signatureMatches(secret: string | undefined, rawBody: Buffer, signature?: string): boolean {
+  if (!secret || !signature?.startsWith('sha256=')) return false;
+  const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('hex'));
+  const given = Buffer.from(signature.slice('sha256='.length));
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+function parseCloudStatuses(body: any): StatusUpdate[] {
+  const updates: StatusUpdate[] = [];
+  for (const entry of body?.entry || []) {
+    for (const change of entry.changes || []) {
+      for (const status of change.value?.statuses || []) {
+        if (!status.id || !['sent', 'delivered', 'read', 'failed'].includes(status.status)) continue;
+        const error = status.errors?.[0];
+        updates.push({
+          provider_message_id: status.id,
+          status: status.status,
+          timestamp: status.timestamp ? new Date(Number(status.timestamp) * 1000).toISOString() : new Date().toISOString(),
+          ...(error && { error: [error.code, error.title, error.error_data?.details].filter(Boolean).join(': ') }),
+        });
+      }
+    }
+  }
+  return updates;
+}
@@ -0,0 +1,179 @@
+import type { GetWhatsAppMessagesInput, SendWhatsAppTemplateInput } from '../tools/messaging.js';
+import type { Invoice, OutboundMessage } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { generateInvoicePDF } from '../utils/invoice.js';
+import { toWhatsAppNumber } from '../utils/whatsapp.js';
+import type { MessageContent, MessageDocument, MessagingProvider, StatusUpdate } from './messaging-provider.js';
+
+// WhatsApp's limit on a document caption
+const MAX_CAPTION_LENGTH = 1024;
+
+// Webhooks can arrive out of order; a status only ever moves forward
+const STATUS_ORDER: OutboundMessage['status'][] = ['accepted', 'sent', 'delivered', 'read'];
+
+/**
+ * Messaging Service
+ * Sends WhatsApp messages through the configured provider and keeps their delivery status
+ */
+export class MessagingService {
+  constructor(private db: DatabaseService, private provider: MessagingProvider | null = null) {}
+
+  get isConfigured(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * Send a text message, such as a payment reminder
+   */
+  async sendText(userId: string, phone: string, body: string, invoiceId?: string): Promise<OutboundMessage> {
+    return await this.deliver(userId, phone, { type: 'text', body }, { body, invoice_id: invoiceId });
+  }
+
+  /**
+   * Send an invoice PDF with the invoice message as its caption, or as a text after it when too long for one
+   */
+  async sendInvoice(userId: string, invoiceId: string, phone: string, message: string): Promise<OutboundMessage[]> {
+    const document = await this.invoiceDocument(userId, invoiceId);
+    const fitsCaption = message.length <= MAX_CAPTION_LENGTH;
+
+    const sent = [
+      await this.deliver(
+        userId,
+        phone,
+        { type: 'document', document, caption: fitsCaption ? message : undefined },
+        { document_filename: document.filename, body: fitsCaption ? message : undefined, invoice_id: invoiceId }
+      ),
+    ];
+    if (!fitsCaption) {
+      sent.push(await this.sendText(userId, phone, message, invoiceId));
+    }
+    return sent;
+  }
+
+  /**
+   * Send an approved template, with the invoice PDF as its document header when an invoice is given
+   */
+  async sendTemplate(input: SendWhatsAppTemplateInput): Promise<OutboundMessage> {
+    const headerDocument = input.invoice_id ? await this.invoiceDocument(input.user_id, input.invoice_id) : undefined;
+
+    return await this.deliver(
+      input.user_id,
+      input.phone,
+      {
+        type: 'template',
+        name: input.template_name,
+        language: input.language,
+        body_parameters: input.parameters,
+        header_document: headerDocument,
+      },
+      {
+        template_name: input.template_name,
+        body: input.parameters.length > 0 ? input.parameters.join(' | ') : undefined,
+        document_filename: headerDocument?.filename,
+        invoice_id: input.invoice_id,
+      }
+    );
+  }
+
+  /**
+   * List sent messages, newest first
+   */
+  async getMessages(input: GetWhatsAppMessagesInput): Promise<OutboundMessage[]> {
+    return await this.db.getOutboundMessages(input.user_id, {
+      invoiceId: input.invoice_id,
+      status: input.status,
+      limit: input.limit,
+    });
+  }
+
+  /**
+   * Answer the provider's webhook subscription handshake; null refuses it
+   */
+  verifyWebhookSubscription(query: Record<string, any>): string | null {
+    return this.provider?.verifySubscription?.(query) ?? null;
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature?: string): boolean {
+    return this.provider?.verifySignature(rawBody, signature) ?? false;
+  }
+
+  /**
+   * Record the delivery statuses in a webhook call; updates for messages sent elsewhere are ignored
+   */
+  async applyStatusWebhook(body: any): Promise<{ updated: number; ignored: number }> {
+    if (!this.provider) return { updated: 0, ignored: 0 };
+
+    let updated = 0;
+    let ignored = 0;
+    for (const update of this.provider.parseStatusUpdates(body)) {
+      const message: OutboundMessage | null = await this.db.getOutboundMessageByProviderId(update.provider_message_id);
+      if (!message || !advances(message.status, update)) {
+        ignored++;
+        continue;
+      }
+      await this.db.updateOutboundMessage(message.user_id, message.id, {
+        status: update.status,
+        status_updated_at: update.timestamp,
+        ...(update.error && { error: update.error }),
+      });
+      updated++;
+    }
+    return { updated, ignored };
+  }
+
+  /**
+   * Hand a message to the provider and log it; a rejected message is logged as failed before the error is raised
+   */
+  private async deliver(
+    userId: string,
+    phone: string,
+    content: MessageContent,
+    record: Partial<OutboundMessage>
+  ): Promise<OutboundMessage> {
+    if (!this.provider) {
+      throw new Error('No messaging provider is configured (MESSAGING_PROVIDER); share the wa.me link instead');
+    }
+
+    const toPhone = toWhatsAppNumber(phone);
+    const base = { ...record, provider: this.provider.name, to_phone: toPhone, type: content.type };
+    try {
+      const { provider_message_id } = await this.provider.send(toPhone, content);
+      return await this.db.createOutboundMessage(userId, { ...base, provider_message_id, status: 'accepted' });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.db.createOutboundMessage(userId, {
+        ...base,
+        status: 'failed',
+        error: reason,
+        status_updated_at: new Date().toISOString(),
+      });
+      throw new Error(`Message to ${toPhone} was not sent: ${reason}`);
+    }
+  }
+
+  private async invoiceDocument(userId: string, invoiceId: string): Promise<MessageDocument> {
+    const invoice: Invoice = await this.db.getInvoice(userId, invoiceId);
+    const seller = await this.db.getUser(userId);
+    const customer = invoice.customer_id
+      ? await this.db.getCustomer(userId, invoice.customer_id).catch(() => undefined)
+      : undefined;
+    const originalInvoice = invoice.original_invoice_id
+      ? await this.db.getInvoice(userId, invoice.original_invoice_id).catch(() => undefined)
+      : undefined;
+
+    const pdfBase64 = await generateInvoicePDF({ invoice, seller, customer, originalInvoice, includeQR: true });
+    return {
+      // Invoice numbers carry "/", which is not allowed in a file name
+      filename: `${invoice.invoice_number.replace(/[/\\]/g, '-')}.pdf`,
+      data: Buffer.from(pdfBase64, 'base64'),
+      mime_type: 'application/pdf',
+    };
+  }
+}
+
+function advances(current: OutboundMessage['status'], update: StatusUpdate): boolean {
+  // A failure after delivery (e.g. a late duplicate) does not undo the delivery
+  if (update.status === 'failed') return current === 'accepted' || current === 'sent';
+  if (current === 'failed') return false;
+  return STATUS_ORDER.indexOf(update.status) > STATUS_ORDER.indexOf(current);
+}
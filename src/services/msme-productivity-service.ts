@@ -1,20 +1,24 @@
-import { SupabaseClient } from '@supabase/supabase-js';
 import type {
   AnalyzeProfitMarginsInput,
   ForecastInventoryInput,
   GetCustomerInsightsInput,
   GetInventoryAlertsNewInput,
+  GetMSMEPaymentComplianceInput,
   GetPendingPaymentsInput,
   QuickBusinessSnapshotInput,
   SuggestReorderInput,
 } from '../tools/msme-productivity.js';
+import type { PurchaseOrder, Supplier } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { financialYearEnd, getMSMEPaymentTerms, MSME_INTEREST_MULTIPLIER, parseCreditDays, RBI_BANK_RATE } from '../utils/msme.js';
+import { balanceDue } from './invoice-service.js';
 
 /**
  * MSME Productivity Service
  * Provides business intelligence and productivity tools for MSME owners
  */
 export class MSMEProductivityService {
-  constructor(private supabase: SupabaseClient) {}
+  constructor(private db: DatabaseService) {}
 
   /**
    * Forecast inventory needs based on sales velocity
@@ -27,21 +31,11 @@ export class MSMEProductivityService {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - lookbackDays);
 
-    // Query sales data from invoice_items joined with invoices
-    const { data: salesData, error: salesError } = await this.supabase
-      .from('invoice_items')
-      .select(`
-        product_id,
-        quantity,
-        products!inner(name, hindi_name, unit, quantity as current_stock, low_stock_threshold),
-        invoices!inner(created_at, status)
-      `)
-      .eq('invoices.user_id', user_id)
-      .gte('invoices.created_at', startDate.toISOString())
-      .in('invoices.status', ['paid', 'partial'])
-      .order('invoices.created_at', { ascending: true });
-
-    if (salesError) throw salesError;
+    // Sold invoice lines with their product details
+    const salesData = await this.db.getSalesLineItems(user_id, {
+      startDate: startDate.toISOString(),
+      statuses: ['paid', 'partial'],
+    });
 
     // Group by product and calculate daily average sales
     const productSales = new Map<string, {
@@ -56,15 +50,16 @@ export class MSMEProductivityService {
 
     salesData?.forEach((item: any) => {
       const pid = item.product_id;
+      if (!item.product) return;
       if (product_id && pid !== product_id) return;
 
       if (!productSales.has(pid)) {
         productSales.set(pid, {
-          name: item.products.name,
-          hindi_name: item.products.hindi_name,
-          unit: item.products.unit,
-          current_stock: item.products.quantity || 0,
-          low_stock_threshold: item.products.low_stock_threshold || 10,
+          name: item.product.name,
+          hindi_name: item.product.hindi_name,
+          unit: item.product.unit,
+          current_stock: item.product.quantity || 0,
+          low_stock_threshold: item.product.low_stock_threshold || 10,
           total_quantity: 0,
           days_with_sales: 0,
         });
@@ -124,13 +119,8 @@ export class MSMEProductivityService {
     const { user_id, alert_type = 'all' } = input;
 
     // Get all products with current stock
-    const { data: products, error } = await this.supabase
-      .from('products')
-      .select('*')
-      .eq('user_id', user_id)
-      .order('quantity', { ascending: true });
-
-    if (error) throw error;
+    const products = await this.db.getProducts(user_id);
+    products?.sort((a: any, b: any) => (a.quantity || 0) - (b.quantity || 0));
 
     const alerts: any[] = [];
 
@@ -234,23 +224,11 @@ export class MSMEProductivityService {
     }
 
     // Get invoice items with product details
-    const { data: salesData, error } = await this.supabase
-      .from('invoice_items')
-      .select(`
-        product_id,
-        name,
-        quantity,
-        unit_price,
-        discount,
-        gst_rate,
-        products!inner(cost_price, category, name as product_name, hindi_name),
-        invoices!inner(created_at, status)
-      `)
-      .eq('invoices.user_id', user_id)
-      .gte('invoices.created_at', startDate.toISOString())
-      .in('invoices.status', ['paid', 'partial']);
-
-    if (error) throw error;
+    const salesData = await this.db.getSalesLineItems(user_id, {
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      statuses: ['paid', 'partial'],
+    });
 
     // Calculate margins
     const margins: any = { items: [] };
@@ -265,9 +243,8 @@ export class MSMEProductivityService {
 
     salesData?.forEach((item: any) => {
       const revenue = item.unit_price * item.quantity * (1 - item.discount / 100);
-      const cost = (item.products?.cost_price || item.unit_price * 0.7) * item.quantity;
+      const cost = (item.product?.cost_price || item.unit_price * 0.7) * item.quantity;
       const profit = revenue - cost;
-      const margin_percent = revenue > 0 ? (profit / revenue) * 100 : 0;
 
       let groupKey: string;
       let groupName: string;
@@ -276,11 +253,11 @@ export class MSMEProductivityService {
       switch (group_by) {
         case 'product':
           groupKey = item.product_id || item.name;
-          groupName = item.products?.product_name || item.name;
-          category = item.products?.category;
+          groupName = item.product?.name || item.name;
+          category = item.product?.category;
           break;
         case 'category':
-          groupKey = item.products?.category || 'Uncategorized';
+          groupKey = item.product?.category || 'Uncategorized';
           groupName = groupKey;
           category = groupKey;
           break;
@@ -354,21 +331,19 @@ export class MSMEProductivityService {
     today.setHours(0, 0, 0, 0);
 
     // Get invoices that are not fully paid
-    const { data: invoices, error } = await this.supabase
-      .from('invoices')
-      .select(`
-        *,
-        vyapar_customers!inner(name, phone, email)
-      `)
-      .eq('user_id', user_id)
-      .in('status', ['sent', 'partial', 'overdue'])
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
+    const [invoices, customers] = await Promise.all([
+      this.db.getInvoices(user_id, { type: 'invoice', statuses: ['sent', 'partial', 'overdue'] }),
+      this.getCustomerMap(user_id),
+    ]);
 
     const payments: any[] = [];
 
     invoices?.forEach((invoice: any) => {
+      // Credit notes can clear what is owed without a payment
+      const amountDue = balanceDue(invoice);
+      if (amountDue <= 0) return;
+
+      const customer = customers.get(invoice.customer_id);
       const dueDate = invoice.due_date ? new Date(invoice.due_date) : null;
       const isOverdue = dueDate && dueDate < today;
       const daysPastDue = dueDate ? Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24)) : 0;
@@ -379,10 +354,11 @@ export class MSMEProductivityService {
         payments.push({
           invoice_id: invoice.id,
           invoice_number: invoice.invoice_number,
-          customer_name: invoice.vyapar_customers?.name || 'Unknown',
-          customer_phone: invoice.vyapar_customers?.phone,
-          amount_due: invoice.total_amount - (invoice.amount_paid || 0),
-          total_amount: invoice.total_amount,
+          customer_id: invoice.customer_id,
+          customer_name: customer?.name || invoice.customer_name || 'Unknown',
+          customer_phone: customer?.phone,
+          amount_due: amountDue,
+          total_amount: invoice.total,
           amount_paid: invoice.amount_paid || 0,
           due_date: invoice.due_date,
           invoice_date: invoice.created_at,
@@ -421,6 +397,152 @@ export class MSMEProductivityService {
     };
   }
 
+  /**
+   * MSMED Act payment compliance: dues past the 15/45-day limits and the interest on them
+   */
+  async getMSMEPaymentCompliance(input: GetMSMEPaymentComplianceInput) {
+    const { user_id, side = 'all', bank_rate = RBI_BANK_RATE, include_within_limit = false } = input;
+
+    const asOf = input.as_of ? new Date(input.as_of) : new Date();
+    asOf.setHours(0, 0, 0, 0);
+
+    const receivables: any[] = [];
+    const payables: any[] = [];
+
+    if (side !== 'payables') {
+      // Unpaid customer invoices; the invoice date stands in for the day the buyer accepted the goods
+      const [pending, customers] = await Promise.all([
+        this.getPendingPayments({ user_id, status: 'all', sort_by: 'date' }),
+        this.getCustomerMap(user_id),
+      ]);
+
+      for (const payment of pending.payments) {
+        if (payment.amount_due <= 0) continue;
+        const customer = customers.get(payment.customer_id);
+        const invoiceDate = new Date(payment.invoice_date.slice(0, 10));
+        // A due date on the invoice is the agreed credit period
+        const agreedDays = payment.due_date ? daysBetween(invoiceDate, new Date(payment.due_date.slice(0, 10))) : undefined;
+        const terms = getMSMEPaymentTerms(invoiceDate, payment.amount_due, asOf, agreedDays, bank_rate);
+
+        receivables.push({
+          invoice_id: payment.invoice_id,
+          invoice_number: payment.invoice_number,
+          customer_id: payment.customer_id,
+          customer_name: payment.customer_name,
+          customer_phone: payment.customer_phone,
+          customer_gstin: customer?.gst_number,
+          customer_udyam: customer?.udyam_number,
+          invoice_date: payment.invoice_date.slice(0, 10),
+          amount_due: round(payment.amount_due),
+          ...terms,
+        });
+      }
+    }
+
+    if (side !== 'receivables') {
+      // Goods received from Udyam-registered suppliers and not yet paid for
+      const [orders, suppliers] = await Promise.all([
+        this.db.getPurchaseOrders(user_id),
+        this.db.getSuppliers(user_id),
+      ]);
+      const supplierMap = new Map<string, Supplier>((suppliers || []).map((s: Supplier) => [s.id, s]));
+
+      for (const order of (orders || []) as PurchaseOrder[]) {
+        const supplier = supplierMap.get(order.supplier_id);
+        if (!supplier?.udyam_number || (order.paid_at && new Date(order.paid_at) <= asOf)) continue;
+        if (order.status !== 'received' && order.status !== 'partially_received') continue;
+
+        const amountDue = receivedValue(order);
+        if (amountDue <= 0) continue;
+
+        const acceptedOn = new Date(order.received_at || order.supplier_invoice_date || order.created_at);
+        const terms = getMSMEPaymentTerms(acceptedOn, amountDue, asOf, parseCreditDays(supplier.payment_terms), bank_rate);
+
+        payables.push({
+          purchase_order_id: order.id,
+          order_number: order.order_number,
+          supplier_invoice_number: order.supplier_invoice_number,
+          supplier_id: supplier.id,
+          supplier_name: supplier.company_name || supplier.name,
+          supplier_phone: supplier.phone,
+          supplier_udyam: supplier.udyam_number,
+          accepted_on: order.received_at ? order.received_at.slice(0, 10) : order.supplier_invoice_date || order.created_at.slice(0, 10),
+          amount_due: amountDue,
+          ...terms,
+          // Section 43B(h): unpaid past the limit at year end, the purchase is deductible only in the year it is paid
+          deduction_at_risk: terms.status !== 'within_limit',
+          financial_year_end: financialYearEnd(acceptedOn),
+        });
+      }
+    }
+
+    const byDaysLate = (a: any, b: any) => b.days_late - a.days_late;
+    const flaggedReceivables = receivables.filter((r) => r.status !== 'within_limit').sort(byDaysLate);
+    const flaggedPayables = payables.filter((p) => p.status !== 'within_limit').sort(byDaysLate);
+
+    // One Samadhaan application per buyer, listing every delayed invoice
+    const claims = new Map<string, any>();
+    for (const row of flaggedReceivables) {
+      const key = row.customer_id || row.customer_name;
+      const claim = claims.get(key) || {
+        buyer_name: row.customer_name,
+        buyer_phone: row.customer_phone,
+        buyer_gstin: row.customer_gstin,
+        buyer_udyam: row.customer_udyam,
+        invoices: [],
+        principal: 0,
+        interest: 0,
+      };
+      claim.invoices.push({
+        invoice_number: row.invoice_number,
+        invoice_date: row.invoice_date,
+        amount_due: row.amount_due,
+        pay_by: row.pay_by,
+        days_late: row.days_late,
+        status: row.status,
+        interest: row.interest,
+      });
+      claim.principal = round(claim.principal + row.amount_due);
+      claim.interest = round(claim.interest + row.interest);
+      claims.set(key, claim);
+    }
+    const samadhaanClaims = [...claims.values()]
+      .map((claim) => ({ ...claim, total_claim: round(claim.principal + claim.interest) }))
+      .sort((a, b) => b.total_claim - a.total_claim);
+
+    const summarize = (rows: any[], flagged: any[]) => ({
+      open: rows.length,
+      flagged: flagged.length,
+      past_45_days: flagged.filter((r) => r.status === 'past_45_days').length,
+      amount_overdue: round(flagged.reduce((sum, r) => sum + r.amount_due, 0)),
+      interest: round(flagged.reduce((sum, r) => sum + r.interest, 0)),
+    });
+
+    const receivableSummary = summarize(receivables, flaggedReceivables);
+    const payableSummary = summarize(payables, flaggedPayables);
+
+    return {
+      as_of: asOf.toISOString().slice(0, 10),
+      bank_rate,
+      interest_rate: bank_rate * MSME_INTEREST_MULTIPLIER,
+      ...(side !== 'payables' && {
+        receivables: {
+          ...receivableSummary,
+          invoices: include_within_limit ? receivables.sort(byDaysLate) : flaggedReceivables,
+          samadhaan_claims: samadhaanClaims,
+        },
+      }),
+      ...(side !== 'receivables' && {
+        payables: {
+          ...payableSummary,
+          deduction_at_risk: payableSummary.amount_overdue,
+          bills: include_within_limit ? payables.sort(byDaysLate) : flaggedPayables,
+        },
+      }),
+      actions: this.generateComplianceActions(samadhaanClaims, flaggedPayables, payables, asOf),
+    };
+  }
+
   /**
    * Get customer insights
    */
@@ -430,18 +552,10 @@ export class MSMEProductivityService {
     const insights: any = {};
 
     // Get customer sales data
-    const { data: invoices, error } = await this.supabase
-      .from('invoices')
-      .select(`
-        customer_id,
-        total_amount,
-        created_at,
-        vyapar_customers!inner(name, phone)
-      `)
-      .eq('user_id', user_id)
-      .in('status', ['paid', 'partial']);
-
-    if (error) throw error;
+    const [invoices, customers] = await Promise.all([
+      this.db.getInvoices(user_id, { type: 'invoice', statuses: ['paid', 'partial'] }),
+      this.getCustomerMap(user_id),
+    ]);
 
     // Group by customer
     const customerData = new Map<string, {
@@ -455,8 +569,9 @@ export class MSMEProductivityService {
 
     invoices?.forEach((invoice: any) => {
       const customerId = invoice.customer_id || 'walk-in';
-      const customerName = invoice.vyapar_customers?.name || 'Walk-in Customer';
-      const phone = invoice.vyapar_customers?.phone || '';
+      const profile = customers.get(invoice.customer_id);
+      const customerName = profile?.name || invoice.customer_name || 'Walk-in Customer';
+      const phone = profile?.phone || '';
       const purchaseDate = new Date(invoice.created_at);
 
       if (!customerData.has(customerId)) {
@@ -471,7 +586,7 @@ export class MSMEProductivityService {
       }
 
       const customer = customerData.get(customerId)!;
-      customer.total_spent += invoice.total_amount;
+      customer.total_spent += invoice.total;
       customer.invoice_count += 1;
       if (purchaseDate > customer.last_purchase_date) {
         customer.last_purchase_date = purchaseDate;
@@ -557,35 +672,32 @@ export class MSMEProductivityService {
     weekAgo.setDate(weekAgo.getDate() - 7);
 
     // Today's sales
-    const { data: todaySales } = await this.supabase
-      .from('invoices')
-      .select('total_amount')
-      .eq('user_id', user_id)
-      .gte('created_at', today.toISOString())
-      .in('status', ['paid', 'partial']);
+    const todaySales = await this.db.getInvoices(user_id, {
+      type: 'invoice',
+      startDate: today.toISOString(),
+      statuses: ['paid', 'partial'],
+    });
 
-    const todayRevenue = todaySales?.reduce((sum, inv: any) => sum + inv.total_amount, 0) || 0;
+    const todayRevenue = todaySales?.reduce((sum: number, inv: any) => sum + inv.total, 0) || 0;
 
     // Yesterday's sales
-    const { data: yesterdaySales } = await this.supabase
-      .from('invoices')
-      .select('total_amount')
-      .eq('user_id', user_id)
-      .gte('created_at', yesterday.toISOString())
-      .lt('created_at', today.toISOString())
-      .in('status', ['paid', 'partial']);
+    const yesterdaySales = (await this.db.getInvoices(user_id, {
+      type: 'invoice',
+      startDate: yesterday.toISOString(),
+      endDate: today.toISOString(),
+      statuses: ['paid', 'partial'],
+    })).filter((inv: any) => new Date(inv.created_at) < today);
 
-    const yesterdayRevenue = yesterdaySales?.reduce((sum, inv: any) => sum + inv.total_amount, 0) || 0;
+    const yesterdayRevenue = yesterdaySales?.reduce((sum: number, inv: any) => sum + inv.total, 0) || 0;
 
     // This week's sales
-    const { data: weekSales } = await this.supabase
-      .from('invoices')
-      .select('total_amount')
-      .eq('user_id', user_id)
-      .gte('created_at', weekAgo.toISOString())
-      .in('status', ['paid', 'partial']);
+    const weekSales = await this.db.getInvoices(user_id, {
+      type: 'invoice',
+      startDate: weekAgo.toISOString(),
+      statuses: ['paid', 'partial'],
+    });
 
-    const weekRevenue = weekSales?.reduce((sum, inv: any) => sum + inv.total_amount, 0) || 0;
+    const weekRevenue = weekSales?.reduce((sum: number, inv: any) => sum + inv.total, 0) || 0;
 
     // Inventory alerts
     const alertsResult = await this.getInventoryAlerts({ user_id, alert_type: 'all' });
@@ -631,7 +743,7 @@ export class MSMEProductivityService {
     const forecast = await this.forecastInventory({ user_id, days_ahead: 14, include_seasonal: true });
 
     // Filter and enhance with reorder suggestions
-    let suggestions = forecast.forecasts
+    const suggestions = forecast.forecasts
       .filter((item: any) => {
         if (urgency === 'all') return item.recommended_reorder_quantity > 0;
         if (urgency === 'critical') return item.urgency === 'critical';
@@ -661,6 +773,11 @@ export class MSMEProductivityService {
     };
   }
 
+  private async getCustomerMap(userId: string): Promise<Map<string, any>> {
+    const customers = await this.db.getCustomers(userId);
+    return new Map((customers || []).map((c: any) => [c.id, c]));
+  }
+
   private generateQuickActions(salesTrend: number, alerts: any, payments: any): string[] {
     const actions: string[] = [];
 
@@ -685,6 +802,33 @@ export class MSMEProductivityService {
     return actions;
   }
 
+  private generateComplianceActions(claims: any[], flaggedPayables: any[], payables: any[], asOf: Date): string[] {
+    const actions: string[] = [];
+
+    for (const claim of claims) {
+      const past45 = claim.invoices.some((i: any) => i.status === 'past_45_days');
+      actions.push(past45
+        ? `📝 ${claim.buyer_name} owes ₹${claim.principal} plus ₹${claim.interest} interest past 45 days. File on MSME Samadhaan (samadhaan.msme.gov.in).`
+        : `📞 Remind ${claim.buyer_name}: ₹${claim.principal} is past the agreed terms, interest so far ₹${claim.interest}.`);
+    }
+
+    for (const bill of flaggedPayables) {
+      actions.push(`⚠️ Pay ${bill.supplier_name} ₹${bill.amount_due} (was due ${bill.pay_by}) plus ₹${bill.interest} interest. The purchase is deductible only once paid (section 43B(h)) and the interest is never deductible.`);
+    }
+
+    // Supplier bills coming due in the next week
+    const soon = new Date(asOf.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    for (const bill of payables.filter((p) => p.status === 'within_limit' && p.pay_by <= soon)) {
+      actions.push(`⏰ Pay ${bill.supplier_name} ₹${bill.amount_due} by ${bill.pay_by} to stay within the MSME limit.`);
+    }
+
+    if (actions.length === 0) {
+      actions.push('✅ No MSME dues past their limit.');
+    }
+
+    return actions;
+  }
+
   private getReorderReason(item: any): string {
     if (item.days_until_stockout < 3) {
       return `Critical! Stock will run out in ${item.days_until_stockout} days.`;
@@ -696,3 +840,20 @@ export class MSMEProductivityService {
     return 'Maintain optimal stock levels.';
   }
 }
+
+// Whole days from one date to another
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+// Value of the goods received so far, tax included; reverse charge tax is not owed to the supplier
+function receivedValue(order: PurchaseOrder): number {
+  const ordered = order.items.reduce((sum, item) => sum + item.total, 0);
+  if (ordered <= 0) return 0;
+  const received = order.items.reduce((sum, item) => sum + (item.total * (item.received_quantity || 0)) / item.quantity, 0);
+  return round((order.total * received) / ordered);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
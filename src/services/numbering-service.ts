@@ -0,0 +1,94 @@
+import type { ConfigureNumberingSeriesInput, GetNumberingSeriesInput } from '../tools/numbering.js';
+import type { DatabaseService } from '../types/service.js';
+import {
+  DEFAULT_PREFIXES,
+  DocumentType,
+  MAX_DOCUMENT_NUMBER_LENGTH,
+  NumberingSeries,
+  formatDocumentNumber,
+  getFinancialYear,
+  resolveSeries,
+} from '../utils/numbering.js';
+
+/**
+ * Numbering Service
+ * Configures document number series; numbers themselves are allocated by DatabaseService.getNextInvoiceNumber
+ */
+export class NumberingService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Every series in effect (built-in defaults included) with the next number it will issue this financial year
+   */
+  async getSeries(input: GetNumberingSeriesInput) {
+    const configured: NumberingSeries[] = await this.db.getNumberingSeries(input.user_id);
+    const financialYear = getFinancialYear();
+    const sequences: any[] = await this.db.getDocumentSequences(input.user_id, financialYear);
+
+    const series = this.effectiveSeries(configured).map((s) => {
+      const sequence = sequences.find((q) => q.document_type === s.document_type && q.branch === s.branch);
+      return {
+        ...s,
+        configured: configured.some((c) => c.document_type === s.document_type && c.branch === s.branch),
+        issued_this_year: sequence?.last_number || 0,
+        next_number: formatDocumentNumber(s, financialYear, (sequence?.last_number || 0) + 1),
+      };
+    });
+
+    return { financial_year: financialYear, series };
+  }
+
+  /**
+   * Create or change a series. Numbering restarts from 1 only when the financial year changes
+   */
+  async configureSeries(input: ConfigureNumberingSeriesInput) {
+    const series: NumberingSeries = {
+      document_type: input.document_type,
+      branch: input.branch,
+      prefix: input.prefix.toUpperCase(),
+      padding: input.padding,
+    };
+    const financialYear = getFinancialYear();
+
+    const sample = formatDocumentNumber(series, financialYear, 10 ** series.padding - 1);
+    if (sample.length > MAX_DOCUMENT_NUMBER_LENGTH) {
+      throw new Error(
+        `${sample} is longer than the ${MAX_DOCUMENT_NUMBER_LENGTH} characters allowed for GST invoice numbers; shorten the prefix or padding`
+      );
+    }
+
+    // Two series with one prefix would issue the same numbers
+    const configured: NumberingSeries[] = await this.db.getNumberingSeries(input.user_id);
+    const clash = this.effectiveSeries(configured).find((s) =>
+      s.prefix === series.prefix && !(s.document_type === series.document_type && s.branch === series.branch)
+    );
+    if (clash) {
+      throw new Error(`Prefix ${series.prefix} is already used by the ${describe(clash)} series`);
+    }
+
+    const saved = await this.db.upsertNumberingSeries(input.user_id, series);
+    const sequences: any[] = await this.db.getDocumentSequences(input.user_id, financialYear);
+    const sequence = sequences.find((q) => q.document_type === series.document_type && q.branch === series.branch);
+
+    return {
+      series: saved,
+      next_number: formatDocumentNumber(series, financialYear, (sequence?.last_number || 0) + 1),
+      message: `${describe(series)} numbers will use the prefix ${series.prefix}`,
+    };
+  }
+
+  /**
+   * Configured series plus the built-in default for each document type without one
+   */
+  private effectiveSeries(configured: NumberingSeries[]): NumberingSeries[] {
+    const defaults = (Object.keys(DEFAULT_PREFIXES) as DocumentType[])
+      .filter((type) => !configured.some((s) => s.document_type === type && s.branch === ''))
+      .map((type) => resolveSeries([], type));
+    return [...defaults, ...configured.map(({ document_type, branch, prefix, padding }) => ({ document_type, branch, prefix, padding }))];
+  }
+}
+
+function describe(series: NumberingSeries): string {
+  const type = series.document_type.replace('_', ' ');
+  return series.branch ? `${series.branch} branch ${type}` : `default ${type}`;
+}
@@ -0,0 +1,149 @@
+import { randomBytes } from 'crypto';
+import type { CreatePaymentLinkInput } from '../tools/payment-links.js';
+import type { Customer, Invoice, PaymentLink, User } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import type { PaymentPageData } from '../utils/payment-page.js';
+import { generateUPIQRCode } from '../utils/qrcode.js';
+import { balanceDue, OPEN_STATUSES } from './invoice-service.js';
+
+// What /pay/:token shows: the page itself, or why there is none
+export type PaymentPageResult =
+  | { status: 'active'; page: PaymentPageData }
+  | { status: 'paid' | 'expired' | 'cancelled' | 'not_found'; shop_name?: string };
+
+/**
+ * Payment Link Service
+ * Short-lived, unguessable links to a page where the customer pays one invoice by UPI
+ */
+export class PaymentLinkService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Create a link for an invoice, reusing the active one when it has not expired
+   */
+  async createLink(input: CreatePaymentLinkInput) {
+    const { user_id, invoice_id } = input;
+    const [invoice, user]: [Invoice, User] = await Promise.all([
+      this.db.getInvoice(user_id, invoice_id),
+      this.db.getUser(user_id),
+    ]);
+
+    if (invoice.invoice_type !== 'invoice') {
+      throw new Error(`Payment links are for invoices, not ${invoice.invoice_type.replace('_', ' ')}s`);
+    }
+    if (!acceptsPaymentLink(invoice)) {
+      throw new Error(`Invoice ${invoice.invoice_number} has nothing due (${invoice.status})`);
+    }
+    if (!user.upi_id) {
+      throw new Error('Add your UPI ID to your profile before creating payment links');
+    }
+
+    const now = new Date();
+    const links: PaymentLink[] = await this.db.getPaymentLinks(user_id, { invoiceId: invoice_id, status: 'active' });
+    let link = (links || []).find((l) => new Date(l.expires_at) > now);
+    const reused = Boolean(link);
+
+    if (!link) {
+      link = await this.db.createPaymentLink(user_id, {
+        invoice_id,
+        // 96 random bits, URL-safe: short enough for a WhatsApp message, too many to guess
+        token: randomBytes(12).toString('base64url'),
+        expires_at: new Date(now.getTime() + input.expires_in_hours * 60 * 60 * 1000).toISOString(),
+        status: 'active',
+      }) as PaymentLink;
+    }
+
+    return {
+      link_id: link.id,
+      token: link.token,
+      url: paymentLinkUrl(link.token),
+      expires_at: link.expires_at,
+      invoice_number: invoice.invoice_number,
+      amount: balanceDue(invoice),
+      reused,
+    };
+  }
+
+  /**
+   * Resolve a token for the public payment page, retiring the link once it has expired or the invoice is paid
+   */
+  async getPaymentPage(token: string): Promise<PaymentPageResult> {
+    const link: PaymentLink | null = await this.db.getPaymentLinkByToken(token);
+    if (!link) return { status: 'not_found' };
+
+    const user: User = await this.db.getUser(link.user_id);
+    const shop_name = user.shop_name || user.name;
+    if (link.status !== 'active') return { status: link.status, shop_name };
+
+    let invoice: Invoice | null = null;
+    try {
+      invoice = await this.db.getInvoice(link.user_id, link.invoice_id);
+    } catch {
+      // The invoice was deleted after the link was sent
+    }
+
+    const now = new Date();
+    let retired: PaymentLink['status'] | null = null;
+    if (!invoice || invoice.status === 'cancelled') retired = 'cancelled';
+    else if (invoice.status === 'paid' || balanceDue(invoice) <= 0) retired = 'paid';
+    else if (new Date(link.expires_at) <= now) retired = 'expired';
+
+    if (retired || !invoice || !user.upi_id) {
+      if (retired) await this.db.updatePaymentLink(link.user_id, link.id, { status: retired });
+      return { status: retired || 'cancelled', shop_name };
+    }
+
+    await this.db.updatePaymentLink(link.user_id, link.id, { last_viewed_at: now.toISOString() });
+
+    let customerName = invoice.customer_name;
+    if (!customerName && invoice.customer_id) {
+      const customer: Customer | null = await this.db.getCustomer(link.user_id, invoice.customer_id).catch(() => null);
+      customerName = customer?.name;
+    }
+
+    const amountDue = balanceDue(invoice);
+    const qr = await generateUPIQRCode({
+      payee_upi_id: user.upi_id,
+      payee_name: shop_name,
+      amount: amountDue,
+      transaction_note: `Invoice ${invoice.invoice_number}`,
+      // Carried into the payer's statement narration, where import_payment_statement looks for it
+      transaction_ref: invoice.invoice_number,
+    });
+
+    return {
+      status: 'active',
+      page: {
+        seller: user,
+        invoice,
+        customer_name: customerName,
+        amount_due: amountDue,
+        expires_at: link.expires_at,
+        upi_string: qr.qr_string,
+        qr_image_base64: qr.qr_image_base64,
+      },
+    };
+  }
+}
+
+/**
+ * Whether an invoice still has something to collect through a payment link
+ */
+export function acceptsPaymentLink(invoice: Invoice): boolean {
+  return invoice.invoice_type === 'invoice' && OPEN_STATUSES.includes(invoice.status) && balanceDue(invoice) > 0;
+}
+
+/**
+ * Whether payment links can be put in messages; without PUBLIC_BASE_URL they would point at localhost
+ */
+export function paymentLinksArePublic(): boolean {
+  return Boolean(process.env.PUBLIC_BASE_URL);
+}
+
+/**
+ * Public URL of a payment page; PUBLIC_BASE_URL is where the HTTP server is reachable from customers' phones
+ */
+export function paymentLinkUrl(token: string): string {
+  const base = process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  return `${base.replace(/\/+$/, '')}/pay/${token}`;
+}
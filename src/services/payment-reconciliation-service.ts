@@ -0,0 +1,281 @@
+import type {
+  GetPaymentReviewQueueInput,
+  ImportPaymentStatementInput,
+  ResolvePaymentReviewInput,
+} from '../tools/payment-reconciliation.js';
+import type { Customer, Invoice, PaymentReview, PaymentReviewCandidate, Transaction } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { mentionsDocument, parseStatement, referenceKey, StatementEntry } from '../utils/payment-statement.js';
+import { balanceDue, InvoiceService, OPEN_STATUSES } from './invoice-service.js';
+
+// How a credit was settled, or why it was not
+type Outcome =
+  | { kind: 'match'; invoice_id: string; matched_on: PaymentReviewCandidate['matched_on'] }
+  | { kind: 'customer'; customer_id: string }
+  | { kind: 'review'; reason: string };
+
+// A credit recorded as a payment, and the invoices it settled
+interface MatchedCredit {
+  line: number;
+  reference: string;
+  amount: number;
+  payer_vpa?: string;
+  matched_on: PaymentReviewCandidate['matched_on'];
+  invoices: { invoice_id: string; invoice_number: string; status: Invoice['status']; balance_due: number }[];
+  transaction_ids: string[];
+}
+
+/**
+ * Payment Reconciliation Service
+ * Matches statement credits to open invoices by reference, payer VPA and amount, and records them as payments
+ */
+export class PaymentReconciliationService {
+  private invoiceService: InvoiceService;
+
+  constructor(private db: DatabaseService) {
+    this.invoiceService = new InvoiceService(db);
+  }
+
+  /**
+   * Import a statement: matched credits become payments, the rest go to the review queue
+   */
+  async importStatement(input: ImportPaymentStatementInput) {
+    const { user_id } = input;
+    const statement = parseStatement(input.content, input.format === 'auto' ? undefined : input.format);
+    const credits = statement.entries.filter((entry) => entry.direction === 'credit');
+
+    const [invoices, customers] = await Promise.all([
+      this.db.getInvoices(user_id, { type: 'invoice', statuses: OPEN_STATUSES }),
+      this.db.getCustomers(user_id),
+    ]);
+    // Kept current as credits are applied, so two credits are never matched to the same balance
+    const open = new Map<string, Invoice>((invoices || []).map((invoice: Invoice) => [invoice.id, invoice]));
+    const customerMap = new Map<string, Customer>((customers || []).map((c: Customer) => [c.id, c]));
+
+    const matched: MatchedCredit[] = [];
+    const queued: PaymentReview[] = [];
+    const duplicates: { line: number; reference: string }[] = [];
+
+    for (const entry of credits) {
+      const reference = statementReference(entry);
+      if (await this.alreadyImported(user_id, reference)) {
+        duplicates.push({ line: entry.line, reference });
+        continue;
+      }
+
+      const candidates = findCandidates(entry, [...open.values()], customerMap);
+      const outcome = decide(entry, candidates, [...open.values()], customerMap);
+
+      if (outcome.kind === 'review') {
+        queued.push(await this.db.createPaymentReview(user_id, {
+          reference,
+          amount: entry.amount,
+          value_date: entry.date,
+          payer_name: entry.payer_name,
+          payer_vpa: entry.payer_vpa,
+          narration: entry.narration,
+          reason: outcome.reason,
+          candidates: candidates.slice(0, 5),
+          status: 'pending',
+        }));
+        continue;
+      }
+
+      const payment = await this.invoiceService.recordPayment(user_id, {
+        ...(outcome.kind === 'match' ? { invoice_id: outcome.invoice_id } : { customer_id: outcome.customer_id }),
+        amount: entry.amount,
+        payment_type: paymentType(entry),
+        upi_transaction_id: reference,
+        notes: statementNote(entry),
+      });
+      for (const invoice of payment.invoices) {
+        if (balanceDue(invoice) > 0) open.set(invoice.id, invoice);
+        else open.delete(invoice.id);
+      }
+
+      matched.push({
+        line: entry.line,
+        reference,
+        amount: entry.amount,
+        payer_vpa: entry.payer_vpa,
+        matched_on: outcome.kind === 'match' ? outcome.matched_on : ['payer_vpa'],
+        invoices: payment.invoices.map((invoice) => ({
+          invoice_id: invoice.id,
+          invoice_number: invoice.invoice_number,
+          status: invoice.status,
+          balance_due: invoice.balance_due,
+        })),
+        transaction_ids: payment.transactions.map((t: Transaction) => t.id),
+      });
+    }
+
+    const total = (rows: { amount: number }[]) => round(rows.reduce((sum, row) => sum + row.amount, 0));
+
+    return {
+      format: statement.format,
+      entries: statement.entries.length,
+      credits: credits.length,
+      matched_count: matched.length,
+      matched_amount: total(matched),
+      review_count: queued.length,
+      review_amount: total(queued),
+      duplicate_count: duplicates.length,
+      matched,
+      review_queue: queued,
+      duplicates,
+      warnings: statement.warnings,
+      message: `${matched.length} of ${credits.length} credits matched (₹${total(matched).toFixed(2)}); ${queued.length} sent for review` +
+        (duplicates.length > 0 ? `; ${duplicates.length} already imported` : ''),
+    };
+  }
+
+  /**
+   * List the review queue
+   */
+  async getReviewQueue(input: GetPaymentReviewQueueInput): Promise<PaymentReview[]> {
+    return await this.db.getPaymentReviews(input.user_id, {
+      status: input.status === 'all' ? undefined : input.status,
+      limit: input.limit,
+    });
+  }
+
+  /**
+   * Record a queued credit against the chosen invoice or customer, or dismiss it (e.g. a refund or a non-sale receipt)
+   */
+  async resolveReview(input: ResolvePaymentReviewInput) {
+    const review: PaymentReview = await this.db.getPaymentReview(input.user_id, input.review_id);
+    if (review.status !== 'pending') {
+      throw new Error(`Statement entry ${review.reference} is already ${review.status}`);
+    }
+
+    if (input.action === 'dismiss') {
+      const updated = await this.db.updatePaymentReview(input.user_id, review.id, {
+        status: 'dismissed',
+        ...(input.notes && { reason: `${review.reason}; dismissed: ${input.notes}` }),
+      });
+      return { review: updated, transactions: [], invoices: [] };
+    }
+
+    const payment = await this.invoiceService.recordPayment(input.user_id, {
+      ...(input.invoice_id ? { invoice_id: input.invoice_id } : { customer_id: input.customer_id }),
+      amount: review.amount,
+      payment_type: paymentType(review),
+      upi_transaction_id: review.reference,
+      notes: [statementNote({ date: review.value_date, narration: review.narration }), input.notes].filter(Boolean).join('\n'),
+    });
+
+    const updated = await this.db.updatePaymentReview(input.user_id, review.id, {
+      status: 'matched',
+      transaction_ids: payment.transactions.map((t: Transaction) => t.id),
+    });
+    return { review: updated, ...payment };
+  }
+
+  private async alreadyImported(userId: string, reference: string): Promise<boolean> {
+    const [transactions, reviews] = await Promise.all([
+      this.db.getTransactions(userId, { upiTransactionId: reference, limit: 1 }),
+      this.db.getPaymentReviews(userId, { reference, limit: 1 }),
+    ]);
+    return (transactions || []).length > 0 || (reviews || []).length > 0;
+  }
+}
+
+/**
+ * Open invoices a credit may pay, with the signals that point at each
+ */
+function findCandidates(entry: StatementEntry, invoices: Invoice[], customers: Map<string, Customer>): PaymentReviewCandidate[] {
+  const text = `${entry.narration} ${entry.reference || ''}`;
+
+  const candidates: PaymentReviewCandidate[] = [];
+  for (const invoice of invoices) {
+    const due = balanceDue(invoice);
+    if (due <= 0) continue;
+    const customer = invoice.customer_id ? customers.get(invoice.customer_id) : undefined;
+
+    const matchedOn: PaymentReviewCandidate['matched_on'] = [];
+    if (mentionsDocument(text, invoice.invoice_number)) matchedOn.push('reference');
+    if (entry.payer_vpa && customer?.upi_id && customer.upi_id.toLowerCase() === entry.payer_vpa) matchedOn.push('payer_vpa');
+    if (Math.abs(due - entry.amount) < 0.01) matchedOn.push('amount');
+    if (matchedOn.length === 0) continue;
+
+    candidates.push({
+      invoice_id: invoice.id,
+      invoice_number: invoice.invoice_number,
+      customer_id: invoice.customer_id,
+      customer_name: customer?.name || invoice.customer_name,
+      balance_due: due,
+      matched_on: matchedOn,
+    });
+  }
+
+  // Reference beats payer, payer beats amount; older invoices first
+  const weight = (c: PaymentReviewCandidate) =>
+    (c.matched_on.includes('reference') ? 4 : 0) + (c.matched_on.includes('payer_vpa') ? 2 : 0) + (c.matched_on.includes('amount') ? 1 : 0);
+  const created = new Map(invoices.map((invoice) => [invoice.id, invoice.created_at]));
+  return candidates.sort((a, b) => weight(b) - weight(a) || (created.get(a.invoice_id) || '').localeCompare(created.get(b.invoice_id) || ''));
+}
+
+/**
+ * Auto-match only when the statement names one invoice, or the payer is a known customer who owes at least the amount
+ */
+function decide(entry: StatementEntry, candidates: PaymentReviewCandidate[], invoices: Invoice[], customers: Map<string, Customer>): Outcome {
+  const byReference = candidates.filter((c) => c.matched_on.includes('reference'));
+  if (byReference.length === 1) {
+    const [candidate] = byReference;
+    if (entry.amount > candidate.balance_due + 0.005) {
+      return { kind: 'review', reason: `₹${entry.amount.toFixed(2)} is more than the ₹${candidate.balance_due.toFixed(2)} due on ${candidate.invoice_number}` };
+    }
+    return { kind: 'match', invoice_id: candidate.invoice_id, matched_on: candidate.matched_on };
+  }
+  if (byReference.length > 1) {
+    return { kind: 'review', reason: `Reference matches ${byReference.length} invoices: ${byReference.map((c) => c.invoice_number).join(', ')}` };
+  }
+
+  const payers = [...customers.values()].filter((c) => entry.payer_vpa && c.upi_id?.toLowerCase() === entry.payer_vpa);
+  if (payers.length === 1) {
+    const [payer] = payers;
+    const exact = candidates.filter((c) => c.customer_id === payer.id && c.matched_on.includes('amount'));
+    if (exact.length === 1) {
+      return { kind: 'match', invoice_id: exact[0].invoice_id, matched_on: exact[0].matched_on };
+    }
+    const owed = round(invoices
+      .filter((invoice) => invoice.customer_id === payer.id)
+      .reduce((sum, invoice) => sum + Math.max(0, balanceDue(invoice)), 0));
+    if (owed > 0 && entry.amount <= owed + 0.005) {
+      return { kind: 'customer', customer_id: payer.id };
+    }
+    return {
+      kind: 'review',
+      reason: owed > 0
+        ? `${payer.name} paid ₹${entry.amount.toFixed(2)} but owes ₹${owed.toFixed(2)}`
+        : `${payer.name} has no open invoices`,
+    };
+  }
+  if (payers.length > 1) {
+    return { kind: 'review', reason: `Payer VPA ${entry.payer_vpa} is saved on ${payers.length} customers` };
+  }
+
+  const byAmount = candidates.filter((c) => c.matched_on.includes('amount'));
+  if (byAmount.length > 0) {
+    return { kind: 'review', reason: `Only the amount matches (${byAmount.length} open ${byAmount.length === 1 ? 'invoice' : 'invoices'})` };
+  }
+  return { kind: 'review', reason: 'No open invoice matches the reference, payer or amount' };
+}
+
+// The UTR/RRN when the statement has one; otherwise a key stable across re-imports of the same file
+function statementReference(entry: StatementEntry): string {
+  if (entry.reference) return entry.reference;
+  return `${entry.date || 'nodate'}-${entry.amount.toFixed(2)}-${referenceKey(entry.narration).slice(0, 40)}`;
+}
+
+function paymentType(entry: { payer_vpa?: string; narration: string }): Transaction['payment_type'] {
+  return entry.payer_vpa || /\bUPI\b/i.test(entry.narration) ? 'upi' : 'bank_transfer';
+}
+
+function statementNote(entry: { date?: string; narration: string }): string {
+  return `Statement credit${entry.date ? ` of ${entry.date}` : ''}: ${entry.narration}`.trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,216 @@
+import type {
+  CreatePurchaseOrderInput,
+  GetPurchaseOrdersInput,
+  ReceivePurchaseOrderInput,
+  UpdatePurchaseOrderStatusInput,
+} from '../tools/purchase-orders.js';
+import type { PurchaseOrder, PurchaseOrderItem, Supplier } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { calculateGST, determinePlaceOfSupply, isValidGSTIN } from '../utils/gst.js';
+
+// Statuses each status may move to via update_purchase_order_status
+const ALLOWED_TRANSITIONS: Record<PurchaseOrder['status'], PurchaseOrder['status'][]> = {
+  draft: ['sent', 'confirmed', 'received', 'cancelled'],
+  sent: ['draft', 'confirmed', 'received', 'cancelled'],
+  confirmed: ['received', 'cancelled'],
+  partially_received: ['received'],
+  received: [],
+  cancelled: [],
+};
+
+/**
+ * Purchase Order Service
+ * Supplier order lifecycle, with goods receipt feeding inventory
+ */
+export class PurchaseOrderService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Create a purchase order with computed totals
+   */
+  async createPurchaseOrder(input: CreatePurchaseOrderInput): Promise<PurchaseOrder> {
+    // Validates the supplier belongs to this user
+    const supplier: Supplier = await this.db.getSupplier(input.user_id, input.supplier_id);
+    const user = await this.db.getUser(input.user_id);
+
+    // Goods are delivered to us, so IGST applies when the supplier is in another state
+    const supplierGstin = supplier.gst_number && isValidGSTIN(supplier.gst_number) ? supplier.gst_number.toUpperCase() : undefined;
+    const supply = determinePlaceOfSupply({ gst_number: supplierGstin, address: supplier.address }, user);
+
+    const items: PurchaseOrderItem[] = input.items.map((item) => {
+      const total = round(item.quantity * item.unit_price);
+      const gst = calculateGST(total, item.gst_rate || 0, supply.is_interstate, { cess: { rate: item.cess_rate } });
+      return {
+        ...item,
+        cgst_amount: round(gst.cgst_amount),
+        sgst_amount: round(gst.sgst_amount),
+        igst_amount: round(gst.igst_amount),
+        ...(gst.cess_amount > 0 && { cess_amount: round(gst.cess_amount) }),
+        total,
+        received_quantity: 0,
+      };
+    });
+
+    const subtotal = round(items.reduce((sum, item) => sum + item.total, 0));
+    const cessAmount = round(items.reduce((sum, item) => sum + (item.cess_amount || 0), 0));
+    const taxAmount = round(items.reduce((sum, item) => sum + (item.total * (item.gst_rate || 0)) / 100, 0) + cessAmount);
+    const orderNumber = await this.db.getNextPurchaseOrderNumber(input.user_id);
+
+    return await this.db.createPurchaseOrder(input.user_id, {
+      supplier_id: input.supplier_id,
+      supplier_gstin: supplierGstin,
+      order_number: orderNumber,
+      items,
+      subtotal,
+      tax_amount: taxAmount,
+      is_interstate: supply.is_interstate,
+      cgst_amount: round(items.reduce((sum, item) => sum + (item.cgst_amount || 0), 0)),
+      sgst_amount: round(items.reduce((sum, item) => sum + (item.sgst_amount || 0), 0)),
+      igst_amount: round(items.reduce((sum, item) => sum + (item.igst_amount || 0), 0)),
+      cess_amount: cessAmount,
+      reverse_charge: input.reverse_charge,
+      // Reverse charge tax is paid to the government, not the supplier
+      total: round(input.reverse_charge ? subtotal : subtotal + taxAmount),
+      status: input.status,
+      expected_date: input.expected_date,
+      notes: input.notes,
+    });
+  }
+
+  /**
+   * List purchase orders
+   */
+  async getPurchaseOrders(input: GetPurchaseOrdersInput): Promise<PurchaseOrder[]> {
+    return await this.db.getPurchaseOrders(input.user_id, {
+      status: input.status,
+      supplierId: input.supplier_id,
+      limit: input.limit,
+    });
+  }
+
+  /**
+   * Change the status of a purchase order
+   */
+  async updateStatus(input: UpdatePurchaseOrderStatusInput) {
+    const order: PurchaseOrder = await this.db.getPurchaseOrder(input.user_id, input.purchase_order_id);
+
+    if (input.status && !ALLOWED_TRANSITIONS[order.status].includes(input.status)) {
+      throw new Error(`Cannot change purchase order ${order.order_number} from "${order.status}" to "${input.status}"`);
+    }
+
+    // Marking as received books everything still outstanding into stock
+    if (input.status === 'received') {
+      const received = await this.receivePurchaseOrder({
+        user_id: input.user_id,
+        purchase_order_id: input.purchase_order_id,
+      });
+      if (!input.paid_at) return received;
+      const paid = await this.db.updatePurchaseOrder(input.user_id, input.purchase_order_id, { paid_at: input.paid_at });
+      return { ...received, purchase_order: paid };
+    }
+
+    const updated = await this.db.updatePurchaseOrder(input.user_id, input.purchase_order_id, {
+      ...(input.status && { status: input.status }),
+      ...(input.paid_at && { paid_at: input.paid_at }),
+    });
+    return { purchase_order: updated, stock_updates: [] };
+  }
+
+  /**
+   * Receive goods against a purchase order, fully or partially
+   */
+  async receivePurchaseOrder(input: ReceivePurchaseOrderInput) {
+    const order: PurchaseOrder = await this.db.getPurchaseOrder(input.user_id, input.purchase_order_id);
+
+    if (order.status === 'cancelled' || order.status === 'received') {
+      throw new Error(`Purchase order ${order.order_number} is already ${order.status}`);
+    }
+
+    const items = order.items.map((item) => ({ ...item, received_quantity: item.received_quantity || 0 }));
+
+    // Work out how much of each line arrives now
+    const receipts = new Map<number, number>();
+    if (input.items && input.items.length > 0) {
+      for (const received of input.items) {
+        const index = items.findIndex((item) =>
+          (received.product_id && item.product_id === received.product_id) ||
+          (received.name && item.name.toLowerCase() === received.name.toLowerCase())
+        );
+        if (index === -1) {
+          throw new Error(`Item "${received.product_id || received.name}" is not on purchase order ${order.order_number}`);
+        }
+        receipts.set(index, (receipts.get(index) || 0) + received.quantity);
+      }
+    } else {
+      items.forEach((item, index) => {
+        const outstanding = item.quantity - item.received_quantity;
+        if (outstanding > 0) receipts.set(index, outstanding);
+      });
+    }
+
+    if (receipts.size === 0) {
+      throw new Error(`Nothing outstanding to receive on purchase order ${order.order_number}`);
+    }
+
+    for (const [index, quantity] of receipts) {
+      const outstanding = items[index].quantity - items[index].received_quantity;
+      if (quantity > outstanding) {
+        throw new Error(`Cannot receive ${quantity} ${items[index].unit} of "${items[index].name}": only ${outstanding} outstanding`);
+      }
+    }
+
+    // Checked up front, as stock is only added once the receipt is saved
+    for (const [index] of receipts) {
+      const item = items[index];
+      if (item.product_id && !(await this.db.getProduct(input.user_id, item.product_id).catch(() => null))) {
+        throw new Error(`"${item.name}" is no longer in inventory; receive the other items, or add the product back first`);
+      }
+    }
+
+    for (const [index, quantity] of receipts) {
+      items[index].received_quantity += quantity;
+    }
+    const fullyReceived = items.every((item) => item.received_quantity >= item.quantity);
+    const notes = input.notes ? [order.notes, input.notes].filter(Boolean).join('\n') : undefined;
+
+    // The receipt is saved before any stock moves, and only if no other receipt or status change got in
+    // since the order was read, so a retry or a concurrent receipt cannot add the same goods twice
+    const updated = await this.db.updatePurchaseOrder(input.user_id, input.purchase_order_id, {
+      items,
+      status: fullyReceived ? 'received' : 'partially_received',
+      notes,
+      received_at: new Date().toISOString(),
+      supplier_invoice_number: input.supplier_invoice_number ?? order.supplier_invoice_number,
+      supplier_invoice_date: input.supplier_invoice_date ?? order.supplier_invoice_date,
+    }, order.updated_at);
+
+    // Add received quantities to stock through the regular stock update path
+    const stockUpdates = [];
+    for (const [index, quantity] of receipts) {
+      const item = items[index];
+      if (item.product_id) {
+        const product = await this.db.updateStock(input.user_id, item.product_id, quantity, 'add', {
+          reason: 'purchase',
+          reference_type: 'purchase_order',
+          reference_id: order.id,
+          notes: order.order_number,
+        });
+        stockUpdates.push({ product_id: item.product_id, name: item.name, received: quantity, new_quantity: product.quantity });
+      } else {
+        stockUpdates.push({ product_id: null, name: item.name, received: quantity, new_quantity: null });
+      }
+    }
+
+    return {
+      purchase_order: updated,
+      stock_updates: stockUpdates,
+      message: fullyReceived
+        ? `Purchase order ${order.order_number} fully received`
+        : `Partial receipt recorded for purchase order ${order.order_number}`,
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,18 +1,31 @@
+import type { StockMovementDetails } from '../types/index.js';
 import { DatabaseService } from '../types/service.js';
-import { supabase } from './supabase.js';
+import { getSupabaseClient } from './supabase.js';
+import {
+    buildBusinessSummary,
+    buildDailyReport,
+    buildSalesAnalytics,
+    getDayRange,
+    getPeriodRange,
+    loadAnalyticsData,
+    toSalesLines,
+} from '../utils/analytics.js';
+import { withCheckedGSTIN } from '../utils/gst.js';
+import { formatDocumentNumber, getFinancialYear, resolveSeries } from '../utils/numbering.js';
 
 export class SupabaseService implements DatabaseService {
-    public supabase = supabase; // Expose for other services
+    private supabase = getSupabaseClient();
 
     // ============ INVENTORY ============
     async getProducts(userId: string, options: any = {}) {
-        let query = supabase
+        let query = this.supabase
             .from('products')
             .select('*')
             .eq('user_id', userId);
 
         if (options.category) query = query.eq('category', options.category);
         if (options.search) query = query.ilike('name', `%${options.search}%`);
+        if (options.barcodes) query = query.in('barcode', options.barcodes);
         if (options.lowStockOnly) query = query.lt('quantity', 'low_stock_threshold');
         if (options.limit) query = query.limit(options.limit);
 
@@ -22,7 +35,7 @@ export class SupabaseService implements DatabaseService {
     }
 
     async getProduct(userId: string, productId: string) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('products')
             .select('*')
             .eq('user_id', userId)
@@ -33,39 +46,86 @@ export class SupabaseService implements DatabaseService {
         return data;
     }
 
+    async searchProducts(userId: string, query: string, limit: number = 5) {
+        // Substring match on English or Hindi name first
+        const { data: matches, error } = await this.supabase
+            .from('products')
+            .select('*')
+            .eq('user_id', userId)
+            .or(`name.ilike.%${query}%,hindi_name.ilike.%${query}%`)
+            .limit(limit);
+
+        if (error) throw error;
+        if (matches && matches.length > 0) return matches;
+
+        // Fall back to trigram similarity search
+        const { data: fuzzyMatches, error: fuzzyError } = await this.supabase
+            .rpc('fuzzy_search_products', {
+                p_user_id: userId,
+                p_query: query,
+                p_limit: limit,
+            });
+
+        if (fuzzyError) throw fuzzyError;
+        return fuzzyMatches || [];
+    }
+
     async createProduct(userId: string, productData: any) {
-        const { data, error } = await supabase
+        // Opening stock goes through the ledger like any other stock change
+        const { quantity, ...product } = productData;
+        const { data, error } = await this.supabase
             .from('products')
-            .insert([{ ...productData, user_id: userId }])
+            .insert([{ ...product, quantity: 0, user_id: userId }])
             .select()
             .single();
 
         if (error) throw error;
-        return data;
+        if (!quantity) return data;
+        return this.updateStock(userId, data.id, quantity, 'set', { reason: 'adjustment', notes: 'Opening stock' });
     }
 
-    async updateStock(userId: string, productId: string, quantity: number, operation: 'add' | 'subtract' | 'set') {
-        // First get current stock
-        const current = await this.getProduct(userId, productId);
-        let newQuantity = quantity;
+    async updateStock(
+        userId: string,
+        productId: string,
+        quantity: number,
+        operation: 'add' | 'subtract' | 'set',
+        movement: StockMovementDetails = { reason: 'adjustment' }
+    ) {
+        // Locks the product row, applies the change and writes the ledger entry in one transaction
+        const { data, error } = await this.supabase.rpc('apply_stock_movement', {
+            p_user_id: userId,
+            p_product_id: productId,
+            p_quantity: quantity,
+            p_operation: operation,
+            p_reason: movement.reason,
+            p_reference_type: movement.reference_type ?? null,
+            p_reference_id: movement.reference_id ?? null,
+            p_notes: movement.notes ?? null,
+        });
 
-        if (operation === 'add') newQuantity = current.quantity + quantity;
-        if (operation === 'subtract') newQuantity = current.quantity - quantity;
+        if (error) throw error;
+        return data;
+    }
 
-        const { data, error } = await supabase
-            .from('products')
-            .update({ quantity: newQuantity })
-            .eq('id', productId)
+    async getStockMovements(userId: string, productId: string, options: any = {}) {
+        let query = this.supabase
+            .from('stock_movements')
+            .select('*')
             .eq('user_id', userId)
-            .select()
-            .single();
+            .eq('product_id', productId);
+
+        if (options.reason) query = query.eq('reason', options.reason);
+        if (options.startDate) query = query.gte('created_at', options.startDate);
+        if (options.endDate) query = query.lte('created_at', options.endDate);
+        if (options.limit) query = query.limit(options.limit);
 
+        const { data, error } = await query.order('created_at', { ascending: false });
         if (error) throw error;
         return data;
     }
 
     async getInventoryAlerts(userId: string) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('products')
             .select('*')
             .eq('user_id', userId);
@@ -76,7 +136,7 @@ export class SupabaseService implements DatabaseService {
 
     // ============ CUSTOMERS ============
     async getCustomers(userId: string, options: any = {}) {
-        let query = supabase.from('customers').select('*').eq('user_id', userId);
+        let query = this.supabase.from('customers').select('*').eq('user_id', userId);
 
         if (options.search) {
             query = query.or(`name.ilike.%${options.search}%,phone.ilike.%${options.search}%`);
@@ -89,7 +149,7 @@ export class SupabaseService implements DatabaseService {
     }
 
     async getCustomer(userId: string, customerId: string) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('customers')
             .select('*')
             .eq('user_id', userId)
@@ -100,9 +160,9 @@ export class SupabaseService implements DatabaseService {
     }
 
     async createCustomer(userId: string, customerData: any) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('customers')
-            .insert([{ ...customerData, user_id: userId }])
+            .insert([{ ...withCheckedGSTIN(customerData), user_id: userId }])
             .select()
             .single();
         if (error) throw error;
@@ -116,7 +176,7 @@ export class SupabaseService implements DatabaseService {
         if (operation === 'add') newBalance += amount;
         else newBalance -= amount;
 
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('customers')
             .update({ outstanding_balance: newBalance })
             .eq('id', customerId)
@@ -130,13 +190,14 @@ export class SupabaseService implements DatabaseService {
 
     // ============ TRANSACTIONS ============
     async getTransactions(userId: string, options: any = {}) {
-        let query = supabase.from('transactions').select('*').eq('user_id', userId);
+        let query = this.supabase.from('transactions').select('*').eq('user_id', userId);
 
         if (options.startDate) query = query.gte('created_at', options.startDate);
         if (options.endDate) query = query.lte('created_at', options.endDate);
         if (options.paymentType) query = query.eq('payment_type', options.paymentType);
         if (options.status) query = query.eq('payment_status', options.status);
         if (options.customerId) query = query.eq('customer_id', options.customerId);
+        if (options.upiTransactionId) query = query.eq('upi_transaction_id', options.upiTransactionId);
         if (options.limit) query = query.limit(options.limit);
 
         const { data, error } = await query.order('created_at', { ascending: false });
@@ -145,7 +206,7 @@ export class SupabaseService implements DatabaseService {
     }
 
     async createTransaction(userId: string, transactionData: any) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('transactions')
             .insert([{ ...transactionData, user_id: userId }])
             .select()
@@ -154,13 +215,166 @@ export class SupabaseService implements DatabaseService {
         return data;
     }
 
+    // ============ PAYMENT LINKS ============
+    async getPaymentLinks(userId: string, options: any = {}) {
+        let query = this.supabase
+            .from('payment_links')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (options.invoiceId) query = query.eq('invoice_id', options.invoiceId);
+        if (options.status) query = query.eq('status', options.status);
+        if (options.limit) query = query.limit(options.limit);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    }
+
+    async getPaymentLinkByToken(token: string) {
+        // Public lookup: the token alone identifies the link, whoever owns it
+        const { data, error } = await this.supabase
+            .from('payment_links')
+            .select('*')
+            .eq('token', token)
+            .maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async createPaymentLink(userId: string, linkData: any) {
+        const { data, error } = await this.supabase
+            .from('payment_links')
+            .insert([{ ...linkData, user_id: userId }])
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async updatePaymentLink(userId: string, linkId: string, updates: any) {
+        const { data, error } = await this.supabase
+            .from('payment_links')
+            .update(updates)
+            .eq('user_id', userId)
+            .eq('id', linkId)
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    // ============ OUTBOUND MESSAGES ============
+    async getOutboundMessages(userId: string, options: any = {}) {
+        let query = this.supabase
+            .from('outbound_messages')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (options.invoiceId) query = query.eq('invoice_id', options.invoiceId);
+        if (options.status) query = query.eq('status', options.status);
+        if (options.limit) query = query.limit(options.limit);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    }
+
+    async getOutboundMessageByProviderId(providerMessageId: string) {
+        // Webhook lookup: status updates carry only the provider's message ID
+        const { data, error } = await this.supabase
+            .from('outbound_messages')
+            .select('*')
+            .eq('provider_message_id', providerMessageId)
+            .maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async createOutboundMessage(userId: string, messageData: any) {
+        const { data, error } = await this.supabase
+            .from('outbound_messages')
+            .insert([{ ...messageData, user_id: userId }])
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async updateOutboundMessage(userId: string, messageId: string, updates: any) {
+        const { data, error } = await this.supabase
+            .from('outbound_messages')
+            .update(updates)
+            .eq('user_id', userId)
+            .eq('id', messageId)
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    // ============ PAYMENT REVIEWS ============
+    async getPaymentReviews(userId: string, options: any = {}) {
+        let query = this.supabase
+            .from('payment_reviews')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (options.status) query = query.eq('status', options.status);
+        if (options.reference) query = query.eq('reference', options.reference);
+        if (options.limit) query = query.limit(options.limit);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    }
+
+    async getPaymentReview(userId: string, reviewId: string) {
+        const { data, error } = await this.supabase
+            .from('payment_reviews')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('id', reviewId)
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async createPaymentReview(userId: string, reviewData: any) {
+        const { data, error } = await this.supabase
+            .from('payment_reviews')
+            .insert([{ ...reviewData, user_id: userId }])
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async updatePaymentReview(userId: string, reviewId: string, updates: any) {
+        const { data, error } = await this.supabase
+            .from('payment_reviews')
+            .update(updates)
+            .eq('user_id', userId)
+            .eq('id', reviewId)
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
     // ============ INVOICES ============
     async getInvoices(userId: string, options: any = {}) {
-        let query = supabase.from('invoices').select('*').eq('user_id', userId);
+        let query = this.supabase.from('invoices').select('*').eq('user_id', userId);
 
         if (options.status) query = query.eq('status', options.status);
+        if (options.statuses) query = query.in('status', options.statuses);
         if (options.type) query = query.eq('invoice_type', options.type);
         if (options.customerId) query = query.eq('customer_id', options.customerId);
+        if (options.originalInvoiceId) query = query.eq('original_invoice_id', options.originalInvoiceId);
+        if (options.sourceDocumentId) query = query.eq('source_document_id', options.sourceDocumentId);
         if (options.startDate) query = query.gte('created_at', options.startDate);
         if (options.endDate) query = query.lte('created_at', options.endDate);
         if (options.limit) query = query.limit(options.limit);
@@ -171,7 +385,7 @@ export class SupabaseService implements DatabaseService {
     }
 
     async getInvoice(userId: string, invoiceId: string) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('invoices')
             .select('*')
             .eq('user_id', userId)
@@ -181,19 +395,23 @@ export class SupabaseService implements DatabaseService {
         return data;
     }
 
-    async getNextInvoiceNumber(userId: string, type: string) {
-        const { count, error } = await supabase
-            .from('invoices')
-            .select('*', { count: 'exact', head: true })
-            .eq('user_id', userId)
-            .eq('invoice_type', type);
+    async getNextInvoiceNumber(userId: string, type: string, branch?: string) {
+        const series = resolveSeries(await this.getNumberingSeries(userId), type, branch);
+        const financialYear = getFinancialYear();
+
+        const { data, error } = await this.supabase.rpc('next_document_number', {
+            p_user_id: userId,
+            p_document_type: type,
+            p_branch: series.branch,
+            p_financial_year: financialYear,
+        });
 
         if (error) throw error;
-        return `${type.toUpperCase().substring(0, 3)}-${(count || 0) + 1}`;
+        return formatDocumentNumber(series, financialYear, data);
     }
 
     async createInvoice(userId: string, invoiceData: any) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('invoices')
             .insert([{ ...invoiceData, user_id: userId }])
             .select()
@@ -203,7 +421,7 @@ export class SupabaseService implements DatabaseService {
     }
 
     async updateInvoiceStatus(userId: string, invoiceId: string, status: string) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('invoices')
             .update({ status })
             .eq('id', invoiceId)
@@ -214,9 +432,108 @@ export class SupabaseService implements DatabaseService {
         return data;
     }
 
+    async updateInvoice(userId: string, invoiceId: string, updates: any) {
+        const { data, error } = await this.supabase
+            .from('invoices')
+            .update(updates)
+            .eq('id', invoiceId)
+            .eq('user_id', userId)
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async getSalesLineItems(userId: string, options: any = {}) {
+        const [invoices, products] = await Promise.all([
+            this.getInvoices(userId, {
+                type: 'invoice',
+                statuses: options.statuses,
+                startDate: options.startDate,
+                endDate: options.endDate,
+            }),
+            this.getProducts(userId),
+        ]);
+        return toSalesLines(invoices, products, options.productId);
+    }
+
+    // ============ NUMBERING SERIES ============
+    async getNumberingSeries(userId: string) {
+        const { data, error } = await this.supabase
+            .from('numbering_series')
+            .select('*')
+            .eq('user_id', userId)
+            .order('document_type');
+        if (error) throw error;
+        return data;
+    }
+
+    async upsertNumberingSeries(userId: string, series: any) {
+        const { data, error } = await this.supabase
+            .from('numbering_series')
+            .upsert([{ ...series, user_id: userId }], { onConflict: 'user_id,document_type,branch' })
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async getDocumentSequences(userId: string, financialYear: string) {
+        const { data, error } = await this.supabase
+            .from('document_sequences')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('financial_year', financialYear);
+        if (error) throw error;
+        return data;
+    }
+
+    // ============ DRAFT INVOICES ============
+    async createInvoiceDraft(userId: string, draftData: any) {
+        const { data, error } = await this.supabase
+            .from('invoice_drafts')
+            .insert([{ ...draftData, user_id: userId }])
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async getInvoiceDraft(userId: string, sessionId: string) {
+        const { data, error } = await this.supabase
+            .from('invoice_drafts')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('session_id', sessionId)
+            .maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async updateInvoiceDraft(userId: string, draftId: string, updates: any) {
+        const { data, error } = await this.supabase
+            .from('invoice_drafts')
+            .update({ ...updates, updated_at: new Date().toISOString() })
+            .eq('id', draftId)
+            .eq('user_id', userId)
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async deleteInvoiceDraft(userId: string, sessionId: string) {
+        const { error } = await this.supabase
+            .from('invoice_drafts')
+            .delete()
+            .eq('user_id', userId)
+            .eq('session_id', sessionId);
+        if (error) throw error;
+    }
+
     // ============ USER/COMMON ============
     async getUser(userId: string) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('users')
             .select('*')
             .eq('id', userId)
@@ -226,9 +543,9 @@ export class SupabaseService implements DatabaseService {
     }
 
     async updateUser(userId: string, startData: any) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('users')
-            .update(startData)
+            .update(withCheckedGSTIN(startData))
             .eq('id', userId)
             .select()
             .single();
@@ -238,35 +555,24 @@ export class SupabaseService implements DatabaseService {
 
     // ============ ANALYTICS ============
     async getDailyReport(userId: string, date: string) {
-        return {
-            date,
-            total_sales: 0,
-            total_transactions: 0,
-            total_expenses: 0,
-            top_products: []
-        };
+        const { start, end } = getDayRange(date);
+        const data = await loadAnalyticsData(this, userId, start, end);
+        return buildDailyReport(date, data);
     }
 
     async getSalesAnalytics(userId: string, period: 'week' | 'month' | 'year') {
-        return {
-            period,
-            revenue_trend: [],
-            payment_breakdown: {},
-            growth: 0
-        };
+        // Load the previous window too so growth can be computed
+        const range = getPeriodRange(period);
+        const data = await loadAnalyticsData(this, userId, range.previousStart, range.end);
+        return buildSalesAnalytics(period, data);
     }
 
     async getBusinessSummary(userId: string) {
-        return {
-            total_revenue: 0,
-            total_customers: 0,
-            total_products: 0,
-            outstanding_payments: 0
-        };
+        return buildBusinessSummary(await loadAnalyticsData(this, userId));
     }
 
     async getOutstandingPayments(userId: string) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('customers')
             .select('*')
             .eq('user_id', userId)
@@ -275,9 +581,62 @@ export class SupabaseService implements DatabaseService {
         return data;
     }
 
+    // ============ FORECASTING ============
+    async getDailySalesHistory(userId: string, productId: string, startDate: string) {
+        const { data, error } = await this.supabase
+            .from('sales_history_daily')
+            .select('date, quantity_sold')
+            .eq('user_id', userId)
+            .eq('product_id', productId)
+            .gte('date', startDate)
+            .order('date', { ascending: true });
+        if (error) throw error;
+        return data;
+    }
+
+    async getReorderRule(userId: string, productId: string) {
+        const { data, error } = await this.supabase
+            .from('reorder_rules')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('product_id', productId)
+            .maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async upsertReorderRule(userId: string, productId: string, rule: any) {
+        const { data, error } = await this.supabase
+            .from('reorder_rules')
+            .upsert({ ...rule, user_id: userId, product_id: productId })
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async createStockPrediction(userId: string, predictionData: any) {
+        const { data, error } = await this.supabase
+            .from('stock_predictions')
+            .insert([{ ...predictionData, user_id: userId }])
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async aggregateDailySales() {
+        const { error } = await this.supabase.rpc('aggregate_daily_sales');
+        if (error) throw error;
+    }
+
     // ============ EXPENSES ============
     async getExpenses(userId: string, options: any = {}) {
-        let query = supabase.from('expenses').select('*').eq('user_id', userId);
+        let query = this.supabase.from('expenses').select('*').eq('user_id', userId);
+        if (options.category) query = query.eq('category', options.category);
+        if (options.startDate) query = query.gte('date', options.startDate);
+        if (options.endDate) query = query.lte('date', options.endDate);
+        query = query.order('date', { ascending: false });
         if (options.limit) query = query.limit(options.limit);
         const { data, error } = await query;
         if (error) throw error;
@@ -285,7 +644,7 @@ export class SupabaseService implements DatabaseService {
     }
 
     async createExpense(userId: string, expenseData: any) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('expenses')
             .insert([{ ...expenseData, user_id: userId }])
             .select()
@@ -296,23 +655,96 @@ export class SupabaseService implements DatabaseService {
 
     // ============ SUPPLIERS ============
     async getSuppliers(userId: string, options: any = {}) {
-        let query = supabase.from('suppliers').select('*').eq('user_id', userId);
+        let query = this.supabase.from('suppliers').select('*').eq('user_id', userId);
         if (options.limit) query = query.limit(options.limit);
         const { data, error } = await query;
         if (error) throw error;
         return data;
     }
 
+    async getSupplier(userId: string, supplierId: string) {
+        const { data, error } = await this.supabase
+            .from('suppliers')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('id', supplierId)
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
     async createSupplier(userId: string, supplierData: any) {
-        const { data, error } = await supabase
+        const { data, error } = await this.supabase
             .from('suppliers')
-            .insert([{ ...supplierData, user_id: userId }])
+            .insert([{ ...withCheckedGSTIN(supplierData), user_id: userId }])
+            .select()
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    // ============ PURCHASE ORDERS ============
+    async getPurchaseOrders(userId: string, options: any = {}) {
+        let query = this.supabase
+            .from('purchase_orders')
+            .select('*, supplier:suppliers(id, name, phone)')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (options.status) query = query.eq('status', options.status);
+        if (options.supplierId) query = query.eq('supplier_id', options.supplierId);
+        if (options.limit) query = query.limit(options.limit);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    }
+
+    async getPurchaseOrder(userId: string, purchaseOrderId: string) {
+        const { data, error } = await this.supabase
+            .from('purchase_orders')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('id', purchaseOrderId)
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async getNextPurchaseOrderNumber(userId: string) {
+        // Drawn from the same locked sequence as invoices, so deletions and concurrent orders cannot repeat a number
+        return this.getNextInvoiceNumber(userId, 'purchase_order');
+    }
+
+    async createPurchaseOrder(userId: string, purchaseOrderData: any) {
+        const { data, error } = await this.supabase
+            .from('purchase_orders')
+            .insert([{ ...purchaseOrderData, user_id: userId }])
             .select()
             .single();
         if (error) throw error;
         return data;
     }
 
+    async updatePurchaseOrder(userId: string, purchaseOrderId: string, updates: any, expectedUpdatedAt?: string) {
+        let query = this.supabase
+            .from('purchase_orders')
+            .update(updates)
+            .eq('user_id', userId)
+            .eq('id', purchaseOrderId);
+        // The updated_at trigger moves it on every write, so a match means no other update got in first
+        if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+
+        const { data, error } = await query.select().maybeSingle();
+        if (error) throw error;
+        if (!data) {
+            throw new Error(expectedUpdatedAt
+                ? 'Purchase order was changed by another update; reload it and try again'
+                : 'Purchase order not found');
+        }
+        return data;
+    }
+
     // ============ STORAGE ============
     async uploadPDF(userId: string, fileName: string, pdfBuffer: Buffer): Promise<string> {
         const bucketName = 'pdfs';
@@ -320,9 +752,9 @@ export class SupabaseService implements DatabaseService {
 
         // Ensure bucket exists (best effort, service key usually has permission)
         try {
-            const { data: buckets } = await supabase.storage.listBuckets();
+            const { data: buckets } = await this.supabase.storage.listBuckets();
             if (!buckets?.find(b => b.name === bucketName)) {
-                await supabase.storage.createBucket(bucketName, {
+                await this.supabase.storage.createBucket(bucketName, {
                     public: true,
                     fileSizeLimit: 5242880, // 5MB
                     allowedMimeTypes: ['application/pdf']
@@ -333,7 +765,7 @@ export class SupabaseService implements DatabaseService {
             // Continue anyway, maybe it exists but we can't list
         }
 
-        const { data, error } = await supabase.storage
+        const { error } = await this.supabase.storage
             .from(bucketName)
             .upload(filePath, pdfBuffer, {
                 contentType: 'application/pdf',
@@ -345,7 +777,7 @@ export class SupabaseService implements DatabaseService {
             throw error;
         }
 
-        const { data: { publicUrl } } = supabase.storage
+        const { data: { publicUrl } } = this.supabase.storage
             .from(bucketName)
             .getPublicUrl(filePath);
 
@@ -1,13 +1,24 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+let client: SupabaseClient | null = null;
 
-if (!supabaseUrl || !supabaseKey) {
-    throw new Error('Missing Supabase environment variables');
-}
+/**
+ * Get the shared Supabase client, creating it on first use.
+ * Created lazily so the in-memory backend can start without Supabase credentials.
+ */
+export function getSupabaseClient(): SupabaseClient {
+    if (!client) {
+        const supabaseUrl = process.env.SUPABASE_URL;
+        const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error('Missing Supabase environment variables');
+        }
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+        client = createClient(supabaseUrl, supabaseKey);
+    }
+    return client;
+}
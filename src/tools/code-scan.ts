@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// ============================================
+// CODE SCANNING TOOLS
+// Reading payment QRs and product barcodes from photos
+// ============================================
+
+/**
+ * Decode every QR code and barcode in an image
+ * UPI payloads are parsed; product barcodes are looked up in the user's inventory
+ */
+export const scanQRImageSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  image_url: z.string().url().optional().describe('Supabase Storage URL or public URL of the image'),
+  image_base64: z.string().optional().describe('Base64 encoded image, with or without a data: prefix'),
+}).refine(
+  (data) => data.image_url || data.image_base64,
+  { message: 'Either image_url or image_base64 must be provided' }
+);
+
+// Type exports
+export type ScanQRImageInput = z.infer<typeof scanQRImageSchema>;
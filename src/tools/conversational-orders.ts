@@ -27,7 +27,8 @@ export const addInvoiceItemSchema = z.object({
   product_name: z.string().describe('Product name (for fuzzy search if product_id not provided)'),
   quantity: z.number().describe('Quantity to add'),
   unit_price: z.number().optional().describe('Override price (uses product price if not provided)'),
-  gst_rate: z.number().optional().default(18).describe('GST rate percentage'),
+  price_includes_tax: z.boolean().optional().describe('The price includes GST; defaults to the product\'s setting'),
+  gst_rate: z.number().optional().describe('GST rate percentage; defaults to the product\'s, or 18'),
 });
 
 /**
@@ -73,6 +74,7 @@ export const finalizeDraftInvoiceSchema = z.object({
   customer_phone: z.string().optional().describe('Customer phone number'),
   payment_method: z.enum(['Cash', 'UPI', 'Credit', 'Card']).default('Cash'),
   notes: z.string().optional().describe('Invoice notes'),
+  branch: z.string().optional().describe('Branch code for the numbering series'),
 });
 
 /**
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// ============================================
+// E-INVOICE TOOLS
+// Invoice registration with the IRP (NIC e-invoice system)
+// ============================================
+
+/**
+ * IRN details as returned by the IRP, entered from the portal or a GSP
+ */
+export const irnResponseSchema = z.object({
+  irn: z.string().describe('64-character Invoice Reference Number'),
+  ack_number: z.string().describe('Acknowledgement number'),
+  ack_date: z.string().describe('Acknowledgement date and time'),
+  signed_qr_code: z.string().describe('Signed QR code (JWT) to print on the invoice'),
+});
+
+/**
+ * INV-01 payload for an invoice or credit note, optionally registered to get its IRN
+ */
+export const generateEInvoiceJSONSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  invoice_id: z.string().describe('Tax invoice or credit note to e-invoice'),
+  register: z.boolean().optional().default(false).describe('Send the payload to the configured IRN provider and save the IRN it returns'),
+  irn_response: irnResponseSchema.optional().describe('IRN details already obtained from the portal, to save on the invoice'),
+}).refine((data) => !(data.register && data.irn_response), {
+  message: 'Use either register or irn_response, not both',
+});
+
+// Type exports
+export type IRNResponseInput = z.infer<typeof irnResponseSchema>;
+export type GenerateEInvoiceJSONInput = z.infer<typeof generateEInvoiceJSONSchema>;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { transportDetailsSchema } from './index.js';
+
+// ============================================
+// E-WAY BILL TOOLS
+// Movement of goods under GST (NIC e-way bill system)
+// ============================================
+
+/**
+ * E-way bill JSON for a tax invoice or delivery challan; transport details given here are saved on the document first
+ */
+export const generateEWayBillJSONSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  invoice_id: z.string().describe('Tax invoice or delivery challan the goods move under'),
+  ...transportDetailsSchema.shape,
+  sub_supply_type: z.enum([
+    'supply',
+    'export',
+    'job_work',
+    'own_use',
+    'others',
+    'skd_ckd',
+    'line_sales',
+    'recipient_not_known',
+    'exhibition',
+  ]).optional().default('supply').describe('Reason for the movement'),
+  sub_supply_description: z.string().max(20).optional().describe('Reason when sub_supply_type is "others"'),
+  eway_bill_number: z.string().regex(/^\d{12}$/, 'E-way bill number must be 12 digits').optional()
+    .describe('E-way bill number issued by the portal, to save on the document'),
+  eway_bill_date: z.string().optional().describe('Date the e-way bill was generated (defaults to now)'),
+});
+
+// Type exports
+export type GenerateEWayBillJSONInput = z.infer<typeof generateEWayBillJSONSchema>;
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+// ============================================
+// GST RETURN TOOLS
+// Return data in the GST portal offline-tool formats
+// ============================================
+
+/**
+ * GSTR-1 (outward supplies) for a month, or for a quarter under QRMP
+ */
+export const generateGSTR1Schema = z.object({
+  user_id: z.string().describe('The user ID'),
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Use YYYY-MM').describe('Return month (YYYY-MM); for quarterly returns the last month of the quarter'),
+  frequency: z.enum(['monthly', 'quarterly']).default('monthly').describe('Filing frequency'),
+});
+
+/**
+ * GSTR-3B summary: outward tax less input tax credit, for a month or a QRMP quarter
+ */
+export const generateGSTR3BSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Use YYYY-MM').describe('Return month (YYYY-MM); for quarterly returns the last month of the quarter'),
+  frequency: z.enum(['monthly', 'quarterly']).default('monthly').describe('Filing frequency'),
+});
+
+/**
+ * CMP-08 statement for a composition dealer's quarter
+ */
+export const generateCMP08Schema = z.object({
+  user_id: z.string().describe('The user ID'),
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Use YYYY-MM').describe('Last month of the quarter (YYYY-MM): June, September, December or March'),
+});
+
+// Type exports
+export type GenerateGSTR1Input = z.infer<typeof generateGSTR1Schema>;
+export type GenerateGSTR3BInput = z.infer<typeof generateGSTR3BSchema>;
+export type GenerateCMP08Input = z.infer<typeof generateCMP08Schema>;
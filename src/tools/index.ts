@@ -21,13 +21,16 @@ export const createProductSchema = z.object({
   hindi_name: z.string().optional().describe('Product name in Hindi'),
   category: z.string().describe('Product category'),
   price: z.number().describe('Selling price'),
+  price_includes_tax: z.boolean().optional().describe('The selling price includes GST (MRP-style)'),
   cost_price: z.number().optional().describe('Cost/purchase price'),
   quantity: z.number().describe('Current stock quantity'),
   unit: z.string().default('pcs').describe('Unit of measurement (pcs, kg, L, etc.)'),
   low_stock_threshold: z.number().default(10).describe('Alert when stock falls below this'),
   barcode: z.string().optional().describe('Barcode/SKU'),
-  hsn_code: z.string().optional().describe('HSN code for GST'),
-  gst_rate: z.number().default(18).describe('GST rate percentage'),
+  hsn_code: z.string().optional().describe('HSN code for goods or SAC code for services (4, 6 or 8 digits)'),
+  gst_rate: z.number().optional().describe('GST rate percentage; defaults to the HSN rate, else 18'),
+  cess_rate: z.number().min(0).optional().describe('Compensation cess percentage; defaults to the HSN cess'),
+  cess_per_unit: z.number().min(0).optional().describe('Specific cess in rupees per unit sold'),
 });
 
 export const updateStockSchema = z.object({
@@ -35,6 +38,17 @@ export const updateStockSchema = z.object({
   product_id: z.string().describe('The product ID'),
   quantity: z.number().describe('Quantity to add/subtract/set'),
   operation: z.enum(['add', 'subtract', 'set']).describe('Operation type'),
+  reason: z.enum(['sale', 'purchase', 'adjustment', 'return', 'damage']).default('adjustment').describe('Why the stock changed'),
+  notes: z.string().optional().describe('Note recorded in the stock history'),
+});
+
+export const getStockHistorySchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  product_id: z.string().describe('The product ID'),
+  reason: z.enum(['sale', 'purchase', 'adjustment', 'return', 'damage']).optional(),
+  start_date: z.string().optional(),
+  end_date: z.string().optional(),
+  limit: z.number().optional().default(100),
 });
 
 export const getInventoryAlertsSchema = z.object({
@@ -54,6 +68,10 @@ export const getCustomerSchema = z.object({
   customer_id: z.string().describe('The customer ID'),
 });
 
+// Udyam registration of a micro, small or medium enterprise, e.g. UDYAM-MH-26-0012345
+const udyamNumberSchema = z.string().trim().toUpperCase()
+  .regex(/^UDYAM-[A-Z]{2}-\d{2}-\d{7}$/, 'Udyam numbers look like UDYAM-MH-26-0012345');
+
 export const createCustomerSchema = z.object({
   user_id: z.string().describe('The user ID'),
   name: z.string().describe('Customer name'),
@@ -62,6 +80,9 @@ export const createCustomerSchema = z.object({
   address: z.string().optional().describe('Address'),
   gst_number: z.string().optional().describe('GST number if registered'),
   credit_limit: z.number().optional().describe('Credit limit for the customer'),
+  tcs_rate: z.number().min(0).max(5).optional().describe('TCS percentage collected on every sale to this customer'),
+  udyam_number: udyamNumberSchema.optional().describe('Udyam registration number if the customer is an MSME'),
+  upi_id: z.string().optional().describe('VPA the customer pays from, for matching statement credits'),
 });
 
 export const updateCustomerBalanceSchema = z.object({
@@ -98,8 +119,8 @@ export const createTransactionSchema = z.object({
 
 export const getInvoicesSchema = z.object({
   user_id: z.string().describe('The user ID'),
-  status: z.enum(['draft', 'sent', 'paid', 'partial', 'overdue', 'cancelled']).optional(),
-  type: z.enum(['invoice', 'quotation', 'proforma', 'delivery_challan']).optional(),
+  status: z.enum(['draft', 'sent', 'accepted', 'paid', 'partial', 'overdue', 'cancelled']).optional(),
+  type: z.enum(['invoice', 'quotation', 'proforma', 'delivery_challan', 'credit_note']).optional(),
   customer_id: z.string().optional(),
   start_date: z.string().optional(),
   end_date: z.string().optional(),
@@ -111,6 +132,17 @@ export const getInvoiceSchema = z.object({
   invoice_id: z.string().describe('The invoice ID'),
 });
 
+// How the goods travel; printed on the document and used for its e-way bill
+export const transportDetailsSchema = z.object({
+  transport_mode: z.enum(['road', 'rail', 'air', 'ship']).optional().describe('Mode of transport'),
+  transport_distance_km: z.number().int().min(0).max(4000).optional().describe('Approximate distance in km; 0 lets the e-way bill portal work it out from the PIN codes'),
+  transporter_name: z.string().optional().describe('Transporter name'),
+  transporter_id: z.string().optional().describe('Transporter GSTIN or TRANSIN'),
+  vehicle_number: z.string().optional().describe('Vehicle registration number, e.g. MH12AB1234'),
+  transport_doc_number: z.string().optional().describe('Lorry receipt, railway receipt, airway bill or bill of lading number'),
+  transport_doc_date: z.string().optional().describe('Date of the transport document (YYYY-MM-DD)'),
+});
+
 export const createInvoiceSchema = z.object({
   user_id: z.string().describe('The user ID'),
   customer_id: z.string().optional().describe('Customer ID'),
@@ -122,20 +154,72 @@ export const createInvoiceSchema = z.object({
     quantity: z.number(),
     unit: z.string().default('pcs'),
     unit_price: z.number(),
+    price_includes_tax: z.boolean().optional().describe('unit_price includes GST; defaults to the product\'s setting'),
     discount: z.number().default(0).describe('Discount percentage'),
     gst_rate: z.number().default(18),
+    cess_rate: z.number().min(0).optional().describe('Compensation cess percentage; defaults to the product\'s'),
+    cess_per_unit: z.number().min(0).optional().describe('Specific cess in rupees per unit; defaults to the product\'s'),
   })),
   discount_amount: z.number().optional().default(0),
   discount_type: z.enum(['percentage', 'fixed']).default('fixed'),
   due_date: z.string().optional().describe('Due date (ISO format)'),
   notes: z.string().optional(),
   terms: z.string().optional(),
+  deduct_stock: z.boolean().default(false).describe('Deduct item quantities from stock'),
+  branch: z.string().optional().describe('Branch code for the numbering series'),
+  place_of_supply: z.string().optional().describe('State name or GST state code; defaults to the customer\'s state'),
+  reverse_charge: z.boolean().optional().describe('The customer pays the GST under reverse charge'),
+  tcs_rate: z.number().min(0).max(5).optional().describe('TCS percentage; defaults to the customer\'s'),
+  ...transportDetailsSchema.shape,
 });
 
 export const updateInvoiceStatusSchema = z.object({
   user_id: z.string().describe('The user ID'),
   invoice_id: z.string().describe('The invoice ID'),
-  status: z.enum(['draft', 'sent', 'paid', 'partial', 'overdue', 'cancelled']),
+  status: z.enum(['draft', 'sent', 'accepted', 'paid', 'partial', 'overdue', 'cancelled']),
+  payment_type: z.enum(['cash', 'upi', 'bank_transfer', 'cheque']).optional().default('cash').describe('How the balance was paid, when marking paid'),
+});
+
+export const recordInvoicePaymentSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  invoice_id: z.string().optional().describe('Invoice being paid'),
+  customer_id: z.string().optional().describe('Customer paying several invoices'),
+  amount: z.number().positive().describe('Amount received'),
+  payment_type: z.enum(['cash', 'upi', 'bank_transfer', 'cheque']),
+  allocations: z.array(z.object({
+    invoice_id: z.string(),
+    amount: z.number().positive(),
+  })).optional().describe('Split across invoices; must add up to amount'),
+  upi_transaction_id: z.string().optional(),
+  notes: z.string().optional(),
+}).refine((data) => data.invoice_id || data.customer_id, {
+  message: 'Either invoice_id or customer_id is required',
+});
+
+export const convertDocumentSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  document_id: z.string().describe('Quotation, proforma or invoice to convert'),
+  target_type: z.enum(['proforma', 'invoice', 'delivery_challan']).describe('Document to create'),
+  status: z.enum(['draft', 'sent']).default('draft').describe('Status of the new document'),
+  due_date: z.string().optional().describe('Due date (ISO format)'),
+  notes: z.string().optional().describe('Notes (defaults to the source document notes)'),
+  deduct_stock: z.boolean().default(false).describe('Deduct item quantities from stock when creating a tax invoice'),
+});
+
+export const createSalesReturnSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  invoice_id: z.string().describe('Invoice the goods were sold on'),
+  items: z.array(z.object({
+    product_id: z.string().optional(),
+    name: z.string().optional(),
+    quantity: z.number().positive(),
+  }).refine((item) => item.product_id || item.name, {
+    message: 'Each returned item needs a product_id or name',
+  })).optional().describe('Items returned; omit to return the whole invoice'),
+  restock: z.boolean().default(true).describe('Put returned goods back into stock'),
+  settlement: z.enum(['adjust_balance', 'refund']).optional().describe('Credit the customer account or refund the money'),
+  refund_payment_type: z.enum(['cash', 'upi', 'bank_transfer', 'cheque']).default('cash'),
+  reason: z.string().optional().describe('Reason for the return'),
 });
 
 export const generateInvoicePDFSchema = z.object({
@@ -152,10 +236,20 @@ export const generateUPIQRSchema = z.object({
   amount: z.number().describe('Amount to receive'),
   transaction_note: z.string().optional().describe('Payment description'),
   transaction_ref: z.string().optional().describe('Reference ID (invoice number, etc.)'),
+  merchant_code: z.string().regex(/^\d{4}$/, 'Merchant category code is 4 digits').optional().describe('Merchant category code (mc)'),
+  transaction_id: z.string().optional().describe('PSP transaction ID (tid)'),
+  url: z.string().url().optional().describe('Reference link shown in the UPI app (url)'),
+  min_amount: z.number().positive().optional().describe('Minimum amount the payer may enter (mam)'),
+  mode: z.string().regex(/^\d{2}$/, 'Mode is a 2-digit code').optional().describe('Initiation mode (mode), e.g. 01 for static QR'),
+  org_id: z.string().optional().describe('Organisation ID (orgid)'),
+  sign: z.string().optional().describe('Signature from your PSP over the other parameters (sign)'),
+  merchant_city: z.string().optional().describe('City, for BharatQR'),
+  postal_code: z.string().optional().describe('PIN code, for BharatQR'),
+  format: z.enum(['upi', 'bharatqr']).optional().default('upi').describe('upi://pay link, or a BharatQR (EMVCo) payload'),
 });
 
 export const parseUPIQRSchema = z.object({
-  qr_string: z.string().describe('The UPI QR string to parse'),
+  qr_string: z.string().describe('The UPI QR string to parse: upi://pay?... or a BharatQR payload'),
 });
 
 export const validateUPIIdSchema = z.object({
@@ -169,6 +263,8 @@ export const shareInvoiceWhatsAppSchema = z.object({
   invoice_id: z.string().describe('The invoice ID to share'),
   phone: z.string().describe('Phone number to send to'),
   include_image: z.boolean().optional().default(true).describe('Include invoice image'),
+  include_payment_link: z.boolean().optional().default(true).describe('Link to a payment page instead of showing the bare UPI ID'),
+  send: z.boolean().optional().default(false).describe('Send through the configured messaging provider instead of only returning a wa.me link'),
 });
 
 export const sendPaymentReminderSchema = z.object({
@@ -178,6 +274,13 @@ export const sendPaymentReminderSchema = z.object({
   phone: z.string().describe('Customer phone number'),
   due_date: z.string().optional().describe('Due date'),
   upi_id: z.string().optional().describe('UPI ID for payment'),
+  user_id: z.string().optional().describe('The user ID; with invoice_id, adds a payment link'),
+  invoice_id: z.string().optional().describe('Invoice the reminder is for; with user_id, adds a payment link'),
+  send: z.boolean().optional().default(false).describe('Send through the configured messaging provider instead of only returning a wa.me link'),
+}).refine((data) => !data.invoice_id || data.user_id, {
+  message: 'A payment link needs the user_id along with the invoice_id',
+}).refine((data) => !data.send || data.user_id, {
+  message: 'Sending a reminder needs the user_id it is sent for',
 });
 
 export const sendOrderConfirmationSchema = z.object({
@@ -210,6 +313,10 @@ export const calculateGSTSchema = z.object({
   base_amount: z.number().describe('Amount before GST'),
   gst_rate: z.number().describe('GST rate (e.g., 18 for 18%)'),
   is_interstate: z.boolean().optional().default(false).describe('Is the transaction interstate?'),
+  cess_rate: z.number().min(0).optional().describe('Compensation cess percentage'),
+  cess_per_unit: z.number().min(0).optional().describe('Specific cess in rupees per unit'),
+  quantity: z.number().optional().default(1).describe('Units the specific cess is charged on'),
+  reverse_charge: z.boolean().optional().default(false).describe('The recipient pays the tax under reverse charge'),
 });
 
 export const calculateGSTInclusiveSchema = z.object({
@@ -218,7 +325,17 @@ export const calculateGSTInclusiveSchema = z.object({
 });
 
 export const suggestGSTRateSchema = z.object({
-  category: z.string().describe('Product category'),
+  category: z.string().optional().describe('Product category'),
+  hsn_code: z.string().optional().describe('HSN/SAC code; takes precedence over name and category'),
+  name: z.string().optional().describe('Product or service name, matched against HSN keywords'),
+  price: z.number().optional().describe('Selling price per piece, for items whose rate depends on value'),
+}).refine((data) => data.category || data.hsn_code || data.name, {
+  message: 'One of category, hsn_code or name is required',
+});
+
+export const lookupHSNSchema = z.object({
+  query: z.string().min(1).describe('HSN/SAC code (or its first digits) or keywords such as "ghee" or "courier"'),
+  limit: z.number().int().positive().max(50).optional().default(10).describe('Maximum number of matches'),
 });
 
 export const validateGSTINSchema = z.object({
@@ -254,6 +371,15 @@ export const createExpenseSchema = z.object({
   description: z.string().describe('Expense description'),
   payment_type: z.enum(['cash', 'upi', 'bank_transfer', 'cheque']),
   date: z.string().describe('Expense date (YYYY-MM-DD)'),
+  supplier_gstin: z.string().optional().describe('GSTIN on the bill; needed to claim input tax credit'),
+  gst_rate: z.number().optional().describe('GST rate included in the amount, to split the tax out'),
+  taxable_value: z.number().optional().describe('Taxable value as printed on the bill'),
+  cgst_amount: z.number().optional(),
+  sgst_amount: z.number().optional(),
+  igst_amount: z.number().optional(),
+  cess_amount: z.number().optional(),
+  reverse_charge: z.boolean().default(false).describe('No GST on the bill: we pay it under reverse charge at gst_rate on the amount'),
+  itc_eligible: z.boolean().default(true).describe('False for blocked credit such as food or personal use'),
 });
 
 // ============ SUPPLIER TOOLS ============
@@ -272,7 +398,8 @@ export const createSupplierSchema = z.object({
   email: z.string().optional(),
   address: z.string().optional(),
   gst_number: z.string().optional(),
-  payment_terms: z.string().optional(),
+  payment_terms: z.string().optional().describe('Credit terms such as "Net 30"; the agreed period for MSME payment deadlines'),
+  udyam_number: udyamNumberSchema.optional().describe('Udyam registration number if the supplier is an MSME'),
 });
 
 // ============ USER TOOLS ============
@@ -290,6 +417,8 @@ export const updateUserSchema = z.object({
   email: z.string().optional(),
   address: z.string().optional(),
   gst_number: z.string().optional(),
+  gst_scheme: z.enum(['regular', 'composition', 'unregistered']).optional().describe('GST registration: regular, composition or unregistered'),
+  composition_category: z.enum(['trader', 'manufacturer', 'restaurant', 'services']).optional().describe('Composition category, which sets the tax rate on turnover'),
   language: z.enum(['en', 'hi', 'hinglish']).optional(),
 });
 
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// ============================================
+// MESSAGING TOOLS
+// WhatsApp messages sent through the configured provider, and their delivery status
+// ============================================
+
+/**
+ * Send an approved WhatsApp template, optionally with an invoice PDF as its document header
+ * Templates are the only messages delivered outside the 24-hour customer service window
+ */
+export const sendWhatsAppTemplateSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  phone: z.string().describe('Recipient phone number'),
+  template_name: z.string().describe('Approved template name'),
+  language: z.string().optional().default('en').describe('Template language code (e.g. en, hi)'),
+  parameters: z.array(z.string()).optional().default([]).describe('Values for the body placeholders {{1}}, {{2}}, ... in order'),
+  invoice_id: z.string().optional().describe('Invoice whose PDF fills the template\'s document header'),
+});
+
+/**
+ * List sent messages with their delivery status
+ */
+export const getWhatsAppMessagesSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  invoice_id: z.string().optional().describe('Only messages about this invoice'),
+  status: z.enum(['accepted', 'sent', 'delivered', 'read', 'failed']).optional(),
+  limit: z.number().optional().default(50),
+});
+
+// Type exports
+export type SendWhatsAppTemplateInput = z.infer<typeof sendWhatsAppTemplateSchema>;
+export type GetWhatsAppMessagesInput = z.infer<typeof getWhatsAppMessagesSchema>;
@@ -44,6 +44,18 @@ export const getPendingPaymentsSchema = z.object({
   sort_by: z.enum(['amount', 'date', 'customer']).default('date').describe('Sort results by'),
 });
 
+/**
+ * MSMED Act payment compliance for dues to and from MSMEs
+ * Flags amounts unpaid past 15/45 days with section 16 interest at three times the RBI bank rate
+ */
+export const getMSMEPaymentComplianceSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  side: z.enum(['receivables', 'payables', 'all']).default('all').describe('receivables: customer invoices; payables: bills of MSME suppliers'),
+  bank_rate: z.number().positive().optional().describe('RBI bank rate in per cent'),
+  as_of: z.string().optional().describe('Date to assess on (YYYY-MM-DD, default today)'),
+  include_within_limit: z.boolean().default(false).describe('Also list dues still within their limit'),
+});
+
 /**
  * Get customer behavior insights
  * Returns: top customers, purchase frequency, average order value
@@ -76,6 +88,7 @@ export type ForecastInventoryInput = z.infer<typeof forecastInventorySchema>;
 export type GetInventoryAlertsNewInput = z.infer<typeof getInventoryAlertsNewSchema>;
 export type AnalyzeProfitMarginsInput = z.infer<typeof analyzeProfitMarginsSchema>;
 export type GetPendingPaymentsInput = z.infer<typeof getPendingPaymentsSchema>;
+export type GetMSMEPaymentComplianceInput = z.infer<typeof getMSMEPaymentComplianceSchema>;
 export type GetCustomerInsightsInput = z.infer<typeof getCustomerInsightsSchema>;
 export type QuickBusinessSnapshotInput = z.infer<typeof quickBusinessSnapshotSchema>;
 export type SuggestReorderInput = z.infer<typeof suggestReorderSchema>;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// ============================================
+// NUMBERING SERIES TOOLS
+// Document number prefixes per document type and branch
+// ============================================
+
+const documentTypeSchema = z.enum(['invoice', 'quotation', 'proforma', 'delivery_challan', 'credit_note', 'purchase_order']);
+
+/**
+ * List the numbering series in use with the next number each will issue
+ */
+export const getNumberingSeriesSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+});
+
+/**
+ * Set the prefix (and padding) for a document type, optionally for one branch
+ */
+export const configureNumberingSeriesSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  document_type: documentTypeSchema,
+  branch: z.string().regex(/^[A-Za-z0-9-]*$/, 'Branch codes may only contain letters, digits and "-"').default('')
+    .describe('Branch code; omit for the default series'),
+  prefix: z.string().min(1).regex(/^[A-Za-z0-9-]+$/, 'Prefixes may only contain letters, digits and "-"')
+    .describe('Number prefix, e.g. INV or MUM-INV'),
+  padding: z.number().int().min(1).max(8).default(4).describe('Digits in the running number'),
+});
+
+// Type exports
+export type GetNumberingSeriesInput = z.infer<typeof getNumberingSeriesSchema>;
+export type ConfigureNumberingSeriesInput = z.infer<typeof configureNumberingSeriesSchema>;
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// ============================================
+// PAYMENT LINK TOOLS
+// Expiring per-invoice UPI payment pages
+// ============================================
+
+/**
+ * Create a payment page for an invoice, or return the one already active
+ */
+export const createPaymentLinkSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  invoice_id: z.string().describe('Invoice to collect payment for'),
+  expires_in_hours: z.number().int().min(1).max(24 * 30).optional().default(72)
+    .describe('Hours until the link stops working (default 72)'),
+});
+
+// Type exports
+export type CreatePaymentLinkInput = z.infer<typeof createPaymentLinkSchema>;
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+// ============================================
+// PAYMENT RECONCILIATION TOOLS
+// Matching bank and UPI statement credits to open invoices
+// ============================================
+
+/**
+ * Import a bank or PSP statement and record the credits that match an invoice
+ * Credits that cannot be matched with confidence go to the review queue
+ */
+export const importPaymentStatementSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  content: z.string().min(1).describe('Statement file contents: CSV, tab-separated text saved from Excel, or MT940'),
+  format: z.enum(['auto', 'csv', 'mt940']).default('auto').describe('File format; auto detects MT940 by its tags'),
+});
+
+/**
+ * List statement credits waiting for a decision
+ */
+export const getPaymentReviewQueueSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  status: z.enum(['pending', 'matched', 'dismissed', 'all']).default('pending'),
+  limit: z.number().optional().default(50),
+});
+
+/**
+ * Settle a queued credit against an invoice or a customer, or dismiss it
+ */
+export const resolvePaymentReviewSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  review_id: z.string().describe('Review queue entry ID'),
+  action: z.enum(['match', 'dismiss']),
+  invoice_id: z.string().optional().describe('Invoice the credit pays'),
+  customer_id: z.string().optional().describe('Customer whose oldest open invoices the credit settles'),
+  notes: z.string().optional(),
+}).refine((data) => data.action !== 'match' || data.invoice_id || data.customer_id, {
+  message: 'Matching needs an invoice_id or customer_id',
+});
+
+// Type exports
+export type ImportPaymentStatementInput = z.infer<typeof importPaymentStatementSchema>;
+export type GetPaymentReviewQueueInput = z.infer<typeof getPaymentReviewQueueSchema>;
+export type ResolvePaymentReviewInput = z.infer<typeof resolvePaymentReviewSchema>;
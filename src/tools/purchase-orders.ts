@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+// ============================================
+// PURCHASE ORDER TOOLS
+// Supplier orders from draft through goods receipt
+// ============================================
+
+const purchaseOrderItemSchema = z.object({
+  product_id: z.string().optional().describe('Inventory product ID (required for stock to be added on receipt)'),
+  name: z.string().describe('Item name'),
+  quantity: z.number().positive().describe('Quantity ordered'),
+  unit: z.string().default('pcs'),
+  unit_price: z.number().describe('Purchase price per unit'),
+  gst_rate: z.number().default(18).describe('GST rate percentage'),
+  cess_rate: z.number().min(0).optional().describe('Compensation cess percentage'),
+});
+
+/**
+ * Create a purchase order for a supplier
+ */
+export const createPurchaseOrderSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  supplier_id: z.string().describe('Supplier ID'),
+  items: z.array(purchaseOrderItemSchema).min(1),
+  expected_date: z.string().optional().describe('Expected delivery date (YYYY-MM-DD)'),
+  notes: z.string().optional(),
+  status: z.enum(['draft', 'sent']).default('draft'),
+  reverse_charge: z.boolean().default(false).describe('We pay the GST to the government instead of the supplier'),
+});
+
+/**
+ * List purchase orders, optionally by status or supplier
+ */
+export const getPurchaseOrdersSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  status: z.enum(['draft', 'sent', 'confirmed', 'partially_received', 'received', 'cancelled']).optional(),
+  supplier_id: z.string().optional(),
+  limit: z.number().optional().default(50),
+});
+
+/**
+ * Move a purchase order through its lifecycle, or record that the supplier has been paid
+ * Setting status to "received" receives all outstanding quantities
+ */
+export const updatePurchaseOrderStatusSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  purchase_order_id: z.string().describe('Purchase order ID'),
+  status: z.enum(['draft', 'sent', 'confirmed', 'received', 'cancelled']).optional(),
+  paid_at: z.string().optional().describe('Date the supplier was paid in full (YYYY-MM-DD)'),
+}).refine((input) => input.status || input.paid_at, { message: 'Provide a status or paid_at' });
+
+/**
+ * Record goods received against a purchase order and add them to stock
+ * Omit items to receive everything still outstanding
+ */
+export const receivePurchaseOrderSchema = z.object({
+  user_id: z.string().describe('The user ID'),
+  purchase_order_id: z.string().describe('Purchase order ID'),
+  items: z.array(z.object({
+    product_id: z.string().optional().describe('Product ID of the line'),
+    name: z.string().optional().describe('Line item name (if no product ID)'),
+    quantity: z.number().positive().describe('Quantity received now'),
+  })).optional().describe('Lines received; omit to receive all outstanding quantities'),
+  supplier_invoice_number: z.string().optional().describe("Supplier's tax invoice number for the goods"),
+  supplier_invoice_date: z.string().optional().describe("Supplier's invoice date (YYYY-MM-DD); input tax credit is claimed in its period"),
+  notes: z.string().optional(),
+});
+
+// Type exports
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+export type GetPurchaseOrdersInput = z.infer<typeof getPurchaseOrdersSchema>;
+export type UpdatePurchaseOrderStatusInput = z.infer<typeof updatePurchaseOrderStatusSchema>;
+export type ReceivePurchaseOrderInput = z.infer<typeof receivePurchaseOrderSchema>;
@@ -9,12 +9,21 @@ export interface User {
   email?: string;
   address?: string;
   gst_number?: string;
+  // How the business is registered under GST; absent means regular
+  gst_scheme?: GSTScheme;
+  // Decides the composition tax rate
+  composition_category?: CompositionCategory;
   avatar_url?: string;
   language: 'en' | 'hi' | 'hinglish';
   created_at: string;
   updated_at: string;
 }
 
+// regular: charges GST on tax invoices; composition: pays tax on turnover and issues bills of supply; unregistered: plain bills
+export type GSTScheme = 'regular' | 'composition' | 'unregistered';
+
+export type CompositionCategory = 'trader' | 'manufacturer' | 'restaurant' | 'services';
+
 export interface Product {
   id: string;
   user_id: string;
@@ -22,6 +31,8 @@ export interface Product {
   hindi_name?: string;
   category: string;
   price: number;
+  // The price is what the customer pays, GST included (MRP-style)
+  price_includes_tax?: boolean;
   cost_price?: number;
   quantity: number;
   unit: string;
@@ -29,11 +40,37 @@ export interface Product {
   barcode?: string;
   hsn_code?: string;
   gst_rate: number;
+  // Compensation cess: percentage of taxable value, and rupees per unit sold
+  cess_rate?: number;
+  cess_per_unit?: number;
   image_url?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type StockMovementReason = 'sale' | 'purchase' | 'adjustment' | 'return' | 'damage';
+
+export interface StockMovement {
+  id: string;
+  user_id: string;
+  product_id: string;
+  reason: StockMovementReason;
+  quantity_change: number;
+  quantity_after: number;
+  reference_type?: string;
+  reference_id?: string;
+  notes?: string;
+  created_at: string;
+}
+
+// Why a stock change happened, recorded alongside it in the ledger
+export interface StockMovementDetails {
+  reason: StockMovementReason;
+  reference_type?: string;
+  reference_id?: string;
+  notes?: string;
+}
+
 export interface Transaction {
   id: string;
   user_id: string;
@@ -48,6 +85,51 @@ export interface Transaction {
   updated_at: string;
 }
 
+// Public page at /pay/:token where a customer pays one invoice by UPI
+export interface PaymentLink {
+  id: string;
+  user_id: string;
+  // Random URL-safe token; the only thing the customer's link reveals
+  token: string;
+  invoice_id: string;
+  expires_at: string;
+  // Active until it expires, the invoice is paid or it is cancelled
+  status: 'active' | 'paid' | 'expired' | 'cancelled';
+  last_viewed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A statement credit that could not be matched to an invoice on its own
+export interface PaymentReview {
+  id: string;
+  user_id: string;
+  // UTR/RRN or bank reference; a credit is only ever imported once
+  reference: string;
+  amount: number;
+  value_date?: string;
+  payer_name?: string;
+  payer_vpa?: string;
+  narration: string;
+  reason: string;
+  // Open invoices the credit may belong to, best first
+  candidates: PaymentReviewCandidate[];
+  status: 'pending' | 'matched' | 'dismissed';
+  // Transactions recorded when it was matched
+  transaction_ids?: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentReviewCandidate {
+  invoice_id: string;
+  invoice_number: string;
+  customer_id?: string;
+  customer_name?: string;
+  balance_due: number;
+  matched_on: ('reference' | 'amount' | 'payer_vpa')[];
+}
+
 export interface Customer {
   id: string;
   user_id: string;
@@ -57,6 +139,12 @@ export interface Customer {
   address?: string;
   gst_number?: string;
   credit_limit?: number;
+  // TCS collected on every sale to this customer, as a percentage of the amount billed
+  tcs_rate?: number;
+  // Udyam registration if the customer is itself an MSME
+  udyam_number?: string;
+  // VPA the customer pays from; statement credits from it are matched to their invoices
+  upi_id?: string;
   outstanding_balance: number;
   created_at: string;
   updated_at: string;
@@ -66,31 +154,96 @@ export interface Invoice {
   id: string;
   user_id: string;
   customer_id?: string;
+  customer_name?: string;
+  customer_phone?: string;
   invoice_number: string;
-  invoice_type: 'invoice' | 'quotation' | 'proforma' | 'delivery_challan';
+  invoice_type: 'invoice' | 'quotation' | 'proforma' | 'delivery_challan' | 'credit_note';
+  // Invoice a credit note was issued against
+  original_invoice_id?: string;
+  // Quotation, proforma or invoice this document was converted from
+  source_document_id?: string;
+  // Branch whose numbering series issued the number
+  branch?: string;
+  // GST state code where the supply is made
+  place_of_supply?: string;
+  // IGST applies when the place of supply is outside the seller's state
+  is_interstate: boolean;
+  // Seller's GST scheme when the document was issued; absent on documents issued before schemes were recorded (regular)
+  seller_scheme?: GSTScheme;
   items: InvoiceItem[];
   subtotal: number;
   discount_amount: number;
   discount_type: 'percentage' | 'fixed';
   tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  // Compensation cess; included in tax_amount
+  cess_amount?: number;
+  // Tax payable by the recipient (section 9(3)/9(4)); it is shown but not included in the total
+  reverse_charge?: boolean;
+  // Tax collected at source, added to the total
+  tcs_rate?: number;
+  tcs_amount?: number;
   total: number;
-  status: 'draft' | 'sent' | 'paid' | 'partial' | 'overdue' | 'cancelled';
+  amount_paid: number;
+  balance_due: number;
+  status: 'draft' | 'sent' | 'accepted' | 'paid' | 'partial' | 'overdue' | 'cancelled';
   due_date?: string;
   notes?: string;
   terms?: string;
+  // E-invoice registration: Invoice Reference Number, IRP acknowledgement and the signed QR code to print
+  irn?: string;
+  irn_ack_number?: string;
+  irn_ack_date?: string;
+  irn_signed_qr?: string;
+  // Movement of the goods, for the e-way bill
+  transport_mode?: 'road' | 'rail' | 'air' | 'ship';
+  transport_distance_km?: number;
+  transporter_name?: string;
+  // Transporter's GSTIN or TRANSIN
+  transporter_id?: string;
+  vehicle_number?: string;
+  // Lorry receipt, railway receipt, airway bill or bill of lading
+  transport_doc_number?: string;
+  transport_doc_date?: string;
+  eway_bill_number?: string;
+  eway_bill_date?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type TransportDetails = Pick<
+  Invoice,
+  | 'transport_mode'
+  | 'transport_distance_km'
+  | 'transporter_name'
+  | 'transporter_id'
+  | 'vehicle_number'
+  | 'transport_doc_number'
+  | 'transport_doc_date'
+>;
+
 export interface InvoiceItem {
   product_id?: string;
   name: string;
   description?: string;
   quantity: number;
   unit: string;
+  // Taxable value per unit; for lines priced inclusive of GST it is backed out of the quoted price
   unit_price: number;
+  price_includes_tax?: boolean;
+  // Price per unit as quoted, GST included
+  unit_price_incl_tax?: number;
   discount: number;
   gst_rate: number;
+  // Tax split of the line; absent on invoices created before place of supply was recorded
+  cgst_amount?: number;
+  sgst_amount?: number;
+  igst_amount?: number;
+  cess_rate?: number;
+  cess_per_unit?: number;
+  cess_amount?: number;
   total: number;
 }
 
@@ -104,6 +257,8 @@ export interface Supplier {
   address?: string;
   gst_number?: string;
   payment_terms?: string;
+  // Udyam registration; the MSMED Act 45-day limit applies to what we owe a registered supplier
+  udyam_number?: string;
   created_at: string;
   updated_at: string;
 }
@@ -117,8 +272,24 @@ export interface PurchaseOrder {
   subtotal: number;
   tax_amount: number;
   total: number;
-  status: 'draft' | 'sent' | 'confirmed' | 'received' | 'cancelled';
+  // Input tax split; IGST when the supplier is registered in another state
+  is_interstate: boolean;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  cess_amount?: number;
+  // We pay the GST on these goods to the government instead of to the supplier
+  reverse_charge?: boolean;
+  status: 'draft' | 'sent' | 'confirmed' | 'partially_received' | 'received' | 'cancelled';
   expected_date?: string;
+  // Supplier's GSTIN when the order was placed, needed to claim input tax credit
+  supplier_gstin?: string;
+  // The supplier's tax invoice for the goods; its date decides the return period of the credit
+  supplier_invoice_number?: string;
+  supplier_invoice_date?: string;
+  received_at?: string;
+  // When the supplier was paid in full; unpaid orders to MSME suppliers count towards the 45-day limit
+  paid_at?: string;
   notes?: string;
   created_at: string;
   updated_at: string;
@@ -130,7 +301,14 @@ export interface PurchaseOrderItem {
   quantity: number;
   unit: string;
   unit_price: number;
+  gst_rate?: number;
+  cgst_amount?: number;
+  sgst_amount?: number;
+  igst_amount?: number;
+  cess_rate?: number;
+  cess_amount?: number;
   total: number;
+  received_quantity?: number;
 }
 
 export interface Expense {
@@ -141,6 +319,17 @@ export interface Expense {
   description: string;
   payment_type: 'cash' | 'upi' | 'bank_transfer' | 'cheque';
   receipt_url?: string;
+  // GST charged on the bill; amount is the total paid including it
+  supplier_gstin?: string;
+  taxable_value?: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  cess_amount?: number;
+  // The tax was not on the bill: we pay it to the government under reverse charge (e.g. GTA freight, legal fees)
+  reverse_charge?: boolean;
+  // False for credit blocked under section 17(5), e.g. food or personal use
+  itc_eligible: boolean;
   date: string;
   created_at: string;
   updated_at: string;
@@ -150,12 +339,17 @@ export interface DailyReport {
   date: string;
   total_sales: number;
   total_transactions: number;
+  total_invoices: number;
   cash_sales: number;
   upi_sales: number;
   credit_sales: number;
+  other_sales: number;
+  sales_returns: number;
   total_expenses: number;
+  gross_profit: number;
   net_profit: number;
   top_products: { name: string; quantity: number; revenue: number }[];
+  recent_invoices: { id: string; invoice_number: string; customer_name?: string; total: number; status: string }[];
 }
 
 export interface InventoryAlert {
@@ -172,6 +366,28 @@ export interface UPIPaymentRequest {
   amount: number;
   transaction_note?: string;
   transaction_ref?: string;
+  // Merchant parameters from the NPCI UPI linking specification (mc, tid, url, mam, mode, orgid, sign)
+  merchant_code?: string;
+  transaction_id?: string;
+  url?: string;
+  min_amount?: number;
+  mode?: string;
+  org_id?: string;
+  // Signature the merchant's PSP puts over the other parameters; passed through, never computed here
+  sign?: string;
+  currency?: string;
+  // BharatQR (EMVCo) fields with no upi:// equivalent
+  merchant_city?: string;
+  postal_code?: string;
+}
+
+// A scanned payment QR: a upi:// link or a BharatQR (EMVCo) payload
+export interface ParsedPaymentQR extends UPIPaymentRequest {
+  format: 'upi' | 'bharatqr';
+  // Card acceptance IDs printed alongside the VPA on BharatQR standees
+  card_networks?: { network: string; merchant_id: string }[];
+  // 'static' QRs take any amount; 'dynamic' ones are made for one payment
+  initiation?: 'static' | 'dynamic';
 }
 
 export interface WhatsAppMessage {
@@ -179,3 +395,24 @@ export interface WhatsAppMessage {
   message: string;
   image_base64?: string;
 }
+
+// A message actually sent through the messaging provider, with the delivery status its webhook reports
+export interface OutboundMessage {
+  id: string;
+  user_id: string;
+  provider: string;
+  // ID the provider assigned (wamid... for WhatsApp); webhook status updates refer to it
+  provider_message_id?: string;
+  to_phone: string;
+  type: 'text' | 'document' | 'template';
+  template_name?: string;
+  body?: string;
+  document_filename?: string;
+  invoice_id?: string;
+  // accepted: the provider took it; sent, delivered and read come from the webhook
+  status: 'accepted' | 'sent' | 'delivered' | 'read' | 'failed';
+  error?: string;
+  status_updated_at?: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -1,9 +1,19 @@
+import type { StockMovementDetails } from './index.js';
+
 export interface DatabaseService {
     // Inventory
     getProducts(userId: string, options?: any): Promise<any>;
     getProduct(userId: string, productId: string): Promise<any>;
+    searchProducts(userId: string, query: string, limit?: number): Promise<any>;
     createProduct(userId: string, productData: any): Promise<any>;
-    updateStock(userId: string, productId: string, quantity: number, operation: 'add' | 'subtract' | 'set'): Promise<any>;
+    updateStock(
+        userId: string,
+        productId: string,
+        quantity: number,
+        operation: 'add' | 'subtract' | 'set',
+        movement?: StockMovementDetails
+    ): Promise<any>;
+    getStockMovements(userId: string, productId: string, options?: any): Promise<any>;
     getInventoryAlerts(userId: string): Promise<any>;
 
     // Customers
@@ -16,12 +26,43 @@ export interface DatabaseService {
     getTransactions(userId: string, options?: any): Promise<any>;
     createTransaction(userId: string, transactionData: any): Promise<any>;
 
+    // Payment links
+    getPaymentLinks(userId: string, options?: any): Promise<any>;
+    getPaymentLinkByToken(token: string): Promise<any>;
+    createPaymentLink(userId: string, linkData: any): Promise<any>;
+    updatePaymentLink(userId: string, linkId: string, updates: any): Promise<any>;
+
+    // Payment reconciliation review queue
+    getPaymentReviews(userId: string, options?: any): Promise<any>;
+    getPaymentReview(userId: string, reviewId: string): Promise<any>;
+    createPaymentReview(userId: string, reviewData: any): Promise<any>;
+    updatePaymentReview(userId: string, reviewId: string, updates: any): Promise<any>;
+
+    // Outbound messages (WhatsApp delivery log)
+    getOutboundMessages(userId: string, options?: any): Promise<any>;
+    getOutboundMessageByProviderId(providerMessageId: string): Promise<any>;
+    createOutboundMessage(userId: string, messageData: any): Promise<any>;
+    updateOutboundMessage(userId: string, messageId: string, updates: any): Promise<any>;
+
     // Invoices
     getInvoices(userId: string, options?: any): Promise<any>;
     getInvoice(userId: string, invoiceId: string): Promise<any>;
-    getNextInvoiceNumber(userId: string, type: string): Promise<any>;
+    getNextInvoiceNumber(userId: string, type: string, branch?: string): Promise<any>;
     createInvoice(userId: string, invoiceData: any): Promise<any>;
     updateInvoiceStatus(userId: string, invoiceId: string, status: string): Promise<any>;
+    updateInvoice(userId: string, invoiceId: string, updates: any): Promise<any>;
+    getSalesLineItems(userId: string, options?: any): Promise<any>;
+
+    // Numbering series
+    getNumberingSeries(userId: string): Promise<any>;
+    upsertNumberingSeries(userId: string, series: any): Promise<any>;
+    getDocumentSequences(userId: string, financialYear: string): Promise<any>;
+
+    // Draft invoices (conversational orders)
+    createInvoiceDraft(userId: string, draftData: any): Promise<any>;
+    getInvoiceDraft(userId: string, sessionId: string): Promise<any>;
+    updateInvoiceDraft(userId: string, draftId: string, updates: any): Promise<any>;
+    deleteInvoiceDraft(userId: string, sessionId: string): Promise<any>;
 
     // User/Common
     getUser(userId: string): Promise<any>;
@@ -33,14 +74,30 @@ export interface DatabaseService {
     getBusinessSummary(userId: string): Promise<any>;
     getOutstandingPayments(userId: string): Promise<any>;
 
+    // Forecasting
+    getDailySalesHistory(userId: string, productId: string, startDate: string): Promise<any>;
+    getReorderRule(userId: string, productId: string): Promise<any>;
+    upsertReorderRule(userId: string, productId: string, rule: any): Promise<any>;
+    createStockPrediction(userId: string, predictionData: any): Promise<any>;
+    aggregateDailySales(): Promise<void>;
+
     // Expenses
     getExpenses(userId: string, options?: any): Promise<any>;
     createExpense(userId: string, expenseData: any): Promise<any>;
 
     // Suppliers
     getSuppliers(userId: string, options?: any): Promise<any>;
+    getSupplier(userId: string, supplierId: string): Promise<any>;
     createSupplier(userId: string, supplierData: any): Promise<any>;
 
+    // Purchase orders
+    getPurchaseOrders(userId: string, options?: any): Promise<any>;
+    getPurchaseOrder(userId: string, purchaseOrderId: string): Promise<any>;
+    getNextPurchaseOrderNumber(userId: string): Promise<any>;
+    createPurchaseOrder(userId: string, purchaseOrderData: any): Promise<any>;
+    /** With expectedUpdatedAt, the update only applies if the order is unchanged since it was read, and otherwise throws */
+    updatePurchaseOrder(userId: string, purchaseOrderId: string, updates: any, expectedUpdatedAt?: string): Promise<any>;
+
     // Storage
     uploadPDF(userId: string, fileName: string, pdfBuffer: Buffer): Promise<string>;
 }
@@ -0,0 +1,392 @@
+/**
+ * Sales analytics aggregation
+ * Pure functions over invoices, transactions and expenses, shared by every DatabaseService backend
+ */
+
+import type { DailyReport } from '../types/index.js';
+import type { DatabaseService } from '../types/service.js';
+import { IST_OFFSET_MS } from './numbering.js';
+
+export type AnalyticsPeriod = 'week' | 'month' | 'year';
+
+export interface AnalyticsData {
+  invoices: any[];
+  transactions: any[];
+  expenses: any[];
+  products: any[];
+  customers: any[];
+}
+
+export interface TopProduct {
+  product_id?: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  quantity_sold: number;
+  revenue: number;
+}
+
+export interface TrendPoint {
+  period: string;
+  revenue: number;
+  orders: number;
+}
+
+export interface SalesAnalytics {
+  period: AnalyticsPeriod;
+  start_date: string;
+  end_date: string;
+  total_revenue: number;
+  total_orders: number;
+  average_order_value: number;
+  total_expenses: number;
+  net_profit: number;
+  previous_revenue: number;
+  growth: number | null;
+  revenue_trend: TrendPoint[];
+  payment_breakdown: Record<string, number>;
+  top_products: TopProduct[];
+}
+
+export interface BusinessSummary {
+  total_products: number;
+  total_customers: number;
+  total_invoices: number;
+  total_transactions: number;
+  total_revenue: number;
+  total_sales_revenue: number;
+  total_expenses: number;
+  net_profit: number;
+  outstanding_amount: number;
+  customers_with_outstanding: number;
+  low_stock_products: number;
+  low_stock_items: { id: string; name: string; quantity: number; unit: string; low_stock_threshold: number }[];
+  inventory_value: number;
+}
+
+// Days in the current window for each period
+const PERIOD_DAYS: Record<AnalyticsPeriod, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Load everything the aggregations need for a date range (ISO timestamps, inclusive)
+ */
+export async function loadAnalyticsData(
+  db: DatabaseService,
+  userId: string,
+  startDate?: string,
+  endDate?: string
+): Promise<AnalyticsData> {
+  const [invoices, transactions, expenses, products, customers] = await Promise.all([
+    db.getInvoices(userId, { startDate, endDate }),
+    db.getTransactions(userId, { startDate, endDate, status: 'completed' }),
+    // Expenses carry a plain date, which is the shop's (Indian) calendar date
+    db.getExpenses(userId, { startDate: startDate && toISTDate(startDate), endDate: endDate && toISTDate(endDate) }),
+    db.getProducts(userId),
+    db.getCustomers(userId),
+  ]);
+
+  return { invoices, transactions, expenses, products, customers };
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a moment in Indian time
+ */
+export function toISTDate(timestamp: string | Date = new Date()): string {
+  return new Date(new Date(timestamp).getTime() + IST_OFFSET_MS).toISOString().split('T')[0];
+}
+
+/**
+ * First and last moment (ISO timestamps, inclusive) of a date (YYYY-MM-DD) in Indian time,
+ * so sales between midnight and 05:30 IST count toward their own day
+ */
+export function getDayRange(date: string): { start: string; end: string } {
+  const start = new Date(`${date}T00:00:00.000Z`).getTime() - IST_OFFSET_MS;
+  return { start: new Date(start).toISOString(), end: new Date(start + DAY_MS - 1).toISOString() };
+}
+
+/**
+ * Invoices that count as sales: issued tax invoices that were not cancelled
+ */
+export function getSaleInvoices(invoices: any[]): any[] {
+  return invoices.filter((invoice) =>
+    (invoice.invoice_type || 'invoice') === 'invoice' && invoice.status !== 'cancelled'
+  );
+}
+
+/**
+ * Credit notes for goods returned, which reduce sales
+ */
+export function getSalesReturns(invoices: any[]): any[] {
+  return invoices.filter((invoice) => invoice.invoice_type === 'credit_note' && invoice.status !== 'cancelled');
+}
+
+/**
+ * Flatten invoice line items into one row per product sold, joined with the product
+ */
+export function toSalesLines(invoices: any[], products: any[], productId?: string): any[] {
+  const productsById = new Map(products.map((p) => [p.id, p]));
+
+  return invoices.flatMap((invoice) =>
+    (invoice.items || [])
+      .filter((item: any) => !productId || item.product_id === productId)
+      .map((item: any) => ({
+        invoice_id: invoice.id,
+        product_id: item.product_id,
+        name: item.name,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        discount: item.discount ?? 0,
+        gst_rate: item.gst_rate,
+        total: item.total,
+        created_at: invoice.created_at,
+        status: invoice.status,
+        product: productsById.get(item.product_id) || null,
+      }))
+  );
+}
+
+/**
+ * Payments recorded without an invoice are counter sales in their own right
+ */
+function getCounterSales(transactions: any[]): any[] {
+  return transactions.filter((t) => !t.invoice_id);
+}
+
+/**
+ * Build the daily report for one date (YYYY-MM-DD)
+ */
+export function buildDailyReport(date: string, data: AnalyticsData): DailyReport {
+  const invoices = getSaleInvoices(data.invoices);
+  const returns = getSalesReturns(data.invoices);
+  const counterSales = getCounterSales(data.transactions);
+  const totalReturns = sumOf(returns, 'total');
+  const totalSales = sumOf(invoices, 'total') + sumOf(counterSales, 'amount') - totalReturns;
+
+  // Payment split: what was collected against the day's sales, by mode; the unpaid rest is credit
+  const split = { cash: 0, upi: 0, credit: 0, other: 0 };
+  const addPayment = (type: string, amount: number) => {
+    if (type === 'cash' || type === 'upi' || type === 'credit') split[type] += amount;
+    else split.other += amount;
+  };
+
+  for (const sale of counterSales) addPayment(sale.payment_type, Number(sale.amount) || 0);
+  for (const invoice of invoices) {
+    const payments = data.transactions.filter((t) => t.invoice_id === invoice.id);
+    let recorded = 0;
+    for (const payment of payments) {
+      addPayment(payment.payment_type, Number(payment.amount) || 0);
+      recorded += Number(payment.amount) || 0;
+    }
+    split.credit += Math.max(0, (Number(invoice.total) || 0) - recorded);
+  }
+
+  const totalExpenses = sumOf(data.expenses, 'amount');
+  const profit = grossProfit(invoices, counterSales, data.products, returns);
+  const customers = new Map(data.customers.map((c) => [c.id, c.name]));
+
+  return {
+    date,
+    total_sales: round(totalSales),
+    total_transactions: data.transactions.length,
+    total_invoices: invoices.length,
+    cash_sales: round(split.cash),
+    upi_sales: round(split.upi),
+    credit_sales: round(split.credit),
+    other_sales: round(split.other),
+    sales_returns: round(totalReturns),
+    total_expenses: round(totalExpenses),
+    gross_profit: round(profit),
+    net_profit: round(profit - totalExpenses),
+    top_products: getTopProducts(invoices, data.products, 5),
+    recent_invoices: invoices.slice(0, 10).map((invoice) => ({
+      id: invoice.id,
+      invoice_number: invoice.invoice_number,
+      customer_name: customers.get(invoice.customer_id) || invoice.customer_name,
+      total: Number(invoice.total) || 0,
+      status: invoice.status,
+    })),
+  };
+}
+
+/**
+ * Get the current and previous window for a period, ending on the given date (days in Indian time)
+ */
+export function getPeriodRange(period: AnalyticsPeriod, now: Date = new Date()) {
+  const end = new Date(getDayRange(toISTDate(now)).end);
+  const start = new Date(end.getTime() - PERIOD_DAYS[period] * DAY_MS + 1);
+  const previousStart = new Date(start.getTime() - PERIOD_DAYS[period] * DAY_MS);
+
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    previousStart: previousStart.toISOString(),
+  };
+}
+
+/**
+ * Build sales analytics for a period, compared with the period before it
+ * Data must cover both windows (from previousStart to end)
+ */
+export function buildSalesAnalytics(period: AnalyticsPeriod, data: AnalyticsData, now: Date = new Date()): SalesAnalytics {
+  const range = getPeriodRange(period, now);
+  const inCurrent = (row: any) => row.created_at >= range.start && row.created_at <= range.end;
+  const inPrevious = (row: any) => row.created_at >= range.previousStart && row.created_at < range.start;
+
+  const sales = getSaleInvoices(data.invoices);
+  const returns = getSalesReturns(data.invoices);
+  const counterSales = getCounterSales(data.transactions);
+  const current = { invoices: sales.filter(inCurrent), counter: counterSales.filter(inCurrent), returns: returns.filter(inCurrent) };
+  const previous = { invoices: sales.filter(inPrevious), counter: counterSales.filter(inPrevious), returns: returns.filter(inPrevious) };
+
+  const totalRevenue = sumOf(current.invoices, 'total') + sumOf(current.counter, 'amount') - sumOf(current.returns, 'total');
+  const previousRevenue = sumOf(previous.invoices, 'total') + sumOf(previous.counter, 'amount') - sumOf(previous.returns, 'total');
+  const totalOrders = current.invoices.length + current.counter.length;
+  const expenses = data.expenses.filter((e) => e.date >= range.start.split('T')[0] && e.date <= range.end.split('T')[0]);
+  const totalExpenses = sumOf(expenses, 'amount');
+
+  const paymentBreakdown: Record<string, number> = {};
+  for (const transaction of data.transactions.filter(inCurrent)) {
+    paymentBreakdown[transaction.payment_type] = round(
+      (paymentBreakdown[transaction.payment_type] || 0) + (Number(transaction.amount) || 0)
+    );
+  }
+
+  return {
+    period,
+    start_date: range.start.split('T')[0],
+    end_date: range.end.split('T')[0],
+    total_revenue: round(totalRevenue),
+    total_orders: totalOrders,
+    average_order_value: totalOrders > 0 ? round(totalRevenue / totalOrders) : 0,
+    total_expenses: round(totalExpenses),
+    net_profit: round(grossProfit(current.invoices, current.counter, data.products, current.returns) - totalExpenses),
+    previous_revenue: round(previousRevenue),
+    growth: previousRevenue > 0 ? round(((totalRevenue - previousRevenue) / previousRevenue) * 100) : null,
+    revenue_trend: buildRevenueTrend(period, range.start, range.end, [...current.invoices, ...current.counter]),
+    payment_breakdown: paymentBreakdown,
+    top_products: getTopProducts(current.invoices, data.products, 10),
+  };
+}
+
+/**
+ * Build the all-time business summary
+ */
+export function buildBusinessSummary(data: AnalyticsData): BusinessSummary {
+  const sales = getSaleInvoices(data.invoices);
+  const returns = getSalesReturns(data.invoices);
+  const counterSales = getCounterSales(data.transactions);
+  const totalSales = sumOf(sales, 'total') + sumOf(counterSales, 'amount') - sumOf(returns, 'total');
+  const totalExpenses = sumOf(data.expenses, 'amount');
+  const outstanding = data.customers.filter((c) => Number(c.outstanding_balance) > 0);
+  const lowStock = data.products.filter((p) => p.quantity <= p.low_stock_threshold);
+
+  return {
+    total_products: data.products.length,
+    total_customers: data.customers.length,
+    total_invoices: sales.length,
+    total_transactions: data.transactions.length,
+    total_revenue: round(totalSales),
+    total_sales_revenue: round(totalSales),
+    total_expenses: round(totalExpenses),
+    net_profit: round(grossProfit(sales, counterSales, data.products, returns) - totalExpenses),
+    outstanding_amount: round(sumOf(outstanding, 'outstanding_balance')),
+    customers_with_outstanding: outstanding.length,
+    low_stock_products: lowStock.length,
+    low_stock_items: lowStock.map((p) => ({
+      id: p.id,
+      name: p.name,
+      quantity: p.quantity,
+      unit: p.unit,
+      low_stock_threshold: p.low_stock_threshold,
+    })),
+    inventory_value: round(data.products.reduce((sum, p) => sum + (p.cost_price || p.price || 0) * (p.quantity || 0), 0)),
+  };
+}
+
+/**
+ * Revenue bucketed by day (week/month) or by calendar month (year)
+ */
+function buildRevenueTrend(period: AnalyticsPeriod, start: string, end: string, sales: any[]): TrendPoint[] {
+  const keyOf = (timestamp: string) => (period === 'year' ? timestamp.substring(0, 7) : timestamp.substring(0, 10));
+  const buckets = new Map<string, TrendPoint>();
+
+  // Pre-fill so days/months without sales show as zero
+  const cursor = new Date(start);
+  while (cursor.toISOString() <= end) {
+    const key = keyOf(cursor.toISOString());
+    if (!buckets.has(key)) buckets.set(key, { period: key, revenue: 0, orders: 0 });
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  for (const sale of sales) {
+    const bucket = buckets.get(keyOf(sale.created_at));
+    if (!bucket) continue;
+    bucket.revenue = round(bucket.revenue + (Number(sale.total ?? sale.amount) || 0));
+    bucket.orders += 1;
+  }
+
+  return [...buckets.values()];
+}
+
+/**
+ * Best sellers by revenue across invoice line items
+ */
+function getTopProducts(invoices: any[], products: any[], limit: number): TopProduct[] {
+  const byProduct = new Map<string, TopProduct>();
+
+  for (const invoice of invoices) {
+    for (const item of invoice.items || []) {
+      const product = products.find((p) => p.id === item.product_id);
+      const key = item.product_id || item.name.toLowerCase();
+      const entry = byProduct.get(key) || {
+        product_id: item.product_id,
+        name: product?.name || item.name,
+        unit: item.unit || product?.unit || 'pcs',
+        quantity: 0,
+        quantity_sold: 0,
+        revenue: 0,
+      };
+      entry.quantity += Number(item.quantity) || 0;
+      entry.quantity_sold = entry.quantity;
+      entry.revenue = round(entry.revenue + (Number(item.total) || 0));
+      byProduct.set(key, entry);
+    }
+  }
+
+  return [...byProduct.values()].sort((a, b) => b.revenue - a.revenue).slice(0, limit);
+}
+
+/**
+ * Sales net of GST, cess and TCS minus the cost of goods sold (where the product cost price is known)
+ * Returns reverse both the sale and its cost; reverse charge tax was never in the total
+ */
+function grossProfit(invoices: any[], counterSales: any[], products: any[], returns: any[] = []): number {
+  const costPrices = new Map(products.map((p) => [p.id, Number(p.cost_price) || 0]));
+  let profit = sumOf(counterSales, 'amount');
+
+  for (const [documents, sign] of [[invoices, 1], [returns, -1]] as const) {
+    for (const invoice of documents) {
+      const collected = invoice.reverse_charge ? 0 : Number(invoice.tax_amount) || 0;
+      profit += sign * ((Number(invoice.total) || 0) - collected - (Number(invoice.tcs_amount) || 0));
+      for (const item of invoice.items || []) {
+        profit -= sign * (costPrices.get(item.product_id) || 0) * (Number(item.quantity) || 0);
+      }
+    }
+  }
+
+  return profit;
+}
+
+function sumOf(rows: any[], field: string): number {
+  return rows.reduce((sum, row) => sum + (Number(row[field]) || 0), 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,190 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  GlobalHistogramBinarizer,
+  HybridBinarizer,
+  InvertedLuminanceSource,
+  LuminanceSource,
+  MultiFormatReader,
+  Result,
+  RGBLuminanceSource,
+} from '@zxing/library';
+import sharp from 'sharp';
+
+/**
+ * Decoding QR codes and product barcodes from photos, locally: sharp prepares the image, ZXing reads it
+ */
+
+export type CodeKind = 'qr' | 'product' | 'other';
+
+export interface DecodedCode {
+  format: string;
+  kind: CodeKind;
+  text: string;
+  // Bounding box in the prepared image, for telling several codes apart
+  position: { left: number; top: number; width: number; height: number };
+}
+
+// Formats a shop is likely to photograph: payment QRs and the barcodes on packaging
+const FORMATS = [
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.DATA_MATRIX,
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.UPC_E,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.CODE_39,
+  BarcodeFormat.ITF,
+];
+
+const PRODUCT_FORMATS = [
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.UPC_E,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.CODE_39,
+  BarcodeFormat.ITF,
+];
+
+// Phone photos are larger than decoding needs; this keeps a standee QR well resolved
+const MAX_DIMENSION = 1600;
+
+// A photo rarely holds more than a handful of codes; bounds the decode-and-mask loop
+const MAX_CODES = 10;
+
+/**
+ * Decode every QR code and barcode in an image
+ */
+export async function decodeImageCodes(image: Buffer): Promise<DecodedCode[]> {
+  const { data, info } = await sharp(image)
+    .rotate() // Honour the EXIF orientation phones write
+    .flatten({ background: '#ffffff' })
+    .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: 'inside', withoutEnlargement: true })
+    .greyscale()
+    .normalise()
+    .extractChannel(0)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const reader = new MultiFormatReader();
+  reader.setHints(new Map<DecodeHintType, BarcodeFormat[] | boolean>([
+    [DecodeHintType.POSSIBLE_FORMATS, FORMATS],
+    [DecodeHintType.TRY_HARDER, true],
+  ]));
+
+  // Each decode masks the code it found so the next finds another; later binarizers suit harder images
+  const pixels = new Uint8ClampedArray(data);
+  const regions = scanRegions(info.width, info.height);
+  const codes: DecodedCode[] = [];
+  for (const pass of ['hybrid', 'histogram', 'inverted'] as const) {
+    while (codes.length < MAX_CODES) {
+      let code: DecodedCode | null = null;
+      for (const region of regions) {
+        code = decodeRegion(reader, pixels, info.width, info.height, region, pass);
+        if (code) break;
+      }
+      if (!code) break;
+
+      mask(pixels, info.width, code.position);
+      if (!codes.some((c) => c.format === code.format && c.text === code.text)) codes.push(code);
+    }
+    if (codes.length > 0) break;
+  }
+
+  return codes;
+}
+
+type Region = { left: number; top: number; width: number; height: number };
+
+// The whole image, then overlapping half-width and half-height strips, then half-size windows: with several
+// QR codes in view the detector pairs up finder patterns from different codes, so each needs a window of its own.
+// Strips keep whole a code that fills the height (or width) of the photo, as two standees side by side do
+function scanRegions(width: number, height: number): Region[] {
+  const regions: Region[] = [{ left: 0, top: 0, width, height }];
+  const w = Math.floor(width / 2);
+  const h = Math.floor(height / 2);
+  for (const left of [0, Math.floor(width / 4), width - w]) {
+    regions.push({ left, top: 0, width: w, height });
+  }
+  for (const top of [0, Math.floor(height / 4), height - h]) {
+    regions.push({ left: 0, top, width, height: h });
+  }
+  for (const top of [0, Math.floor(height / 4), height - h]) {
+    for (const left of [0, Math.floor(width / 4), width - w]) {
+      regions.push({ left, top, width: w, height: h });
+    }
+  }
+  return regions;
+}
+
+function decodeRegion(
+  reader: MultiFormatReader,
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  region: Region,
+  pass: 'hybrid' | 'histogram' | 'inverted'
+): DecodedCode | null {
+  let source: LuminanceSource = new RGBLuminanceSource(pixels, region.width, region.height, width, height, region.left, region.top);
+  if (pass === 'inverted') source = new InvertedLuminanceSource(source);
+  const binarizer = pass === 'histogram' ? new GlobalHistogramBinarizer(source) : new HybridBinarizer(source);
+
+  try {
+    const result = reader.decodeWithState(new BinaryBitmap(binarizer));
+    return toDecodedCode(result, region, width, height);
+  } catch {
+    // ZXing throws NotFoundException, ChecksumException or FormatException when nothing readable is left
+    return null;
+  } finally {
+    reader.reset();
+  }
+}
+
+function toDecodedCode(result: Result, region: Region, width: number, height: number): DecodedCode {
+  const format = result.getBarcodeFormat();
+  const points = result.getResultPoints().filter(Boolean);
+  const xs = points.map((p) => p.getX() + region.left);
+  const ys = points.map((p) => p.getY() + region.top);
+  let left = Math.min(...xs);
+  let right = Math.max(...xs);
+  let top = Math.min(...ys);
+  let bottom = Math.max(...ys);
+
+  if (PRODUCT_FORMATS.includes(format)) {
+    // 1D results give the ends of the scanned row; the bars run well above and below it
+    const span = right - left;
+    top -= span * 0.6;
+    bottom += span * 0.6;
+    left -= span * 0.1;
+    right += span * 0.1;
+  } else {
+    // 2D results give finder pattern centres, which sit inside the symbol's corners
+    const pad = Math.max(right - left, bottom - top) * 0.25 + 8;
+    left -= pad;
+    right += pad;
+    top -= pad;
+    bottom += pad;
+  }
+
+  left = Math.max(0, Math.floor(left));
+  top = Math.max(0, Math.floor(top));
+  right = Math.min(width, Math.ceil(right));
+  bottom = Math.min(height, Math.ceil(bottom));
+
+  return {
+    format: BarcodeFormat[format],
+    kind: format === BarcodeFormat.QR_CODE ? 'qr' : PRODUCT_FORMATS.includes(format) ? 'product' : 'other',
+    text: result.getText(),
+    position: { left, top, width: right - left, height: bottom - top },
+  };
+}
+
+// Paint a found code white so the next decode moves on to the others
+function mask(pixels: Uint8ClampedArray, width: number, box: Region): void {
+  for (let y = box.top; y < box.top + box.height; y++) {
+    pixels.fill(255, y * width + box.left, y * width + box.left + box.width);
+  }
+}
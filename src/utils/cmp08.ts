@@ -0,0 +1,133 @@
+import type { CompositionCategory, Expense, Invoice, Product, PurchaseOrder } from '../types/index.js';
+import { COMPOSITION_RATES } from './gst.js';
+import { ReturnPeriod, taxableLines } from './gstr1.js';
+import { receivedTax } from './gstr3b.js';
+
+/**
+ * CMP-08 (quarterly statement of a composition dealer): tax on turnover at the composition rate
+ */
+
+export interface CMP08Input {
+  gstin: string;
+  // Quarter ending in the period's month
+  period: ReturnPeriod;
+  category: CompositionCategory;
+  // Tax invoices and credit notes dated in the quarter, cancelled ones included
+  documents: Invoice[];
+  products: Product[];
+  // Expenses dated in the quarter and purchase orders whose tax falls in it; those under reverse charge go in table 2
+  expenses: Expense[];
+  purchaseOrders: PurchaseOrder[];
+}
+
+/**
+ * Build the CMP-08 tables and the tax payable for a quarter
+ */
+export function buildCMP08(input: CMP08Input) {
+  const products = new Map(input.products.map((p) => [p.id, p]));
+  const rate = COMPOSITION_RATES[input.category];
+  const warnings: string[] = [];
+
+  let turnover = 0;
+  let exempt = 0;
+  let regularDocuments = 0;
+
+  for (const document of input.documents.filter((d) => d.status !== 'cancelled')) {
+    // Documents issued before the switch to composition belong in GSTR-1 and GSTR-3B
+    if (document.seller_scheme !== 'composition') {
+      regularDocuments++;
+      continue;
+    }
+    const sign = document.invoice_type === 'credit_note' ? -1 : 1;
+
+    for (const line of taxableLines(document, false)) {
+      // No tax is charged, so the invoice discount simply lowers the turnover
+      const value = line.txval - line.discount;
+      // Traders pay only on taxable goods; exempt goods (GST rate 0 on the product) are left out
+      const product = line.item.product_id ? products.get(line.item.product_id) : undefined;
+      if (input.category === 'trader' && product && Number(product.gst_rate) === 0) {
+        exempt += sign * value;
+      } else {
+        turnover += sign * value;
+      }
+    }
+  }
+
+  if (regularDocuments > 0) {
+    warnings.push(`${regularDocuments} document(s) in the quarter were issued under the regular scheme; report them in GSTR-1 and GSTR-3B instead`);
+  }
+  if (turnover < 0) {
+    warnings.push('Credit notes exceed sales for the quarter; the tax payable is shown as zero');
+  }
+
+  // Composition dealers pay reverse charge tax at the normal rates, with no credit for it
+  const inward = { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+  for (const expense of input.expenses.filter((e) => e.reverse_charge)) {
+    inward.txval += Number(expense.taxable_value ?? expense.amount) || 0;
+    inward.iamt += Number(expense.igst_amount) || 0;
+    inward.camt += Number(expense.cgst_amount) || 0;
+    inward.samt += Number(expense.sgst_amount) || 0;
+    inward.csamt += Number(expense.cess_amount) || 0;
+  }
+  for (const order of input.purchaseOrders.filter((o) => o.reverse_charge)) {
+    const tax = receivedTax(order);
+    inward.txval += tax.txval;
+    inward.iamt += tax.iamt;
+    inward.camt += tax.camt;
+    inward.samt += tax.samt;
+    inward.csamt += tax.csamt;
+  }
+  const reverseCharge = {
+    txval: round(inward.txval),
+    iamt: round(inward.iamt),
+    camt: round(inward.camt),
+    samt: round(inward.samt),
+    csamt: round(inward.csamt),
+  };
+
+  const taxable = Math.max(0, round(turnover));
+  const stateShare = round((taxable * rate) / 200);
+  const outward = { txval: taxable, iamt: 0, camt: stateShare, samt: stateShare, csamt: 0 };
+  const payable = {
+    iamt: reverseCharge.iamt,
+    camt: round(outward.camt + reverseCharge.camt),
+    samt: round(outward.samt + reverseCharge.samt),
+    csamt: reverseCharge.csamt,
+  };
+  const compositionTax = round(outward.camt + outward.samt);
+  const reverseChargeTax = round(reverseCharge.iamt + reverseCharge.camt + reverseCharge.samt + reverseCharge.csamt);
+  const total = round(compositionTax + reverseChargeTax);
+
+  const json = {
+    gstin: input.gstin,
+    ret_period: input.period.fp,
+    // 1 Outward supplies (including exempt), 2 inward supplies under reverse charge, 3 tax payable, 4 interest
+    outward_supplies: outward,
+    inward_reverse_charge: reverseCharge,
+    tax_payable: payable,
+    interest: { iamt: 0, camt: 0, samt: 0, csamt: 0 },
+  };
+
+  return {
+    gstin: input.gstin,
+    ret_period: input.period.fp,
+    period: { start: input.period.start, end: input.period.end },
+    summary: {
+      category: input.category,
+      composition_rate: rate,
+      turnover: taxable,
+      exempt_turnover: round(exempt),
+      composition_tax: compositionTax,
+      reverse_charge_tax: reverseChargeTax,
+      tax_payable: total,
+      message: `Composition tax for the quarter: ₹${compositionTax.toFixed(2)} (${rate}% of ₹${taxable.toFixed(2)}: CGST ₹${outward.camt.toFixed(2)}, SGST ₹${outward.samt.toFixed(2)})`
+        + (reverseChargeTax > 0 ? `; reverse charge tax ₹${reverseChargeTax.toFixed(2)}; total ₹${total.toFixed(2)}` : ''),
+    },
+    warnings,
+    json,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
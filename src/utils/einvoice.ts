@@ -0,0 +1,328 @@
+import type { Customer, Invoice, Product, User } from '../types/index.js';
+import { INDIAN_STATES, chargesGST, decodeGSTIN } from './gst.js';
+import { UQC, documentSupply } from './gstr1.js';
+import { hsnType, validateHSNCode } from './hsn.js';
+import { IST_OFFSET_MS } from './numbering.js';
+
+/**
+ * E-invoice payload in the NIC INV-01 schema, and the IRN details the portal returns for it
+ */
+
+export const EINVOICE_SCHEMA_VERSION = '1.1';
+
+// GST rates the schema accepts
+const SCHEMA_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+
+// The portal allows invoice totals to differ from the sum of the lines by up to this much
+const ROUNDING_TOLERANCE = 1;
+
+export interface EInvoiceInput {
+  invoice: Invoice;
+  seller: User;
+  customer?: Customer;
+  products: Product[];
+  // Invoice a credit note was issued against
+  originalInvoice?: Invoice;
+}
+
+// What the IRP returns once an invoice is registered
+export interface IRNDetails {
+  irn: string;
+  ack_number: string;
+  ack_date: string;
+  signed_qr_code: string;
+}
+
+export type EInvoicePayload = ReturnType<typeof buildEInvoice>['payload'];
+
+/**
+ * Map an invoice or credit note to INV-01 and list everything the IRP would reject
+ */
+export function buildEInvoice(input: EInvoiceInput) {
+  const { invoice, seller, customer, originalInvoice } = input;
+  const products = new Map(input.products.map((p) => [p.id, p]));
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (invoice.invoice_type !== 'invoice' && invoice.invoice_type !== 'credit_note') {
+    errors.push(`A ${invoice.invoice_type.replace('_', ' ')} cannot be e-invoiced; only tax invoices and credit notes are reported to the IRP`);
+  }
+  if (invoice.status === 'cancelled') {
+    errors.push(`${invoice.invoice_number} is cancelled`);
+  }
+  if (!chargesGST(invoice.seller_scheme)) {
+    errors.push(`${invoice.invoice_number} was issued as a bill of supply without GST; e-invoicing applies to regular taxpayers' tax invoices`);
+  }
+  if (!/^[A-Za-z1-9][A-Za-z0-9/-]{0,15}$/.test(invoice.invoice_number)) {
+    errors.push(`Document number ${invoice.invoice_number} must be 1-16 letters, digits, "/" or "-" and cannot start with 0, "/" or "-"`);
+  }
+
+  const sellerGstin = decodeGSTIN(seller.gst_number || '');
+  if (!sellerGstin.is_valid) {
+    errors.push(seller.gst_number ? `Seller GSTIN ${seller.gst_number} is invalid: ${sellerGstin.error}` : 'Seller has no GSTIN; add it with update_user');
+  }
+
+  const buyerGstin = decodeGSTIN(customer?.gst_number || '');
+  if (!customer?.gst_number) {
+    errors.push(`E-invoices are only issued for supplies to registered buyers; ${customer?.name || invoice.customer_name || 'the customer'} has no GSTIN`);
+  } else if (!buyerGstin.is_valid) {
+    errors.push(`Buyer GSTIN ${customer.gst_number} is invalid: ${buyerGstin.error}`);
+  } else if (buyerGstin.gstin === sellerGstin.gstin) {
+    errors.push('Seller and buyer GSTIN are the same');
+  }
+
+  const { pos, interstate } = documentSupply(invoice, customer, sellerGstin.gstin);
+  const sellerAddress = addressParts(seller.address);
+  const buyerAddress = addressParts(customer?.address);
+  checkAddress('Seller', sellerAddress, errors);
+  checkAddress('Buyer', buyerAddress, errors);
+
+  const itemList = invoice.items.map((item, index) => {
+    const product = item.product_id ? products.get(item.product_id) : undefined;
+    const hsn = product?.hsn_code || '';
+    const validation = hsn ? validateHSNCode(hsn) : undefined;
+    if (!hsn) {
+      errors.push(`${item.name} has no HSN code`);
+    } else if (!validation?.valid) {
+      errors.push(`${item.name}: ${validation?.error}`);
+    }
+
+    const rate = Number(item.gst_rate) || 0;
+    if (!SCHEMA_RATES.includes(rate)) {
+      errors.push(`${item.name}: ${rate}% is not a GST rate the e-invoice schema accepts`);
+    }
+
+    const quantity = Number(item.quantity);
+    const totalAmount = quantity * Number(item.unit_price);
+    const discount = (totalAmount * (Number(item.discount) || 0)) / 100;
+    const assessable = totalAmount - discount;
+    const tax = lineTax(item, assessable, rate, interstate);
+    // Specific cess is reported apart from the ad valorem part
+    const cessNonAdvol = (Number(item.cess_per_unit) || 0) * quantity;
+    const cess = Number(item.cess_amount) || 0;
+
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: (item.description || item.name).slice(0, 300),
+      IsServc: hsn && hsnType(hsn) === 'service' ? 'Y' : 'N',
+      HsnCd: validation?.code || hsn,
+      Qty: round(quantity, 3),
+      Unit: UQC[(item.unit || product?.unit || '').toLowerCase()] || 'OTH',
+      UnitPrice: round(Number(item.unit_price), 3),
+      TotAmt: round(totalAmount),
+      Discount: round(discount),
+      AssAmt: round(assessable),
+      GstRt: rate,
+      IgstAmt: round(tax.igst),
+      CgstAmt: round(tax.cgst),
+      SgstAmt: round(tax.sgst),
+      CesRt: Number(item.cess_rate) || 0,
+      CesAmt: round(cess - cessNonAdvol),
+      CesNonAdvlAmt: round(cessNonAdvol),
+      StateCesRt: 0,
+      StateCesAmt: 0,
+      StateCesNonAdvlAmt: 0,
+      OthChrg: 0,
+      TotItemVal: round(assessable + tax.igst + tax.cgst + tax.sgst + cess),
+    };
+  });
+
+  if (itemList.length === 0) {
+    errors.push('The invoice has no items');
+  }
+
+  const sum = (key: 'AssAmt' | 'IgstAmt' | 'CgstAmt' | 'SgstAmt' | 'CesAmt' | 'CesNonAdvlAmt') =>
+    round(itemList.reduce((total, item) => total + item[key], 0));
+  const valDtls = {
+    AssVal: sum('AssAmt'),
+    CgstVal: sum('CgstAmt'),
+    SgstVal: sum('SgstAmt'),
+    IgstVal: sum('IgstAmt'),
+    CesVal: round(sum('CesAmt') + sum('CesNonAdvlAmt')),
+    StCesVal: 0,
+    // Invoice-level discount, given after tax
+    Discount: round(Number(invoice.discount_amount) || 0),
+    // TCS collected on the invoice
+    OthChrg: round(Number(invoice.tcs_amount) || 0),
+    RndOffAmt: 0,
+    // The portal's invoice value includes tax payable under reverse charge, which our total leaves out
+    TotInvVal: round(Number(invoice.total) + (invoice.reverse_charge ? Number(invoice.tax_amount) || 0 : 0)),
+  };
+  const computed = valDtls.AssVal + valDtls.CgstVal + valDtls.SgstVal + valDtls.IgstVal + valDtls.CesVal + valDtls.OthChrg - valDtls.Discount;
+  valDtls.RndOffAmt = round(valDtls.TotInvVal - computed);
+  if (Math.abs(valDtls.RndOffAmt) > ROUNDING_TOLERANCE) {
+    errors.push(`Invoice total ₹${valDtls.TotInvVal.toFixed(2)} differs from its lines (₹${round(computed).toFixed(2)}) by more than ₹${ROUNDING_TOLERANCE}`);
+  }
+
+  if (invoice.invoice_type === 'credit_note' && !originalInvoice) {
+    warnings.push('The credit note is not linked to an invoice; the preceding document details are left out');
+  }
+  if (!seller.phone) {
+    warnings.push('Seller phone is missing');
+  }
+
+  const payload = {
+    Version: EINVOICE_SCHEMA_VERSION,
+    TranDtls: {
+      TaxSch: 'GST',
+      SupTyp: 'B2B',
+      RegRev: invoice.reverse_charge ? 'Y' : 'N',
+      EcmGstin: null,
+      IgstOnIntra: 'N',
+    },
+    DocDtls: {
+      Typ: invoice.invoice_type === 'credit_note' ? 'CRN' : 'INV',
+      No: invoice.invoice_number,
+      Dt: portalDate(invoice.created_at),
+    },
+    SellerDtls: {
+      Gstin: sellerGstin.gstin,
+      LglNm: seller.shop_name || seller.name,
+      TrdNm: seller.shop_name || undefined,
+      ...addressFields(sellerAddress),
+      Stcd: sellerGstin.gstin.substring(0, 2),
+      Ph: phoneDigits(seller.phone),
+      Em: seller.email || undefined,
+    },
+    BuyerDtls: {
+      Gstin: buyerGstin.gstin,
+      LglNm: customer?.name || invoice.customer_name || '',
+      Pos: pos,
+      ...addressFields(buyerAddress),
+      Stcd: buyerGstin.gstin.substring(0, 2),
+      Ph: phoneDigits(customer?.phone),
+      Em: customer?.email || undefined,
+    },
+    ItemList: itemList,
+    ValDtls: valDtls,
+    ...(originalInvoice && {
+      RefDtls: {
+        PrecDocDtls: [{ InvNo: originalInvoice.invoice_number, InvDt: portalDate(originalInvoice.created_at) }],
+      },
+    }),
+  };
+
+  for (const [label, name] of [['Seller', payload.SellerDtls.LglNm], ['Buyer', payload.BuyerDtls.LglNm]]) {
+    if (name.length < 3 || name.length > 100) {
+      errors.push(`${label} legal name must be 3-100 characters`);
+    }
+  }
+
+  return { payload, errors, warnings };
+}
+
+/**
+ * The invoice details carried in an IRP signed QR code (a JWT whose payload holds them as a JSON string)
+ */
+export function decodeSignedQR(token: string): Record<string, any> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'));
+    return typeof claims.data === 'string' ? JSON.parse(claims.data) : claims.data || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check an IRN response against the invoice it is meant for
+ */
+export function checkIRNDetails(details: IRNDetails, invoice: Invoice): string[] {
+  const errors: string[] = [];
+  if (!/^[0-9a-f]{64}$/i.test(details.irn)) {
+    errors.push('IRN must be the 64-character hash returned by the IRP');
+  }
+  const qr = decodeSignedQR(details.signed_qr_code);
+  if (!qr) {
+    errors.push('Signed QR code is not a signed JWT from the IRP');
+  } else {
+    if (qr.DocNo && qr.DocNo !== invoice.invoice_number) {
+      errors.push(`Signed QR code is for document ${qr.DocNo}, not ${invoice.invoice_number}`);
+    }
+    if (qr.Irn && qr.Irn.toLowerCase() !== details.irn.toLowerCase()) {
+      errors.push('Signed QR code carries a different IRN');
+    }
+  }
+  return errors;
+}
+
+export interface AddressParts {
+  addr1?: string;
+  addr2?: string;
+  loc?: string;
+  pin?: number;
+}
+
+/**
+ * Split a free-text address into address lines, locality and PIN code; the locality is the last part that is not a state
+ */
+export function addressParts(address?: string): AddressParts {
+  if (!address) return {};
+
+  const pin = /\b([1-9]\d{5})\b/.exec(address)?.[1];
+  const states = Object.values(INDIAN_STATES).map((s) => s.toLowerCase());
+  const parts = address
+    .replace(/\b[1-9]\d{5}\b/, '')
+    .split(/[,\n]/)
+    .map((part) => part.replace(/\s*-\s*$/, '').trim())
+    .filter((part) => part && !states.includes(part.toLowerCase()));
+
+  const loc = parts.length > 1 ? parts.pop() : parts[0];
+  const lines = parts.join(', ');
+  return {
+    addr1: lines.slice(0, 100) || undefined,
+    addr2: lines.length > 100 ? lines.slice(100, 200) : undefined,
+    loc,
+    pin: pin ? Number(pin) : undefined,
+  };
+}
+
+function addressFields(parts: AddressParts) {
+  return { Addr1: parts.addr1 || '', Addr2: parts.addr2, Loc: parts.loc || '', Pin: parts.pin || 0 };
+}
+
+function checkAddress(label: string, parts: AddressParts, errors: string[]) {
+  if (!parts.addr1) {
+    errors.push(`${label} address is missing`);
+  }
+  if (!parts.loc || parts.loc.length < 3) {
+    errors.push(`${label} address needs a town or city of at least 3 characters`);
+  }
+  if (!parts.pin) {
+    errors.push(`${label} address needs a 6-digit PIN code`);
+  }
+}
+
+function lineTax(item: Invoice['items'][number], assessable: number, rate: number, interstate: boolean) {
+  if (item.cgst_amount !== undefined || item.igst_amount !== undefined) {
+    return {
+      igst: Number(item.igst_amount) || 0,
+      cgst: Number(item.cgst_amount) || 0,
+      sgst: Number(item.sgst_amount) || 0,
+    };
+  }
+  const tax = (assessable * rate) / 100;
+  return interstate ? { igst: tax, cgst: 0, sgst: 0 } : { igst: 0, cgst: tax / 2, sgst: tax / 2 };
+}
+
+function phoneDigits(phone?: string): string | undefined {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.length < 6) return undefined;
+  return digits.length > 12 ? digits.slice(-10) : digits;
+}
+
+/**
+ * dd/mm/yyyy in IST, as the e-invoice and e-way bill schemas use
+ */
+export function portalDate(timestamp: string): string {
+  const date = new Date(new Date(timestamp).getTime() + IST_OFFSET_MS);
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}/${month}/${date.getUTCFullYear()}`;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
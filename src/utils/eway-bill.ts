@@ -0,0 +1,282 @@
+import type { Customer, Invoice, Product, TransportDetails, User } from '../types/index.js';
+import { INDIAN_STATES, decodeGSTIN, gstinCheckCharacter, isValidGSTIN } from './gst.js';
+import { UQC, documentSupply, taxableLines } from './gstr1.js';
+import { AddressParts, addressParts, portalDate } from './einvoice.js';
+import { validateHSNCode } from './hsn.js';
+
+/**
+ * E-way bill data in the portal's bulk-upload JSON layout
+ */
+
+export const EWAY_BILL_JSON_VERSION = '1.0.0621';
+
+// Consignments above this value (tax included) need an e-way bill; some states set a higher limit for intra-state moves
+export const EWAY_BILL_THRESHOLD = 50000;
+
+const TRANSPORT_MODES: Record<NonNullable<TransportDetails['transport_mode']>, number> = {
+  road: 1,
+  rail: 2,
+  air: 3,
+  ship: 4,
+};
+
+// Why outward goods are moving
+export const SUB_SUPPLY_TYPES = {
+  supply: 1,
+  export: 3,
+  job_work: 4,
+  own_use: 5,
+  others: 8,
+  skd_ckd: 9,
+  line_sales: 10,
+  recipient_not_known: 11,
+  exhibition: 12,
+} as const;
+
+export type SubSupplyType = keyof typeof SUB_SUPPLY_TYPES;
+
+// A regular vehicle's e-way bill is valid for one day per 200 km
+const KM_PER_DAY = 200;
+
+const TRANSPORT_FIELDS: (keyof TransportDetails)[] = [
+  'transport_mode',
+  'transport_distance_km',
+  'transporter_name',
+  'transporter_id',
+  'vehicle_number',
+  'transport_doc_number',
+  'transport_doc_date',
+];
+
+/**
+ * The transport fields that were given, with vehicle numbers and transporter IDs in the form the portal expects
+ */
+export function transportDetails(source: Partial<TransportDetails>): TransportDetails {
+  const details: TransportDetails = {};
+  for (const field of TRANSPORT_FIELDS) {
+    if (source[field] !== undefined && source[field] !== '') {
+      (details as Record<string, unknown>)[field] = source[field];
+    }
+  }
+  if (details.vehicle_number) {
+    details.vehicle_number = details.vehicle_number.replace(/[\s-]/g, '').toUpperCase();
+  }
+  if (details.transporter_id) {
+    details.transporter_id = details.transporter_id.trim().toUpperCase();
+  }
+  return details;
+}
+
+export interface EWayBillInput {
+  document: Invoice;
+  seller: User;
+  customer?: Customer;
+  products: Product[];
+  subSupplyType: SubSupplyType;
+  subSupplyDescription?: string;
+}
+
+/**
+ * Map a tax invoice or delivery challan to an e-way bill and list what the portal would reject
+ */
+export function buildEWayBill(input: EWayBillInput) {
+  const { document, seller, customer } = input;
+  const products = new Map(input.products.map((p) => [p.id, p]));
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (document.invoice_type !== 'invoice' && document.invoice_type !== 'delivery_challan') {
+    errors.push(`E-way bills are generated against tax invoices and delivery challans, not a ${document.invoice_type.replace('_', ' ')}`);
+  }
+  if (document.status === 'cancelled') {
+    errors.push(`${document.invoice_number} is cancelled`);
+  }
+  if (input.subSupplyType === 'others' && !input.subSupplyDescription) {
+    errors.push('Describe the reason for the movement when the sub-supply type is "others"');
+  }
+
+  const sellerGstin = decodeGSTIN(seller.gst_number || '');
+  if (!sellerGstin.is_valid) {
+    errors.push(seller.gst_number ? `Seller GSTIN ${seller.gst_number} is invalid: ${sellerGstin.error}` : 'Seller has no GSTIN; add it with update_user');
+  }
+  if (!customer && !document.customer_name) {
+    errors.push('The document has no consignee');
+  }
+  const buyerGstin = customer?.gst_number ? decodeGSTIN(customer.gst_number) : null;
+
+  const { pos, interstate } = documentSupply(document, customer, sellerGstin.gstin);
+  const from = addressParts(seller.address);
+  const to = addressParts(customer?.address);
+  checkAddress('Dispatch', from, errors);
+  checkAddress('Delivery', to, errors);
+
+  const lines = taxableLines(document, interstate);
+  const itemList = lines.map((line, index) => {
+    const product = line.item.product_id ? products.get(line.item.product_id) : undefined;
+    const hsn = product?.hsn_code ? validateHSNCode(product.hsn_code) : null;
+    if (!hsn) {
+      errors.push(`${line.item.name} has no HSN code`);
+    } else if (!hsn.valid) {
+      errors.push(`${line.item.name}: ${hsn.error}`);
+    }
+
+    return {
+      itemNo: index + 1,
+      productName: line.item.name,
+      productDesc: line.item.description || line.item.name,
+      hsnCode: hsn?.valid ? Number(hsn.code) : 0,
+      quantity: Number(line.item.quantity),
+      qtyUnit: UQC[(line.item.unit || product?.unit || '').toLowerCase()] || 'OTH',
+      taxableAmount: round(line.txval),
+      cgstRate: interstate ? 0 : line.rt / 2,
+      sgstRate: interstate ? 0 : line.rt / 2,
+      igstRate: interstate ? line.rt : 0,
+      cessRate: Number(line.item.cess_rate) || 0,
+      cessNonAdvol: Number(line.item.cess_per_unit) || 0,
+    };
+  });
+
+  const totals = lines.reduce(
+    (sum, line) => {
+      // Specific cess is totalled apart from the ad valorem part
+      const nonAdvol = (Number(line.item.cess_per_unit) || 0) * Number(line.item.quantity);
+      return {
+        txval: sum.txval + line.txval,
+        camt: sum.camt + line.camt,
+        samt: sum.samt + line.samt,
+        iamt: sum.iamt + line.iamt,
+        cess: sum.cess + line.csamt - nonAdvol,
+        nonAdvol: sum.nonAdvol + nonAdvol,
+      };
+    },
+    { txval: 0, camt: 0, samt: 0, iamt: 0, cess: 0, nonAdvol: 0 }
+  );
+  // The value of the goods includes tax payable under reverse charge, which the document total leaves out
+  const consignmentValue = round(Number(document.total) + (document.reverse_charge ? Number(document.tax_amount) || 0 : 0));
+
+  // Inter-state job work moves need an e-way bill whatever their value
+  const interstateJobWork = input.subSupplyType === 'job_work' && interstate;
+  const required = consignmentValue > EWAY_BILL_THRESHOLD || interstateJobWork;
+  if (!required) {
+    warnings.push(`Consignment value ₹${consignmentValue.toFixed(2)} is not above ₹${EWAY_BILL_THRESHOLD}; an e-way bill is optional unless the state sets a lower limit`);
+  }
+
+  checkTransport(document, errors, warnings);
+
+  const mainLine = [...itemList].sort((a, b) => b.taxableAmount - a.taxableAmount)[0];
+  const bill = {
+    userGstin: sellerGstin.gstin,
+    supplyType: 'O',
+    subSupplyType: SUB_SUPPLY_TYPES[input.subSupplyType],
+    subSupplyDesc: input.subSupplyType === 'others' ? input.subSupplyDescription || '' : '',
+    docType: document.invoice_type === 'delivery_challan' ? 'CHL' : 'INV',
+    docNo: document.invoice_number,
+    docDate: portalDate(document.created_at),
+    transType: 1,
+    fromGstin: sellerGstin.gstin,
+    fromTrdName: seller.shop_name || seller.name,
+    fromAddr1: from.addr1 || '',
+    fromAddr2: from.addr2 || '',
+    fromPlace: from.loc || '',
+    fromPincode: from.pin || 0,
+    fromStateCode: Number(sellerGstin.gstin.substring(0, 2)) || 0,
+    actualFromStateCode: Number(sellerGstin.gstin.substring(0, 2)) || 0,
+    toGstin: buyerGstin?.is_valid ? buyerGstin.gstin : 'URP',
+    toTrdName: customer?.name || document.customer_name || '',
+    toAddr1: to.addr1 || '',
+    toAddr2: to.addr2 || '',
+    toPlace: to.loc || '',
+    toPincode: to.pin || 0,
+    toStateCode: Number(pos) || 0,
+    actualToStateCode: Number(pos) || 0,
+    totalValue: round(totals.txval),
+    cgstValue: round(totals.camt),
+    sgstValue: round(totals.samt),
+    igstValue: round(totals.iamt),
+    cessValue: round(totals.cess),
+    TotNonAdvolVal: round(totals.nonAdvol),
+    OthValue: round(consignmentValue - totals.txval - totals.camt - totals.samt - totals.iamt - totals.cess - totals.nonAdvol),
+    totInvValue: consignmentValue,
+    transMode: document.transport_mode ? TRANSPORT_MODES[document.transport_mode] : '',
+    transDistance: document.transport_distance_km !== undefined ? String(document.transport_distance_km) : '',
+    transporterName: document.transporter_name || '',
+    transporterId: document.transporter_id || '',
+    transDocNo: document.transport_doc_number || '',
+    transDocDate: document.transport_doc_date ? portalDate(document.transport_doc_date) : '',
+    vehicleNo: document.transport_mode === 'road' ? document.vehicle_number || '' : '',
+    vehicleType: document.transport_mode === 'road' && document.vehicle_number ? 'R' : '',
+    mainHsnCode: mainLine?.hsnCode || 0,
+    itemList,
+  };
+
+  const distance = Number(document.transport_distance_km) || 0;
+  return {
+    required,
+    consignment_value: consignmentValue,
+    // Days the e-way bill stays valid for a regular vehicle; the portal fills it in when the distance is left at 0
+    validity_days: distance > 0 ? Math.ceil(distance / KM_PER_DAY) : null,
+    errors,
+    warnings,
+    json: {
+      version: EWAY_BILL_JSON_VERSION,
+      billLists: [bill],
+    },
+  };
+}
+
+/**
+ * Part B (vehicle or transport document) or a transporter who will add it later; distance in every case
+ */
+function checkTransport(document: Invoice, errors: string[], warnings: string[]) {
+  if (document.transport_distance_km === undefined) {
+    errors.push('Enter the transport distance in km (0 lets the portal calculate it from the PIN codes)');
+  } else if (document.transport_distance_km === 0) {
+    warnings.push('Distance 0: the portal will calculate it from the PIN codes');
+  }
+
+  if (document.transporter_id && !isValidTransporterId(document.transporter_id)) {
+    errors.push(`Transporter ID ${document.transporter_id} is not a valid GSTIN or TRANSIN`);
+  }
+
+  const mode = document.transport_mode;
+  if (!mode) {
+    if (!document.transporter_id) {
+      errors.push('Enter the transport mode with a vehicle or transport document, or a transporter ID so the transporter can add them');
+    } else {
+      warnings.push('No transport mode: only Part A is filled in and the transporter has to add the vehicle');
+    }
+    return;
+  }
+
+  if (mode === 'road') {
+    if (document.vehicle_number && !/^[A-Z]{2}\d{1,2}[A-Z]{0,3}\d{4}$/.test(document.vehicle_number)) {
+      errors.push(`Vehicle number ${document.vehicle_number} is not in the form MH12AB1234`);
+    }
+    if (!document.vehicle_number && !document.transporter_id) {
+      errors.push('Road transport needs a vehicle number, or a transporter ID so the transporter can add it');
+    }
+  } else if (!document.transport_doc_number || !document.transport_doc_date) {
+    errors.push(`Transport by ${mode} needs the transport document number and date`);
+  }
+}
+
+/**
+ * A transporter is identified by its GSTIN or, if unregistered, a TRANSIN: both are 15 characters with a state code and the GSTIN check character
+ */
+function isValidTransporterId(id: string): boolean {
+  return isValidGSTIN(id)
+    || (/^\d{2}[A-Z0-9]{13}$/.test(id) && !!INDIAN_STATES[id.substring(0, 2)] && gstinCheckCharacter(id) === id[14]);
+}
+
+function checkAddress(label: string, parts: AddressParts, errors: string[]) {
+  if (!parts.loc) {
+    errors.push(`${label} address is missing`);
+  }
+  if (!parts.pin) {
+    errors.push(`${label} address needs a 6-digit PIN code`);
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
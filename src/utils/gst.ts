@@ -1,3 +1,5 @@
+import type { CompositionCategory, GSTScheme } from '../types/index.js';
+
 /**
  * GST (Goods and Services Tax) calculation utilities for India
  */
@@ -71,8 +73,29 @@ export interface GSTCalculation {
   sgst_amount: number;
   igst_amount: number;
   total_gst: number;
+  // Compensation cess: a percentage of the taxable value plus any fixed amount per unit
+  cess_rate: number;
+  cess_per_unit: number;
+  cess_amount: number;
+  // What the supplier bills: value plus GST and cess, or the value alone under reverse charge
   total_with_gst: number;
   is_interstate: boolean;
+  // The recipient pays the GST and cess to the government directly (section 9(3)/9(4))
+  reverse_charge: boolean;
+}
+
+export interface CessInput {
+  // Percentage of the taxable value
+  rate?: number;
+  // Rupees per unit sold (specific cess, e.g. per cigarette or per tonne of coal)
+  per_unit?: number;
+  // Units the specific cess is charged on
+  quantity?: number;
+}
+
+export interface GSTOptions {
+  cess?: CessInput;
+  reverse_charge?: boolean;
 }
 
 /**
@@ -80,26 +103,35 @@ export interface GSTCalculation {
  * @param baseAmount - Amount before GST
  * @param gstRate - GST rate (e.g., 18 for 18%)
  * @param isInterstate - Whether the transaction is between different states
+ * @param options - Compensation cess, and whether the supply is under reverse charge
  */
 export function calculateGST(
   baseAmount: number,
   gstRate: number,
-  isInterstate: boolean = false
+  isInterstate: boolean = false,
+  options: GSTOptions = {}
 ): GSTCalculation {
   const totalGst = (baseAmount * gstRate) / 100;
+  const cess = calculateCess(baseAmount, options.cess);
+  const reverseCharge = !!options.reverse_charge;
+  const common = {
+    base_amount: baseAmount,
+    total_gst: totalGst,
+    ...cess,
+    total_with_gst: reverseCharge ? baseAmount : baseAmount + totalGst + cess.cess_amount,
+    reverse_charge: reverseCharge,
+  };
 
   if (isInterstate) {
     // Interstate: IGST applies
     return {
-      base_amount: baseAmount,
+      ...common,
       cgst_rate: 0,
       sgst_rate: 0,
       igst_rate: gstRate,
       cgst_amount: 0,
       sgst_amount: 0,
       igst_amount: totalGst,
-      total_gst: totalGst,
-      total_with_gst: baseAmount + totalGst,
       is_interstate: true,
     };
   } else {
@@ -107,20 +139,41 @@ export function calculateGST(
     const halfGst = totalGst / 2;
     const halfRate = gstRate / 2;
     return {
-      base_amount: baseAmount,
+      ...common,
       cgst_rate: halfRate,
       sgst_rate: halfRate,
       igst_rate: 0,
       cgst_amount: halfGst,
       sgst_amount: halfGst,
       igst_amount: 0,
-      total_gst: totalGst,
-      total_with_gst: baseAmount + totalGst,
       is_interstate: false,
     };
   }
 }
 
+/**
+ * Compensation cess on a taxable value: ad valorem, specific (per unit), or both as on cigarettes
+ */
+export function calculateCess(
+  baseAmount: number,
+  cess: CessInput = {}
+): { cess_rate: number; cess_per_unit: number; cess_amount: number } {
+  const rate = Number(cess.rate) || 0;
+  const perUnit = Number(cess.per_unit) || 0;
+  return {
+    cess_rate: rate,
+    cess_per_unit: perUnit,
+    cess_amount: (baseAmount * rate) / 100 + perUnit * (Number(cess.quantity) || 0),
+  };
+}
+
+/**
+ * Tax collected at source on a sale (section 52, or section 206C(1H) of the Income Tax Act), charged on the amount billed
+ */
+export function calculateTCS(amount: number, tcsRate: number): number {
+  return Math.round(((amount * tcsRate) / 100) * 100) / 100;
+}
+
 /**
  * Reverse calculate base amount from total (inclusive of GST)
  */
@@ -137,6 +190,62 @@ export function calculateBaseFromGSTInclusive(
   };
 }
 
+/**
+ * GST on an amount quoted inclusive of tax (MRP-style prices): the taxable value is backed out
+ * and the rest is tax, so the total stays exactly the amount quoted. Specific cess comes off first,
+ * then GST and cess at their combined rate. Under reverse charge no tax is in the price to back out.
+ */
+export function calculateGSTFromInclusive(
+  totalAmount: number,
+  gstRate: number,
+  isInterstate: boolean = false,
+  options: GSTOptions = {}
+): GSTCalculation {
+  if (options.reverse_charge) {
+    return calculateGST(totalAmount, gstRate, isInterstate, options);
+  }
+
+  const specificCess = (Number(options.cess?.per_unit) || 0) * (Number(options.cess?.quantity) || 0);
+  const cessRate = Number(options.cess?.rate) || 0;
+  const { base_amount } = calculateBaseFromGSTInclusive(totalAmount - specificCess, gstRate + cessRate);
+  const calculation = calculateGST(base_amount, gstRate, isInterstate, options);
+  // Whatever the rounding leaves goes to cess when there is any, else to GST
+  const hasCess = cessRate > 0 || specificCess > 0;
+  const totalGst = hasCess ? calculation.total_gst : totalAmount - base_amount;
+
+  return {
+    ...calculation,
+    cgst_amount: isInterstate ? 0 : totalGst / 2,
+    sgst_amount: isInterstate ? 0 : totalGst / 2,
+    igst_amount: isInterstate ? totalGst : 0,
+    total_gst: totalGst,
+    cess_amount: hasCess ? totalAmount - base_amount - totalGst : 0,
+    total_with_gst: totalAmount,
+  };
+}
+
+/**
+ * Split the GST out of a bill amount that includes it, as CGST + SGST or IGST
+ */
+export function splitGSTFromInclusive(
+  totalAmount: number,
+  gstRate: number,
+  isInterstate: boolean = false
+): { taxable_value: number; cgst_amount: number; sgst_amount: number; igst_amount: number } {
+  const { base_amount, gst_amount } = calculateBaseFromGSTInclusive(totalAmount, gstRate);
+
+  if (isInterstate) {
+    return { taxable_value: base_amount, cgst_amount: 0, sgst_amount: 0, igst_amount: gst_amount };
+  }
+  const cgst = Math.round((gst_amount / 2) * 100) / 100;
+  return {
+    taxable_value: base_amount,
+    cgst_amount: cgst,
+    sgst_amount: Math.round((gst_amount - cgst) * 100) / 100,
+    igst_amount: 0,
+  };
+}
+
 /**
  * Get suggested GST rate for a product category
  */
@@ -159,27 +268,125 @@ export function suggestGSTRate(category: string): number {
   return 18;
 }
 
+export type GSTINRegistrationType =
+  | 'regular'
+  | 'tcs_collector'
+  | 'tds_deductor'
+  | 'un_body'
+  | 'non_resident_taxable_person'
+  | 'non_resident_online_services';
+
+export interface GSTINDetails {
+  gstin: string;
+  is_valid: boolean;
+  error?: string;
+  state_code?: string;
+  state?: string;
+  // PAN (or TAN for tax deductors) the registration is issued against
+  pan?: string;
+  tan?: string;
+  // Which registration this is for the same PAN in the same state (1-9, then A-Z)
+  entity_number?: string;
+  registration_type?: GSTINRegistrationType;
+  registration_hint?: string;
+  check_character?: string;
+}
+
+const GSTIN_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Layouts by registration type, keyed on the 14th character (and 13th for UIN and non-resident forms)
+const GSTIN_FORMATS: { type: GSTINRegistrationType; pattern: RegExp; hint: string }[] = [
+  { type: 'regular', pattern: /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, hint: 'Normal taxpayer (regular, composition or casual)' },
+  { type: 'tcs_collector', pattern: /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]C[0-9A-Z]$/, hint: 'E-commerce operator collecting TCS' },
+  { type: 'tds_deductor', pattern: /^\d{2}[A-Z]{4}\d{5}[A-Z][1-9A-Z]D[0-9A-Z]$/, hint: 'Tax deductor registered on TAN (usually a government department)' },
+  { type: 'un_body', pattern: /^\d{4}[A-Z]{3}\d{5}[UO]N[0-9A-Z]$/, hint: 'UIN holder: UN body, embassy or other notified person' },
+  { type: 'non_resident_taxable_person', pattern: /^\d{4}[A-Z]{3}\d{5}NR[0-9A-Z]$/, hint: 'Non-resident taxable person' },
+  { type: 'non_resident_online_services', pattern: /^99\d{2}[A-Z]{3}\d{5}OS[0-9A-Z]$/, hint: 'Non-resident online information and database access (OIDAR) provider' },
+];
+
 /**
- * Validate GSTIN (GST Identification Number) format
- * Format: 2 digit state code + 10 digit PAN + 1 digit entity code + Z + 1 check digit
+ * Check character for the first 14 characters of a GSTIN (mod-36 scheme used by GSTN)
  */
-export function isValidGSTIN(gstin: string): boolean {
-  if (!gstin || gstin.length !== 15) {
-    return false;
+export function gstinCheckCharacter(first14: string): string {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARACTERS.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARACTERS[(36 - (sum % 36)) % 36];
+}
+
+/**
+ * Validate a GSTIN and split it into its parts
+ * Layout: 2 digit state code + 10 character PAN (or TAN/UIN serial) + entity number + type character + check character
+ */
+export function decodeGSTIN(gstin: string): GSTINDetails {
+  const value = (gstin || '').trim().toUpperCase();
+  if (value.length !== 15) {
+    return { gstin: value, is_valid: false, error: 'GSTIN must be 15 characters' };
+  }
+
+  const format = GSTIN_FORMATS.find((f) => f.pattern.test(value));
+  if (!format) {
+    return { gstin: value, is_valid: false, error: 'GSTIN does not match any registration format' };
+  }
+
+  const stateCode = value.substring(0, 2);
+  const details: GSTINDetails = {
+    gstin: value,
+    is_valid: true,
+    state_code: stateCode,
+    state: INDIAN_STATES[stateCode],
+    registration_type: format.type,
+    registration_hint: format.hint,
+    check_character: value[14],
+  };
+  if (format.type === 'tds_deductor') {
+    details.tan = value.substring(2, 12);
+  } else if (format.type === 'regular' || format.type === 'tcs_collector') {
+    details.pan = value.substring(2, 12);
   }
+  if (details.pan || details.tan) {
+    details.entity_number = value[12];
+  }
+
+  if (!details.state) {
+    return { ...details, is_valid: false, error: `Unknown state code ${stateCode}` };
+  }
+  const expected = gstinCheckCharacter(value);
+  if (expected !== value[14]) {
+    return { ...details, is_valid: false, error: `Check character should be ${expected}, not ${value[14]}; the GSTIN is probably mistyped` };
+  }
+  return details;
+}
 
-  const gstinRegex = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/;
-  return gstinRegex.test(gstin.toUpperCase());
+/**
+ * Validate GSTIN format and check character
+ */
+export function isValidGSTIN(gstin: string): boolean {
+  return decodeGSTIN(gstin).is_valid;
+}
+
+/**
+ * Customer, supplier or user data with its GSTIN verified and uppercased before saving; a blank GSTIN is left as is
+ */
+export function withCheckedGSTIN<T extends { gst_number?: string | null }>(data: T): T {
+  if (!data.gst_number) {
+    return data;
+  }
+  const details = decodeGSTIN(data.gst_number);
+  if (!details.is_valid) {
+    throw new Error(`Invalid GSTIN ${data.gst_number}: ${details.error}`);
+  }
+  return { ...data, gst_number: details.gstin };
 }
 
 /**
  * Extract PAN from GSTIN
  */
 export function extractPANFromGSTIN(gstin: string): string | null {
-  if (!isValidGSTIN(gstin)) {
-    return null;
-  }
-  return gstin.substring(2, 12);
+  const details = decodeGSTIN(gstin);
+  return details.is_valid && details.pan ? details.pan : null;
 }
 
 /**
@@ -233,18 +440,133 @@ export const INDIAN_STATES: Record<string, string> = {
   '36': 'Telangana',
   '37': 'Andhra Pradesh (New)',
   '38': 'Ladakh',
+  '97': 'Other Territory',
+  '99': 'Centre Jurisdiction',
+};
+
+// Union territories without a legislature levy UTGST in place of SGST
+export const UNION_TERRITORIES_WITHOUT_LEGISLATURE = ['04', '26', '31', '35', '38'];
+
+// Words a composition dealer must print at the top of every bill of supply (rule 5(1)(g))
+export const COMPOSITION_DECLARATION = 'Composition taxable person, not eligible to collect tax on supplies';
+
+// Tax invoices must say whether the tax is payable on reverse charge (rule 46(p))
+export const REVERSE_CHARGE_NOTE = 'Tax payable on reverse charge: Yes';
+
+// Composition tax as a percentage of turnover, paid half as CGST and half as SGST
+export const COMPOSITION_RATES: Record<CompositionCategory, number> = {
+  trader: 1,
+  manufacturer: 1,
+  restaurant: 5,
+  services: 6,
 };
 
 /**
- * Calculate GST for multiple items
+ * Only regular taxpayers collect GST from their buyers; composition dealers and unregistered sellers charge none
+ */
+export function chargesGST(scheme?: GSTScheme): boolean {
+  return !scheme || scheme === 'regular';
+}
+
+// Other spellings seen in addresses
+const STATE_ALIASES: Record<string, string> = {
+  'orissa': '21',
+  'pondicherry': '34',
+  'daman': '26',
+  'dadra': '26',
+  'andaman': '35',
+};
+
+export interface PlaceOfSupply {
+  // Seller's state code, from their GSTIN or address
+  seller_state?: string;
+  // State code where the supply is made
+  place_of_supply?: string;
+  is_interstate: boolean;
+}
+
+/**
+ * Normalise a state given as a code ("29"), a name ("Karnataka") or both ("29-Karnataka")
+ */
+export function normalizeStateCode(state: string): string | null {
+  const code = /^\s*(\d{1,2})\b/.exec(state)?.[1]?.padStart(2, '0');
+  if (code && INDIAN_STATES[code]) {
+    return code;
+  }
+  return getStateCodeFromAddress(state);
+}
+
+/**
+ * Find the state named in a free-text address; the last one mentioned wins, as addresses end with the state
+ */
+export function getStateCodeFromAddress(address: string): string | null {
+  const text = ` ${address.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]+/g, ' ')} `;
+  const names = [
+    // Addresses in Andhra Pradesh today are in the post-2014 state (37)
+    ...Object.entries(INDIAN_STATES).filter(([code]) => code !== '28').map(([code, name]) => [name.replace(/\(.*\)/, ''), code]),
+    ...Object.entries(STATE_ALIASES),
+  ];
+
+  let found: { code: string; index: number; length: number } | null = null;
+  for (const [name, code] of names) {
+    const needle = ` ${name.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]+/g, ' ').trim()} `;
+    const index = text.lastIndexOf(needle);
+    if (index < 0) continue;
+    // Prefer the later mention, then the longer name
+    if (!found || index > found.index || (index === found.index && needle.length > found.length)) {
+      found = { code, index, length: needle.length };
+    }
+  }
+  return found?.code || null;
+}
+
+/**
+ * Work out where a supply of goods is made and whether it crosses state lines.
+ * The buyer's GSTIN decides, then the state in their address; a sale to a walk-in buyer is made in the seller's state.
+ * Without a known seller state the supply is treated as intra-state.
+ */
+export function determinePlaceOfSupply(
+  seller: { gst_number?: string; address?: string },
+  buyer?: { gst_number?: string; address?: string } | null,
+  override?: string
+): PlaceOfSupply {
+  const stateOf = (party?: { gst_number?: string; address?: string } | null) => {
+    if (party?.gst_number && isValidGSTIN(party.gst_number)) return party.gst_number.substring(0, 2);
+    if (party?.address) return getStateCodeFromAddress(party.address) || undefined;
+    return undefined;
+  };
+
+  let placeOfSupply: string | undefined;
+  if (override) {
+    placeOfSupply = normalizeStateCode(override) || undefined;
+    if (!placeOfSupply) {
+      throw new Error(`Unknown place of supply "${override}"; use a state name or GST state code`);
+    }
+  }
+
+  const sellerState = stateOf(seller);
+  placeOfSupply = placeOfSupply || stateOf(buyer) || sellerState;
+
+  return {
+    seller_state: sellerState,
+    place_of_supply: placeOfSupply,
+    is_interstate: !!sellerState && !!placeOfSupply && sellerState !== placeOfSupply,
+  };
+}
+
+/**
+ * Calculate GST for multiple items, with any compensation cess on each
  */
 export function calculateMultipleItemsGST(
   items: Array<{
     amount: number;
     gst_rate: number;
     quantity: number;
+    cess_rate?: number;
+    cess_per_unit?: number;
   }>,
-  isInterstate: boolean = false
+  isInterstate: boolean = false,
+  options: { reverse_charge?: boolean } = {}
 ): {
   items: Array<GSTCalculation & { quantity: number }>;
   summary: {
@@ -253,12 +575,17 @@ export function calculateMultipleItemsGST(
     total_sgst: number;
     total_igst: number;
     total_gst: number;
+    total_cess: number;
     grand_total: number;
+    reverse_charge: boolean;
   };
 } {
   const calculatedItems = items.map(item => {
     const totalAmount = item.amount * item.quantity;
-    const calc = calculateGST(totalAmount, item.gst_rate, isInterstate);
+    const calc = calculateGST(totalAmount, item.gst_rate, isInterstate, {
+      cess: { rate: item.cess_rate, per_unit: item.cess_per_unit, quantity: item.quantity },
+      reverse_charge: options.reverse_charge,
+    });
     return { ...calc, quantity: item.quantity };
   });
 
@@ -268,7 +595,9 @@ export function calculateMultipleItemsGST(
     total_sgst: calculatedItems.reduce((sum, item) => sum + item.sgst_amount, 0),
     total_igst: calculatedItems.reduce((sum, item) => sum + item.igst_amount, 0),
     total_gst: calculatedItems.reduce((sum, item) => sum + item.total_gst, 0),
+    total_cess: calculatedItems.reduce((sum, item) => sum + item.cess_amount, 0),
     grand_total: calculatedItems.reduce((sum, item) => sum + item.total_with_gst, 0),
+    reverse_charge: !!options.reverse_charge,
   };
 
   return { items: calculatedItems, summary };
@@ -289,6 +618,16 @@ export function formatGSTBreakdown(calculation: GSTCalculation): string {
   }
 
   lines.push(`Total GST: ₹${calculation.total_gst.toFixed(2)}`);
+  if (calculation.cess_amount > 0) {
+    const parts = [
+      calculation.cess_rate > 0 && `${calculation.cess_rate}%`,
+      calculation.cess_per_unit > 0 && `₹${calculation.cess_per_unit}/unit`,
+    ].filter(Boolean);
+    lines.push(`Cess (${parts.join(' + ')}): ₹${calculation.cess_amount.toFixed(2)}`);
+  }
+  if (calculation.reverse_charge) {
+    lines.push('Reverse charge: the recipient pays the GST and cess to the government');
+  }
   lines.push(`Total Amount: ₹${calculation.total_with_gst.toFixed(2)}`);
 
   return lines.join('\n');
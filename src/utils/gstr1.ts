@@ -0,0 +1,491 @@
+import type { Customer, Invoice, InvoiceItem, Product } from '../types/index.js';
+import { INDIAN_STATES, determinePlaceOfSupply, isValidGSTIN } from './gst.js';
+import { IST_OFFSET_MS } from './numbering.js';
+
+/**
+ * GSTR-1 (outward supplies) in the GST portal offline-tool JSON format, with the matching CSV sheets
+ */
+
+// Unregistered inter-state invoices above this value are reported invoice-wise as B2C Large
+export const B2CL_THRESHOLD = 100000;
+
+export interface ReturnPeriod {
+  // Return period as the portal writes it: MMYYYY of the last month
+  fp: string;
+  start: string;
+  end: string;
+  // The same range as calendar dates (YYYY-MM-DD), for date-only records such as expenses
+  first_day: string;
+  last_day: string;
+}
+
+export interface GSTR1Input {
+  gstin: string;
+  period: ReturnPeriod;
+  // Tax invoices and credit notes dated in the period, cancelled ones included
+  documents: Invoice[];
+  // Invoices the period's credit notes were issued against
+  originals: Invoice[];
+  customers: Customer[];
+  products: Product[];
+}
+
+export interface RateLine {
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface DocumentLine extends RateLine {
+  hsn: string;
+  description: string;
+  uqc: string;
+  qty: number;
+}
+
+// Units to GST Unique Quantity Codes
+export const UQC: Record<string, string> = {
+  pcs: 'NOS',
+  pc: 'NOS',
+  nos: 'NOS',
+  unit: 'UNT',
+  units: 'UNT',
+  kg: 'KGS',
+  g: 'GMS',
+  gm: 'GMS',
+  l: 'LTR',
+  ltr: 'LTR',
+  ml: 'MLT',
+  m: 'MTR',
+  box: 'BOX',
+  dozen: 'DOZ',
+  doz: 'DOZ',
+  pack: 'PAC',
+  packet: 'PAC',
+  bag: 'BAG',
+  bottle: 'BTL',
+  set: 'SET',
+  pair: 'PRS',
+};
+
+const DOC_TYPES = {
+  invoice: { doc_num: 1, doc_typ: 'Invoices for outward supply' },
+  credit_note: { doc_num: 5, doc_typ: 'Credit Note' },
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Date range of a monthly return, or of the quarter ending in the given month (QRMP filers)
+ */
+export function getReturnPeriod(month: string, frequency: 'monthly' | 'quarterly' = 'monthly'): ReturnPeriod {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  const year = match ? Number(match[1]) : NaN;
+  const monthNumber = match ? Number(match[2]) : NaN;
+  if (!match || monthNumber < 1 || monthNumber > 12) {
+    throw new Error(`Invalid return period "${month}"; use YYYY-MM`);
+  }
+  if (frequency === 'quarterly' && monthNumber % 3 !== 0) {
+    throw new Error('Quarterly returns are identified by the last month of the quarter (June, September, December or March)');
+  }
+
+  const firstMonth = frequency === 'quarterly' ? monthNumber - 2 : monthNumber;
+  // Period boundaries are midnight in India
+  const start = Date.UTC(year, firstMonth - 1, 1) - IST_OFFSET_MS;
+  const end = Date.UTC(year, monthNumber, 1) - IST_OFFSET_MS - 1;
+
+  return {
+    fp: `${String(monthNumber).padStart(2, '0')}${year}`,
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    first_day: new Date(Date.UTC(year, firstMonth - 1, 1)).toISOString().split('T')[0],
+    last_day: new Date(Date.UTC(year, monthNumber, 0)).toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Build every GSTR-1 section for a period
+ */
+export function buildGSTR1(input: GSTR1Input) {
+  const customers = new Map(input.customers.map((c) => [c.id, c]));
+  const products = new Map(input.products.map((p) => [p.id, p]));
+  const originals = new Map([...input.originals, ...input.documents].map((d) => [d.id, d]));
+  const warnings = new Set<string>();
+
+  const b2b = new Map<string, { ctin: string; name: string; inv: any[] }>();
+  const b2cl = new Map<string, { pos: string; inv: any[] }>();
+  const b2cs = new Map<string, any>();
+  const cdnr = new Map<string, { ctin: string; name: string; nt: any[] }>();
+  const cdnur: any[] = [];
+  const hsn = { b2b: new Map<string, any>(), b2c: new Map<string, any>() };
+
+  const issued = input.documents.filter((d) => d.status !== 'cancelled');
+
+  for (const document of issued) {
+    const customer = document.customer_id ? customers.get(document.customer_id) : undefined;
+    if (customer?.gst_number && !isValidGSTIN(customer.gst_number)) {
+      warnings.add(`${customer.name}'s GSTIN ${customer.gst_number} is invalid; their documents are reported as B2C`);
+    }
+
+    const ctin = customer?.gst_number && isValidGSTIN(customer.gst_number) ? customer.gst_number.toUpperCase() : undefined;
+    const { pos, interstate } = documentSupply(document, customer, input.gstin);
+    const lines = documentLines(document, interstate, products, warnings);
+    const rates = byRate(lines);
+    const isCreditNote = document.invoice_type === 'credit_note';
+    const sign = isCreditNote ? -1 : 1;
+
+    for (const line of lines) {
+      addHsn(ctin ? hsn.b2b : hsn.b2c, line, sign);
+    }
+
+    if (!isCreditNote && ctin) {
+      const entry = b2b.get(ctin) || { ctin, name: customer!.name, inv: [] };
+      entry.inv.push({
+        inum: document.invoice_number,
+        idt: formatDate(document.created_at),
+        val: round(document.total),
+        pos,
+        rchrg: document.reverse_charge ? 'Y' : 'N',
+        inv_typ: 'R',
+        itms: itemDetails(rates, interstate),
+      });
+      b2b.set(ctin, entry);
+    } else if (!isCreditNote && interstate && Number(document.total) > B2CL_THRESHOLD) {
+      const entry = b2cl.get(pos) || { pos, inv: [] };
+      entry.inv.push({
+        inum: document.invoice_number,
+        idt: formatDate(document.created_at),
+        val: round(document.total),
+        itms: itemDetails(rates, interstate),
+      });
+      b2cl.set(pos, entry);
+    } else if (isCreditNote && ctin) {
+      const entry = cdnr.get(ctin) || { ctin, name: customer!.name, nt: [] };
+      entry.nt.push({
+        ntty: 'C',
+        nt_num: document.invoice_number,
+        nt_dt: formatDate(document.created_at),
+        val: round(document.total),
+        pos,
+        rchrg: document.reverse_charge ? 'Y' : 'N',
+        inv_typ: 'R',
+        itms: itemDetails(rates, interstate),
+      });
+      cdnr.set(ctin, entry);
+    } else if (isCreditNote && interstate && Number(originals.get(document.original_invoice_id || '')?.total) > B2CL_THRESHOLD) {
+      cdnur.push({
+        typ: 'B2CL',
+        ntty: 'C',
+        nt_num: document.invoice_number,
+        nt_dt: formatDate(document.created_at),
+        val: round(document.total),
+        pos,
+        itms: itemDetails(rates, interstate),
+      });
+    } else {
+      // Small B2C supplies are reported net of their credit notes, per state and rate
+      for (const rate of rates) {
+        const key = `${pos}|${rate.rt}`;
+        const entry = b2cs.get(key) || {
+          sply_ty: interstate ? 'INTER' : 'INTRA',
+          pos,
+          typ: 'OE',
+          rt: rate.rt,
+          txval: 0,
+          iamt: 0,
+          camt: 0,
+          samt: 0,
+          csamt: 0,
+        };
+        for (const field of ['txval', 'iamt', 'camt', 'samt', 'csamt'] as const) {
+          entry[field] += sign * rate[field];
+        }
+        b2cs.set(key, entry);
+      }
+    }
+  }
+
+  const json = {
+    gstin: input.gstin,
+    fp: input.period.fp,
+    b2b: [...b2b.values()].map(({ ctin, inv }) => ({ ctin, inv })),
+    b2cl: [...b2cl.values()],
+    b2cs: [...b2cs.values()].map((entry) => roundFields(entry, interstateFields(entry.sply_ty === 'INTER'))),
+    cdnr: [...cdnr.values()].map(({ ctin, nt }) => ({ ctin, nt })),
+    cdnur,
+    hsn: {
+      hsn_b2b: hsnRows(hsn.b2b),
+      hsn_b2c: hsnRows(hsn.b2c),
+    },
+    doc_issue: { doc_det: documentSummary(input.documents) },
+  };
+
+  const sum = (rows: any[], field: string) => round(rows.reduce((total, row) => total + (Number(row[field]) || 0), 0));
+  const itemsOf = (documents: any[]) => documents.flatMap((d) => d.itms.map((i: any) => i.itm_det));
+  const b2bInvoices = json.b2b.flatMap((e) => e.inv);
+  const b2clInvoices = json.b2cl.flatMap((e) => e.inv);
+  const cdnrNotes = json.cdnr.flatMap((e) => e.nt);
+
+  return {
+    gstin: input.gstin,
+    fp: input.period.fp,
+    period: { start: input.period.start, end: input.period.end },
+    summary: {
+      b2b: { invoices: b2bInvoices.length, value: sum(b2bInvoices, 'val'), taxable_value: sum(itemsOf(b2bInvoices), 'txval') },
+      b2cl: { invoices: b2clInvoices.length, value: sum(b2clInvoices, 'val'), taxable_value: sum(itemsOf(b2clInvoices), 'txval') },
+      b2cs: { taxable_value: sum(json.b2cs, 'txval'), tax: round(sum(json.b2cs, 'iamt') + sum(json.b2cs, 'camt') + sum(json.b2cs, 'samt') + sum(json.b2cs, 'csamt')) },
+      cdnr: { notes: cdnrNotes.length, value: sum(cdnrNotes, 'val') },
+      cdnur: { notes: cdnur.length, value: sum(cdnur, 'val') },
+      documents_issued: input.documents.length,
+      documents_cancelled: input.documents.length - issued.length,
+    },
+    warnings: [...warnings],
+    json,
+    csv: {
+      b2b: toCSV(
+        ['GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN', 'Rate', 'Taxable Value', 'Cess Amount'],
+        [...b2b.values()].flatMap(({ ctin, name, inv }) => inv.flatMap((i) => i.itms.map((item: any) => [
+          ctin, name, i.inum, csvDate(i.idt), i.val, stateLabel(i.pos), i.rchrg, '', 'Regular B2B', '', item.itm_det.rt, item.itm_det.txval, item.itm_det.csamt,
+        ])))
+      ),
+      b2cl: toCSV(
+        ['Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+        json.b2cl.flatMap(({ pos, inv }) => inv.flatMap((i) => i.itms.map((item: any) => [
+          i.inum, csvDate(i.idt), i.val, stateLabel(pos), '', item.itm_det.rt, item.itm_det.txval, item.itm_det.csamt, '',
+        ])))
+      ),
+      b2cs: toCSV(
+        ['Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+        json.b2cs.map((e) => ['OE', stateLabel(e.pos), '', e.rt, e.txval, e.csamt, ''])
+      ),
+      cdnr: toCSV(
+        ['GSTIN/UIN of Recipient', 'Receiver Name', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Reverse Charge', 'Note Supply Type', 'Note Value', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount'],
+        [...cdnr.values()].flatMap(({ ctin, name, nt }) => nt.flatMap((n) => n.itms.map((item: any) => [
+          ctin, name, n.nt_num, csvDate(n.nt_dt), 'C', stateLabel(n.pos), n.rchrg, 'Regular B2B', n.val, '', item.itm_det.rt, item.itm_det.txval, item.itm_det.csamt,
+        ])))
+      ),
+      cdnur: toCSV(
+        ['UR Type', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Note Value', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount'],
+        cdnur.flatMap((n) => n.itms.map((item: any) => [
+          n.typ, n.nt_num, csvDate(n.nt_dt), 'C', stateLabel(n.pos), n.val, '', item.itm_det.rt, item.itm_det.txval, item.itm_det.csamt,
+        ]))
+      ),
+      hsn_b2b: hsnCSV(json.hsn.hsn_b2b),
+      hsn_b2c: hsnCSV(json.hsn.hsn_b2c),
+      docs: toCSV(
+        ['Nature of Document', 'Sr. No. From', 'Sr. No. To', 'Total Number', 'Cancelled'],
+        json.doc_issue.doc_det.flatMap((d) => d.docs.map((doc: any) => [d.doc_typ, doc.from, doc.to, doc.totnum, doc.cancel]))
+      ),
+    },
+  };
+}
+
+/**
+ * Place of supply of a document as it was taxed; older documents without one are placed from the customer
+ */
+export function documentSupply(document: Invoice, customer: Customer | undefined, sellerGstin: string) {
+  if (document.place_of_supply) {
+    return { pos: document.place_of_supply, interstate: !!document.is_interstate };
+  }
+  const supply = determinePlaceOfSupply({ gst_number: sellerGstin }, customer);
+  return { pos: supply.place_of_supply || sellerGstin.substring(0, 2), interstate: supply.is_interstate };
+}
+
+/**
+ * Taxable value, GST and cess of each line as charged
+ * The invoice-level discount is given after tax (as in the e-invoice), so it stays out of the taxable value;
+ * each line's share of it is returned apart for turnover that is counted net of it
+ */
+export function taxableLines(document: Invoice, interstate: boolean): (RateLine & { item: InvoiceItem; discount: number })[] {
+  const lineValue = (item: InvoiceItem) =>
+    Number(item.quantity) * Number(item.unit_price) * (1 - (Number(item.discount) || 0) / 100);
+  const subtotal = document.items.reduce((sum, item) => sum + lineValue(item), 0);
+  const discountShare = subtotal > 0 ? (Number(document.discount_amount) || 0) / subtotal : 0;
+
+  return document.items.map((item) => {
+    const value = lineValue(item);
+    // Lines store the tax split they were charged; older documents have only the rate
+    const stored = item.cgst_amount != null || item.sgst_amount != null || item.igst_amount != null;
+    const tax = (value * Number(item.gst_rate)) / 100;
+    return {
+      item,
+      rt: Number(item.gst_rate),
+      txval: value,
+      iamt: stored ? Number(item.igst_amount) || 0 : interstate ? tax : 0,
+      camt: stored ? Number(item.cgst_amount) || 0 : interstate ? 0 : tax / 2,
+      samt: stored ? Number(item.sgst_amount) || 0 : interstate ? 0 : tax / 2,
+      csamt: Number(item.cess_amount) || 0,
+      discount: value * discountShare,
+    };
+  });
+}
+
+/**
+ * Taxable lines with the HSN, description and quantity code the HSN summary needs
+ */
+function documentLines(
+  document: Invoice,
+  interstate: boolean,
+  products: Map<string, Product>,
+  warnings: Set<string>
+): DocumentLine[] {
+  return taxableLines(document, interstate).map(({ item, ...line }) => {
+    const product = item.product_id ? products.get(item.product_id) : undefined;
+    if (!product?.hsn_code) {
+      warnings.add(`${item.name} has no HSN code`);
+    }
+
+    return {
+      ...line,
+      hsn: product?.hsn_code || '',
+      description: product?.name || item.name,
+      uqc: UQC[(item.unit || product?.unit || '').toLowerCase()] || 'OTH',
+      qty: Number(item.quantity),
+    };
+  });
+}
+
+function byRate(lines: RateLine[]): RateLine[] {
+  const rates = new Map<number, RateLine>();
+  for (const line of lines) {
+    const entry = rates.get(line.rt) || { rt: line.rt, txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+    entry.txval += line.txval;
+    entry.iamt += line.iamt;
+    entry.camt += line.camt;
+    entry.samt += line.samt;
+    entry.csamt += line.csamt;
+    rates.set(line.rt, entry);
+  }
+  return [...rates.values()];
+}
+
+/**
+ * Invoice items grouped by rate; the portal numbers them rate × 100 + 1
+ */
+function itemDetails(rates: RateLine[], interstate: boolean) {
+  return rates.map((rate) => ({
+    num: Math.round(rate.rt * 100) + 1,
+    itm_det: roundFields({ ...rate }, interstateFields(interstate)),
+  }));
+}
+
+function interstateFields(interstate: boolean): string[] {
+  return interstate ? ['camt', 'samt'] : ['iamt'];
+}
+
+function roundFields<T extends Record<string, any>>(entry: T, omit: string[] = []): T {
+  const rounded: Record<string, any> = {};
+  for (const [key, value] of Object.entries(entry)) {
+    if (omit.includes(key)) continue;
+    rounded[key] = typeof value === 'number' && key !== 'rt' ? round(value) : value;
+  }
+  return rounded as T;
+}
+
+function addHsn(rows: Map<string, any>, line: DocumentLine, sign: number) {
+  const key = `${line.hsn}|${line.uqc}|${line.rt}`;
+  const row = rows.get(key) || {
+    hsn_sc: line.hsn,
+    desc: line.description,
+    uqc: line.uqc,
+    qty: 0,
+    rt: line.rt,
+    txval: 0,
+    iamt: 0,
+    camt: 0,
+    samt: 0,
+    csamt: 0,
+  };
+  row.qty += sign * line.qty;
+  row.txval += sign * line.txval;
+  row.iamt += sign * line.iamt;
+  row.camt += sign * line.camt;
+  row.samt += sign * line.samt;
+  row.csamt += sign * line.csamt;
+  rows.set(key, row);
+}
+
+function hsnRows(rows: Map<string, any>) {
+  return [...rows.values()].map((row, index) => ({
+    num: index + 1,
+    ...roundFields(row),
+    qty: Math.round(row.qty * 1000) / 1000,
+  }));
+}
+
+function hsnCSV(rows: any[]): string {
+  return toCSV(
+    ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+    rows.map((row) => [
+      row.hsn_sc, row.desc, row.uqc, row.qty, round(row.txval + row.iamt + row.camt + row.samt + row.csamt),
+      row.rt, row.txval, row.iamt, row.camt, row.samt, row.csamt,
+    ])
+  );
+}
+
+/**
+ * Numbers issued per series (prefix), cancelled documents included
+ */
+function documentSummary(documents: Invoice[]) {
+  return (Object.keys(DOC_TYPES) as (keyof typeof DOC_TYPES)[])
+    .map((type) => {
+      const series = new Map<string, Invoice[]>();
+      for (const document of documents.filter((d) => d.invoice_type === type)) {
+        const prefix = document.invoice_number.substring(0, document.invoice_number.lastIndexOf('/') + 1);
+        series.set(prefix, [...(series.get(prefix) || []), document]);
+      }
+
+      const docs = [...series.values()].map((numbers, index) => {
+        const sorted = [...numbers].sort((a, b) => a.invoice_number.localeCompare(b.invoice_number, 'en', { numeric: true }));
+        const cancelled = sorted.filter((d) => d.status === 'cancelled').length;
+        return {
+          num: index + 1,
+          from: sorted[0].invoice_number,
+          to: sorted[sorted.length - 1].invoice_number,
+          totnum: sorted.length,
+          cancel: cancelled,
+          net_issue: sorted.length - cancelled,
+        };
+      });
+
+      return { ...DOC_TYPES[type], docs };
+    })
+    .filter((entry) => entry.docs.length > 0);
+}
+
+/**
+ * dd-mm-yyyy in Indian time, as the portal JSON expects
+ */
+function formatDate(timestamp: string): string {
+  const date = new Date(new Date(timestamp).getTime() + IST_OFFSET_MS);
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}-${month}-${date.getUTCFullYear()}`;
+}
+
+/**
+ * The offline tool's CSV templates use dd-MMM-yy
+ */
+function csvDate(date: string): string {
+  const [day, month, year] = date.split('-');
+  return `${day}-${MONTHS[Number(month) - 1]}-${year.substring(2)}`;
+}
+
+function stateLabel(code: string): string {
+  return `${code}-${INDIAN_STATES[code] || ''}`;
+}
+
+function toCSV(headers: string[], rows: any[][]): string {
+  const escape = (value: any) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map((row) => row.map(escape).join(',')).join('\n');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
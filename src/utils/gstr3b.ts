@@ -0,0 +1,300 @@
+import type { Customer, Expense, Invoice, PurchaseOrder } from '../types/index.js';
+import { isValidGSTIN } from './gst.js';
+import { ReturnPeriod, documentSupply, taxableLines } from './gstr1.js';
+
+/**
+ * GSTR-3B (monthly summary return) in the GST portal JSON layout, with the tax payable in cash after input tax credit
+ */
+
+export interface GSTR3BInput {
+  gstin: string;
+  period: ReturnPeriod;
+  // Tax invoices and credit notes dated in the period, cancelled ones included
+  documents: Invoice[];
+  customers: Customer[];
+  // Expenses dated in the period
+  expenses: Expense[];
+  // Purchase orders whose credit falls in the period (by supplier invoice date, else receipt)
+  purchaseOrders: PurchaseOrder[];
+}
+
+type TaxHeads = {
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+};
+
+type Head = 'igst' | 'cgst' | 'sgst' | 'cess';
+
+// Order in which credit is set off against liability (sections 49 and 49A, rule 88A):
+// IGST credit first, then CGST and SGST credit; CGST and SGST credit never cross over
+const SET_OFF: [Head, Head[]][] = [
+  ['igst', ['igst', 'cgst', 'sgst']],
+  ['cgst', ['cgst', 'igst']],
+  ['sgst', ['sgst', 'igst']],
+  ['cess', ['cess']],
+];
+
+/**
+ * Build the GSTR-3B tables and the cash payable for a period
+ */
+export function buildGSTR3B(input: GSTR3BInput) {
+  const customers = new Map(input.customers.map((c) => [c.id, c]));
+  const warnings = new Set<string>();
+
+  // 3.1 Outward supplies and 3.2 inter-state supplies to unregistered persons
+  const outward = { txval: 0, ...zero() };
+  const nilRated = { txval: 0 };
+  const unregistered = new Map<string, { pos: string; txval: number; iamt: number }>();
+
+  for (const document of input.documents.filter((d) => d.status !== 'cancelled')) {
+    const customer = document.customer_id ? customers.get(document.customer_id) : undefined;
+    const registered = !!customer?.gst_number && isValidGSTIN(customer.gst_number);
+    const { pos, interstate } = documentSupply(document, customer, input.gstin);
+    const sign = document.invoice_type === 'credit_note' ? -1 : 1;
+
+    for (const line of taxableLines(document, interstate)) {
+      if (line.rt === 0) {
+        nilRated.txval += sign * line.txval;
+        continue;
+      }
+      outward.txval += sign * line.txval;
+      // Under reverse charge the recipient pays the tax, so only the value is ours to report
+      if (document.reverse_charge) continue;
+      outward.iamt += sign * line.iamt;
+      outward.camt += sign * line.camt;
+      outward.samt += sign * line.samt;
+      outward.csamt += sign * line.csamt;
+
+      if (interstate && !registered) {
+        const entry = unregistered.get(pos) || { pos, txval: 0, iamt: 0 };
+        entry.txval += sign * line.txval;
+        entry.iamt += sign * line.iamt;
+        unregistered.set(pos, entry);
+      }
+    }
+  }
+
+  // 4 Eligible input tax credit: bills with the supplier's GSTIN, and tax we paid under reverse charge
+  const eligible = zero();
+  const blocked = zero();
+  // 3.1(d) Inward supplies under reverse charge: the tax is paid in cash, then claimed as credit
+  const inwardReverseCharge = { txval: 0, ...zero() };
+  const reverseChargeCredit = zero();
+
+  for (const expense of input.expenses) {
+    const tax = {
+      iamt: Number(expense.igst_amount) || 0,
+      camt: Number(expense.cgst_amount) || 0,
+      samt: Number(expense.sgst_amount) || 0,
+      csamt: Number(expense.cess_amount) || 0,
+    };
+    if (tax.iamt + tax.camt + tax.samt + tax.csamt === 0) continue;
+    if (expense.reverse_charge) {
+      inwardReverseCharge.txval += Number(expense.taxable_value ?? expense.amount) || 0;
+      add(inwardReverseCharge, tax);
+      add(expense.itc_eligible === false ? blocked : reverseChargeCredit, tax);
+      continue;
+    }
+    if (!expense.supplier_gstin) {
+      warnings.add(`Expense "${expense.description}" (${expense.date}) has GST but no supplier GSTIN; its credit is not claimed`);
+      continue;
+    }
+    add(expense.itc_eligible === false ? blocked : eligible, tax);
+  }
+
+  for (const order of input.purchaseOrders) {
+    if (order.reverse_charge) {
+      const received = receivedTax(order);
+      inwardReverseCharge.txval += received.txval;
+      add(inwardReverseCharge, received);
+      add(reverseChargeCredit, received);
+      continue;
+    }
+    if (!order.supplier_gstin) {
+      warnings.add(`Purchase order ${order.order_number} has no supplier GSTIN; its credit is not claimed`);
+      continue;
+    }
+    add(eligible, receivedTax(order));
+  }
+
+  const liability: Record<Head, number> = {
+    igst: Math.max(0, round(outward.iamt)),
+    cgst: Math.max(0, round(outward.camt)),
+    sgst: Math.max(0, round(outward.samt)),
+    cess: Math.max(0, round(outward.csamt)),
+  };
+  if (outward.iamt < 0 || outward.camt < 0 || outward.samt < 0) {
+    warnings.add('Credit notes exceed sales for the period; the excess cannot be carried into the payable and is shown as zero');
+  }
+
+  const netCredit = zero();
+  add(netCredit, eligible);
+  add(netCredit, reverseChargeCredit);
+  const credit: Record<Head, number> = {
+    igst: round(netCredit.iamt),
+    cgst: round(netCredit.camt),
+    sgst: round(netCredit.samt),
+    cess: round(netCredit.csamt),
+  };
+  const { utilised, cash: outwardCash, carriedForward } = setOff(liability, credit);
+
+  // Reverse charge tax cannot be paid from credit (section 49(4)); it all goes in cash
+  const reverseChargeLiability: Record<Head, number> = {
+    igst: round(inwardReverseCharge.iamt),
+    cgst: round(inwardReverseCharge.camt),
+    sgst: round(inwardReverseCharge.samt),
+    cess: round(inwardReverseCharge.csamt),
+  };
+  const cash: Record<Head, number> = {
+    igst: round(outwardCash.igst + reverseChargeLiability.igst),
+    cgst: round(outwardCash.cgst + reverseChargeLiability.cgst),
+    sgst: round(outwardCash.sgst + reverseChargeLiability.sgst),
+    cess: round(outwardCash.cess + reverseChargeLiability.cess),
+  };
+  const cashTotal = round(cash.igst + cash.cgst + cash.sgst + cash.cess);
+  const reverseChargeTotal = round(
+    reverseChargeLiability.igst + reverseChargeLiability.cgst + reverseChargeLiability.sgst + reverseChargeLiability.cess
+  );
+
+  const json = {
+    gstin: input.gstin,
+    ret_period: input.period.fp,
+    sup_details: {
+      osup_det: roundHeads(outward),
+      osup_zero: { txval: 0, iamt: 0, csamt: 0 },
+      osup_nil_exmp: { txval: round(nilRated.txval) },
+      isup_rev: roundHeads(inwardReverseCharge),
+      osup_nongst: { txval: 0 },
+    },
+    inter_sup: {
+      unreg_details: [...unregistered.values()]
+        .map((entry) => ({ pos: entry.pos, txval: round(entry.txval), iamt: round(entry.iamt) }))
+        .filter((entry) => entry.txval !== 0),
+      comp_details: [],
+      uin_details: [],
+    },
+    itc_elg: {
+      itc_avl: [
+        { ty: 'IMPG', ...zero() },
+        { ty: 'IMPS', ...zero() },
+        { ty: 'ISRC', ...roundHeads(reverseChargeCredit) },
+        { ty: 'ISD', ...zero() },
+        { ty: 'OTH', ...roundHeads(eligible) },
+      ],
+      itc_rev: [
+        { ty: 'RUL', ...zero() },
+        { ty: 'OTH', ...zero() },
+      ],
+      itc_net: roundHeads(netCredit),
+      itc_inelg: [
+        { ty: 'RUL', ...roundHeads(blocked) },
+        { ty: 'OTH', ...zero() },
+      ],
+    },
+    inward_sup: {
+      isup_details: [
+        { ty: 'GST', inter: 0, intra: 0 },
+        { ty: 'NONGST', inter: 0, intra: 0 },
+      ],
+    },
+  };
+
+  return {
+    gstin: input.gstin,
+    ret_period: input.period.fp,
+    period: { start: input.period.start, end: input.period.end },
+    summary: {
+      taxable_outward_supplies: round(outward.txval),
+      output_tax: round(liability.igst + liability.cgst + liability.sgst + liability.cess),
+      reverse_charge_tax: reverseChargeTotal,
+      eligible_itc: round(credit.igst + credit.cgst + credit.sgst + credit.cess),
+      cash_payable: cashTotal,
+      message: cashTotal > 0
+        ? `GST payable in cash: ₹${cashTotal.toFixed(2)} (IGST ₹${cash.igst.toFixed(2)}, CGST ₹${cash.cgst.toFixed(2)}, SGST ₹${cash.sgst.toFixed(2)}, cess ₹${cash.cess.toFixed(2)})`
+          + (reverseChargeTotal > 0 ? `, including ₹${reverseChargeTotal.toFixed(2)} under reverse charge` : '')
+        : 'No GST payable in cash; the liability is covered by input tax credit',
+    },
+    // Table 6.1: how the liability is discharged
+    tax_payment: {
+      liability,
+      reverse_charge_liability: reverseChargeLiability,
+      itc_available: credit,
+      itc_utilised: utilised,
+      paid_in_cash: cash,
+      itc_carried_forward: carriedForward,
+    },
+    warnings: [...warnings],
+    json,
+  };
+}
+
+/**
+ * Value of and GST on the goods received so far against a purchase order
+ */
+export function receivedTax(order: PurchaseOrder): TaxHeads & { txval: number } {
+  const tax = { txval: 0, ...zero() };
+  for (const item of order.items) {
+    const share = item.quantity > 0 ? Math.min(1, (item.received_quantity || 0) / item.quantity) : 0;
+    if (share === 0) continue;
+
+    tax.txval += Number(item.total) * share;
+    tax.csamt += (Number(item.cess_amount) || 0) * share;
+    if (item.cgst_amount !== undefined || item.igst_amount !== undefined) {
+      tax.iamt += (Number(item.igst_amount) || 0) * share;
+      tax.camt += (Number(item.cgst_amount) || 0) * share;
+      tax.samt += (Number(item.sgst_amount) || 0) * share;
+    } else {
+      // Orders placed before the split was recorded
+      const lineTax = (Number(item.total) * (Number(item.gst_rate) || 0)) / 100 * share;
+      if (order.is_interstate) {
+        tax.iamt += lineTax;
+      } else {
+        tax.camt += lineTax / 2;
+        tax.samt += lineTax / 2;
+      }
+    }
+  }
+  return tax;
+}
+
+/**
+ * Apply credit to liability head by head in the order the law allows; what is left is paid in cash
+ */
+function setOff(liability: Record<Head, number>, credit: Record<Head, number>) {
+  const due = { ...liability };
+  const left = { ...credit };
+  const utilised: Record<Head, Partial<Record<Head, number>>> = { igst: {}, cgst: {}, sgst: {}, cess: {} };
+
+  for (const [creditHead, against] of SET_OFF) {
+    for (const head of against) {
+      const amount = round(Math.min(left[creditHead], due[head]));
+      if (amount <= 0) continue;
+      utilised[creditHead][head] = amount;
+      left[creditHead] = round(left[creditHead] - amount);
+      due[head] = round(due[head] - amount);
+    }
+  }
+
+  return { utilised, cash: due, carriedForward: left };
+}
+
+function zero(): TaxHeads {
+  return { iamt: 0, camt: 0, samt: 0, csamt: 0 };
+}
+
+function add(total: TaxHeads, tax: TaxHeads) {
+  total.iamt += tax.iamt;
+  total.camt += tax.camt;
+  total.samt += tax.samt;
+  total.csamt += tax.csamt;
+}
+
+function roundHeads<T extends Record<string, number>>(heads: T): T {
+  return Object.fromEntries(Object.entries(heads).map(([key, value]) => [key, round(value)])) as T;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
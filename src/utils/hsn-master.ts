@@ -0,0 +1,178 @@
+/**
+ * Bundled HSN (goods) and SAC (services) master
+ * Common items for small retailers, traders and service providers, not the full customs tariff.
+ * Bump HSN_MASTER_VERSION whenever codes or rates change so stored suggestions can be traced to a dataset.
+ */
+
+export const HSN_MASTER_VERSION = '2024.1';
+
+export interface HSNEntry {
+  // 4, 6 or 8 digit HSN code, or SAC code (services, chapter 99)
+  code: string;
+  description: string;
+  gst_rate: number;
+  // Compensation cess as a percentage of taxable value
+  cess_rate?: number;
+  // Compensation cess charged per unit of quantity, on top of any percentage
+  cess_per_unit?: { amount: number; unit: string };
+  // Higher rate once the value of one piece (or the tariff, for rooms) crosses a limit
+  rate_above?: { value: number; gst_rate: number };
+  // Tax is paid by the recipient under reverse charge
+  reverse_charge?: boolean;
+  // Everyday names used when searching
+  keywords?: string[];
+}
+
+export const HSN_MASTER: HSNEntry[] = [
+  // ============ DAIRY, EGGS, HONEY ============
+  { code: '0401', description: 'Milk and cream, not concentrated or sweetened (fresh)', gst_rate: 0, keywords: ['milk', 'doodh', 'fresh cream'] },
+  { code: '0402', description: 'Milk and cream, concentrated or sweetened (milk powder, condensed milk)', gst_rate: 5, keywords: ['milk powder', 'condensed milk'] },
+  { code: '0403', description: 'Curd, yoghurt, lassi and buttermilk, pre-packaged and labelled', gst_rate: 5, keywords: ['curd', 'dahi', 'lassi', 'buttermilk', 'chaas', 'yoghurt'] },
+  { code: '0405', description: 'Butter, ghee and other fats derived from milk', gst_rate: 12, keywords: ['butter', 'ghee', 'makhan'] },
+  { code: '0406', description: 'Cheese and paneer, pre-packaged', gst_rate: 12, keywords: ['cheese', 'paneer'] },
+  { code: '0407', description: 'Birds\' eggs, in shell, fresh', gst_rate: 0, keywords: ['eggs', 'anda'] },
+  { code: '0409', description: 'Natural honey, pre-packaged and labelled', gst_rate: 5, keywords: ['honey', 'shahad'] },
+
+  // ============ VEGETABLES AND FRUIT ============
+  { code: '0701', description: 'Potatoes, fresh or chilled', gst_rate: 0, keywords: ['potato', 'aloo'] },
+  { code: '0702', description: 'Tomatoes, fresh or chilled', gst_rate: 0, keywords: ['tomato', 'tamatar'] },
+  { code: '0703', description: 'Onions, garlic and leeks, fresh or chilled', gst_rate: 0, keywords: ['onion', 'pyaz', 'garlic', 'lahsun'] },
+  { code: '0709', description: 'Other vegetables, fresh or chilled', gst_rate: 0, keywords: ['vegetables', 'sabzi', 'chilli', 'okra', 'bhindi'] },
+  { code: '0713', description: 'Dried pulses (dal), pre-packaged and labelled', gst_rate: 5, keywords: ['dal', 'pulses', 'chana', 'moong', 'toor', 'masoor', 'rajma'] },
+  { code: '0803', description: 'Bananas, fresh', gst_rate: 0, keywords: ['banana', 'kela'] },
+  { code: '0805', description: 'Citrus fruit (oranges, lemons), fresh', gst_rate: 0, keywords: ['orange', 'lemon', 'nimbu', 'mosambi'] },
+  { code: '0808', description: 'Apples and pears, fresh', gst_rate: 0, keywords: ['apple', 'seb', 'pear'] },
+
+  // ============ COFFEE, TEA, SPICES ============
+  { code: '0901', description: 'Coffee beans and roasted coffee', gst_rate: 5, keywords: ['coffee'] },
+  { code: '0902', description: 'Tea', gst_rate: 5, keywords: ['tea', 'chai', 'chai patti'] },
+  { code: '0904', description: 'Pepper and dried chillies', gst_rate: 5, keywords: ['pepper', 'kali mirch', 'red chilli', 'mirchi'] },
+  { code: '0909', description: 'Seeds of coriander, cumin, fennel and anise', gst_rate: 5, keywords: ['jeera', 'cumin', 'dhania', 'coriander', 'saunf', 'fennel'] },
+  { code: '0910', description: 'Ginger, turmeric, saffron and other spices', gst_rate: 5, keywords: ['spices', 'masala', 'haldi', 'turmeric', 'ginger', 'saffron'] },
+
+  // ============ CEREALS AND FLOUR ============
+  { code: '1001', description: 'Wheat, pre-packaged and labelled', gst_rate: 5, keywords: ['wheat', 'gehun'] },
+  { code: '1006', description: 'Rice, pre-packaged and labelled', gst_rate: 5, keywords: ['rice', 'chawal', 'basmati'] },
+  { code: '1101', description: 'Wheat flour (atta, maida), pre-packaged and labelled', gst_rate: 5, keywords: ['atta', 'flour', 'maida'] },
+
+  // ============ EDIBLE OILS ============
+  { code: '1507', description: 'Soya-bean oil', gst_rate: 5, keywords: ['soyabean oil', 'edible oil', 'cooking oil'] },
+  { code: '1508', description: 'Groundnut oil', gst_rate: 5, keywords: ['groundnut oil', 'moongphali tel', 'edible oil'] },
+  { code: '1511', description: 'Palm oil', gst_rate: 5, keywords: ['palm oil', 'edible oil'] },
+  { code: '1512', description: 'Sunflower and safflower oil', gst_rate: 5, keywords: ['sunflower oil', 'edible oil'] },
+  { code: '1514', description: 'Rapeseed and mustard oil', gst_rate: 5, keywords: ['mustard oil', 'sarson tel', 'edible oil'] },
+
+  // ============ SUGAR, CONFECTIONERY, PREPARED FOOD ============
+  { code: '1701', description: 'Cane or beet sugar', gst_rate: 5, keywords: ['sugar', 'cheeni', 'shakkar'] },
+  { code: '1704', description: 'Sugar confectionery (toffees, candies)', gst_rate: 18, keywords: ['toffee', 'candy', 'confectionery'] },
+  { code: '1806', description: 'Chocolate and food preparations containing cocoa', gst_rate: 18, keywords: ['chocolate', 'cocoa'] },
+  { code: '1902', description: 'Pasta, vermicelli and noodles', gst_rate: 12, keywords: ['pasta', 'noodles', 'vermicelli', 'sevai'] },
+  { code: '1904', description: 'Cornflakes and other prepared cereals', gst_rate: 18, keywords: ['cornflakes', 'cereal', 'muesli', 'oats'] },
+  { code: '190531', description: 'Sweet biscuits', gst_rate: 18, keywords: ['biscuits', 'cookies'] },
+  { code: '190540', description: 'Rusks, toasted bread and similar toasted products', gst_rate: 5, keywords: ['rusk', 'toast'] },
+  { code: '190590', description: 'Cakes, pastries and other bakers\' wares', gst_rate: 18, keywords: ['cake', 'pastry'] },
+  { code: '2009', description: 'Fruit and vegetable juices', gst_rate: 12, keywords: ['juice', 'fruit juice'] },
+  { code: '2101', description: 'Instant coffee, extracts and concentrates of coffee and tea', gst_rate: 18, keywords: ['instant coffee'] },
+  { code: '2103', description: 'Sauces, ketchup and mixed condiments', gst_rate: 12, keywords: ['sauce', 'ketchup', 'pickle', 'achar'] },
+  { code: '2105', description: 'Ice cream and other edible ice', gst_rate: 18, keywords: ['ice cream', 'kulfi'] },
+  { code: '21069020', description: 'Pan masala', gst_rate: 28, cess_rate: 60, keywords: ['pan masala'] },
+  { code: '210690', description: 'Other food preparations', gst_rate: 18, keywords: ['food preparation', 'packaged food', 'ready to eat'] },
+
+  // ============ BEVERAGES ============
+  { code: '2201', description: 'Packaged drinking water and mineral water, without added sugar', gst_rate: 18, keywords: ['water', 'mineral water', 'bisleri'] },
+  { code: '220210', description: 'Aerated waters with added sugar or flavouring', gst_rate: 28, cess_rate: 12, keywords: ['aerated drinks', 'cold drink', 'soft drink', 'soda', 'cola'] },
+
+  // ============ TOBACCO ============
+  { code: '240220', description: 'Cigarettes containing tobacco', gst_rate: 28, cess_rate: 5, cess_per_unit: { amount: 2076, unit: 'thousand sticks' }, keywords: ['cigarette', 'tobacco'] },
+  { code: '24039910', description: 'Chewing tobacco', gst_rate: 28, cess_rate: 160, keywords: ['chewing tobacco', 'gutkha', 'khaini', 'tobacco'] },
+
+  // ============ MINERALS AND FUEL ============
+  { code: '2501', description: 'Salt', gst_rate: 0, keywords: ['salt', 'namak'] },
+  { code: '2523', description: 'Portland cement', gst_rate: 28, keywords: ['cement'] },
+  { code: '2701', description: 'Coal', gst_rate: 5, cess_per_unit: { amount: 400, unit: 'tonne' }, keywords: ['coal', 'koyla'] },
+  { code: '2711', description: 'LPG for domestic supply', gst_rate: 5, keywords: ['lpg', 'gas cylinder'] },
+
+  // ============ PHARMA AND PERSONAL CARE ============
+  { code: '3004', description: 'Medicaments for therapeutic or prophylactic use, in measured doses', gst_rate: 12, keywords: ['medicine', 'dawai', 'tablet', 'syrup'] },
+  { code: '3005', description: 'Bandages, cotton wool and dressings', gst_rate: 12, keywords: ['bandage', 'cotton wool', 'dressing'] },
+  { code: '3304', description: 'Beauty and make-up preparations, skin care', gst_rate: 18, keywords: ['cosmetics', 'cream', 'lipstick', 'powder'] },
+  { code: '3305', description: 'Hair preparations (shampoo, hair oil)', gst_rate: 18, keywords: ['shampoo', 'hair oil'] },
+  { code: '3306', description: 'Toothpaste and other oral hygiene preparations', gst_rate: 18, keywords: ['toothpaste', 'tooth powder'] },
+  { code: '3307', description: 'Deodorants, shaving preparations and perfumes', gst_rate: 18, keywords: ['deodorant', 'shaving cream', 'perfume', 'agarbatti'] },
+  { code: '3401', description: 'Soap', gst_rate: 18, keywords: ['soap', 'sabun'] },
+  { code: '3402', description: 'Detergents and washing preparations', gst_rate: 18, keywords: ['detergent', 'washing powder', 'surf'] },
+  { code: '3808', description: 'Insecticides and mosquito repellents', gst_rate: 18, keywords: ['mosquito coil', 'insecticide', 'repellent'] },
+  { code: '9619', description: 'Sanitary napkins and tampons', gst_rate: 0, keywords: ['sanitary pad', 'sanitary napkin'] },
+
+  // ============ PLASTICS, RUBBER, PAPER ============
+  { code: '3923', description: 'Plastic boxes, bags and containers for packing', gst_rate: 18, keywords: ['plastic bag', 'container', 'packing'] },
+  { code: '3924', description: 'Plastic tableware and kitchenware', gst_rate: 18, keywords: ['plastic bucket', 'plastic tableware'] },
+  { code: '4011', description: 'New pneumatic rubber tyres', gst_rate: 28, keywords: ['tyre', 'tire'] },
+  { code: '4802', description: 'Uncoated paper for writing and printing', gst_rate: 12, keywords: ['paper', 'a4 paper'] },
+  { code: '4817', description: 'Envelopes and letter cards', gst_rate: 18, keywords: ['envelope'] },
+  { code: '4818', description: 'Toilet paper, tissues and napkins', gst_rate: 18, keywords: ['tissue', 'toilet paper', 'napkin'] },
+  { code: '4820', description: 'Exercise books, notebooks and registers', gst_rate: 12, keywords: ['notebook', 'register', 'copy'] },
+  { code: '4901', description: 'Printed books', gst_rate: 0, keywords: ['book', 'textbook'] },
+
+  // ============ TEXTILES, APPAREL, FOOTWEAR ============
+  { code: '5208', description: 'Woven cotton fabrics', gst_rate: 5, keywords: ['cotton fabric', 'cloth', 'kapda'] },
+  { code: '6109', description: 'T-shirts, singlets and vests, knitted', gst_rate: 5, rate_above: { value: 1000, gst_rate: 12 }, keywords: ['t-shirt', 'tshirt', 'vest', 'banian', 'innerwear'] },
+  { code: '6115', description: 'Socks, stockings and other hosiery, knitted', gst_rate: 5, rate_above: { value: 1000, gst_rate: 12 }, keywords: ['socks', 'stockings', 'hosiery'] },
+  { code: '6203', description: 'Men\'s suits, jackets, trousers and jeans, woven', gst_rate: 5, rate_above: { value: 1000, gst_rate: 12 }, keywords: ['trousers', 'jeans', 'pant', 'suit', 'jacket'] },
+  { code: '6204', description: 'Women\'s suits, dresses, skirts and kurtis, woven', gst_rate: 5, rate_above: { value: 1000, gst_rate: 12 }, keywords: ['kurti', 'kurta', 'dress', 'skirt', 'salwar suit'] },
+  { code: '6205', description: 'Men\'s shirts, woven', gst_rate: 5, rate_above: { value: 1000, gst_rate: 12 }, keywords: ['shirt', 'apparel', 'clothes', 'garments'] },
+  { code: '6302', description: 'Bed linen, table linen and towels', gst_rate: 5, rate_above: { value: 1000, gst_rate: 12 }, keywords: ['bedsheet', 'towel', 'pillow cover'] },
+  { code: '6402', description: 'Footwear with rubber or plastic soles and uppers (chappals, slippers)', gst_rate: 12, rate_above: { value: 1000, gst_rate: 18 }, keywords: ['chappal', 'slippers', 'sandals', 'flip flops', 'footwear'] },
+  { code: '6403', description: 'Footwear with leather uppers', gst_rate: 12, rate_above: { value: 1000, gst_rate: 18 }, keywords: ['shoes', 'leather shoes'] },
+
+  // ============ CERAMICS, GLASS, METALS ============
+  { code: '6910', description: 'Ceramic sinks, wash basins and sanitary fixtures', gst_rate: 18, keywords: ['wash basin', 'sanitaryware'] },
+  { code: '6911', description: 'Porcelain tableware and kitchenware', gst_rate: 12, keywords: ['crockery', 'plates', 'cups'] },
+  { code: '7013', description: 'Glassware for table and kitchen', gst_rate: 18, keywords: ['glass', 'glassware'] },
+  { code: '7108', description: 'Gold, unwrought or semi-manufactured', gst_rate: 3, keywords: ['gold', 'sona'] },
+  { code: '7113', description: 'Jewellery of precious metal', gst_rate: 3, keywords: ['jewellery', 'jewelry', 'gold ornaments'] },
+  { code: '7323', description: 'Steel utensils and kitchenware', gst_rate: 12, keywords: ['utensils', 'bartan', 'steel plate'] },
+  { code: '8301', description: 'Padlocks and locks', gst_rate: 18, keywords: ['lock', 'padlock', 'tala'] },
+
+  // ============ MACHINERY AND ELECTRICALS ============
+  { code: '8414', description: 'Fans and air pumps', gst_rate: 18, keywords: ['fan', 'pankha', 'exhaust fan'] },
+  { code: '8415', description: 'Air conditioners', gst_rate: 28, keywords: ['ac', 'air conditioner'] },
+  { code: '8418', description: 'Refrigerators and freezers', gst_rate: 18, keywords: ['refrigerator', 'fridge', 'freezer'] },
+  { code: '8450', description: 'Household washing machines', gst_rate: 18, keywords: ['washing machine'] },
+  { code: '8471', description: 'Computers, laptops and peripherals', gst_rate: 18, keywords: ['computer', 'laptop', 'printer', 'keyboard'] },
+  { code: '8506', description: 'Primary cells and batteries', gst_rate: 18, keywords: ['battery', 'cell'] },
+  { code: '850760', description: 'Lithium-ion batteries', gst_rate: 18, keywords: ['lithium battery', 'power bank'] },
+  { code: '8516', description: 'Electric water heaters, irons and heating appliances', gst_rate: 18, keywords: ['geyser', 'iron', 'heater', 'kettle'] },
+  { code: '8517', description: 'Mobile phones and telephone sets', gst_rate: 18, keywords: ['mobile', 'phone', 'smartphone'] },
+  { code: '8539', description: 'LED lamps and bulbs', gst_rate: 12, keywords: ['led bulb', 'bulb', 'tube light'] },
+  { code: '8544', description: 'Insulated wires and cables', gst_rate: 18, keywords: ['wire', 'cable'] },
+
+  // ============ FURNITURE, TOYS, MISCELLANEOUS ============
+  { code: '9403', description: 'Furniture', gst_rate: 18, keywords: ['furniture', 'table', 'chair', 'almirah'] },
+  { code: '9404', description: 'Mattresses, quilts and pillows', gst_rate: 18, keywords: ['mattress', 'pillow', 'quilt'] },
+  { code: '9405', description: 'Lamps and lighting fittings', gst_rate: 18, keywords: ['lamp', 'light fitting'] },
+  { code: '9503', description: 'Toys', gst_rate: 12, keywords: ['toys', 'khilona'] },
+  { code: '9506', description: 'Sports goods', gst_rate: 12, keywords: ['sports', 'cricket bat', 'football'] },
+  { code: '9603', description: 'Brooms and brushes (including toothbrushes)', gst_rate: 18, keywords: ['toothbrush', 'brush', 'broom', 'jhadu'] },
+  { code: '9608', description: 'Ball point pens and markers', gst_rate: 18, keywords: ['pen', 'marker'] },
+  { code: '9609', description: 'Pencils, crayons and chalks', gst_rate: 12, keywords: ['pencil', 'crayon', 'chalk'] },
+
+  // ============ SERVICES (SAC) ============
+  { code: '996311', description: 'Hotel room accommodation', gst_rate: 12, rate_above: { value: 7500, gst_rate: 18 }, keywords: ['hotel', 'room', 'lodging'] },
+  { code: '996331', description: 'Restaurant and food serving services (without input tax credit)', gst_rate: 5, keywords: ['restaurant', 'dhaba', 'food service', 'catering'] },
+  { code: '996511', description: 'Road transport of goods by a goods transport agency', gst_rate: 5, reverse_charge: true, keywords: ['transport', 'freight', 'truck', 'gta'] },
+  { code: '996812', description: 'Courier services', gst_rate: 18, keywords: ['courier', 'delivery'] },
+  { code: '997212', description: 'Renting of non-residential property (shops, offices)', gst_rate: 18, keywords: ['rent', 'shop rent', 'office rent'] },
+  { code: '998211', description: 'Legal advisory and representation services', gst_rate: 18, reverse_charge: true, keywords: ['lawyer', 'advocate', 'legal'] },
+  { code: '998221', description: 'Financial auditing services', gst_rate: 18, keywords: ['audit', 'auditor'] },
+  { code: '998222', description: 'Accounting and bookkeeping services', gst_rate: 18, keywords: ['accounting', 'bookkeeping', 'ca'] },
+  { code: '998231', description: 'Corporate tax consulting and preparation', gst_rate: 18, keywords: ['tax consultant', 'gst filing', 'itr filing'] },
+  { code: '998313', description: 'Information technology consulting and support', gst_rate: 18, keywords: ['it support', 'it consulting'] },
+  { code: '998314', description: 'Software design and development', gst_rate: 18, keywords: ['software', 'website', 'app development'] },
+  { code: '998361', description: 'Advertising services', gst_rate: 18, keywords: ['advertising', 'marketing'] },
+  { code: '998531', description: 'Security and investigation services', gst_rate: 18, keywords: ['security guard', 'security'] },
+  { code: '998719', description: 'Maintenance and repair of other goods', gst_rate: 18, keywords: ['repair', 'maintenance', 'servicing'] },
+  { code: '998912', description: 'Printing services', gst_rate: 18, keywords: ['printing'] },
+  { code: '999293', description: 'Commercial training and coaching', gst_rate: 18, keywords: ['coaching', 'training', 'tuition'] },
+  { code: '999721', description: 'Hairdressing and barber services', gst_rate: 18, keywords: ['salon', 'barber', 'haircut', 'parlour'] },
+];
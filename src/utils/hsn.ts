@@ -0,0 +1,204 @@
+import { suggestGSTRate } from './gst.js';
+import { HSN_MASTER, HSN_MASTER_VERSION, HSNEntry } from './hsn-master.js';
+
+/**
+ * HSN/SAC lookup, validation and rate suggestion against the bundled master
+ */
+
+export { HSN_MASTER_VERSION };
+export type { HSNEntry };
+
+export interface HSNValidation {
+  valid: boolean;
+  code: string;
+  type?: 'goods' | 'service';
+  // Most specific master entry the code falls under
+  entry?: HSNEntry;
+  error?: string;
+}
+
+export interface RateSuggestion {
+  gst_rate: number;
+  // hsn: from the code given; keyword: matched on name or category; category: legacy category table
+  source: 'hsn' | 'keyword' | 'category';
+  hsn_code?: string;
+  description?: string;
+  cess_rate?: number;
+  cess_per_unit?: { amount: number; unit: string };
+  reverse_charge?: boolean;
+  note?: string;
+  master_version: string;
+}
+
+// Customs tariff chapters 01-98; chapter 77 is reserved and unused. Chapter 99 holds the SAC codes
+const RESERVED_CHAPTERS = ['00', '77'];
+
+// Words in master descriptions that say nothing about the item
+const STOPWORDS = new Set(['and', 'for', 'the', 'with', 'other', 'not', 'similar', 'services']);
+
+/**
+ * Strip the spaces and dots codes are often written with ("1905 31", "0401.10")
+ */
+export function normalizeHSNCode(code: string): string {
+  return code.replace(/[\s.]/g, '');
+}
+
+/**
+ * SAC codes (chapter 99) classify services; everything else is goods
+ */
+export function hsnType(code: string): 'goods' | 'service' {
+  return normalizeHSNCode(code).startsWith('99') ? 'service' : 'goods';
+}
+
+/**
+ * Check an HSN or SAC code: digits only, 4/6/8 digits for goods or 4/6 for services, in a chapter that exists
+ */
+export function validateHSNCode(code: string): HSNValidation {
+  const normalized = normalizeHSNCode(code);
+
+  if (!/^\d+$/.test(normalized)) {
+    return { valid: false, code: normalized, error: `HSN/SAC code "${code}" must contain digits only` };
+  }
+
+  const chapter = normalized.slice(0, 2);
+  const type = hsnType(normalized);
+  const lengths = type === 'service' ? [4, 6] : [4, 6, 8];
+
+  if (!lengths.includes(normalized.length)) {
+    return {
+      valid: false,
+      code: normalized,
+      type,
+      error: type === 'service'
+        ? `SAC code "${code}" must have 4 or 6 digits`
+        : `HSN code "${code}" must have 4, 6 or 8 digits`,
+    };
+  }
+  if (RESERVED_CHAPTERS.includes(chapter)) {
+    return { valid: false, code: normalized, type, error: `HSN code "${code}" is in chapter ${chapter}, which does not exist` };
+  }
+
+  return { valid: true, code: normalized, type, entry: findHSN(normalized) || undefined };
+}
+
+/**
+ * The master entry for a code: an exact match, else the longest entry the code starts with
+ */
+export function findHSN(code: string): HSNEntry | null {
+  const normalized = normalizeHSNCode(code);
+  let best: HSNEntry | null = null;
+  for (const entry of HSN_MASTER) {
+    if (normalized.startsWith(entry.code) && (!best || entry.code.length > best.code.length)) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
+/**
+ * Search the master by code (either prefix direction) or by keyword/description, best matches first
+ */
+export function searchHSN(query: string, limit = 10): HSNEntry[] {
+  const normalized = normalizeHSNCode(query);
+
+  if (/^\d+$/.test(normalized)) {
+    return HSN_MASTER
+      .filter((entry) => entry.code.startsWith(normalized) || normalized.startsWith(entry.code))
+      .sort((a, b) => b.code.length - a.code.length)
+      .slice(0, limit);
+  }
+
+  return HSN_MASTER
+    .map((entry) => ({ entry, score: matchScore(entry, query) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((match) => match.entry);
+}
+
+/**
+ * Rate for one piece sold at a value, for entries whose rate steps up above a limit (apparel, footwear, hotel rooms)
+ */
+export function rateForValue(entry: HSNEntry, value?: number): number {
+  if (entry.rate_above && value !== undefined && value > entry.rate_above.value) {
+    return entry.rate_above.gst_rate;
+  }
+  return entry.gst_rate;
+}
+
+/**
+ * Suggest a GST rate from the HSN code when given, else from the master keywords matching the
+ * product name or category, falling back to the category table
+ */
+export function suggestRate(input: { hsn_code?: string; name?: string; category?: string; price?: number }): RateSuggestion {
+  let note: string | undefined;
+
+  if (input.hsn_code) {
+    const validation = validateHSNCode(input.hsn_code);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+    if (validation.entry) {
+      return fromEntry(validation.entry, 'hsn', input.price);
+    }
+    note = `HSN/SAC ${validation.code} is not in the bundled master (version ${HSN_MASTER_VERSION}); check the rate against the tariff`;
+  }
+
+  for (const text of [input.name, input.category]) {
+    if (!text) continue;
+    const [match] = searchHSN(text, 1);
+    if (match) {
+      return { ...fromEntry(match, 'keyword', input.price), ...(note && { note }) };
+    }
+  }
+
+  return {
+    gst_rate: input.category ? suggestGSTRate(input.category) : 18,
+    source: 'category',
+    note: note || 'No matching HSN/SAC entry; rate taken from the category table. Add the HSN code for an exact rate',
+    master_version: HSN_MASTER_VERSION,
+  };
+}
+
+function fromEntry(entry: HSNEntry, source: RateSuggestion['source'], price?: number): RateSuggestion {
+  return {
+    gst_rate: rateForValue(entry, price),
+    source,
+    hsn_code: entry.code,
+    description: entry.description,
+    cess_rate: entry.cess_rate,
+    cess_per_unit: entry.cess_per_unit,
+    reverse_charge: entry.reverse_charge,
+    note: entry.rate_above && price === undefined
+      ? `${entry.rate_above.gst_rate}% applies when the value per piece exceeds ₹${entry.rate_above.value}`
+      : undefined,
+    master_version: HSN_MASTER_VERSION,
+  };
+}
+
+/**
+ * Whole-word keyword hits score highest (longer keywords win), then description words
+ */
+function matchScore(entry: HSNEntry, query: string): number {
+  const text = words(query);
+  if (text === '') return 0;
+
+  let score = 0;
+  for (const keyword of (entry.keywords || []).map(words)) {
+    if (text === keyword) {
+      score = Math.max(score, 100);
+    } else if (` ${text} `.includes(` ${keyword} `)) {
+      score = Math.max(score, 50 + keyword.length);
+    }
+  }
+  if (score > 0) return score;
+
+  const terms = text.split(' ').filter((term) => term.length > 2 && !STOPWORDS.has(term));
+  const description = entry.description.toLowerCase();
+  const hits = terms.filter((term) => new RegExp(`\\b${term}`).test(description)).length;
+  return terms.length > 0 ? Math.round((hits / terms.length) * 40) : 0;
+}
+
+function words(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
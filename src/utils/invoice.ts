@@ -1,22 +1,35 @@
 import PDFDocument from 'pdfkit';
-import type { Customer, Invoice, User } from '../types/index.js';
-import { generateUPIQRCode } from './qrcode.js';
+import type { Customer, GSTScheme, Invoice, User } from '../types/index.js';
+import {
+  COMPOSITION_DECLARATION,
+  GSTCalculation,
+  INDIAN_STATES,
+  REVERSE_CHARGE_NOTE,
+  UNION_TERRITORIES_WITHOUT_LEGISLATURE,
+  calculateGST,
+  calculateGSTFromInclusive,
+  calculateTCS,
+  chargesGST,
+} from './gst.js';
+import { generateQRCode, generateUPIQRCode } from './qrcode.js';
 
 interface InvoiceRenderData {
   invoice: Invoice;
   seller: User;
   customer?: Customer;
+  // Invoice a credit note was issued against
+  originalInvoice?: Invoice;
   includeQR?: boolean;
+  // Payment page URL; shown in WhatsApp messages instead of the bare UPI ID
+  paymentLink?: string;
 }
 
-/**
- * Generate invoice PDF as base64
- */
 /**
  * Generate invoice PDF as base64
  */
 export async function generateInvoicePDF(data: InvoiceRenderData): Promise<string> {
   console.log(`[PDF] Starting generation for Invoice #${data.invoice.invoice_number}`);
+  // eslint-disable-next-line no-async-promise-executor -- the QR images are awaited while the document is written
   return new Promise<string>(async (resolve, reject) => {
     const doc = new PDFDocument({ size: 'A4', margin: 50 });
     const chunks: Buffer[] = [];
@@ -35,12 +48,25 @@ export async function generateInvoicePDF(data: InvoiceRenderData): Promise<strin
     });
 
     try {
-      const { invoice, seller, customer, includeQR = true } = data;
+      const { invoice, seller, customer, originalInvoice, includeQR = true } = data;
+      const taxed = chargesGST(invoice.seller_scheme);
 
       // Header
-      doc.fontSize(24).font('Helvetica-Bold').text(getInvoiceTitle(invoice.invoice_type), { align: 'center' });
+      doc.fontSize(24).font('Helvetica-Bold').text(getInvoiceTitle(invoice.invoice_type, invoice.seller_scheme), { align: 'center' });
+      if (invoice.seller_scheme === 'composition') {
+        doc.fontSize(9).font('Helvetica-Oblique').text(COMPOSITION_DECLARATION, { align: 'center' });
+      }
       doc.moveDown(0.5);
       doc.fontSize(12).font('Helvetica').text(`#${invoice.invoice_number}`, { align: 'center' });
+      if (originalInvoice) {
+        doc.fontSize(10).text(getOriginalReference(originalInvoice), { align: 'center' });
+      }
+      if (invoice.irn) {
+        doc.fontSize(8).text(`IRN: ${invoice.irn}`, { align: 'center' });
+        if (invoice.irn_ack_number) {
+          doc.text(`Ack No: ${invoice.irn_ack_number}   Ack Date: ${invoice.irn_ack_date || ''}`, { align: 'center' });
+        }
+      }
       doc.moveDown(1);
 
       // Seller Info (Left)
@@ -50,7 +76,7 @@ export async function generateInvoicePDF(data: InvoiceRenderData): Promise<strin
       if (seller.address) doc.text(seller.address);
       if (seller.phone) doc.text(`Phone: ${seller.phone}`);
       if (seller.email) doc.text(`Email: ${seller.email}`);
-      if (seller.gst_number) doc.text(`GSTIN: ${seller.gst_number}`);
+      if (seller.gst_number && invoice.seller_scheme !== 'unregistered') doc.text(`GSTIN: ${seller.gst_number}`);
 
       // Customer Info (Right)
       const rightColumnX = 350;
@@ -85,6 +111,20 @@ export async function generateInvoicePDF(data: InvoiceRenderData): Promise<strin
         doc.text(`Due Date: ${formatDate(invoice.due_date)}`, 200, detailsY);
       }
       doc.text(`Status: ${invoice.status.toUpperCase()}`, 400, detailsY);
+      if (invoice.place_of_supply) {
+        doc.text(`Place of Supply: ${getPlaceOfSupplyLabel(invoice.place_of_supply)}`, 50);
+      }
+      if (invoice.reverse_charge) {
+        doc.font('Helvetica-Bold').text(REVERSE_CHARGE_NOTE, 50).font('Helvetica');
+      }
+      const transport = getTransportLabel(invoice);
+      if (transport) {
+        doc.text(`Transport: ${transport}`, 50);
+      }
+      if (invoice.eway_bill_number) {
+        const ewayDate = invoice.eway_bill_date ? ` dated ${formatDate(invoice.eway_bill_date)}` : '';
+        doc.font('Helvetica-Bold').text(`E-Way Bill No: ${invoice.eway_bill_number}${ewayDate}`, 50).font('Helvetica');
+      }
 
       doc.moveDown(2);
 
@@ -104,7 +144,7 @@ export async function generateInvoicePDF(data: InvoiceRenderData): Promise<strin
       xPos += colWidths[1];
       doc.text('Rate', xPos, tableTop + 7);
       xPos += colWidths[2];
-      doc.text('GST %', xPos, tableTop + 7);
+      if (taxed) doc.text('GST %', xPos, tableTop + 7);
       xPos += colWidths[3];
       doc.text('Amount', xPos, tableTop + 7, { align: 'right', width: colWidths[4] - 10 });
 
@@ -119,12 +159,17 @@ export async function generateInvoicePDF(data: InvoiceRenderData): Promise<strin
         doc.text(`${item.quantity} ${item.unit}`, xPos, itemY);
         xPos += colWidths[1];
         doc.text(`₹${item.unit_price.toFixed(2)}`, xPos, itemY);
+        // Lines priced inclusive of GST show the price quoted under the taxable rate
+        const inclusivePrice = item.price_includes_tax ? item.unit_price_incl_tax : undefined;
+        if (inclusivePrice !== undefined) {
+          doc.fontSize(7).text(`₹${inclusivePrice.toFixed(2)} incl. GST`, xPos, itemY + 11).fontSize(10);
+        }
         xPos += colWidths[2];
-        doc.text(`${item.gst_rate}%`, xPos, itemY);
+        if (taxed) doc.text(`${item.gst_rate}%`, xPos, itemY);
         xPos += colWidths[3];
         doc.text(`₹${item.total.toFixed(2)}`, xPos, itemY, { align: 'right', width: colWidths[4] - 10 });
 
-        itemY += 20;
+        itemY += inclusivePrice !== undefined ? 28 : 20;
       }
 
       // Totals
@@ -146,9 +191,9 @@ export async function generateInvoicePDF(data: InvoiceRenderData): Promise<strin
         totalsY += 18;
       }
 
-      if (invoice.tax_amount > 0) {
-        doc.text('Tax (GST):', totalsX, totalsY);
-        doc.text(`₹${invoice.tax_amount.toFixed(2)}`, totalsX + 100, totalsY, { align: 'right', width: 60 });
+      for (const tax of getTaxLines(invoice)) {
+        doc.text(`${tax.label}:`, totalsX, totalsY);
+        doc.text(`₹${tax.amount.toFixed(2)}`, totalsX + 100, totalsY, { align: 'right', width: 60 });
         totalsY += 18;
       }
 
@@ -156,8 +201,13 @@ export async function generateInvoicePDF(data: InvoiceRenderData): Promise<strin
       doc.text('Total:', totalsX, totalsY);
       doc.text(`₹${invoice.total.toFixed(2)}`, totalsX + 100, totalsY, { align: 'right', width: 60 });
 
-      // UPI QR Code (if enabled and seller has UPI ID)
-      if (includeQR && seller.upi_id && invoice.status !== 'paid') {
+      // E-invoice QR signed by the IRP, next to the UPI QR when the seller has a UPI ID; nothing is payable on a credit note
+      const qrCodes: { label: string; image: Buffer; caption: string }[] = [];
+      if (invoice.irn_signed_qr) {
+        const image = await generateQRCode(invoice.irn_signed_qr, { size: 300 });
+        qrCodes.push({ label: 'E-Invoice QR:', image: pngBuffer(image), caption: 'Signed by the IRP' });
+      }
+      if (includeQR && seller.upi_id && invoice.status !== 'paid' && invoice.invoice_type !== 'credit_note') {
         const qrData = await generateUPIQRCode({
           payee_upi_id: seller.upi_id,
           payee_name: seller.shop_name || seller.name,
@@ -165,16 +215,19 @@ export async function generateInvoicePDF(data: InvoiceRenderData): Promise<strin
           transaction_note: `Payment for ${invoice.invoice_number}`,
           transaction_ref: invoice.invoice_number,
         });
+        qrCodes.push({ label: 'Scan to Pay:', image: pngBuffer(qrData.qr_image_base64), caption: `UPI: ${seller.upi_id}` });
+      }
 
-        // Add QR code to PDF
-        const qrImageData = qrData.qr_image_base64.replace(/^data:image\/png;base64,/, '');
-        const qrBuffer = Buffer.from(qrImageData, 'base64');
-
+      if (qrCodes.length > 0) {
         doc.moveDown(3);
-        doc.fontSize(10).font('Helvetica-Bold').text('Scan to Pay:', 50);
-        doc.image(qrBuffer, 50, doc.y, { width: 100 });
-        doc.moveDown(8);
-        doc.fontSize(8).font('Helvetica').text(`UPI: ${seller.upi_id}`, 50);
+        const qrTop = doc.y;
+        qrCodes.forEach((qr, index) => {
+          const x = 50 + index * 180;
+          doc.fontSize(10).font('Helvetica-Bold').text(qr.label, x, qrTop);
+          doc.image(qr.image, x, qrTop + 15, { width: 100 });
+          doc.fontSize(8).font('Helvetica').text(qr.caption, x, qrTop + 120);
+        });
+        doc.x = 50;
       }
 
       // Notes and Terms
@@ -210,17 +263,19 @@ export async function generateInvoicePDF(data: InvoiceRenderData): Promise<strin
 export async function generateInvoiceImage(data: InvoiceRenderData): Promise<string> {
   // For image generation, we'll create a simplified text-based invoice
   // In production, you might use canvas or puppeteer for better results
-  const { invoice, seller, customer } = data;
+  const { invoice, seller, customer, originalInvoice } = data;
 
   const lines: string[] = [];
   lines.push('═'.repeat(40));
-  lines.push(getInvoiceTitle(invoice.invoice_type).toUpperCase().padStart(25));
+  lines.push(getInvoiceTitle(invoice.invoice_type, invoice.seller_scheme).toUpperCase().padStart(25));
+  if (invoice.seller_scheme === 'composition') lines.push(COMPOSITION_DECLARATION);
   lines.push(`#${invoice.invoice_number}`.padStart(25));
+  if (originalInvoice) lines.push(getOriginalReference(originalInvoice));
   lines.push('═'.repeat(40));
   lines.push('');
   lines.push(`From: ${seller.shop_name || seller.name}`);
   if (seller.phone) lines.push(`Phone: ${seller.phone}`);
-  if (seller.gst_number) lines.push(`GSTIN: ${seller.gst_number}`);
+  if (seller.gst_number && invoice.seller_scheme !== 'unregistered') lines.push(`GSTIN: ${seller.gst_number}`);
   lines.push('');
 
   if (customer) {
@@ -232,13 +287,15 @@ export async function generateInvoiceImage(data: InvoiceRenderData): Promise<str
 
   lines.push(`Date: ${formatDate(invoice.created_at)}`);
   if (invoice.due_date) lines.push(`Due: ${formatDate(invoice.due_date)}`);
+  if (invoice.place_of_supply) lines.push(`Place of Supply: ${getPlaceOfSupplyLabel(invoice.place_of_supply)}`);
+  if (invoice.reverse_charge) lines.push(REVERSE_CHARGE_NOTE);
   lines.push('─'.repeat(40));
   lines.push('');
   lines.push('ITEMS:');
 
   for (const item of invoice.items) {
     lines.push(`• ${item.name}`);
-    lines.push(`  ${item.quantity} ${item.unit} × ₹${item.unit_price} = ₹${item.total.toFixed(2)}`);
+    lines.push(`  ${item.quantity} ${item.unit} × ${getQuotedPrice(item)} = ₹${item.total.toFixed(2)}`);
   }
 
   lines.push('');
@@ -249,15 +306,15 @@ export async function generateInvoiceImage(data: InvoiceRenderData): Promise<str
     lines.push(`Discount: -₹${invoice.discount_amount.toFixed(2)}`.padStart(35));
   }
 
-  if (invoice.tax_amount > 0) {
-    lines.push(`Tax (GST): ₹${invoice.tax_amount.toFixed(2)}`.padStart(35));
+  for (const tax of getTaxLines(invoice)) {
+    lines.push(`${tax.label}: ₹${tax.amount.toFixed(2)}`.padStart(35));
   }
 
   lines.push('═'.repeat(40));
   lines.push(`TOTAL: ₹${invoice.total.toFixed(2)}`.padStart(35));
   lines.push('═'.repeat(40));
 
-  if (seller.upi_id) {
+  if (seller.upi_id && invoice.invoice_type !== 'credit_note') {
     lines.push('');
     lines.push(`Pay via UPI: ${seller.upi_id}`);
   }
@@ -273,16 +330,24 @@ export async function generateInvoiceImage(data: InvoiceRenderData): Promise<str
  * Format invoice for WhatsApp message
  */
 export function formatInvoiceForWhatsApp(data: InvoiceRenderData): string {
-  const { invoice, seller, customer } = data;
+  const { invoice, seller, customer, originalInvoice, paymentLink } = data;
 
   const lines: string[] = [];
-  lines.push(`📄 *${getInvoiceTitle(invoice.invoice_type)}*`);
+  lines.push(`📄 *${getInvoiceTitle(invoice.invoice_type, invoice.seller_scheme)}*`);
+  if (invoice.seller_scheme === 'composition') lines.push(`_${COMPOSITION_DECLARATION}_`);
   lines.push(`#${invoice.invoice_number}`);
+  if (originalInvoice) lines.push(getOriginalReference(originalInvoice));
   lines.push('');
   lines.push(`📅 Date: ${formatDate(invoice.created_at)}`);
   if (invoice.due_date) {
     lines.push(`⏰ Due: ${formatDate(invoice.due_date)}`);
   }
+  if (invoice.place_of_supply) {
+    lines.push(`📍 Place of Supply: ${getPlaceOfSupplyLabel(invoice.place_of_supply)}`);
+  }
+  if (invoice.reverse_charge) {
+    lines.push(`⚠️ ${REVERSE_CHARGE_NOTE}`);
+  }
   lines.push('');
   lines.push(`*From:* ${seller.shop_name || seller.name}`);
   if (seller.phone) lines.push(`📞 ${seller.phone}`);
@@ -299,7 +364,7 @@ export function formatInvoiceForWhatsApp(data: InvoiceRenderData): string {
 
   for (const item of invoice.items) {
     lines.push(`▪️ ${item.name}`);
-    lines.push(`   ${item.quantity} ${item.unit} × ₹${item.unit_price} = *₹${item.total.toFixed(2)}*`);
+    lines.push(`   ${item.quantity} ${item.unit} × ${getQuotedPrice(item)} = *₹${item.total.toFixed(2)}*`);
   }
 
   lines.push('━━━━━━━━━━━━━━━━━━━━');
@@ -309,15 +374,17 @@ export function formatInvoiceForWhatsApp(data: InvoiceRenderData): string {
     lines.push(`Discount: -₹${invoice.discount_amount.toFixed(2)}`);
   }
 
-  if (invoice.tax_amount > 0) {
-    lines.push(`Tax (GST): ₹${invoice.tax_amount.toFixed(2)}`);
+  for (const tax of getTaxLines(invoice)) {
+    lines.push(`${tax.label}: ₹${tax.amount.toFixed(2)}`);
   }
 
   lines.push('');
   lines.push(`*💰 Total: ₹${invoice.total.toFixed(2)}*`);
   lines.push('');
 
-  if (seller.upi_id && invoice.status !== 'paid') {
+  if (paymentLink) {
+    lines.push(`💳 Pay now: ${paymentLink}`);
+  } else if (seller.upi_id && invoice.status !== 'paid' && invoice.invoice_type !== 'credit_note') {
     lines.push(`💳 Pay via UPI: \`${seller.upi_id}\``);
   }
 
@@ -327,9 +394,18 @@ export function formatInvoiceForWhatsApp(data: InvoiceRenderData): string {
   return lines.join('\n');
 }
 
-function getInvoiceTitle(type: Invoice['invoice_type']): string {
+function pngBuffer(dataUrl: string): Buffer {
+  return Buffer.from(dataUrl.replace(/^data:image\/png;base64,/, ''), 'base64');
+}
+
+/**
+ * Only regular taxpayers issue tax invoices: a composition dealer's sale is a bill of supply, an unregistered seller's a plain bill
+ */
+function getInvoiceTitle(type: Invoice['invoice_type'], scheme: GSTScheme = 'regular'): string {
   switch (type) {
     case 'invoice':
+      if (scheme === 'composition') return 'Bill of Supply';
+      if (scheme === 'unregistered') return 'Bill';
       return 'Tax Invoice';
     case 'quotation':
       return 'Quotation';
@@ -337,11 +413,100 @@ function getInvoiceTitle(type: Invoice['invoice_type']): string {
       return 'Proforma Invoice';
     case 'delivery_challan':
       return 'Delivery Challan';
+    case 'credit_note':
+      return 'Credit Note';
     default:
       return 'Invoice';
   }
 }
 
+/**
+ * Unit price as the customer was quoted it: GST-inclusive lines show the inclusive price
+ */
+function getQuotedPrice(item: Invoice['items'][number]): string {
+  if (item.price_includes_tax && item.unit_price_incl_tax !== undefined) {
+    return `₹${item.unit_price_incl_tax} (incl. GST)`;
+  }
+  return `₹${item.unit_price}`;
+}
+
+function getOriginalReference(original: Invoice): string {
+  return `Against Invoice #${original.invoice_number} dated ${formatDate(original.created_at)}`;
+}
+
+/**
+ * Tax lines for the totals block: IGST, or CGST and SGST (UTGST in union territories), per rate, then cess and TCS.
+ * Invoices saved before the split was recorded show a single GST line.
+ * Reverse charge lines are marked, as the recipient pays them and they are not in the total.
+ */
+function getTaxLines(invoice: Invoice): { label: string; amount: number }[] {
+  const lines: { label: string; amount: number }[] = [];
+  const tcs = Number(invoice.tcs_amount) || 0;
+  const tcsLine = { label: `TCS @ ${invoice.tcs_rate}%`, amount: tcs };
+  if (!(invoice.tax_amount > 0)) return tcs > 0 ? [tcsLine] : [];
+
+  const split = invoice.items.every((item) => item.cgst_amount !== undefined || item.igst_amount !== undefined);
+  if (!split) return [{ label: 'Tax (GST)', amount: invoice.tax_amount }];
+
+  const stateTax = invoice.place_of_supply && UNION_TERRITORIES_WITHOUT_LEGISLATURE.includes(invoice.place_of_supply)
+    ? 'UTGST'
+    : 'SGST';
+  const rates = new Map<number, { cgst: number; sgst: number; igst: number }>();
+  const cess = new Map<string, number>();
+  for (const item of invoice.items) {
+    if (Number(item.cess_amount) > 0) {
+      const parts = [item.cess_rate && `${item.cess_rate}%`, item.cess_per_unit && `₹${item.cess_per_unit}/${item.unit}`].filter(Boolean);
+      const label = `Cess @ ${parts.join(' + ')}`;
+      cess.set(label, (cess.get(label) || 0) + Number(item.cess_amount));
+    }
+    if (!item.gst_rate) continue;
+    const rate = rates.get(item.gst_rate) || { cgst: 0, sgst: 0, igst: 0 };
+    rate.cgst += Number(item.cgst_amount) || 0;
+    rate.sgst += Number(item.sgst_amount) || 0;
+    rate.igst += Number(item.igst_amount) || 0;
+    rates.set(item.gst_rate, rate);
+  }
+
+  for (const [rate, tax] of [...rates.entries()].sort(([a], [b]) => a - b)) {
+    if (invoice.is_interstate) {
+      lines.push({ label: `IGST @ ${rate}%`, amount: tax.igst });
+    } else {
+      lines.push({ label: `CGST @ ${rate / 2}%`, amount: tax.cgst });
+      lines.push({ label: `${stateTax} @ ${rate / 2}%`, amount: tax.sgst });
+    }
+  }
+  for (const [label, amount] of cess) {
+    lines.push({ label, amount });
+  }
+
+  const taxLines = invoice.reverse_charge ? lines.map((line) => ({ ...line, label: `${line.label} (RCM)` })) : lines;
+  return tcs > 0 ? [...taxLines, tcsLine] : taxLines;
+}
+
+function getPlaceOfSupplyLabel(stateCode: string): string {
+  return INDIAN_STATES[stateCode] ? `${INDIAN_STATES[stateCode]} (${stateCode})` : stateCode;
+}
+
+/**
+ * Mode, vehicle or transport document, and transporter, as far as they are known
+ */
+function getTransportLabel(invoice: Invoice): string {
+  const parts: string[] = [];
+  if (invoice.transport_mode) {
+    parts.push(invoice.transport_mode.charAt(0).toUpperCase() + invoice.transport_mode.slice(1));
+  }
+  if (invoice.vehicle_number) {
+    parts.push(`Vehicle ${invoice.vehicle_number}`);
+  }
+  if (invoice.transport_doc_number) {
+    parts.push(`Doc ${invoice.transport_doc_number}${invoice.transport_doc_date ? ` (${formatDate(invoice.transport_doc_date)})` : ''}`);
+  }
+  if (invoice.transporter_name || invoice.transporter_id) {
+    parts.push([invoice.transporter_name, invoice.transporter_id].filter(Boolean).join(' / '));
+  }
+  return parts.join(', ');
+}
+
 function formatDate(dateStr: string): string {
   const date = new Date(dateStr);
   return date.toLocaleDateString('en-IN', {
@@ -352,7 +517,11 @@ function formatDate(dateStr: string): string {
 }
 
 /**
- * Calculate invoice totals from items
+ * Calculate invoice totals from items, with GST split as IGST (inter-state) or CGST + SGST (intra-state)
+ * and compensation cess on the lines that carry it; tax_amount is GST plus cess.
+ * Sellers outside the regular scheme collect no GST, so their totals carry none.
+ * Lines priced inclusive of GST have the taxable value backed out of the price; subtotal is always taxable value.
+ * Under reverse charge the tax is worked out but left out of the total; TCS is added on the amount billed.
  */
 export function calculateInvoiceTotals(
   items: Array<{
@@ -360,26 +529,49 @@ export function calculateInvoiceTotals(
     unit_price: number;
     discount: number;
     gst_rate: number;
+    price_includes_tax?: boolean;
+    cess_rate?: number;
+    cess_per_unit?: number;
   }>,
   discountAmount: number = 0,
-  discountType: 'percentage' | 'fixed' = 'fixed'
+  discountType: 'percentage' | 'fixed' = 'fixed',
+  isInterstate: boolean = false,
+  scheme: GSTScheme = 'regular',
+  options: { reverseCharge?: boolean; tcsRate?: number } = {}
 ): {
   subtotal: number;
   discount_amount: number;
   tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  cess_amount: number;
+  tcs_amount: number;
   total: number;
+  items: GSTCalculation[];
 } {
   // Calculate item totals
   const itemTotals = items.map(item => {
-    const baseAmount = item.quantity * item.unit_price;
-    const itemDiscount = (baseAmount * item.discount) / 100;
-    const afterDiscount = baseAmount - itemDiscount;
-    const gstAmount = (afterDiscount * item.gst_rate) / 100;
+    const taxed = chargesGST(scheme);
+    const rate = taxed ? item.gst_rate : 0;
+    const grossAmount = item.quantity * item.unit_price;
+    const afterDiscount = grossAmount - (grossAmount * item.discount) / 100;
+    const taxOptions = {
+      cess: taxed ? { rate: item.cess_rate, per_unit: item.cess_per_unit, quantity: item.quantity } : undefined,
+      reverse_charge: options.reverseCharge,
+    };
+    const gst = item.price_includes_tax
+      ? calculateGSTFromInclusive(afterDiscount, rate, isInterstate, taxOptions)
+      : calculateGST(afterDiscount, rate, isInterstate, taxOptions);
+    // Base and discount in taxable terms, so inclusive lines add up the same way as exclusive ones
+    const baseAmount = item.price_includes_tax
+      ? calculateGSTFromInclusive(grossAmount, rate, isInterstate, taxOptions).base_amount
+      : grossAmount;
     return {
       base: baseAmount,
-      discount: itemDiscount,
-      gst: gstAmount,
-      total: afterDiscount + gstAmount,
+      discount: baseAmount - gst.base_amount,
+      gst,
+      total: gst.total_with_gst,
     };
   });
 
@@ -391,12 +583,21 @@ export function calculateInvoiceTotals(
   }
 
   const afterDiscount = subtotal - finalDiscount;
-  const taxAmount = itemTotals.reduce((sum, item) => sum + item.gst, 0);
+  const cessAmount = itemTotals.reduce((sum, item) => sum + item.gst.cess_amount, 0);
+  const taxAmount = itemTotals.reduce((sum, item) => sum + item.gst.total_gst, 0) + cessAmount;
+  const billed = afterDiscount + (options.reverseCharge ? 0 : taxAmount);
+  const tcsAmount = options.tcsRate ? calculateTCS(billed, options.tcsRate) : 0;
 
   return {
     subtotal,
     discount_amount: finalDiscount,
     tax_amount: taxAmount,
-    total: afterDiscount + taxAmount,
+    cgst_amount: itemTotals.reduce((sum, item) => sum + item.gst.cgst_amount, 0),
+    sgst_amount: itemTotals.reduce((sum, item) => sum + item.gst.sgst_amount, 0),
+    igst_amount: itemTotals.reduce((sum, item) => sum + item.gst.igst_amount, 0),
+    cess_amount: cessAmount,
+    tcs_amount: tcsAmount,
+    total: billed + tcsAmount,
+    items: itemTotals.map(item => item.gst),
   };
 }
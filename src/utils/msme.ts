@@ -0,0 +1,93 @@
+/**
+ * MSMED Act 2006 payment terms: when a buyer must pay a micro or small supplier, and the interest owed when it does not
+ */
+
+// Section 15: 15 days from acceptance without a written agreement, never more than 45 days with one
+export const MSME_DEFAULT_CREDIT_DAYS = 15;
+export const MSME_MAX_CREDIT_DAYS = 45;
+
+// RBI bank rate (per cent a year) used for section 16 interest; pass the current rate when RBI changes it
+export const RBI_BANK_RATE = 5.75;
+
+// Section 16 interest is three times the bank rate
+export const MSME_INTEREST_MULTIPLIER = 3;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type MSMEPaymentStatus = 'within_limit' | 'past_agreed_terms' | 'past_15_days' | 'past_45_days';
+
+export interface MSMEPaymentTerms {
+  // Credit period that applies: the agreed days capped at 45, or 15 without an agreement
+  credit_days: number;
+  pay_by: string;
+  days_late: number;
+  status: MSMEPaymentStatus;
+  interest: number;
+}
+
+/**
+ * Read the credit period out of free-text payment terms such as "Net 30" or "30 days"
+ */
+export function parseCreditDays(paymentTerms?: string): number | undefined {
+  if (!paymentTerms) return undefined;
+  if (/advance|immediate|on delivery|\bcod\b/i.test(paymentTerms)) return 0;
+  const match = paymentTerms.match(/\d+/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+/**
+ * Compound interest with monthly rests at three times the bank rate (section 16)
+ */
+export function calculateMSMEInterest(principal: number, daysLate: number, bankRate: number = RBI_BANK_RATE): number {
+  if (principal <= 0 || daysLate <= 0) return 0;
+  const monthlyRate = (bankRate * MSME_INTEREST_MULTIPLIER) / 100 / 12;
+  const months = Math.floor(daysLate / 30);
+  const remainingDays = daysLate % 30;
+  const amount = principal * Math.pow(1 + monthlyRate, months) * (1 + (monthlyRate * remainingDays) / 30);
+  return Math.round((amount - principal) * 100) / 100;
+}
+
+/**
+ * Work out the payment deadline for an amount due to an MSME supplier, how late it is and the interest accrued
+ */
+export function getMSMEPaymentTerms(
+  acceptedOn: Date,
+  amountDue: number,
+  asOf: Date,
+  agreedDays?: number,
+  bankRate: number = RBI_BANK_RATE
+): MSMEPaymentTerms {
+  const hasAgreement = agreedDays !== undefined;
+  const creditDays = hasAgreement ? Math.min(Math.max(agreedDays, 0), MSME_MAX_CREDIT_DAYS) : MSME_DEFAULT_CREDIT_DAYS;
+
+  const accepted = new Date(acceptedOn);
+  accepted.setHours(0, 0, 0, 0);
+  const payBy = new Date(accepted.getTime() + creditDays * DAY_MS);
+  const elapsed = Math.floor((asOf.getTime() - accepted.getTime()) / DAY_MS);
+  const daysLate = Math.max(0, elapsed - creditDays);
+
+  let status: MSMEPaymentStatus = 'within_limit';
+  if (elapsed > MSME_MAX_CREDIT_DAYS) status = 'past_45_days';
+  else if (daysLate > 0) status = hasAgreement ? 'past_agreed_terms' : 'past_15_days';
+
+  return {
+    credit_days: creditDays,
+    pay_by: formatDate(payBy),
+    days_late: daysLate,
+    status,
+    interest: calculateMSMEInterest(amountDue, daysLate, bankRate),
+  };
+}
+
+/**
+ * Last day of the financial year a date falls in; section 43B(h) allows the purchase only once paid if it is still unpaid past the limit then
+ */
+export function financialYearEnd(date: Date): string {
+  const year = date.getMonth() >= 3 ? date.getFullYear() + 1 : date.getFullYear();
+  return `${year}-03-31`;
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,66 @@
+import type { Invoice } from '../types/index.js';
+
+/**
+ * Document numbering: one series per document type (and optionally branch),
+ * restarting every Indian financial year (1 April – 31 March)
+ */
+
+export interface NumberingSeries {
+  document_type: string;
+  // '' is the user's default series
+  branch: string;
+  prefix: string;
+  padding: number;
+}
+
+// Sales documents, and the purchase orders sent to suppliers
+export type DocumentType = Invoice['invoice_type'] | 'purchase_order';
+
+export const DEFAULT_PREFIXES: Record<DocumentType, string> = {
+  invoice: 'INV',
+  quotation: 'QTN',
+  proforma: 'PI',
+  delivery_challan: 'DC',
+  credit_note: 'CN',
+  purchase_order: 'PO',
+};
+
+export const DEFAULT_PADDING = 4;
+
+// GST invoices may carry at most 16 characters: letters, digits, '-' and '/'
+export const MAX_DOCUMENT_NUMBER_LENGTH = 16;
+
+// Indian Standard Time (UTC+5:30), used for financial-year and return-period boundaries
+export const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+/**
+ * Financial year a date falls in, e.g. "2025-26" (boundaries in Indian time)
+ */
+export function getFinancialYear(date: Date = new Date()): string {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Series used for a document: the branch's own series, else the user's default, else the built-in default
+ * Branches without their own series share the default counter so numbers never repeat
+ */
+export function resolveSeries(series: NumberingSeries[], documentType: string, branch: string = ''): NumberingSeries {
+  return (
+    series.find((s) => s.document_type === documentType && s.branch === branch) ||
+    series.find((s) => s.document_type === documentType && s.branch === '') || {
+      document_type: documentType,
+      branch: '',
+      prefix: DEFAULT_PREFIXES[documentType as DocumentType] || documentType.toUpperCase().substring(0, 3),
+      padding: DEFAULT_PADDING,
+    }
+  );
+}
+
+/**
+ * Format a document number, e.g. INV/25-26/0001
+ */
+export function formatDocumentNumber(series: NumberingSeries, financialYear: string, number: number): string {
+  return `${series.prefix}/${financialYear.substring(2)}/${String(number).padStart(series.padding, '0')}`;
+}
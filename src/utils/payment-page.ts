@@ -0,0 +1,115 @@
+import type { Invoice, User } from '../types/index.js';
+
+/**
+ * HTML for the public payment page served at /pay/:token
+ */
+
+export interface PaymentPageData {
+  seller: Pick<User, 'shop_name' | 'name' | 'phone'>;
+  invoice: Pick<Invoice, 'invoice_number' | 'created_at' | 'due_date' | 'items' | 'total'>;
+  customer_name?: string;
+  amount_due: number;
+  expires_at: string;
+  // upi://pay string for the invoice, and its QR as a PNG data URL
+  upi_string: string;
+  qr_image_base64: string;
+}
+
+// UPI apps that register their own scheme; each takes the same parameters as upi://pay
+const UPI_APPS = [
+  { name: 'Google Pay', scheme: 'tez://upi/pay' },
+  { name: 'PhonePe', scheme: 'phonepe://pay' },
+  { name: 'Paytm', scheme: 'paytmmp://pay' },
+];
+
+const STYLE = `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f4f5fb; color: #1a1a2e; padding: 16px; }
+    .card { background: white; border-radius: 16px; max-width: 420px; margin: 0 auto; padding: 24px; box-shadow: 0 10px 30px rgba(0, 0, 0, 0.08); }
+    .shop { font-size: 20px; font-weight: 700; }
+    .muted { color: #666; font-size: 14px; }
+    .amount { font-size: 34px; font-weight: 700; margin: 16px 0 4px; }
+    table { width: 100%; border-collapse: collapse; margin: 16px 0; font-size: 14px; }
+    td { padding: 6px 0; border-bottom: 1px solid #eee; }
+    td:last-child { text-align: right; }
+    .qr { display: block; margin: 8px auto; width: 220px; height: 220px; }
+    .button { display: block; text-align: center; padding: 14px; border-radius: 10px; margin-top: 10px; text-decoration: none; font-weight: 600; background: #eef0ff; color: #3f3cbb; }
+    .button.primary { background: #3f3cbb; color: white; }
+    .note { text-align: center; margin-top: 16px; }
+`;
+
+/**
+ * The payment page: shop, invoice summary, amount due, QR and UPI app buttons
+ */
+export function renderPaymentPage(data: PaymentPageData): string {
+  const shop = data.seller.shop_name || data.seller.name;
+  const query = data.upi_string.slice(data.upi_string.indexOf('?'));
+
+  const items = data.invoice.items
+    .map((item) => `<tr><td>${escapeHtml(item.name)} × ${item.quantity}</td><td>₹${item.total.toFixed(2)}</td></tr>`)
+    .join('');
+  const appButtons = UPI_APPS
+    .map((app) => `<a class="button" href="${escapeHtml(app.scheme + query)}">Pay with ${app.name}</a>`)
+    .join('');
+
+  const body = `
+    <div class="shop">${escapeHtml(shop)}</div>
+    ${data.seller.phone ? `<div class="muted">📞 ${escapeHtml(data.seller.phone)}</div>` : ''}
+    <div class="amount">₹${data.amount_due.toFixed(2)}</div>
+    <div class="muted">Invoice #${escapeHtml(data.invoice.invoice_number)} · ${formatDate(data.invoice.created_at)}${data.customer_name ? ` · ${escapeHtml(data.customer_name)}` : ''}</div>
+    ${data.invoice.due_date ? `<div class="muted">Due ${formatDate(data.invoice.due_date)}</div>` : ''}
+    <table>
+      ${items}
+      <tr><td><strong>Invoice total</strong></td><td><strong>₹${data.invoice.total.toFixed(2)}</strong></td></tr>
+    </table>
+    <img class="qr" src="${data.qr_image_base64}" alt="UPI QR code">
+    <p class="muted note">Scan with any UPI app, or tap below on your phone</p>
+    <a class="button primary" href="${escapeHtml(data.upi_string)}">Pay ₹${data.amount_due.toFixed(2)} with any UPI app</a>
+    ${appButtons}
+    <p class="muted note">This link expires on ${formatDateTime(data.expires_at)}</p>`;
+
+  return page(`Pay ${shop}`, body);
+}
+
+/**
+ * Page shown instead when the link is paid, expired or unknown
+ */
+export function renderPaymentLinkStatusPage(title: string, message: string): string {
+  return page(title, `
+    <div class="shop">${escapeHtml(title)}</div>
+    <p class="muted" style="margin-top: 12px">${escapeHtml(message)}</p>`);
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLE}</style>
+</head>
+<body>
+  <div class="card">${body}
+  </div>
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Kolkata' });
+}
@@ -0,0 +1,276 @@
+/**
+ * Bank and UPI PSP statement parsing: CSV/XLS text exports and SWIFT MT940
+ */
+
+export type StatementFormat = 'csv' | 'mt940';
+
+export interface StatementEntry {
+  // Row (CSV) or :61: entry (MT940) number, for pointing back into the file
+  line: number;
+  date?: string;
+  amount: number;
+  direction: 'credit' | 'debit';
+  // UTR/RRN or the bank's own reference; used as the transaction's upi_transaction_id
+  reference?: string;
+  payer_name?: string;
+  payer_vpa?: string;
+  narration: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  entries: StatementEntry[];
+  warnings: string[];
+}
+
+// VPA as printed in UPI narrations, e.g. ramesh.k@okaxis
+const VPA_PATTERN = /[a-z0-9][a-z0-9._]{1,255}@[a-z][a-z0-9]{1,63}/i;
+
+// 12-digit UPI RRN / UTR
+const RRN_PATTERN = /\b\d{12}\b/;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+/**
+ * Parse a statement export, detecting MT940 by its :20:/:61: tags
+ */
+export function parseStatement(content: string, format?: StatementFormat): ParsedStatement {
+  const detected = format ?? (/^:61:/m.test(content) && /^:20:/m.test(content) ? 'mt940' : 'csv');
+  return detected === 'mt940' ? parseMT940(content) : parseDelimited(content);
+}
+
+/**
+ * Parse CSV, or the tab-separated text Excel exports, from a bank or PSP
+ * Columns are found by their headings (Date, Narration, Ref No, Withdrawal/Deposit or Amount with Cr/Dr, Payer VPA)
+ */
+export function parseDelimited(content: string): ParsedStatement {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const delimiter = detectDelimiter(lines);
+  const rows = lines.map((line) => splitRow(line, delimiter));
+  const warnings: string[] = [];
+
+  // Bank exports put account details above the table; the header is the first row naming a date and an amount
+  const headerIndex = rows.findIndex((row) => {
+    const cells = row.map(normalizeHeading);
+    return cells.some((c) => c.includes('date')) && cells.some((c) => /amount|credit|deposit|withdrawal|debit/.test(c));
+  });
+  if (headerIndex < 0) {
+    throw new Error('Could not find the statement header row (a Date column and an Amount, Credit or Deposit column)');
+  }
+
+  const headings = rows[headerIndex].map(normalizeHeading);
+  const find = (...patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+      const index = headings.findIndex((h) => pattern.test(h));
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+
+  const columns = {
+    date: find(/value date/, /txn date|transaction date/, /date/),
+    narration: find(/narration|description|particulars|remarks|details/),
+    reference: find(/utr|rrn/, /ref|transaction id|txn id|chq/),
+    credit: find(/credit|deposit/),
+    debit: find(/debit|withdrawal/),
+    amount: find(/^amount|amount \(/, /amount/),
+    direction: find(/cr\/dr|dr\/cr|type/),
+    payerVpa: find(/vpa|upi id/),
+    payerName: find(/payer name|customer name|remitter|from/),
+    status: find(/status/),
+  };
+
+  const entries: StatementEntry[] = [];
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.every((cell) => cell === '')) continue;
+    const cell = (index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+
+    // PSP exports list failed and pending attempts too
+    const status = cell(columns.status).toLowerCase();
+    if (status && !/success|completed|credited|settled/.test(status)) continue;
+
+    let amount = 0;
+    let direction: StatementEntry['direction'] = 'credit';
+    const credit = parseAmount(cell(columns.credit));
+    const debit = parseAmount(cell(columns.debit));
+    if (credit) {
+      amount = credit;
+    } else if (debit) {
+      amount = debit;
+      direction = 'debit';
+    } else {
+      const raw = cell(columns.amount);
+      amount = Math.abs(parseAmount(raw));
+      const mark = `${cell(columns.direction)} ${raw}`.toLowerCase();
+      if (/\bdr\b|debit|withdraw/.test(mark) || parseAmount(raw) < 0) direction = 'debit';
+    }
+    if (!amount) continue;
+
+    const date = parseDate(cell(columns.date));
+    if (!date) {
+      // Footers such as "Closing balance" or "Total" rows
+      if (!cell(columns.date)) continue;
+      warnings.push(`Row ${i + 1}: unreadable date "${cell(columns.date)}"`);
+    }
+
+    const narration = cell(columns.narration);
+    entries.push({
+      line: i + 1,
+      date,
+      amount: round(amount),
+      direction,
+      reference: cell(columns.reference).replace(/^'/, '') || narration.match(RRN_PATTERN)?.[0],
+      payer_name: cell(columns.payerName) || undefined,
+      payer_vpa: (cell(columns.payerVpa) || narration.match(VPA_PATTERN)?.[0])?.toLowerCase(),
+      narration,
+    });
+  }
+
+  return { format: 'csv', entries, warnings };
+}
+
+/**
+ * Parse a SWIFT MT940 customer statement: one :61: line per entry, its details in the :86: that follows
+ */
+export function parseMT940(content: string): ParsedStatement {
+  const warnings: string[] = [];
+  const entries: StatementEntry[] = [];
+
+  // Join continuation lines onto their tag
+  const fields: { tag: string; value: string }[] = [];
+  for (const line of content.replace(/\r/g, '').split('\n')) {
+    const tagged = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) {
+      fields.push({ tag: tagged[1], value: tagged[2] });
+    } else if (fields.length > 0 && line.trim() !== '' && line.trim() !== '-') {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  let current: StatementEntry | null = null;
+  for (const { tag, value } of fields) {
+    if (tag === '61') {
+      // YYMMDD[MMDD](C|D|RC|RD)[funds code]amount Ntype reference[//bank reference]
+      const match = value.match(/^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d{0,2})[NFS][A-Z0-9]{3}([^\n/]*)(?:\/\/([^\n]*))?/);
+      if (!match) {
+        warnings.push(`Unreadable :61: entry "${value.split('\n')[0]}"`);
+        current = null;
+        continue;
+      }
+      const [, valueDate, , mark, amount, customerRef, bankRef] = match;
+      const reference = [customerRef, bankRef].map((r) => r?.trim()).find((r) => r && r !== 'NONREF');
+      current = {
+        line: entries.length + 1,
+        date: `20${valueDate.slice(0, 2)}-${valueDate.slice(2, 4)}-${valueDate.slice(4, 6)}`,
+        amount: round(parseFloat(amount.replace(',', '.'))),
+        // A reversed debit brings money in; a reversed credit takes it out
+        direction: mark === 'C' || mark === 'RD' ? 'credit' : 'debit',
+        reference,
+        narration: value.split('\n').slice(1).join(' ').trim(),
+      };
+      entries.push(current);
+    } else if (tag === '86' && current) {
+      const details = value.replace(/\n/g, '');
+      current.narration = [current.narration, details].filter(Boolean).join(' ');
+      // Structured ?20-?29 remittance subfields, common in Indian bank MT940s, are just text here
+      const text = details.replace(/\?\d{2}/g, ' ');
+      current.payer_vpa = text.match(VPA_PATTERN)?.[0]?.toLowerCase();
+      current.reference = text.match(RRN_PATTERN)?.[0] ?? current.reference;
+      current = null;
+    }
+  }
+
+  if (!fields.some((f) => f.tag === '61')) {
+    warnings.push('No :61: statement lines found');
+  }
+
+  return { format: 'mt940', entries, warnings };
+}
+
+/**
+ * Compact form of a reference, without the "/" and "-" that UPI apps drop
+ */
+export function referenceKey(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Whether a narration mentions a document number, with or without its separators
+ * INV/25-26/0001 is found as "INV25260001" or "INV2526 0001", but not inside "INV/25-26/00012"
+ */
+export function mentionsDocument(narration: string, documentNumber: string): boolean {
+  const key = referenceKey(documentNumber);
+  if (key.length < 3) return false;
+  const pattern = key.split('').join('[^A-Z0-9]*');
+  return new RegExp(`(?<![A-Z0-9])${pattern}(?![0-9])`).test(narration.toUpperCase());
+}
+
+function detectDelimiter(lines: string[]): string {
+  const sample = lines.slice(0, 30).join('\n');
+  const counts = ['\t', ',', ';', '|'].map((d) => ({ d, n: sample.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+// Split one row, honouring double quotes around values that contain the delimiter
+function splitRow(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.toLowerCase().replace(/[.\s_]+/g, ' ').trim();
+}
+
+// "1,23,456.00", "₹ 500.00 Cr", "(250.00)" and "-250" all read as numbers
+function parseAmount(value: string): number {
+  if (!value) return 0;
+  const negative = /^\(.*\)$/.test(value.trim()) || /^-/.test(value.trim());
+  const digits = value.replace(/[^0-9.]/g, '');
+  const amount = parseFloat(digits);
+  if (isNaN(amount)) return 0;
+  return negative ? -amount : amount;
+}
+
+// Statement dates: 05/04/2025, 05-04-25, 05-Apr-2025, 2025-04-05 (day first, as Indian banks print them)
+function parseDate(value: string): string | undefined {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = text.match(/^(\d{1,2})[/\-. ]([A-Za-z]{3,9}|\d{1,2})[/\-. ](\d{2,4})/);
+  if (!match) return undefined;
+
+  const day = parseInt(match[1], 10);
+  const month = /^\d+$/.test(match[2]) ? parseInt(match[2], 10) : MONTHS[match[2].slice(0, 3).toLowerCase()];
+  const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+  if (!month || month > 12 || day > 31) return undefined;
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,38 +1,20 @@
 import QRCode from 'qrcode';
-import type { UPIPaymentRequest } from '../types/index.js';
+import type { ParsedPaymentQR, UPIPaymentRequest } from '../types/index.js';
 
 /**
  * Generate UPI payment QR code
- * Follows NPCI UPI QR code specification
+ * Follows NPCI UPI QR code specification; BharatQR gives the EMVCo payload that card terminals and bank apps also read
  */
-export async function generateUPIQRCode(request: UPIPaymentRequest): Promise<{
+export async function generateUPIQRCode(request: UPIPaymentRequest, format: 'upi' | 'bharatqr' = 'upi'): Promise<{
   qr_string: string;
   qr_image_base64: string;
   upi_deep_link: string;
 }> {
-  // Build UPI URI according to NPCI spec
-  const params = new URLSearchParams();
-  params.set('pa', request.payee_upi_id); // Payee VPA
-  params.set('pn', request.payee_name); // Payee Name
-
-  if (request.amount > 0) {
-    params.set('am', request.amount.toFixed(2)); // Amount
-  }
-
-  if (request.transaction_note) {
-    params.set('tn', request.transaction_note); // Transaction Note
-  }
-
-  if (request.transaction_ref) {
-    params.set('tr', request.transaction_ref); // Transaction Reference ID
-  }
-
-  params.set('cu', 'INR'); // Currency
-
-  const upiString = `upi://pay?${params.toString()}`;
+  const upiString = buildUPIString(request);
+  const qrString = format === 'bharatqr' ? buildBharatQRPayload(request) : upiString;
 
   // Generate QR code as base64 PNG
-  const qrImageBase64 = await QRCode.toDataURL(upiString, {
+  const qrImageBase64 = await QRCode.toDataURL(qrString, {
     type: 'image/png',
     width: 300,
     margin: 2,
@@ -44,12 +26,196 @@ export async function generateUPIQRCode(request: UPIPaymentRequest): Promise<{
   });
 
   return {
-    qr_string: upiString,
+    qr_string: qrString,
     qr_image_base64: qrImageBase64,
     upi_deep_link: upiString,
   };
 }
 
+/**
+ * Build a upi://pay URI, parameters in the order the linking specification lists them (a PSP signs them in that order)
+ */
+export function buildUPIString(request: UPIPaymentRequest): string {
+  const params = new URLSearchParams();
+  params.set('pa', request.payee_upi_id); // Payee VPA
+  params.set('pn', request.payee_name); // Payee Name
+  if (request.merchant_code) params.set('mc', request.merchant_code); // Merchant Category Code
+  if (request.transaction_id) params.set('tid', request.transaction_id); // PSP Transaction ID
+  if (request.transaction_ref) params.set('tr', request.transaction_ref); // Transaction Reference ID
+  if (request.transaction_note) params.set('tn', request.transaction_note); // Transaction Note
+  if (request.amount > 0) params.set('am', request.amount.toFixed(2)); // Amount
+  if (request.min_amount) params.set('mam', request.min_amount.toFixed(2)); // Minimum Amount
+  params.set('cu', request.currency || 'INR'); // Currency
+  if (request.url) params.set('url', request.url); // Reference URL
+  if (request.mode) params.set('mode', request.mode); // Initiation Mode
+  if (request.org_id) params.set('orgid', request.org_id); // Organisation ID
+  if (request.sign) params.set('sign', request.sign); // Signature
+
+  return `upi://pay?${params.toString()}`;
+}
+
+// ============ BHARATQR (EMVCo) ============
+// Each field is a two-digit ID, a two-digit length and the value; templates nest fields the same way
+
+// NPCI application IDs inside the merchant account templates
+const UPI_VPA_AID = 'A000000677010111';
+const UPI_REFERENCE_AID = 'A000000677010114';
+
+// Merchant account IDs 02-16 are card network IDs, two per network
+const CARD_NETWORKS: Record<string, string> = {
+  '02': 'visa', '03': 'visa',
+  '04': 'mastercard', '05': 'mastercard',
+  '06': 'rupay', '07': 'rupay',
+  '09': 'discover', '10': 'discover',
+  '11': 'amex', '12': 'amex',
+  '13': 'jcb', '14': 'jcb',
+  '15': 'unionpay', '16': 'unionpay',
+};
+
+// ISO 4217 numeric codes used in field 53
+const CURRENCY_CODES: Record<string, string> = { '356': 'INR' };
+
+/**
+ * Build a BharatQR payload for a UPI merchant, with its CRC
+ */
+export function buildBharatQRPayload(request: UPIPaymentRequest): string {
+  const fields = [
+    tlv('00', '01'),
+    tlv('01', request.amount > 0 ? '12' : '11'),
+    tlv('26', [
+      tlv('00', UPI_VPA_AID),
+      tlv('01', request.payee_upi_id),
+      request.min_amount ? tlv('02', request.min_amount.toFixed(2)) : '',
+    ].join('')),
+  ];
+  if (request.transaction_ref || request.url) {
+    fields.push(tlv('27', [
+      tlv('00', UPI_REFERENCE_AID),
+      request.transaction_ref ? tlv('01', request.transaction_ref) : '',
+      request.url ? tlv('02', request.url) : '',
+    ].join('')));
+  }
+  fields.push(tlv('52', request.merchant_code || '0000'));
+  fields.push(tlv('53', '356'));
+  if (request.amount > 0) fields.push(tlv('54', request.amount.toFixed(2)));
+  fields.push(tlv('58', 'IN'));
+  fields.push(tlv('59', request.payee_name.slice(0, 25)));
+  fields.push(tlv('60', (request.merchant_city || 'India').slice(0, 15)));
+  if (request.postal_code) fields.push(tlv('61', request.postal_code));
+
+  const additional = [
+    request.transaction_ref ? tlv('01', request.transaction_ref.slice(0, 25)) : '',
+    request.transaction_id ? tlv('05', request.transaction_id.slice(0, 25)) : '',
+    request.transaction_note ? tlv('08', request.transaction_note.slice(0, 25)) : '',
+  ].join('');
+  if (additional) fields.push(tlv('62', additional));
+
+  const payload = `${fields.join('')}6304`;
+  return payload + crc16(payload);
+}
+
+/**
+ * Parse a BharatQR payload, rejecting it when the CRC does not match
+ */
+export function parseBharatQR(payload: string): ParsedPaymentQR {
+  const text = payload.trim();
+  const crcIndex = text.length - 8;
+  if (crcIndex < 0 || text.slice(crcIndex, crcIndex + 4) !== '6304') {
+    throw new Error('BharatQR payload has no CRC (field 63)');
+  }
+  const expected = crc16(text.slice(0, crcIndex + 4));
+  if (text.slice(crcIndex + 4).toUpperCase() !== expected) {
+    throw new Error(`BharatQR CRC mismatch (expected ${expected}); the QR is damaged or was misread`);
+  }
+
+  const fields = readTLV(text.slice(0, crcIndex));
+  if (fields.get('00') !== '01') {
+    throw new Error('Not an EMVCo QR payload (field 00 must be 01)');
+  }
+
+  let vpa: string | undefined;
+  let minAmount: string | undefined;
+  let reference: string | undefined;
+  let url: string | undefined;
+  const cardNetworks: { network: string; merchant_id: string }[] = [];
+
+  for (const [id, value] of fields) {
+    const tag = Number(id);
+    if (CARD_NETWORKS[id]) {
+      cardNetworks.push({ network: CARD_NETWORKS[id], merchant_id: value });
+    } else if (tag >= 26 && tag <= 51) {
+      const template = readTLV(value);
+      const aid = template.get('00');
+      if (aid === UPI_REFERENCE_AID) {
+        reference = template.get('01');
+        url = template.get('02');
+      } else if (aid === UPI_VPA_AID || (!vpa && template.get('01')?.includes('@'))) {
+        vpa = template.get('01');
+        minAmount = template.get('02');
+      }
+    }
+  }
+  if (!vpa) {
+    throw new Error('This BharatQR has no UPI VPA; it only takes card payments');
+  }
+
+  const additional = fields.has('62') ? readTLV(fields.get('62')!) : new Map<string, string>();
+  const amount = fields.get('54');
+  const currency = fields.get('53');
+
+  return {
+    format: 'bharatqr',
+    payee_upi_id: vpa,
+    payee_name: fields.get('59') || '',
+    amount: amount ? parseFloat(amount) : 0,
+    transaction_note: additional.get('08'),
+    transaction_ref: reference || additional.get('01'),
+    merchant_code: fields.get('52') !== '0000' ? fields.get('52') : undefined,
+    transaction_id: additional.get('05'),
+    url,
+    min_amount: minAmount ? parseFloat(minAmount) : undefined,
+    currency: currency ? CURRENCY_CODES[currency] || currency : undefined,
+    merchant_city: fields.get('60'),
+    postal_code: fields.get('61'),
+    card_networks: cardNetworks.length > 0 ? cardNetworks : undefined,
+    initiation: fields.get('01') === '12' ? 'dynamic' : 'static',
+  };
+}
+
+function tlv(id: string, value: string): string {
+  if (value.length > 99) {
+    throw new Error(`BharatQR field ${id} is longer than 99 characters`);
+  }
+  return `${id}${String(value.length).padStart(2, '0')}${value}`;
+}
+
+function readTLV(data: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  let i = 0;
+  while (i < data.length) {
+    const id = data.slice(i, i + 2);
+    const length = Number(data.slice(i + 2, i + 4));
+    if (!/^\d{2}$/.test(id) || isNaN(length) || i + 4 + length > data.length) {
+      throw new Error(`Malformed BharatQR field at position ${i}`);
+    }
+    fields.set(id, data.slice(i + 4, i + 4 + length));
+    i += 4 + length;
+  }
+  return fields;
+}
+
+// CRC-16/CCITT-FALSE (polynomial 0x1021, initial 0xFFFF), as EMVCo specifies for field 63
+function crc16(data: string): string {
+  let crc = 0xffff;
+  for (const byte of Buffer.from(data, 'utf-8')) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
 /**
  * Generate a generic QR code for any data
  */
@@ -74,16 +240,21 @@ export async function generateQRCode(data: string, options?: {
 }
 
 /**
- * Parse UPI QR code string
+ * Parse UPI QR code string: a upi://pay link or a BharatQR payload
  */
-export function parseUPIString(upiString: string): UPIPaymentRequest | null {
+export function parseUPIString(upiString: string): ParsedPaymentQR | null {
+  const text = upiString.trim();
+  // EMVCo payloads open with the payload format indicator, 000201
+  if (text.startsWith('000201')) {
+    return parseBharatQR(text);
+  }
+
   try {
-    if (!upiString.startsWith('upi://pay?')) {
+    if (!/^upi:\/\/pay\?/i.test(text)) {
       return null;
     }
 
-    const url = new URL(upiString);
-    const params = url.searchParams;
+    const params = new URLSearchParams(text.slice(text.indexOf('?') + 1));
 
     const payeeUpiId = params.get('pa');
     const payeeName = params.get('pn');
@@ -92,12 +263,23 @@ export function parseUPIString(upiString: string): UPIPaymentRequest | null {
       return null;
     }
 
+    const number = (key: string) => (params.get(key) ? parseFloat(params.get(key)!) : undefined);
+
     return {
+      format: 'upi',
       payee_upi_id: payeeUpiId,
       payee_name: payeeName,
-      amount: parseFloat(params.get('am') || '0'),
+      amount: number('am') || 0,
       transaction_note: params.get('tn') || undefined,
       transaction_ref: params.get('tr') || undefined,
+      merchant_code: params.get('mc') || undefined,
+      transaction_id: params.get('tid') || undefined,
+      url: params.get('url') || undefined,
+      min_amount: number('mam'),
+      mode: params.get('mode') || undefined,
+      org_id: params.get('orgid') || undefined,
+      sign: params.get('sign') || undefined,
+      currency: params.get('cu') || undefined,
     };
   } catch {
     return null;
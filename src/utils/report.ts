@@ -57,11 +57,23 @@ function renderDailyReport(doc: PDFKit.PDFDocument, data: any) {
     doc.fontSize(16).font('Helvetica-Bold').text('Summary', { underline: true });
     doc.moveDown(0.5);
     doc.fontSize(12).font('Helvetica');
-    doc.text(`Total Sales: ₹${(data.sales_total || 0).toFixed(2)}`);
-    doc.text(`Total Expenses: ₹${(data.expenses_total || 0).toFixed(2)}`);
-    doc.font('Helvetica-Bold').text(`Net Profit: ₹${((data.sales_total || 0) - (data.expenses_total || 0)).toFixed(2)}`);
+    doc.text(`Total Sales: ₹${(data.total_sales || 0).toFixed(2)} (${data.total_invoices || 0} invoices)`);
+    doc.text(`Cash: ₹${(data.cash_sales || 0).toFixed(2)}   UPI: ₹${(data.upi_sales || 0).toFixed(2)}   Credit: ₹${(data.credit_sales || 0).toFixed(2)}`);
+    if (data.other_sales) doc.text(`Bank/Cheque: ₹${data.other_sales.toFixed(2)}`);
+    if (data.sales_returns) doc.text(`Returns: -₹${data.sales_returns.toFixed(2)}`);
+    doc.text(`Total Expenses: ₹${(data.total_expenses || 0).toFixed(2)}`);
+    doc.font('Helvetica-Bold').text(`Net Profit: ₹${(data.net_profit || 0).toFixed(2)}`);
     doc.moveDown(1.5);
 
+    if (data.top_products && data.top_products.length > 0) {
+        doc.fontSize(14).font('Helvetica-Bold').text('Top Products');
+        doc.moveDown(0.5);
+        for (const prod of data.top_products) {
+            doc.fontSize(10).font('Helvetica').text(`${prod.name}: ${prod.quantity} ${prod.unit || ''} - ₹${prod.revenue.toFixed(2)}`);
+        }
+        doc.moveDown(1);
+    }
+
     if (data.recent_invoices && data.recent_invoices.length > 0) {
         doc.fontSize(14).font('Helvetica-Bold').text('Recent Invoices');
         doc.moveDown(0.5);
@@ -75,11 +87,22 @@ function renderAnalyticsReport(doc: PDFKit.PDFDocument, data: any) {
     doc.fontSize(16).font('Helvetica-Bold').text('Sales Performance', { underline: true });
     doc.moveDown(0.5);
     doc.fontSize(12).font('Helvetica');
+    if (data.start_date && data.end_date) doc.text(`Period: ${data.start_date} to ${data.end_date}`);
     doc.text(`Total Revenue: ₹${(data.total_revenue || 0).toFixed(2)}`);
     doc.text(`Total Orders: ${data.total_orders || 0}`);
     doc.text(`Average Order Value: ₹${(data.average_order_value || 0).toFixed(2)}`);
+    doc.text(`Growth vs previous ${data.period || 'period'}: ${data.growth === null || data.growth === undefined ? 'n/a' : `${data.growth.toFixed(1)}%`}`);
     doc.moveDown(1.5);
 
+    if (data.revenue_trend && data.revenue_trend.length > 0) {
+        doc.fontSize(14).font('Helvetica-Bold').text('Revenue Trend');
+        doc.moveDown(0.5);
+        for (const point of data.revenue_trend) {
+            doc.fontSize(10).font('Helvetica').text(`${point.period}: ₹${point.revenue.toFixed(2)} (${point.orders} orders)`);
+        }
+        doc.moveDown(1);
+    }
+
     if (data.top_products && data.top_products.length > 0) {
         doc.fontSize(14).font('Helvetica-Bold').text('Top Selling Products');
         doc.moveDown(0.5);
@@ -97,6 +120,7 @@ function renderSummaryReport(doc: PDFKit.PDFDocument, data: any) {
     doc.text(`Total Products: ${data.total_products || 0}`);
     doc.text(`Total Sales Revenue: ₹${(data.total_sales_revenue || 0).toFixed(2)}`);
     doc.text(`Total Expenses: ₹${(data.total_expenses || 0).toFixed(2)}`);
+    doc.text(`Outstanding Payments: ₹${(data.outstanding_amount || 0).toFixed(2)}`);
     doc.moveDown(1.5);
 
     if (data.low_stock_items && data.low_stock_items.length > 0) {
@@ -1,12 +1,10 @@
-import type { WhatsAppMessage } from '../types/index.js';
-
 /**
  * Generate WhatsApp deep link for sending a message
  * This creates a link that will open WhatsApp with the pre-filled message
  */
 export function generateWhatsAppLink(phone: string, message: string): string {
   // Clean phone number - remove spaces, dashes, and ensure country code
-  let cleanPhone = phone.replace(/[\s\-\(\)]/g, '');
+  let cleanPhone = phone.replace(/[\s\-()]/g, '');
 
   // Add India country code if not present
   if (!cleanPhone.startsWith('+')) {
@@ -32,7 +30,7 @@ export function generateWhatsAppLink(phone: string, message: string): string {
  * This format is better for mobile apps
  */
 export function generateWhatsAppIntent(phone: string, message: string): string {
-  let cleanPhone = phone.replace(/[\s\-\(\)]/g, '');
+  let cleanPhone = phone.replace(/[\s\-()]/g, '');
 
   if (!cleanPhone.startsWith('+')) {
     if (cleanPhone.startsWith('0')) {
@@ -51,6 +49,25 @@ export function generateWhatsAppIntent(phone: string, message: string): string {
   return `whatsapp://send?phone=${cleanPhone}&text=${encodedMessage}`;
 }
 
+/**
+ * Phone number in the form the WhatsApp Cloud API takes: country code and number, digits only
+ */
+export function toWhatsAppNumber(phone: string): string {
+  let cleanPhone = phone.replace(/[\s\-()]/g, '');
+
+  if (cleanPhone.startsWith('+')) {
+    return cleanPhone.substring(1);
+  }
+  if (cleanPhone.startsWith('0')) {
+    cleanPhone = cleanPhone.substring(1);
+  }
+  // A bare 10-digit mobile number is Indian, even when it starts with 91
+  if (cleanPhone.length === 10) {
+    cleanPhone = '91' + cleanPhone;
+  }
+  return cleanPhone;
+}
+
 /**
  * Prepare WhatsApp share data for invoice
  * Returns all the information needed for the mobile app to share via WhatsApp
@@ -70,7 +87,7 @@ export function prepareWhatsAppShare(
   message: string,
   imageBase64?: string
 ): WhatsAppShareData {
-  let cleanPhone = phone.replace(/[\s\-\(\)]/g, '');
+  let cleanPhone = phone.replace(/[\s\-()]/g, '');
 
   if (!cleanPhone.startsWith('+')) {
     if (cleanPhone.startsWith('0')) {
@@ -100,7 +117,8 @@ export function formatPaymentReminder(
   invoiceNumber: string,
   amount: number,
   dueDate?: string,
-  upiId?: string
+  upiId?: string,
+  paymentLink?: string
 ): string {
   const lines: string[] = [];
   lines.push(`🙏 Namaste ${customerName} ji,`);
@@ -116,7 +134,10 @@ export function formatPaymentReminder(
 
   lines.push('');
 
-  if (upiId) {
+  if (paymentLink) {
+    lines.push(`💳 Pay now: ${paymentLink}`);
+    lines.push('');
+  } else if (upiId) {
     lines.push(`💳 Pay via UPI: ${upiId}`);
     lines.push('');
   }
@@ -14,6 +14,8 @@ CREATE TABLE IF NOT EXISTS users (
     email TEXT,
     address TEXT,
     gst_number TEXT,
+    gst_scheme TEXT NOT NULL DEFAULT 'regular' CHECK (gst_scheme IN ('regular', 'composition', 'unregistered')),
+    composition_category TEXT CHECK (composition_category IN ('trader', 'manufacturer', 'restaurant', 'services')),
     avatar_url TEXT,
     language TEXT DEFAULT 'en' CHECK (language IN ('en', 'hi', 'hinglish')),
     created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -28,6 +30,7 @@ CREATE TABLE IF NOT EXISTS products (
     hindi_name TEXT,
     category TEXT NOT NULL,
     price DECIMAL(12, 2) NOT NULL,
+    price_includes_tax BOOLEAN NOT NULL DEFAULT FALSE,
     cost_price DECIMAL(12, 2),
     quantity INTEGER NOT NULL DEFAULT 0,
     unit TEXT NOT NULL DEFAULT 'pcs',
@@ -35,6 +38,8 @@ CREATE TABLE IF NOT EXISTS products (
     barcode TEXT,
     hsn_code TEXT,
     gst_rate DECIMAL(5, 2) NOT NULL DEFAULT 18,
+    cess_rate DECIMAL(6, 2),
+    cess_per_unit DECIMAL(12, 4),
     image_url TEXT,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -50,6 +55,9 @@ CREATE TABLE IF NOT EXISTS customers (
     address TEXT,
     gst_number TEXT,
     credit_limit DECIMAL(12, 2),
+    tcs_rate DECIMAL(5, 3),
+    udyam_number TEXT,
+    upi_id TEXT,
     outstanding_balance DECIMAL(12, 2) NOT NULL DEFAULT 0,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -60,18 +68,48 @@ CREATE TABLE IF NOT EXISTS invoices (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    customer_name TEXT,
+    customer_phone TEXT,
     invoice_number TEXT NOT NULL,
-    invoice_type TEXT NOT NULL DEFAULT 'invoice' CHECK (invoice_type IN ('invoice', 'quotation', 'proforma', 'delivery_challan')),
+    invoice_type TEXT NOT NULL DEFAULT 'invoice' CHECK (invoice_type IN ('invoice', 'quotation', 'proforma', 'delivery_challan', 'credit_note')),
+    original_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    source_document_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    branch TEXT,
+    place_of_supply TEXT,
+    is_interstate BOOLEAN NOT NULL DEFAULT FALSE,
+    seller_scheme TEXT CHECK (seller_scheme IN ('regular', 'composition', 'unregistered')),
     items JSONB NOT NULL DEFAULT '[]',
     subtotal DECIMAL(12, 2) NOT NULL,
     discount_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
     discount_type TEXT NOT NULL DEFAULT 'fixed' CHECK (discount_type IN ('percentage', 'fixed')),
     tax_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    cess_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    reverse_charge BOOLEAN NOT NULL DEFAULT FALSE,
+    tcs_rate DECIMAL(5, 3),
+    tcs_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
     total DECIMAL(12, 2) NOT NULL,
-    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid', 'partial', 'overdue', 'cancelled')),
+    amount_paid DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    balance_due DECIMAL(12, 2),
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'paid', 'partial', 'overdue', 'cancelled')),
     due_date DATE,
     notes TEXT,
     terms TEXT,
+    irn TEXT,
+    irn_ack_number TEXT,
+    irn_ack_date TEXT,
+    irn_signed_qr TEXT,
+    transport_mode TEXT CHECK (transport_mode IN ('road', 'rail', 'air', 'ship')),
+    transport_distance_km INTEGER,
+    transporter_name TEXT,
+    transporter_id TEXT,
+    vehicle_number TEXT,
+    transport_doc_number TEXT,
+    transport_doc_date DATE,
+    eway_bill_number TEXT,
+    eway_bill_date TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
     UNIQUE(user_id, invoice_number)
@@ -92,6 +130,60 @@ CREATE TABLE IF NOT EXISTS transactions (
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- ============ PAYMENT REVIEWS TABLE ============
+-- Statement credits that could not be matched to an invoice automatically
+CREATE TABLE IF NOT EXISTS payment_reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reference TEXT NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    value_date DATE,
+    payer_name TEXT,
+    payer_vpa TEXT,
+    narration TEXT NOT NULL DEFAULT '',
+    reason TEXT NOT NULL,
+    candidates JSONB NOT NULL DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'matched', 'dismissed')),
+    transaction_ids JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, reference)
+);
+
+-- ============ PAYMENT LINKS TABLE ============
+-- Expiring per-invoice payment pages, served publicly at /pay/:token
+CREATE TABLE IF NOT EXISTS payment_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paid', 'expired', 'cancelled')),
+    last_viewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============ OUTBOUND MESSAGES TABLE ============
+-- WhatsApp messages sent through the messaging provider; the webhook updates their status
+CREATE TABLE IF NOT EXISTS outbound_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    provider_message_id TEXT,
+    to_phone TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('text', 'document', 'template')),
+    template_name TEXT,
+    body TEXT,
+    document_filename TEXT,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'accepted' CHECK (status IN ('accepted', 'sent', 'delivered', 'read', 'failed')),
+    error TEXT,
+    status_updated_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- ============ EXPENSES TABLE ============
 CREATE TABLE IF NOT EXISTS expenses (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -101,6 +193,14 @@ CREATE TABLE IF NOT EXISTS expenses (
     description TEXT NOT NULL,
     payment_type TEXT NOT NULL CHECK (payment_type IN ('cash', 'upi', 'bank_transfer', 'cheque')),
     receipt_url TEXT,
+    supplier_gstin TEXT,
+    taxable_value DECIMAL(12, 2),
+    cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    cess_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    reverse_charge BOOLEAN NOT NULL DEFAULT FALSE,
+    itc_eligible BOOLEAN NOT NULL DEFAULT TRUE,
     date DATE NOT NULL,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -117,6 +217,7 @@ CREATE TABLE IF NOT EXISTS suppliers (
     address TEXT,
     gst_number TEXT,
     payment_terms TEXT,
+    udyam_number TEXT,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -130,15 +231,65 @@ CREATE TABLE IF NOT EXISTS purchase_orders (
     items JSONB NOT NULL DEFAULT '[]',
     subtotal DECIMAL(12, 2) NOT NULL,
     tax_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    is_interstate BOOLEAN NOT NULL DEFAULT FALSE,
+    cgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    sgst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    igst_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    cess_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    reverse_charge BOOLEAN NOT NULL DEFAULT FALSE,
     total DECIMAL(12, 2) NOT NULL,
-    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'confirmed', 'received', 'cancelled')),
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'confirmed', 'partially_received', 'received', 'cancelled')),
     expected_date DATE,
+    supplier_gstin TEXT,
+    supplier_invoice_number TEXT,
+    supplier_invoice_date DATE,
+    received_at TIMESTAMPTZ,
+    paid_at DATE,
     notes TEXT,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
     UNIQUE(user_id, order_number)
 );
 
+-- ============ STOCK MOVEMENTS TABLE ============
+-- One row per stock change; written by apply_stock_movement()
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('sale', 'purchase', 'adjustment', 'return', 'damage')),
+    quantity_change INTEGER NOT NULL,
+    quantity_after INTEGER NOT NULL,
+    reference_type TEXT,
+    reference_id TEXT,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Document number prefix per document type and branch ('' is the default series)
+CREATE TABLE IF NOT EXISTS numbering_series (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'quotation', 'proforma', 'delivery_challan', 'credit_note', 'purchase_order')),
+    branch TEXT NOT NULL DEFAULT '',
+    prefix TEXT NOT NULL,
+    padding INTEGER NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 8),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, document_type, branch)
+);
+
+-- Last number issued per series and financial year; advanced only by next_document_number()
+CREATE TABLE IF NOT EXISTS document_sequences (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    document_type TEXT NOT NULL,
+    branch TEXT NOT NULL DEFAULT '',
+    financial_year TEXT NOT NULL,
+    last_number INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, document_type, branch, financial_year)
+);
+
 -- ============ INDEXES ============
 CREATE INDEX IF NOT EXISTS idx_products_user_id ON products(user_id);
 CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
@@ -151,11 +302,23 @@ CREATE INDEX IF NOT EXISTS idx_invoices_user_id ON invoices(user_id);
 CREATE INDEX IF NOT EXISTS idx_invoices_customer_id ON invoices(customer_id);
 CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
 CREATE INDEX IF NOT EXISTS idx_invoices_created_at ON invoices(created_at);
+CREATE INDEX IF NOT EXISTS idx_invoices_original_invoice_id ON invoices(original_invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_source_document_id ON invoices(source_document_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_irn ON invoices(irn) WHERE irn IS NOT NULL;
 
 CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_customer_id ON transactions(customer_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_invoice_id ON transactions(invoice_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_created_at ON transactions(created_at);
 CREATE INDEX IF NOT EXISTS idx_transactions_payment_type ON transactions(payment_type);
+CREATE INDEX IF NOT EXISTS idx_transactions_upi_transaction_id ON transactions(user_id, upi_transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reviews_status ON payment_reviews(user_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_payment_links_invoice ON payment_links(user_id, invoice_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_provider_id ON outbound_messages(provider_message_id);
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_invoice ON outbound_messages(user_id, invoice_id);
 
 CREATE INDEX IF NOT EXISTS idx_expenses_user_id ON expenses(user_id);
 CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category);
@@ -163,15 +326,23 @@ CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
 
 CREATE INDEX IF NOT EXISTS idx_suppliers_user_id ON suppliers(user_id);
 
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON stock_movements(user_id, product_id, created_at);
+
 -- ============ ROW LEVEL SECURITY ============
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE products ENABLE ROW LEVEL SECURITY;
 ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
 ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE outbound_messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
 ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE numbering_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_sequences ENABLE ROW LEVEL SECURITY;
 
 -- Policies for service role (MCP server uses service key)
 -- These allow the service role to access all data
@@ -209,6 +380,15 @@ CREATE POLICY "Service role can read all transactions" ON transactions
 CREATE POLICY "Service role can manage transactions" ON transactions
     FOR ALL TO service_role USING (true);
 
+CREATE POLICY "Service role can manage payment_reviews" ON payment_reviews
+    FOR ALL TO service_role USING (true);
+
+CREATE POLICY "Service role can manage payment_links" ON payment_links
+    FOR ALL TO service_role USING (true);
+
+CREATE POLICY "Service role can manage outbound_messages" ON outbound_messages
+    FOR ALL TO service_role USING (true);
+
 CREATE POLICY "Service role can read all expenses" ON expenses
     FOR SELECT TO service_role USING (true);
 
@@ -227,6 +407,15 @@ CREATE POLICY "Service role can read all purchase_orders" ON purchase_orders
 CREATE POLICY "Service role can manage purchase_orders" ON purchase_orders
     FOR ALL TO service_role USING (true);
 
+CREATE POLICY "Service role can manage stock_movements" ON stock_movements
+    FOR ALL TO service_role USING (true);
+
+CREATE POLICY "Service role can manage numbering_series" ON numbering_series
+    FOR ALL TO service_role USING (true);
+
+CREATE POLICY "Service role can manage document_sequences" ON document_sequences
+    FOR ALL TO service_role USING (true);
+
 -- ============ FUNCTIONS ============
 
 -- Function to update updated_at timestamp
@@ -238,6 +427,79 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Apply a stock change and record it in the ledger atomically (row lock on the product)
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+    p_user_id UUID,
+    p_product_id UUID,
+    p_quantity INTEGER,
+    p_operation TEXT,
+    p_reason TEXT DEFAULT 'adjustment',
+    p_reference_type TEXT DEFAULT NULL,
+    p_reference_id TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS products AS $$
+DECLARE
+    v_product products;
+    v_change INTEGER;
+BEGIN
+    SELECT * INTO v_product FROM products
+    WHERE id = p_product_id AND user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    v_change := CASE p_operation
+        WHEN 'add' THEN p_quantity
+        WHEN 'subtract' THEN -p_quantity
+        WHEN 'set' THEN p_quantity - v_product.quantity
+        ELSE NULL
+    END;
+
+    IF v_change IS NULL THEN
+        RAISE EXCEPTION 'Invalid stock operation: %', p_operation;
+    END IF;
+
+    -- Stock cannot go below zero; a sale of goods not on hand is refused rather than recorded
+    IF v_product.quantity + v_change < 0 THEN
+        RAISE EXCEPTION 'Not enough stock of %: only % % available', v_product.name, v_product.quantity, v_product.unit;
+    END IF;
+
+    UPDATE products SET quantity = quantity + v_change
+    WHERE id = p_product_id
+    RETURNING * INTO v_product;
+
+    INSERT INTO stock_movements (user_id, product_id, reason, quantity_change, quantity_after, reference_type, reference_id, notes)
+    VALUES (p_user_id, p_product_id, p_reason, v_change, v_product.quantity, p_reference_type, p_reference_id, p_notes);
+
+    RETURN v_product;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Allocate the next number in a series for a financial year
+-- The upsert takes a row lock, so concurrent callers always get different numbers
+CREATE OR REPLACE FUNCTION next_document_number(
+    p_user_id UUID,
+    p_document_type TEXT,
+    p_branch TEXT,
+    p_financial_year TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_number INTEGER;
+BEGIN
+    INSERT INTO document_sequences (user_id, document_type, branch, financial_year, last_number)
+    VALUES (p_user_id, p_document_type, p_branch, p_financial_year, 1)
+    ON CONFLICT (user_id, document_type, branch, financial_year)
+    DO UPDATE SET last_number = document_sequences.last_number + 1, updated_at = NOW()
+    RETURNING last_number INTO v_number;
+
+    RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Triggers for updated_at
 CREATE TRIGGER update_users_updated_at
     BEFORE UPDATE ON users
@@ -259,6 +521,18 @@ CREATE TRIGGER update_transactions_updated_at
     BEFORE UPDATE ON transactions
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_payment_reviews_updated_at
+    BEFORE UPDATE ON payment_reviews
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payment_links_updated_at
+    BEFORE UPDATE ON payment_links
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_outbound_messages_updated_at
+    BEFORE UPDATE ON outbound_messages
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_expenses_updated_at
     BEFORE UPDATE ON expenses
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -271,6 +545,10 @@ CREATE TRIGGER update_purchase_orders_updated_at
     BEFORE UPDATE ON purchase_orders
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_numbering_series_updated_at
+    BEFORE UPDATE ON numbering_series
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- ============ SAMPLE DATA (Optional) ============
 -- Uncomment to insert sample data for testing
 
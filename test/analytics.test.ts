@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getDayRange, getPeriodRange, toISTDate } from '../src/utils/analytics.js';
+
+describe('day boundaries', () => {
+  it('runs a day from midnight to midnight Indian time', () => {
+    assert.deepEqual(getDayRange('2026-10-19'), {
+      start: '2026-10-18T18:30:00.000Z',
+      end: '2026-10-19T18:29:59.999Z',
+    });
+  });
+
+  it('dates a sale at 01:00 IST to its own day', () => {
+    assert.equal(toISTDate('2026-10-18T19:30:00.000Z'), '2026-10-19');
+    assert.equal(toISTDate('2026-10-18T18:29:59.999Z'), '2026-10-18');
+  });
+
+  it('ends a period at the end of the current Indian day', () => {
+    const range = getPeriodRange('week', new Date('2026-10-19T20:00:00.000Z'));
+
+    assert.equal(range.end, '2026-10-20T18:29:59.999Z');
+    assert.equal(range.start, '2026-10-13T18:30:00.000Z');
+    assert.equal(range.previousStart, '2026-10-06T18:30:00.000Z');
+  });
+});
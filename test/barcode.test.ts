@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import QRCode from 'qrcode';
+import sharp from 'sharp';
+import { decodeImageCodes } from '../src/utils/barcode.js';
+
+// EAN-13 digit patterns; right-hand digits are the complement of the L set
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLG', 'LGLGGL', 'LGLGLG', 'LGGLGL'];
+
+/**
+ * PNG of an EAN-13 barcode with a quiet zone around it
+ */
+async function ean13(code: string): Promise<Buffer> {
+  const digits = code.split('').map(Number);
+  const left = digits.slice(1, 7).map((d, i) => (EAN_PARITY[digits[0]][i] === 'L' ? EAN_L : EAN_G)[d]).join('');
+  const right = digits.slice(7).map((d) => EAN_L[d].replace(/./g, (bit) => (bit === '1' ? '0' : '1'))).join('');
+  const modules = `101${left}01010${right}101`;
+
+  const scale = 4;
+  const quiet = 40;
+  const width = modules.length * scale + quiet * 2;
+  const height = 200;
+  const pixels = Buffer.alloc(width * height, 255);
+  for (let y = quiet; y < height - quiet; y++) {
+    for (let x = 0; x < modules.length * scale; x++) {
+      if (modules[Math.floor(x / scale)] === '1') pixels[y * width + quiet + x] = 0;
+    }
+  }
+  return await sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+/**
+ * One white photo with the given codes laid out left to right
+ */
+async function photo(codes: Buffer[]): Promise<Buffer> {
+  const sizes = await Promise.all(codes.map((code) => sharp(code).metadata()));
+  const gap = 60;
+  const width = sizes.reduce((sum, size) => sum + size.width! + gap, gap);
+  const height = Math.max(...sizes.map((size) => size.height!)) + gap * 2;
+
+  let left = gap;
+  const layers = codes.map((input, i) => {
+    const layer = { input, left, top: gap };
+    left += sizes[i].width! + gap;
+    return layer;
+  });
+  return await sharp({ create: { width, height, channels: 3, background: '#ffffff' } }).composite(layers).jpeg().toBuffer();
+}
+
+describe('decodeImageCodes', () => {
+  it('reads a payment QR and a product barcode from one photo', async () => {
+    const qr = await QRCode.toBuffer('upi://pay?pa=ramesh%40okaxis&pn=Ramesh+Store&cu=INR', { width: 300, margin: 4 });
+    const codes = await decodeImageCodes(await photo([qr, await ean13('4006381333931')]));
+
+    assert.deepEqual(
+      codes.map((c) => [c.format, c.kind, c.text]).sort(),
+      [
+        ['EAN_13', 'product', '4006381333931'],
+        ['QR_CODE', 'qr', 'upi://pay?pa=ramesh%40okaxis&pn=Ramesh+Store&cu=INR'],
+      ]
+    );
+  });
+
+  it('reads two QR codes side by side', async () => {
+    const first = await QRCode.toBuffer('upi://pay?pa=ramesh%40okaxis&pn=Ramesh+Store', { width: 300, margin: 4 });
+    const second = await QRCode.toBuffer('upi://pay?pa=ramesh%40ybl&pn=Ramesh+Store', { width: 300, margin: 4 });
+    const codes = await decodeImageCodes(await photo([first, second]));
+
+    assert.deepEqual(codes.map((c) => c.text).sort(), [
+      'upi://pay?pa=ramesh%40okaxis&pn=Ramesh+Store',
+      'upi://pay?pa=ramesh%40ybl&pn=Ramesh+Store',
+    ]);
+    // The masked boxes do not overlap, so each code was found in its own place
+    const [a, b] = [...codes].sort((x, y) => x.position.left - y.position.left);
+    assert.ok(a.position.left + a.position.width <= b.position.left);
+  });
+
+  it('finds nothing in a blank photo', async () => {
+    const blank = await sharp({ create: { width: 400, height: 300, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+    assert.deepEqual(await decodeImageCodes(blank), []);
+  });
+});
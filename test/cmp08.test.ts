@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildCMP08 } from '../src/utils/cmp08.js';
+import { getReturnPeriod } from '../src/utils/gstr1.js';
+import { USER_ID, createProduct, createShop } from './setup.js';
+
+describe('buildCMP08', () => {
+  it('charges a trader 1% on taxable turnover, leaving exempt goods and regular-scheme invoices out', async () => {
+    const { db, invoices } = createShop();
+    const rice = await createProduct(db, 20, { gst_rate: 5 });
+    const wheat = await createProduct(db, 20, { name: 'Wheat (loose)', unit: 'kg', price: 50, gst_rate: 0 });
+    const regular = await invoices.createInvoice(USER_ID, {
+      items: [{ product_id: rice.id, name: 'Rice 5kg', quantity: 1, unit_price: 100, gst_rate: 5 }],
+    });
+    await db.updateUser(USER_ID, { gst_scheme: 'composition', composition_category: 'trader' });
+    const sale = await invoices.createInvoice(USER_ID, {
+      items: [
+        { product_id: rice.id, name: 'Rice 5kg', quantity: 10, unit_price: 100, gst_rate: 5 },
+        { product_id: wheat.id, name: 'Wheat (loose)', quantity: 2, unit_price: 50, gst_rate: 0 },
+      ],
+    });
+    const { credit_note } = await invoices.createSalesReturn(USER_ID, {
+      invoice_id: sale.id,
+      items: [{ product_id: rice.id, quantity: 2 }],
+    });
+
+    const cmp08 = buildCMP08({
+      gstin: '27AAPFU0939F1ZV',
+      period: getReturnPeriod('2026-12', 'quarterly'),
+      category: 'trader',
+      documents: [regular, sale, credit_note],
+      products: [rice, wheat],
+      expenses: [],
+      purchaseOrders: [],
+    });
+
+    assert.equal(sale.tax_amount, 0);
+    assert.equal(cmp08.json.ret_period, '122026');
+    assert.deepEqual(cmp08.json.outward_supplies, { txval: 800, iamt: 0, camt: 4, samt: 4, csamt: 0 });
+    assert.equal(cmp08.summary.exempt_turnover, 100);
+    assert.equal(cmp08.summary.tax_payable, 8);
+    assert.deepEqual(cmp08.warnings, [
+      '1 document(s) in the quarter were issued under the regular scheme; report them in GSTR-1 and GSTR-3B instead',
+    ]);
+  });
+
+  it('adds reverse charge tax at the normal rates to the composition tax', async () => {
+    const { db, invoices } = createShop();
+    await db.updateUser(USER_ID, { gst_scheme: 'composition', composition_category: 'restaurant' });
+    const sale = await invoices.createInvoice(USER_ID, {
+      items: [{ name: 'Thali', quantity: 100, unit_price: 120, gst_rate: 5 }],
+    });
+    const freight = await db.createExpense(USER_ID, {
+      description: 'Lorry freight',
+      amount: 1000,
+      taxable_value: 1000,
+      igst_amount: 50,
+      reverse_charge: true,
+    });
+
+    const cmp08 = buildCMP08({
+      gstin: '27AAPFU0939F1ZV',
+      period: getReturnPeriod('2026-12', 'quarterly'),
+      category: 'restaurant',
+      documents: [sale],
+      products: [],
+      expenses: [freight],
+      purchaseOrders: [],
+    });
+
+    assert.deepEqual(cmp08.json.outward_supplies, { txval: 12000, iamt: 0, camt: 300, samt: 300, csamt: 0 });
+    assert.deepEqual(cmp08.json.inward_reverse_charge, { txval: 1000, iamt: 50, camt: 0, samt: 0, csamt: 0 });
+    assert.deepEqual(cmp08.json.tax_payable, { iamt: 50, camt: 300, samt: 300, csamt: 0 });
+    assert.equal(cmp08.summary.message, 'Composition tax for the quarter: ₹600.00 (5% of ₹12000.00: CGST ₹300.00, SGST ₹300.00); reverse charge tax ₹50.00; total ₹650.00');
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConversationalOrdersService } from '../src/services/conversational-orders-service.js';
+import { USER_ID, createProduct, createShop } from './setup.js';
+
+async function startOrder() {
+  const { db } = createShop();
+  const orders = new ConversationalOrdersService(db);
+  const draft = await orders.initDraftInvoice({ user_id: USER_ID });
+  return { db, orders, sessionId: draft.session_id };
+}
+
+describe('addInvoiceItem', () => {
+  it('backs an inclusive price out at the product\'s GST rate', async () => {
+    const { db, orders, sessionId } = await startOrder();
+    const oil = await createProduct(db, 20, { name: 'Mustard Oil 1L', price: 105, price_includes_tax: true, gst_rate: 5 });
+
+    const draft = await orders.addInvoiceItem({ user_id: USER_ID, session_id: sessionId, product_id: oil.id, product_name: 'Mustard Oil 1L', quantity: 2 });
+    assert.equal(draft.items[0].gst_rate, 5);
+
+    const { invoice } = await orders.finalizeDraftInvoice({ user_id: USER_ID, session_id: sessionId, payment_method: 'Cash' });
+    assert.equal(invoice.subtotal, 200);
+    assert.equal(invoice.tax_amount, 10);
+    assert.equal(invoice.total, 210);
+  });
+
+  it('keeps a 0% rate', async () => {
+    const { db, orders, sessionId } = await startOrder();
+    const milk = await createProduct(db, 20, { name: 'Milk 1L', price: 60, gst_rate: 0 });
+
+    const fromProduct = await orders.addInvoiceItem({ user_id: USER_ID, session_id: sessionId, product_id: milk.id, product_name: 'Milk 1L', quantity: 1 });
+    assert.equal(fromProduct.items[0].gst_rate, 0);
+
+    const rice = await createProduct(db, 20);
+    const given = await orders.addInvoiceItem({ user_id: USER_ID, session_id: sessionId, product_id: rice.id, product_name: 'Rice 5kg', quantity: 1, gst_rate: 0 });
+    assert.equal(given.items[1].gst_rate, 0);
+  });
+
+  it('uses the product price when none is given', async () => {
+    const { db, orders, sessionId } = await startOrder();
+    await createProduct(db, 20);
+
+    const draft = await orders.addInvoiceItem({ user_id: USER_ID, session_id: sessionId, product_name: 'Rice 5kg', quantity: 3 });
+
+    assert.equal(draft.items[0].price, 100);
+    assert.equal(draft.items[0].gst_rate, 18);
+    assert.equal(draft.items[0].total, 300);
+  });
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ForecastingService } from '../src/services/forecasting-service.js';
+import { USER_ID, createProduct, createShop } from './setup.js';
+
+describe('getDailySalesHistory', () => {
+  it('adds up the quantities sold per day on live invoices', async () => {
+    const { db, invoices } = createShop();
+    const product = await createProduct(db, 50);
+    const sell = (quantity: number) => invoices.createInvoice(USER_ID, {
+      items: [{ product_id: product.id, name: 'Rice 5kg', quantity, unit_price: 100, gst_rate: 18 }],
+    });
+
+    await sell(2);
+    await sell(3);
+    const cancelled = await sell(10);
+    await invoices.updateStatus(USER_ID, cancelled.id, 'cancelled');
+    await invoices.createInvoice(USER_ID, {
+      invoice_type: 'quotation',
+      items: [{ product_id: product.id, name: 'Rice 5kg', quantity: 7, unit_price: 100, gst_rate: 18 }],
+    });
+
+    const today = new Date().toISOString().split('T')[0];
+    assert.deepEqual(await db.getDailySalesHistory(USER_ID, product.id, today), [{ date: today, quantity_sold: 5 }]);
+  });
+
+  it('gives forecasting a sales history', async () => {
+    const { db, invoices } = createShop();
+    const product = await createProduct(db, 10);
+    await invoices.createInvoice(USER_ID, {
+      items: [{ product_id: product.id, name: 'Rice 5kg', quantity: 4, unit_price: 100, gst_rate: 18 }],
+    });
+
+    const forecast = await new ForecastingService(db).predictSingleProduct(USER_ID, product.id);
+
+    // With no history a product is forecast never to run out
+    assert.ok(forecast.days_until_runout < 30);
+  });
+});
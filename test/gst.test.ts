@@ -0,0 +1,173 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  calculateCess,
+  calculateGST,
+  calculateGSTFromInclusive,
+  calculateTCS,
+  decodeGSTIN,
+  determinePlaceOfSupply,
+  getStateCodeFromAddress,
+  gstinCheckCharacter,
+  isValidGSTIN,
+  withCheckedGSTIN,
+} from '../src/utils/gst.js';
+import { calculateInvoiceTotals } from '../src/utils/invoice.js';
+
+describe('calculateGSTFromInclusive', () => {
+  it('backs the taxable value out of an inclusive amount', () => {
+    const gst = calculateGSTFromInclusive(118, 18);
+
+    assert.equal(gst.base_amount, 100);
+    assert.equal(gst.cgst_amount, 9);
+    assert.equal(gst.sgst_amount, 9);
+    assert.equal(gst.total_with_gst, 118);
+  });
+
+  it('keeps the total at the amount quoted when the split does not come out even', () => {
+    const gst = calculateGSTFromInclusive(100, 18, true);
+
+    assert.equal(gst.base_amount, 84.75);
+    assert.equal(gst.igst_amount.toFixed(2), '15.25');
+    assert.equal(gst.base_amount + gst.total_gst, 100);
+  });
+});
+
+describe('calculateInvoiceTotals', () => {
+  it('reports inclusive lines in taxable terms with the line discount taken off the quoted price', () => {
+    const totals = calculateInvoiceTotals([
+      { quantity: 2, unit_price: 118, discount: 10, gst_rate: 18, price_includes_tax: true },
+      { quantity: 1, unit_price: 100, discount: 0, gst_rate: 5 },
+    ]);
+
+    // 2 × 118 less 10% is 212.40 to pay, of which 180 is taxable value
+    assert.equal(totals.subtotal.toFixed(2), '280.00');
+    assert.equal(totals.tax_amount.toFixed(2), '37.40');
+    assert.equal(totals.total.toFixed(2), '317.40');
+  });
+});
+
+describe('determinePlaceOfSupply', () => {
+  const seller = { gst_number: '27AAPFU0939F1ZV' };
+
+  it('places a registered buyer by their GSTIN', () => {
+    const buyer = { gst_number: `29AABCU9603R1Z${gstinCheckCharacter('29AABCU9603R1Z')}`, address: 'Andheri, Mumbai, Maharashtra' };
+
+    assert.deepEqual(determinePlaceOfSupply(seller, buyer), { seller_state: '27', place_of_supply: '29', is_interstate: true });
+  });
+
+  it('places an unregistered buyer by their address, and a walk-in buyer in the seller\'s state', () => {
+    assert.equal(determinePlaceOfSupply(seller, { address: '12 MG Road, Bengaluru, Karnataka 560001' }).place_of_supply, '29');
+    assert.deepEqual(determinePlaceOfSupply(seller, null), { seller_state: '27', place_of_supply: '27', is_interstate: false });
+  });
+
+  it('takes a stated place of supply over the buyer\'s', () => {
+    const buyer = { gst_number: '27AABCU9603R1ZN' };
+
+    assert.equal(determinePlaceOfSupply(seller, buyer, 'Tamil Nadu').place_of_supply, '33');
+    assert.equal(determinePlaceOfSupply(seller, buyer, '29-Karnataka').is_interstate, true);
+    assert.throws(() => determinePlaceOfSupply(seller, buyer, 'Atlantis'), /Unknown place of supply "Atlantis"/);
+  });
+
+  it('treats a supply as intra-state when the seller\'s state is unknown', () => {
+    assert.deepEqual(determinePlaceOfSupply({}, { address: 'Chennai, Tamil Nadu' }), { seller_state: undefined, place_of_supply: '33', is_interstate: false });
+  });
+});
+
+describe('getStateCodeFromAddress', () => {
+  it('takes the last state named, and older names', () => {
+    assert.equal(getStateCodeFromAddress('Near Delhi Gate, Agra, Uttar Pradesh'), '09');
+    assert.equal(getStateCodeFromAddress('Cuttack, Orissa'), '21');
+    assert.equal(getStateCodeFromAddress('Guntur, Andhra Pradesh'), '37');
+    assert.equal(getStateCodeFromAddress('Main Road'), null);
+  });
+});
+
+describe('decodeGSTIN', () => {
+  it('splits a valid GSTIN into its parts', () => {
+    assert.deepEqual(decodeGSTIN(' 27aapfu0939f1zv '), {
+      gstin: '27AAPFU0939F1ZV',
+      is_valid: true,
+      state_code: '27',
+      state: 'Maharashtra',
+      registration_type: 'regular',
+      registration_hint: 'Normal taxpayer (regular, composition or casual)',
+      check_character: 'V',
+      pan: 'AAPFU0939F',
+      entity_number: '1',
+    });
+  });
+
+  it('catches a mistyped GSTIN by its check character', () => {
+    assert.equal(gstinCheckCharacter('27AABCU9603R1Z'), 'N');
+    assert.equal(isValidGSTIN('27AABCU9603R1ZN'), true);
+    assert.equal(decodeGSTIN('27AABCU9603R1ZM').error, 'Check character should be N, not M; the GSTIN is probably mistyped');
+    // Two adjacent characters swapped
+    assert.equal(isValidGSTIN('27AABCU9630R1ZN'), false);
+  });
+
+  it('refuses the wrong length, layout or state', () => {
+    assert.equal(decodeGSTIN('27AABCU9603R1Z').error, 'GSTIN must be 15 characters');
+    assert.equal(decodeGSTIN('27AABCU9603R1XN').error, 'GSTIN does not match any registration format');
+    assert.equal(decodeGSTIN('40AABCU9603R1ZN').error, 'Unknown state code 40');
+  });
+
+  it('uppercases a GSTIN before saving and refuses an invalid one', () => {
+    assert.deepEqual(withCheckedGSTIN({ name: 'Suresh Traders', gst_number: '27aabcu9603r1zn' }), { name: 'Suresh Traders', gst_number: '27AABCU9603R1ZN' });
+    assert.deepEqual(withCheckedGSTIN({ gst_number: '' }), { gst_number: '' });
+    assert.throws(() => withCheckedGSTIN({ gst_number: '27AABCU9603R1ZM' }), /Invalid GSTIN 27AABCU9603R1ZM: Check character should be N/);
+  });
+});
+
+describe('compensation cess', () => {
+  it('charges cess on the taxable value beside GST', () => {
+    const gst = calculateGST(1000, 28, false, { cess: { rate: 12 } });
+
+    assert.equal(gst.total_gst, 280);
+    assert.equal(gst.cess_amount, 120);
+    assert.equal(gst.total_with_gst, 1400);
+  });
+
+  it('adds specific cess per unit to the ad valorem part', () => {
+    assert.deepEqual(calculateCess(1000, { rate: 5, per_unit: 4, quantity: 100 }), { cess_rate: 5, cess_per_unit: 4, cess_amount: 450 });
+  });
+
+  it('backs GST and cess out of an inclusive price at their combined rate', () => {
+    const gst = calculateGSTFromInclusive(1400, 28, false, { cess: { rate: 12 } });
+
+    assert.equal(gst.base_amount, 1000);
+    assert.equal(gst.total_gst, 280);
+    assert.equal(gst.cess_amount, 120);
+  });
+
+  it('leaves GST and cess off the bill under reverse charge', () => {
+    const gst = calculateGST(1000, 18, false, { cess: { rate: 12 }, reverse_charge: true });
+
+    assert.equal(gst.total_gst, 180);
+    assert.equal(gst.total_with_gst, 1000);
+  });
+});
+
+describe('TCS', () => {
+  it('is collected on the amount billed, tax included', () => {
+    assert.equal(calculateTCS(1180, 1), 11.8);
+
+    const totals = calculateInvoiceTotals(
+      [{ quantity: 10, unit_price: 100, discount: 0, gst_rate: 18, cess_rate: 12 }],
+      0, 'fixed', false, 'regular', { tcsRate: 1 }
+    );
+    assert.equal(totals.cess_amount, 120);
+    assert.equal(totals.tax_amount, 300);
+    assert.equal(totals.tcs_amount, 13);
+    assert.equal(totals.total, 1313);
+  });
+
+  it('is collected on the value alone under reverse charge', () => {
+    const totals = calculateInvoiceTotals(
+      [{ quantity: 10, unit_price: 100, discount: 0, gst_rate: 18 }],
+      0, 'fixed', false, 'regular', { reverseCharge: true, tcsRate: 1 }
+    );
+    assert.equal(totals.tcs_amount, 10);
+    assert.equal(totals.total, 1010);
+  });
+});
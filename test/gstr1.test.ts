@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildGSTR1, getReturnPeriod } from '../src/utils/gstr1.js';
+import { USER_ID, createCustomer, createProduct, createShop } from './setup.js';
+
+describe('getReturnPeriod', () => {
+  it('bounds a month by midnight in India', () => {
+    assert.deepEqual(getReturnPeriod('2026-10'), {
+      fp: '102026',
+      start: '2026-09-30T18:30:00.000Z',
+      end: '2026-10-31T18:29:59.999Z',
+      first_day: '2026-10-01',
+      last_day: '2026-10-31',
+    });
+  });
+
+  it('takes a quarter by its last month', () => {
+    const period = getReturnPeriod('2026-12', 'quarterly');
+    assert.equal(period.fp, '122026');
+    assert.equal(period.first_day, '2026-10-01');
+    assert.equal(period.last_day, '2026-12-31');
+
+    assert.throws(() => getReturnPeriod('2026-11', 'quarterly'), /last month of the quarter/);
+    assert.throws(() => getReturnPeriod('2026-13'), /use YYYY-MM/);
+  });
+});
+
+describe('buildGSTR1', () => {
+  it('reports registered buyers per invoice and rate, and their credit notes apart', async () => {
+    const { db, invoices } = createShop();
+    const customer = await createCustomer(db);
+    const rice = await createProduct(db, 10, { hsn_code: '1006' });
+    const dal = await createProduct(db, 10, { name: 'Toor Dal 1kg', hsn_code: '0713', gst_rate: 5 });
+    const invoice = await invoices.createInvoice(USER_ID, {
+      customer_id: customer.id,
+      items: [
+        { product_id: rice.id, name: 'Rice 5kg', quantity: 3, unit_price: 100, gst_rate: 18 },
+        { product_id: dal.id, name: 'Toor Dal 1kg', quantity: 1, unit_price: 200, gst_rate: 5 },
+      ],
+    });
+    const { credit_note } = await invoices.createSalesReturn(USER_ID, {
+      invoice_id: invoice.id,
+      items: [{ product_id: rice.id, quantity: 1 }],
+    });
+
+    const gstr1 = buildGSTR1({
+      gstin: '27AAPFU0939F1ZV',
+      period: getReturnPeriod('2026-10'),
+      documents: [invoice, credit_note],
+      originals: [],
+      customers: [customer],
+      products: [rice, dal],
+    });
+
+    const [b2b] = gstr1.json.b2b;
+    assert.equal(b2b.ctin, '27AABCU9603R1ZN');
+    assert.equal(b2b.inv[0].val, 564);
+    assert.equal(b2b.inv[0].pos, '27');
+    assert.deepEqual(b2b.inv[0].itms, [
+      { num: 1801, itm_det: { rt: 18, txval: 300, camt: 27, samt: 27, csamt: 0 } },
+      { num: 501, itm_det: { rt: 5, txval: 200, camt: 5, samt: 5, csamt: 0 } },
+    ]);
+
+    const [cdnr] = gstr1.json.cdnr;
+    assert.equal(cdnr.nt[0].val, 118);
+    assert.deepEqual(cdnr.nt[0].itms, [{ num: 1801, itm_det: { rt: 18, txval: 100, camt: 9, samt: 9, csamt: 0 } }]);
+
+    // The HSN summary is net of the return
+    assert.deepEqual(
+      gstr1.json.hsn.hsn_b2b.map((row: any) => [row.hsn_sc, row.qty, row.txval]),
+      [['1006', 2, 200], ['0713', 1, 200]]
+    );
+    assert.deepEqual(gstr1.json.b2cs, []);
+    assert.deepEqual(gstr1.warnings, []);
+  });
+
+  it('splits unregistered sales into large interstate invoices and state-wise totals', async () => {
+    const { db, invoices } = createShop();
+    const large = await invoices.createInvoice(USER_ID, {
+      place_of_supply: 'Karnataka',
+      items: [{ name: 'Rice 5kg', quantity: 1000, unit_price: 100, gst_rate: 18 }],
+    });
+    const small = await invoices.createInvoice(USER_ID, {
+      items: [{ name: 'Rice 5kg', quantity: 2, unit_price: 100, gst_rate: 18 }],
+    });
+    const local = await invoices.createInvoice(USER_ID, {
+      items: [{ name: 'Rice 5kg', quantity: 1, unit_price: 100, gst_rate: 18 }],
+    });
+
+    const gstr1 = buildGSTR1({
+      gstin: '27AAPFU0939F1ZV',
+      period: getReturnPeriod('2026-10'),
+      documents: [large, small, local],
+      originals: [],
+      customers: await db.getCustomers(USER_ID),
+      products: [],
+    });
+
+    assert.deepEqual(gstr1.json.b2b, []);
+    assert.equal(gstr1.json.b2cl[0].pos, '29');
+    assert.equal(gstr1.json.b2cl[0].inv[0].val, 118000);
+    assert.deepEqual(gstr1.json.b2cl[0].inv[0].itms, [{ num: 1801, itm_det: { rt: 18, txval: 100000, iamt: 18000, csamt: 0 } }]);
+    assert.deepEqual(gstr1.json.b2cs, [{ sply_ty: 'INTRA', pos: '27', typ: 'OE', rt: 18, txval: 300, camt: 27, samt: 27, csamt: 0 }]);
+    assert.deepEqual(gstr1.warnings, ['Rice 5kg has no HSN code']);
+  });
+});
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PurchaseOrderService } from '../src/services/purchase-order-service.js';
+import { createPurchaseOrderSchema } from '../src/tools/purchase-orders.js';
+import { getReturnPeriod } from '../src/utils/gstr1.js';
+import { buildGSTR3B, receivedTax } from '../src/utils/gstr3b.js';
+import { USER_ID, createProduct, createShop } from './setup.js';
+
+const GSTIN = '27AAPFU0939F1ZV';
+
+async function sell(items: { quantity: number; unit_price: number }[], place_of_supply?: string) {
+  const { invoices } = createShop();
+  return await invoices.createInvoice(USER_ID, {
+    place_of_supply,
+    items: items.map((item) => ({ name: 'Rice 5kg', gst_rate: 18, ...item })),
+  });
+}
+
+describe('buildGSTR3B', () => {
+  it('sets IGST credit off against IGST, then CGST, and leaves the rest to be paid in cash', async () => {
+    const { db } = createShop();
+    const expenses = [
+      await db.createExpense(USER_ID, { description: 'Packing material', amount: 1200, supplier_gstin: '29AABCU9603R1ZJ', taxable_value: 1000, igst_amount: 200 }),
+      await db.createExpense(USER_ID, { description: 'Staff lunch', amount: 105, supplier_gstin: '27AABCU9603R1ZN', cgst_amount: 2.5, sgst_amount: 2.5, itc_eligible: false }),
+      await db.createExpense(USER_ID, { description: 'Tea', date: '2026-10-05', amount: 21, cgst_amount: 0.5, sgst_amount: 0.5 }),
+    ];
+
+    const gstr3b = buildGSTR3B({
+      gstin: GSTIN,
+      period: getReturnPeriod('2026-10'),
+      documents: [await sell([{ quantity: 10, unit_price: 100 }]), await sell([{ quantity: 1, unit_price: 1000 }], 'Karnataka')],
+      customers: [],
+      expenses,
+      purchaseOrders: [],
+    });
+
+    assert.deepEqual(gstr3b.json.sup_details.osup_det, { txval: 2000, iamt: 180, camt: 90, samt: 90, csamt: 0 });
+    assert.deepEqual(gstr3b.json.inter_sup.unreg_details, [{ pos: '29', txval: 1000, iamt: 180 }]);
+    assert.deepEqual(gstr3b.json.itc_elg.itc_inelg[0], { ty: 'RUL', iamt: 0, camt: 2.5, samt: 2.5, csamt: 0 });
+    assert.deepEqual(gstr3b.tax_payment.itc_utilised.igst, { igst: 180, cgst: 20 });
+    assert.deepEqual(gstr3b.tax_payment.paid_in_cash, { igst: 0, cgst: 70, sgst: 90, cess: 0 });
+    assert.equal(gstr3b.summary.cash_payable, 160);
+    assert.deepEqual(gstr3b.warnings, ['Expense "Tea" (2026-10-05) has GST but no supplier GSTIN; its credit is not claimed']);
+  });
+
+  it('pays reverse charge tax in cash and claims it back as credit', async () => {
+    const { db } = createShop();
+    const freight = await db.createExpense(USER_ID, {
+      description: 'Lorry freight',
+      amount: 100,
+      taxable_value: 100,
+      cgst_amount: 9,
+      sgst_amount: 9,
+      reverse_charge: true,
+    });
+
+    const gstr3b = buildGSTR3B({
+      gstin: GSTIN,
+      period: getReturnPeriod('2026-10'),
+      documents: [await sell([{ quantity: 10, unit_price: 100 }])],
+      customers: [],
+      expenses: [freight],
+      purchaseOrders: [],
+    });
+
+    assert.deepEqual(gstr3b.json.sup_details.isup_rev, { txval: 100, iamt: 0, camt: 9, samt: 9, csamt: 0 });
+    assert.deepEqual(gstr3b.json.itc_elg.itc_avl[2], { ty: 'ISRC', iamt: 0, camt: 9, samt: 9, csamt: 0 });
+    assert.deepEqual(gstr3b.tax_payment.paid_in_cash, { igst: 0, cgst: 90, sgst: 90, cess: 0 });
+    assert.match(gstr3b.summary.message, /₹180\.00 .*including ₹18\.00 under reverse charge/);
+  });
+});
+
+describe('receivedTax', () => {
+  it('counts only the goods received so far', async () => {
+    const { db } = createShop();
+    const orders = new PurchaseOrderService(db);
+    const product = await createProduct(db, 0);
+    const supplier = await db.createSupplier(USER_ID, { name: 'Agro Mills', phone: '9988776655', gst_number: '27AABCU9603R1ZN' });
+    const order = await orders.createPurchaseOrder(createPurchaseOrderSchema.parse({
+      user_id: USER_ID,
+      supplier_id: supplier.id,
+      items: [{ product_id: product.id, name: 'Rice 5kg', quantity: 10, unit_price: 80, gst_rate: 5 }],
+    }));
+    const { purchase_order } = await orders.receivePurchaseOrder({
+      user_id: USER_ID,
+      purchase_order_id: order.id,
+      items: [{ product_id: product.id, quantity: 4 }],
+    });
+
+    assert.deepEqual(receivedTax(purchase_order), { txval: 320, iamt: 0, camt: 8, samt: 8, csamt: 0 });
+  });
+});
@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { balanceDue } from '../src/services/invoice-service.js';
+import { MSMEProductivityService } from '../src/services/msme-productivity-service.js';
+import { USER_ID, createCustomer, createProduct, createShop } from './setup.js';
+
+describe('createInvoice', () => {
+  it('charges CGST and SGST within the state and adds the total to the customer balance', async () => {
+    const { db, invoices } = createShop();
+    const customer = await createCustomer(db);
+
+    const invoice = await invoices.createInvoice(USER_ID, {
+      customer_id: customer.id,
+      items: [{ name: 'Rice 5kg', quantity: 2, unit_price: 100, gst_rate: 18 }],
+    });
+
+    assert.equal(invoice.subtotal, 200);
+    assert.equal(invoice.cgst_amount, 18);
+    assert.equal(invoice.sgst_amount, 18);
+    assert.equal(invoice.total, 236);
+    assert.equal(invoice.balance_due, 236);
+    assert.equal((await db.getCustomer(USER_ID, customer.id)).outstanding_balance, 236);
+  });
+
+  it('does not put quotations on the customer balance', async () => {
+    const { db, invoices } = createShop();
+    const customer = await createCustomer(db);
+
+    const quotation = await invoices.createInvoice(USER_ID, {
+      customer_id: customer.id,
+      invoice_type: 'quotation',
+      items: [{ name: 'Rice 5kg', quantity: 1, unit_price: 100, gst_rate: 18 }],
+    });
+
+    assert.equal(quotation.balance_due, 0);
+    assert.equal((await db.getCustomer(USER_ID, customer.id)).outstanding_balance, 0);
+  });
+});
+
+describe('recordPayment', () => {
+  it('settles an invoice in parts and reduces the customer balance', async () => {
+    const { db, invoices } = createShop();
+    const customer = await createCustomer(db);
+    const invoice = await invoices.createInvoice(USER_ID, {
+      customer_id: customer.id,
+      items: [{ name: 'Rice 5kg', quantity: 2, unit_price: 100, gst_rate: 18 }],
+    });
+
+    const first = await invoices.recordPayment(USER_ID, { invoice_id: invoice.id, amount: 100, payment_type: 'upi' });
+    assert.equal(first.invoices[0].status, 'partial');
+    assert.equal(first.invoices[0].balance_due, 136);
+
+    const second = await invoices.recordPayment(USER_ID, { invoice_id: invoice.id, amount: 136, payment_type: 'cash' });
+    assert.equal(second.invoices[0].status, 'paid');
+    assert.equal(second.invoices[0].amount_paid, 236);
+    assert.equal((await db.getCustomer(USER_ID, customer.id)).outstanding_balance, 0);
+  });
+
+  it('refuses more than is due', async () => {
+    const { invoices } = createShop();
+    const invoice = await invoices.createInvoice(USER_ID, {
+      items: [{ name: 'Rice 5kg', quantity: 1, unit_price: 100, gst_rate: 18 }],
+    });
+
+    await assert.rejects(
+      invoices.recordPayment(USER_ID, { invoice_id: invoice.id, amount: 200, payment_type: 'cash' }),
+      /exceeds/
+    );
+  });
+});
+
+describe('updateStatus', () => {
+  it('records a payment for the balance when an invoice is marked paid', async () => {
+    const { db, invoices } = createShop();
+    const customer = await createCustomer(db);
+    const invoice = await invoices.createInvoice(USER_ID, {
+      customer_id: customer.id,
+      items: [{ name: 'Rice 5kg', quantity: 2, unit_price: 100, gst_rate: 18 }],
+    });
+
+    const paid = await invoices.updateStatus(USER_ID, invoice.id, 'paid', 'upi');
+
+    assert.equal(paid.status, 'paid');
+    assert.equal(paid.balance_due, 0);
+    assert.equal(paid.amount_paid, 236);
+    assert.equal((await db.getCustomer(USER_ID, customer.id)).outstanding_balance, 0);
+    const transactions = await db.getTransactions(USER_ID, {});
+    assert.deepEqual(transactions.map((t: any) => [t.amount, t.payment_type]), [[236, 'upi']]);
+  });
+
+  it('writes the balance off when cancelling and refuses to reopen', async () => {
+    const { db, invoices } = createShop();
+    const customer = await createCustomer(db);
+    const invoice = await invoices.createInvoice(USER_ID, {
+      customer_id: customer.id,
+      items: [{ name: 'Rice 5kg', quantity: 2, unit_price: 100, gst_rate: 18 }],
+    });
+
+    await invoices.updateStatus(USER_ID, invoice.id, 'cancelled');
+    assert.equal((await db.getCustomer(USER_ID, customer.id)).outstanding_balance, 0);
+
+    await assert.rejects(invoices.updateStatus(USER_ID, invoice.id, 'sent'), /cannot be reopened/);
+  });
+});
+
+describe('createSalesReturn', () => {
+  it('credits the return against what is still owed and restocks the goods', async () => {
+    const { db, invoices } = createShop();
+    const customer = await createCustomer(db);
+    const product = await createProduct(db, 10);
+    const invoice = await invoices.createInvoice(USER_ID, {
+      customer_id: customer.id,
+      deduct_stock: true,
+      items: [{ product_id: product.id, name: 'Rice 5kg', quantity: 2, unit_price: 100, gst_rate: 18 }],
+    });
+
+    const result = await invoices.createSalesReturn(USER_ID, {
+      invoice_id: invoice.id,
+      items: [{ product_id: product.id, quantity: 1 }],
+    });
+
+    assert.equal(result.credit_note.invoice_type, 'credit_note');
+    assert.equal(result.credit_note.total, 118);
+    assert.equal(result.adjusted_amount, 118);
+    assert.equal(result.original_invoice.balance_due, 118);
+    assert.equal(balanceDue(result.original_invoice), 118);
+    assert.equal((await db.getCustomer(USER_ID, customer.id)).outstanding_balance, 118);
+    assert.equal((await db.getProduct(USER_ID, product.id)).quantity, 9);
+  });
+
+  it('refuses to return more than was sold', async () => {
+    const { invoices } = createShop();
+    const invoice = await invoices.createInvoice(USER_ID, {
+      items: [{ name: 'Rice 5kg', quantity: 1, unit_price: 100, gst_rate: 18 }],
+    });
+
+    await assert.rejects(
+      invoices.createSalesReturn(USER_ID, { invoice_id: invoice.id, items: [{ name: 'Rice 5kg', quantity: 2 }], settlement: 'refund' }),
+      /can still be returned/
+    );
+  });
+
+  it('leaves only the balance after the credit note in pending payments', async () => {
+    const { db, invoices } = createShop();
+    const customer = await createCustomer(db);
+    const invoice = await invoices.createInvoice(USER_ID, {
+      customer_id: customer.id,
+      status: 'sent',
+      items: [{ name: 'Rice 5kg', quantity: 2, unit_price: 100, gst_rate: 18 }],
+    });
+    await invoices.createSalesReturn(USER_ID, { invoice_id: invoice.id, items: [{ name: 'Rice 5kg', quantity: 1 }] });
+
+    const pending = await new MSMEProductivityService(db).getPendingPayments({ user_id: USER_ID, status: 'all', sort_by: 'date' });
+
+    assert.deepEqual(pending.payments.map((p) => p.amount_due), [118]);
+  });
+});
+
+describe('convertDocument', () => {
+  it('converts a quotation only once, whatever the target', async () => {
+    const { invoices } = createShop();
+    const quotation = await invoices.createInvoice(USER_ID, {
+      invoice_type: 'quotation',
+      items: [{ name: 'Rice 5kg', quantity: 1, unit_price: 100, gst_rate: 18 }],
+    });
+
+    const { document: proforma } = await invoices.convertDocument(USER_ID, { document_id: quotation.id, target_type: 'proforma' });
+    await assert.rejects(
+      invoices.convertDocument(USER_ID, { document_id: quotation.id, target_type: 'invoice' }),
+      new RegExp(`convert ${proforma.invoice_number} instead`)
+    );
+
+    const { document: invoice } = await invoices.convertDocument(USER_ID, { document_id: proforma.id, target_type: 'invoice' });
+    assert.equal(invoice.invoice_type, 'invoice');
+    assert.equal(invoice.total, 118);
+  });
+});
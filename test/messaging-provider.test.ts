@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StubMessagingProvider, WhatsAppCloudProvider } from '../src/services/messaging-provider.js';
+
+const BODY = Buffer.from('The quick brown fox jumps over the lazy dog');
+// HMAC-SHA256 of BODY with the key "key"
+const SIGNATURE = 'sha256=f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8';
+
+function cloudProvider() {
+  return new WhatsAppCloudProvider({
+    phoneNumberId: '1234567890',
+    accessToken: 'token',
+    apiVersion: 'v21.0',
+    appSecret: 'key',
+    verifyToken: 'verify-me',
+  });
+}
+
+describe('webhook signatures', () => {
+  it('accepts a body signed with the app secret', () => {
+    assert.equal(cloudProvider().verifySignature(BODY, SIGNATURE), true);
+  });
+
+  it('refuses a changed body, another secret or a malformed header', () => {
+    const provider = cloudProvider();
+
+    assert.equal(provider.verifySignature(Buffer.from(`${BODY} `), SIGNATURE), false);
+    assert.equal(new StubMessagingProvider(undefined, 'other').verifySignature(BODY, SIGNATURE), false);
+    assert.equal(provider.verifySignature(BODY, undefined), false);
+    assert.equal(provider.verifySignature(BODY, SIGNATURE.slice('sha256='.length)), false);
+    assert.equal(provider.verifySignature(BODY, SIGNATURE.slice(0, -2)), false);
+  });
+
+  it('signs stub webhooks the same way, and refuses them all without a secret', () => {
+    assert.equal(new StubMessagingProvider(undefined, 'key').verifySignature(BODY, SIGNATURE), true);
+    assert.equal(new StubMessagingProvider().verifySignature(BODY, SIGNATURE), false);
+  });
+});
+
+describe('webhook subscription', () => {
+  it('echoes the challenge only for the configured verify token', () => {
+    const provider = cloudProvider();
+    const query = { 'hub.mode': 'subscribe', 'hub.verify_token': 'verify-me', 'hub.challenge': '1158201444' };
+
+    assert.equal(provider.verifySubscription(query), '1158201444');
+    assert.equal(provider.verifySubscription({ ...query, 'hub.verify_token': 'guess' }), null);
+  });
+});
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculateMSMEInterest, financialYearEnd, getMSMEPaymentTerms, parseCreditDays } from '../src/utils/msme.js';
+
+describe('calculateMSMEInterest', () => {
+  it('compounds monthly at three times the bank rate', () => {
+    assert.equal(calculateMSMEInterest(100000, 30), 1437.5);
+    // A month compounded, then half a month simple
+    assert.equal(calculateMSMEInterest(100000, 45, 6.5), 2450.7);
+  });
+
+  it('owes nothing when paid in time', () => {
+    assert.equal(calculateMSMEInterest(100000, 0), 0);
+    assert.equal(calculateMSMEInterest(0, 90), 0);
+  });
+});
+
+describe('getMSMEPaymentTerms', () => {
+  const accepted = new Date(2026, 0, 1);
+
+  it('allows 15 days without a written agreement', () => {
+    assert.deepEqual(getMSMEPaymentTerms(accepted, 100000, new Date(2026, 1, 15)), {
+      credit_days: 15,
+      pay_by: '2026-01-16',
+      days_late: 30,
+      status: 'past_15_days',
+      interest: 1437.5,
+    });
+  });
+
+  it('holds the buyer to the agreed days, never more than 45', () => {
+    const agreed = getMSMEPaymentTerms(accepted, 100000, new Date(2026, 1, 5), 30);
+    assert.equal(agreed.days_late, 5);
+    assert.equal(agreed.status, 'past_agreed_terms');
+
+    const capped = getMSMEPaymentTerms(accepted, 100000, new Date(2026, 2, 2), 60);
+    assert.equal(capped.credit_days, 45);
+    assert.equal(capped.pay_by, '2026-02-15');
+    assert.equal(capped.days_late, 15);
+    assert.equal(capped.status, 'past_45_days');
+    assert.equal(capped.interest, 718.75);
+  });
+
+  it('is within the limit until the credit period runs out', () => {
+    const terms = getMSMEPaymentTerms(accepted, 100000, new Date(2026, 0, 16));
+    assert.equal(terms.status, 'within_limit');
+    assert.equal(terms.interest, 0);
+  });
+});
+
+describe('parseCreditDays', () => {
+  it('reads the days out of free-text terms', () => {
+    assert.equal(parseCreditDays('Net 30'), 30);
+    assert.equal(parseCreditDays('45 days from delivery'), 45);
+    assert.equal(parseCreditDays('Advance payment'), 0);
+    assert.equal(parseCreditDays('COD'), 0);
+    assert.equal(parseCreditDays('on account'), undefined);
+  });
+});
+
+describe('financialYearEnd', () => {
+  it('ends the year on the 31st of March', () => {
+    assert.equal(financialYearEnd(new Date(2026, 2, 31)), '2026-03-31');
+    assert.equal(financialYearEnd(new Date(2026, 3, 1)), '2027-03-31');
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PaymentReconciliationService } from '../src/services/payment-reconciliation-service.js';
+import { USER_ID, createShop } from './setup.js';
+
+async function shopWithDues() {
+  const { db, invoices } = createShop();
+  const customer = await db.createCustomer(USER_ID, { name: 'Suresh Traders', phone: '9123456780', upi_id: 'suresh@okaxis' });
+  const sell = (quantity: number) => invoices.createInvoice(USER_ID, {
+    customer_id: customer.id,
+    status: 'sent',
+    items: [{ name: 'Rice 5kg', quantity, unit_price: 100, gst_rate: 18 }],
+  });
+  return { db, customer, first: await sell(2), second: await sell(1) };
+}
+
+function statement(rows: string[]) {
+  return ['Date,Narration,UTR,Amount,Cr/Dr', ...rows].join('\n');
+}
+
+describe('importStatement', () => {
+  it('pays an invoice the narration names, then the payer\'s invoice for the exact amount', async () => {
+    const { db, customer, first, second } = await shopWithDues();
+    const reconciliation = new PaymentReconciliationService(db);
+
+    const result = await reconciliation.importStatement({
+      user_id: USER_ID,
+      format: 'auto',
+      content: statement([
+        `05/10/2026,NEFT ${first.invoice_number.replace(/[/-]/g, '')} SURESH,628112345678,236.00,CR`,
+        '05/10/2026,UPI/suresh@okaxis/rice,628112345679,118.00,CR',
+        '05/10/2026,UPI/unknown@ybl,628112345680,500.00,CR',
+        '06/10/2026,Rent,628112345681,5000.00,DR',
+      ]),
+    });
+
+    assert.deepEqual(
+      result.matched.map((m) => [m.reference, m.matched_on, m.invoices.map((i) => [i.invoice_id, i.status])]),
+      [
+        ['628112345678', ['reference', 'amount'], [[first.id, 'paid']]],
+        ['628112345679', ['payer_vpa', 'amount'], [[second.id, 'paid']]],
+      ]
+    );
+    assert.deepEqual(result.review_queue.map((r) => [r.reference, r.reason]), [
+      ['628112345680', 'No open invoice matches the reference, payer or amount'],
+    ]);
+    assert.equal(result.message, '2 of 3 credits matched (₹354.00); 1 sent for review');
+    assert.equal((await db.getCustomer(USER_ID, customer.id)).outstanding_balance, 0);
+  });
+
+  it('queues a credit that only matches by amount, and skips credits already imported', async () => {
+    const { db, first } = await shopWithDues();
+    const reconciliation = new PaymentReconciliationService(db);
+    const content = statement(['05/10/2026,IMPS from a stranger,628112345690,236.00,CR']);
+
+    const result = await reconciliation.importStatement({ user_id: USER_ID, format: 'auto', content });
+    assert.equal(result.matched_count, 0);
+    assert.equal(result.review_queue[0].reason, 'Only the amount matches (1 open invoice)');
+    assert.deepEqual(result.review_queue[0].candidates.map((c) => c.invoice_id), [first.id]);
+
+    const again = await reconciliation.importStatement({ user_id: USER_ID, format: 'auto', content });
+    assert.deepEqual(again.duplicates, [{ line: 2, reference: '628112345690' }]);
+    assert.equal(again.review_count, 0);
+  });
+
+  it('sends an overpayment against a named invoice for review', async () => {
+    const { db, first } = await shopWithDues();
+
+    const result = await new PaymentReconciliationService(db).importStatement({
+      user_id: USER_ID,
+      format: 'auto',
+      content: statement([`05/10/2026,NEFT ${first.invoice_number},628112345691,300.00,CR`]),
+    });
+
+    assert.equal(result.review_queue[0].reason, `₹300.00 is more than the ₹236.00 due on ${first.invoice_number}`);
+    assert.equal((await db.getInvoice(USER_ID, first.id)).balance_due, 236);
+  });
+});
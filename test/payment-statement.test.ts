@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { mentionsDocument, parseStatement } from '../src/utils/payment-statement.js';
+
+const BANK_CSV = [
+  'Account No,50100012345678',
+  '',
+  'Date,Narration,Chq./Ref.No.,Value Dt,Withdrawal Amt.,Deposit Amt.,Closing Balance',
+  '05/10/26,UPI-SURESH TRADERS-suresh@okaxis-HDFC0001234-628112345678-INV2627 0001,0000628112345678,05/10/26,,236.00,"1,236.00"',
+  '06/10/26,POS AMAZON,0000123,06/10/26,500.00,,736.00',
+  'Closing balance,,,,,,736.00',
+].join('\n');
+
+const MT940 = [
+  ':20:STMT261005',
+  ':25:50100012345678',
+  ':28C:1/1',
+  ':60F:C261004INR1000,00',
+  ':61:2610051005C236,00NTRFNONREF//HDFC0001',
+  ':86:UPI/628112345678/suresh@okaxis/INV-26-27-0001',
+  ':61:2610061006D500,00NTRFNONREF',
+  ':86:POS AMAZON',
+  ':62F:C261006INR736,00',
+].join('\n');
+
+describe('parseStatement', () => {
+  it('reads a bank CSV by its headings, below the account details', () => {
+    const statement = parseStatement(BANK_CSV);
+
+    assert.equal(statement.format, 'csv');
+    assert.deepEqual(statement.entries, [
+      {
+        line: 4,
+        date: '2026-10-05',
+        amount: 236,
+        direction: 'credit',
+        reference: '0000628112345678',
+        payer_name: undefined,
+        payer_vpa: 'suresh@okaxis',
+        narration: 'UPI-SURESH TRADERS-suresh@okaxis-HDFC0001234-628112345678-INV2627 0001',
+      },
+      {
+        line: 5,
+        date: '2026-10-06',
+        amount: 500,
+        direction: 'debit',
+        reference: '0000123',
+        payer_name: undefined,
+        payer_vpa: undefined,
+        narration: 'POS AMAZON',
+      },
+    ]);
+    assert.deepEqual(statement.warnings, []);
+  });
+
+  it('reads a PSP export with a signed amount column and skips failed payments', () => {
+    const statement = parseStatement([
+      'Transaction Date\tPayer VPA\tPayer Name\tAmount\tUTR\tStatus',
+      '05-Oct-2026\tRamesh.K@okicici\tRamesh K\t₹ 1,180.00\t628112345679\tSUCCESS',
+      '05-Oct-2026\tramesh.k@okicici\tRamesh K\t₹ 1,180.00\t628112345680\tFAILED',
+      '06-Oct-2026\t\t\t-200.00\t628112345681\tSUCCESS',
+    ].join('\n'));
+
+    assert.deepEqual(
+      statement.entries.map((e) => [e.date, e.amount, e.direction, e.reference, e.payer_vpa, e.payer_name]),
+      [
+        ['2026-10-05', 1180, 'credit', '628112345679', 'ramesh.k@okicici', 'Ramesh K'],
+        ['2026-10-06', 200, 'debit', '628112345681', undefined, undefined],
+      ]
+    );
+  });
+
+  it('detects MT940 and takes the RRN and payer VPA from the :86: details', () => {
+    const statement = parseStatement(MT940);
+
+    assert.equal(statement.format, 'mt940');
+    assert.deepEqual(statement.entries, [
+      {
+        line: 1,
+        date: '2026-10-05',
+        amount: 236,
+        direction: 'credit',
+        reference: '628112345678',
+        payer_vpa: 'suresh@okaxis',
+        narration: 'UPI/628112345678/suresh@okaxis/INV-26-27-0001',
+      },
+      {
+        line: 2,
+        date: '2026-10-06',
+        amount: 500,
+        direction: 'debit',
+        reference: undefined,
+        payer_vpa: undefined,
+        narration: 'POS AMAZON',
+      },
+    ]);
+    assert.deepEqual(statement.warnings, []);
+  });
+
+  it('refuses a file without a header row', () => {
+    assert.throws(() => parseStatement('hello,world'), /Could not find the statement header row/);
+  });
+});
+
+describe('mentionsDocument', () => {
+  it('finds a document number with or without its separators', () => {
+    assert.equal(mentionsDocument('UPI-628112345678-INV25260001', 'INV/25-26/0001'), true);
+    assert.equal(mentionsDocument('NEFT INV2526 0001 SURESH', 'INV/25-26/0001'), true);
+    assert.equal(mentionsDocument('NEFT INV/25-26/00012', 'INV/25-26/0001'), false);
+    assert.equal(mentionsDocument('SINV/25-26/0001', 'INV/25-26/0001'), false);
+  });
+});
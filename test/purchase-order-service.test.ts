@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PurchaseOrderService } from '../src/services/purchase-order-service.js';
+import { createPurchaseOrderSchema } from '../src/tools/purchase-orders.js';
+import { USER_ID, createProduct, createShop } from './setup.js';
+
+async function orderRice(quantity: number) {
+  const { db } = createShop();
+  const orders = new PurchaseOrderService(db);
+  const product = await createProduct(db, 0);
+  const supplier = await db.createSupplier(USER_ID, { name: 'Agro Mills', phone: '9988776655' });
+  const order = await orders.createPurchaseOrder(createPurchaseOrderSchema.parse({
+    user_id: USER_ID,
+    supplier_id: supplier.id,
+    items: [{ product_id: product.id, name: 'Rice 5kg', quantity, unit_price: 80, gst_rate: 5 }],
+  }));
+  return { db, orders, product, order };
+}
+
+describe('receivePurchaseOrder', () => {
+  it('adds partial receipts to stock until the order is received', async () => {
+    const { db, orders, product, order } = await orderRice(10);
+
+    const first = await orders.receivePurchaseOrder({
+      user_id: USER_ID,
+      purchase_order_id: order.id,
+      items: [{ product_id: product.id, quantity: 4 }],
+    });
+    assert.equal(first.purchase_order.status, 'partially_received');
+
+    const rest = await orders.receivePurchaseOrder({ user_id: USER_ID, purchase_order_id: order.id });
+    assert.equal(rest.purchase_order.status, 'received');
+    assert.equal((await db.getProduct(USER_ID, product.id)).quantity, 10);
+  });
+
+  it('adds the goods only once when two receipts arrive together', async () => {
+    const { db, orders, product, order } = await orderRice(10);
+    const receive = () => orders.receivePurchaseOrder({ user_id: USER_ID, purchase_order_id: order.id });
+
+    const results = await Promise.allSettled([receive(), receive()]);
+
+    assert.deepEqual(results.map((r) => r.status).sort(), ['fulfilled', 'rejected']);
+    assert.equal((await db.getProduct(USER_ID, product.id)).quantity, 10);
+  });
+
+  it('refuses a receipt for a product no longer in inventory before saving it', async () => {
+    const { db } = createShop();
+    const orders = new PurchaseOrderService(db);
+    const product = await createProduct(db, 0);
+    const supplier = await db.createSupplier(USER_ID, { name: 'Agro Mills', phone: '9988776655' });
+    const order = await orders.createPurchaseOrder(createPurchaseOrderSchema.parse({
+      user_id: USER_ID,
+      supplier_id: supplier.id,
+      items: [
+        { product_id: product.id, name: 'Rice 5kg', quantity: 10, unit_price: 80, gst_rate: 5 },
+        { product_id: 'deleted-product', name: 'Toor Dal 1kg', quantity: 5, unit_price: 120, gst_rate: 5 },
+      ],
+    }));
+
+    await assert.rejects(
+      orders.receivePurchaseOrder({ user_id: USER_ID, purchase_order_id: order.id }),
+      /"Toor Dal 1kg" is no longer in inventory/
+    );
+    assert.equal((await db.getPurchaseOrder(USER_ID, order.id)).status, 'draft');
+    assert.equal((await db.getProduct(USER_ID, product.id)).quantity, 0);
+  });
+});
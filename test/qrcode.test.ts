@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildBharatQRPayload, buildUPIString, parseBharatQR, parseUPIString } from '../src/utils/qrcode.js';
+
+describe('BharatQR', () => {
+  it('ends a static payload with its CRC-16/CCITT-FALSE', () => {
+    assert.equal(
+      buildBharatQRPayload({ payee_upi_id: 'ramesh@okaxis', payee_name: 'Ramesh Store', amount: 0 }),
+      '00020101021126370016A0000006770101110113ramesh@okaxis5204000053033565802IN5912Ramesh Store6005India63046DBE'
+    );
+  });
+
+  it('reads back every field it writes', () => {
+    const request = {
+      payee_upi_id: 'ramesh@okaxis',
+      payee_name: 'Ramesh Store',
+      amount: 236,
+      transaction_note: 'Rice and dal',
+      transaction_ref: 'INV26270001',
+      transaction_id: 'TID0001',
+      merchant_code: '5411',
+      url: 'https://shop.example/i/1',
+      min_amount: 200,
+      merchant_city: 'Mumbai',
+      postal_code: '400001',
+    };
+
+    assert.deepEqual(parseUPIString(buildBharatQRPayload(request)), {
+      ...request,
+      format: 'bharatqr',
+      currency: 'INR',
+      card_networks: undefined,
+      initiation: 'dynamic',
+    });
+  });
+
+  it('rejects a payload that was changed or misread', () => {
+    const payload = buildBharatQRPayload({ payee_upi_id: 'ramesh@okaxis', payee_name: 'Ramesh Store', amount: 236 });
+
+    assert.throws(() => parseBharatQR(payload.replace('236.00', '936.00')), /CRC mismatch \(expected [0-9A-F]{4}\)/);
+    assert.throws(() => parseBharatQR(payload.slice(0, -8)), /has no CRC/);
+    assert.equal(parseBharatQR(payload.slice(0, -4) + payload.slice(-4).toLowerCase()).amount, 236);
+  });
+
+  it('refuses a card-only standee', () => {
+    const cardOnly = '000201010211021640987654321012345204541153033565802IN5912Ramesh Store6006Mumbai63046D8F';
+
+    assert.throws(() => parseBharatQR(cardOnly), /no UPI VPA; it only takes card payments/);
+  });
+});
+
+describe('upi://pay links', () => {
+  it('lists parameters in the specification order and parses them back', () => {
+    const link = buildUPIString({
+      payee_upi_id: 'ramesh@okaxis',
+      payee_name: 'Ramesh Store',
+      amount: 236,
+      transaction_note: 'INV/26-27/0001',
+      transaction_ref: 'INV26270001',
+      merchant_code: '5411',
+    });
+
+    assert.equal(link, 'upi://pay?pa=ramesh%40okaxis&pn=Ramesh+Store&mc=5411&tr=INV26270001&tn=INV%2F26-27%2F0001&am=236.00&cu=INR');
+    assert.deepEqual(parseUPIString(link), {
+      format: 'upi',
+      payee_upi_id: 'ramesh@okaxis',
+      payee_name: 'Ramesh Store',
+      amount: 236,
+      transaction_note: 'INV/26-27/0001',
+      transaction_ref: 'INV26270001',
+      merchant_code: '5411',
+      transaction_id: undefined,
+      url: undefined,
+      min_amount: undefined,
+      mode: undefined,
+      org_id: undefined,
+      sign: undefined,
+      currency: 'INR',
+    });
+    assert.equal(parseUPIString('https://example.com/pay'), null);
+  });
+});
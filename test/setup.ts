@@ -0,0 +1,23 @@
+import { InMemoryService } from '../src/services/in-memory-service.js';
+import { InvoiceService } from '../src/services/invoice-service.js';
+import type { Product } from '../src/types/index.js';
+
+export const USER_ID = 'u1';
+
+/**
+ * A fresh in-memory backend with one GST-registered shop in Maharashtra
+ */
+export function createShop() {
+  const db = new InMemoryService({
+    users: [{ id: USER_ID, name: 'Ramesh', shop_name: 'Ramesh Store', phone: '9876543210', gst_number: '27AAPFU0939F1ZV' }],
+  });
+  return { db, invoices: new InvoiceService(db) };
+}
+
+export async function createCustomer(db: InMemoryService) {
+  return await db.createCustomer(USER_ID, { name: 'Suresh Traders', phone: '9123456780', gst_number: '27AABCU9603R1ZN' });
+}
+
+export async function createProduct(db: InMemoryService, quantity: number, product: Partial<Product> = {}): Promise<Product> {
+  return await db.createProduct(USER_ID, { name: 'Rice 5kg', category: 'rice', unit: 'bag', price: 100, gst_rate: 18, quantity, ...product });
+}
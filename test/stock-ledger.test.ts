@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { USER_ID, createCustomer, createProduct, createShop } from './setup.js';
+
+describe('stock ledger', () => {
+  it('records a movement with the running quantity for every change', async () => {
+    const { db } = createShop();
+    const product = await createProduct(db, 10);
+
+    await db.updateStock(USER_ID, product.id, 4, 'subtract', { reason: 'sale' });
+    await db.updateStock(USER_ID, product.id, 6, 'add', { reason: 'purchase' });
+    await db.updateStock(USER_ID, product.id, 7, 'set', { reason: 'adjustment', notes: 'Stock count' });
+
+    const movements = await db.getStockMovements(USER_ID, product.id);
+    assert.deepEqual(
+      movements.map((m: any) => [m.reason, m.quantity_change, m.quantity_after]),
+      [['adjustment', -5, 7], ['purchase', 6, 12], ['sale', -4, 6], ['adjustment', 10, 10]]
+    );
+    assert.equal((await db.getProduct(USER_ID, product.id)).quantity, 7);
+  });
+
+  it('refuses to take stock below zero', async () => {
+    const { db } = createShop();
+    const product = await createProduct(db, 3);
+
+    await assert.rejects(db.updateStock(USER_ID, product.id, 4, 'subtract'), /Not enough stock of Rice 5kg: only 3 bag available/);
+    await assert.rejects(db.updateStock(USER_ID, product.id, -1, 'set'), /Not enough stock/);
+
+    assert.equal((await db.getProduct(USER_ID, product.id)).quantity, 3);
+    assert.equal((await db.getStockMovements(USER_ID, product.id)).length, 1);
+  });
+
+  it('deducts sold quantities against the invoice', async () => {
+    const { db, invoices } = createShop();
+    const product = await createProduct(db, 10);
+
+    const invoice = await invoices.createInvoice(USER_ID, {
+      deduct_stock: true,
+      items: [{ product_id: product.id, name: 'Rice 5kg', quantity: 3, unit_price: 100, gst_rate: 18 }],
+    });
+
+    const [sale] = await db.getStockMovements(USER_ID, product.id, { reason: 'sale' });
+    assert.equal(sale.quantity_change, -3);
+    assert.equal(sale.reference_id, invoice.id);
+    assert.equal((await db.getProduct(USER_ID, product.id)).quantity, 7);
+  });
+
+  it('refuses an oversold invoice before anything is saved', async () => {
+    const { db, invoices } = createShop();
+    const product = await createProduct(db, 5);
+
+    // The same product on two lines counts against the stock together
+    await assert.rejects(
+      invoices.createInvoice(USER_ID, {
+        deduct_stock: true,
+        items: [
+          { product_id: product.id, name: 'Rice 5kg', quantity: 3, unit_price: 100, gst_rate: 18 },
+          { product_id: product.id, name: 'Rice 5kg', quantity: 3, unit_price: 90, gst_rate: 18 },
+        ],
+      }),
+      /Cannot deduct stock/
+    );
+
+    assert.deepEqual(await db.getInvoices(USER_ID, {}), []);
+    assert.equal((await db.getProduct(USER_ID, product.id)).quantity, 5);
+  });
+
+  it('puts the stock back when a line runs out after the check', async () => {
+    const { db, invoices } = createShop();
+    const customer = await createCustomer(db);
+    const rice = await createProduct(db, 5);
+    const dal = await createProduct(db, 5, { name: 'Toor Dal 1kg' });
+
+    // Another sale takes the last dal between the stock check and the deduction
+    const updateStock = db.updateStock.bind(db);
+    db.updateStock = async (userId, productId, quantity, operation, movement) => {
+      if (productId === dal.id && operation === 'subtract') await updateStock(userId, dal.id, 5, 'subtract', { reason: 'sale' });
+      return await updateStock(userId, productId, quantity, operation, movement);
+    };
+
+    await assert.rejects(
+      invoices.createInvoice(USER_ID, {
+        customer_id: customer.id,
+        deduct_stock: true,
+        items: [
+          { product_id: rice.id, name: 'Rice 5kg', quantity: 2, unit_price: 100, gst_rate: 18 },
+          { product_id: dal.id, name: 'Toor Dal 1kg', quantity: 1, unit_price: 150, gst_rate: 5 },
+        ],
+      }),
+      /Not enough stock of Toor Dal 1kg/
+    );
+
+    assert.deepEqual(await db.getInvoices(USER_ID, {}), []);
+    assert.equal((await db.getProduct(USER_ID, rice.id)).quantity, 5);
+    assert.equal((await db.getCustomer(USER_ID, customer.id)).outstanding_balance, 0);
+  });
+
+  it('puts the stock back when the invoice cannot be saved', async () => {
+    const { db, invoices } = createShop();
+    const product = await createProduct(db, 5);
+    const sell = () => invoices.createInvoice(USER_ID, {
+      deduct_stock: true,
+      items: [{ product_id: product.id, name: 'Rice 5kg', quantity: 2, unit_price: 100, gst_rate: 18 }],
+    });
+    const first = await sell();
+
+    // The numbering series hands out a number that is already taken
+    db.getNextInvoiceNumber = async () => first.invoice_number;
+
+    await assert.rejects(sell(), /already exists/);
+
+    assert.equal((await db.getProduct(USER_ID, product.id)).quantity, 3);
+    const [reversal] = await db.getStockMovements(USER_ID, product.id, { reason: 'adjustment', limit: 1 });
+    assert.equal(reversal.quantity_change, 2);
+  });
+});